@@ -0,0 +1,274 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Layers, AlertCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { useSmartWallet } from "@/app/hooks/useSmartWallet";
+import { useAddLiquidity } from "@/app/hooks/useAddLiquidity";
+import { AmountToken, TokenAmount, formatAmount, tryParseAmount } from "@/lib/amounts";
+import { DEFAULT_DEADLINE_MINUTES, DEFAULT_SLIPPAGE_PERCENT } from "@/lib/swap-execution";
+import { TOKENS, findPoolsAcrossFeeTiers, sqrtPriceX96ToPrice, tickToPrice } from "@/lib/uniswap-v3-utils";
+import {
+  MintPreview,
+  SnappedRange,
+  V3PoolPriceState,
+  fullRange,
+  getPoolPriceState,
+  getPoolToken,
+  previewMint,
+  snapPriceRange,
+} from "@/lib/uniswap-v3-liquidity";
+
+// Default range when a pool is picked: current price ±20%
+const DEFAULT_RANGE_PERCENT = 20;
+
+const toPoolToken = (address: string): AmountToken => getPoolToken(11155111, address);
+
+export default function AddLiquidity() {
+  const { smartWalletAddress } = useSmartWallet();
+  const { mint, status, result, reset } = useAddLiquidity();
+  const [pools, setPools] = useState<{ fee: number; poolAddress?: `0x${string}` }[]>([]);
+  const [pool, setPool] = useState<V3PoolPriceState | null>(null);
+  const [isLoadingPool, setIsLoadingPool] = useState(false);
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [depositToken0, setDepositToken0] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [slippagePercent, setSlippagePercent] = useState(DEFAULT_SLIPPAGE_PERCENT);
+
+  const selectPool = useCallback(async (poolAddress: `0x${string}`) => {
+    setIsLoadingPool(true);
+    reset();
+    try {
+      const state = await getPoolPriceState(11155111, poolAddress);
+      const token0 = toPoolToken(state.token0);
+      const token1 = toPoolToken(state.token1);
+      const price = sqrtPriceX96ToPrice(state.sqrtPriceX96, token0.decimals, token1.decimals);
+      setPool(state);
+      setMinPrice((price * (1 - DEFAULT_RANGE_PERCENT / 100)).toPrecision(6));
+      setMaxPrice((price * (1 + DEFAULT_RANGE_PERCENT / 100)).toPrecision(6));
+    } catch (error) {
+      console.error('❌ Failed to load pool:', error);
+      setPool(null);
+    } finally {
+      setIsLoadingPool(false);
+    }
+  }, [reset]);
+
+  useEffect(() => {
+    findPoolsAcrossFeeTiers(TOKENS.USDC.address, TOKENS.COPE.address)
+      .then(found => {
+        setPools(found);
+        const first = found.find(candidate => candidate.poolAddress);
+        if (first?.poolAddress) selectPool(first.poolAddress);
+      })
+      .catch(error => console.error('❌ Failed to find USDC/COPe pools:', error));
+  }, [selectPool]);
+
+  if (!smartWalletAddress) {
+    return null;
+  }
+
+  const token0 = pool ? toPoolToken(pool.token0) : undefined;
+  const token1 = pool ? toPoolToken(pool.token1) : undefined;
+  const currentPrice = pool && token0 && token1
+    ? sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals)
+    : undefined;
+
+  let range: SnappedRange | undefined;
+  let rangeError: string | undefined;
+  if (pool && token0 && token1) {
+    try {
+      range = snapPriceRange(parseFloat(minPrice), parseFloat(maxPrice), token0.decimals, token1.decimals, pool.tickSpacing);
+    } catch (error) {
+      rangeError = error instanceof Error ? error.message : 'Invalid price range';
+    }
+  }
+
+  const depositToken = depositToken0 ? token0 : token1;
+  const depositAmount = depositToken ? tryParseAmount(amount, depositToken) : undefined;
+
+  let preview: MintPreview | undefined;
+  let previewError: string | undefined;
+  if (pool && range && token0 && token1 && depositAmount && depositAmount.raw > BigInt(0)) {
+    try {
+      preview = previewMint(pool, range, depositAmount, { token0, token1 });
+    } catch (error) {
+      previewError = error instanceof Error ? error.message : 'Cannot preview deposit';
+    }
+  }
+
+  const handleFullRange = () => {
+    if (!pool || !token0 || !token1) return;
+    const full = fullRange(pool.tickSpacing);
+    setMinPrice(tickToPrice(full.tickLower, token0.decimals, token1.decimals).toPrecision(6));
+    setMaxPrice(tickToPrice(full.tickUpper, token0.decimals, token1.decimals).toPrecision(6));
+  };
+
+  const handleMint = async () => {
+    if (!pool || !range || !preview || !depositAmount) return;
+
+    // The typed amount is deposited exactly; the other side is what the pool takes for that liquidity
+    const desired = (amountFor: TokenAmount) =>
+      amountFor.token.address === depositAmount.token.address ? depositAmount : amountFor;
+
+    const minted = await mint({
+      pool,
+      range,
+      amount0Desired: desired(preview.amount0),
+      amount1Desired: desired(preview.amount1),
+      slippagePercent,
+      deadlineMinutes: DEFAULT_DEADLINE_MINUTES,
+      recipient: smartWalletAddress as `0x${string}`,
+    });
+
+    if (minted) {
+      setAmount("");
+      selectPool(pool.poolAddress);
+    }
+  };
+
+  return (
+    <Card id="add-liquidity">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Add Liquidity (USDC / COPe V3)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Pool (fee tier) */}
+        <div className="grid grid-cols-4 gap-2 text-xs">
+          {pools.map(candidate => (
+            <Button
+              key={candidate.fee}
+              variant={candidate.poolAddress && candidate.poolAddress === pool?.poolAddress ? "default" : "outline"}
+              size="sm"
+              disabled={!candidate.poolAddress || isLoadingPool}
+              onClick={() => candidate.poolAddress && selectPool(candidate.poolAddress)}
+              title={candidate.poolAddress ?? "No pool"}
+            >
+              {candidate.fee / 10000}%
+            </Button>
+          ))}
+        </div>
+
+        {isLoadingPool && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <RefreshCw className="w-4 h-4 animate-spin" />
+            Loading pool...
+          </div>
+        )}
+
+        {pool && token0 && token1 && currentPrice !== undefined && (
+          <>
+            <div className="text-sm text-gray-600 dark:text-gray-300">
+              Current price: <span className="font-mono">{currentPrice.toPrecision(6)}</span> {token1.symbol} per {token0.symbol}
+              <span className="text-xs text-gray-500"> • tick {pool.tick} • spacing {pool.tickSpacing}</span>
+            </div>
+
+            {/* Price range, snapped to the pool's tick spacing */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-gray-500">Min price ({token1.symbol}/{token0.symbol})</label>
+                <Input type="number" step="any" value={minPrice} onChange={(e) => setMinPrice(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">Max price ({token1.symbol}/{token0.symbol})</label>
+                <Input type="number" step="any" value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              {range ? (
+                <span>
+                  Snapped to ticks {range.tickLower} → {range.tickUpper} (
+                  {tickToPrice(range.tickLower, token0.decimals, token1.decimals).toPrecision(6)} –{" "}
+                  {tickToPrice(range.tickUpper, token0.decimals, token1.decimals).toPrecision(6)})
+                </span>
+              ) : (
+                <span className="text-red-600">{rangeError}</span>
+              )}
+              <Button variant="ghost" size="sm" onClick={handleFullRange}>Full range</Button>
+            </div>
+
+            {/* Deposit amount for one side; the other side follows from the range */}
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Amount of ${depositToken?.symbol}`}
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value);
+                  reset();
+                }}
+              />
+              <select
+                value={depositToken0 ? "0" : "1"}
+                onChange={(e) => setDepositToken0(e.target.value === "0")}
+                className="border rounded-md px-2 bg-transparent"
+              >
+                <option value="0">{token0.symbol}</option>
+                <option value="1">{token1.symbol}</option>
+              </select>
+            </div>
+
+            {preview && (
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm space-y-1">
+                <div>Deposit {formatAmount(preview.amount0)} {token0.symbol} + {formatAmount(preview.amount1)} {token1.symbol}</div>
+                <div className="text-xs text-gray-500">
+                  Liquidity {preview.liquidity.toString()}
+                  {!preview.inRange && " • range is outside the current price, single-sided deposit"}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span>Slippage %</span>
+              <Input
+                type="number"
+                step="0.1"
+                min="0"
+                value={slippagePercent}
+                onChange={(e) => setSlippagePercent(parseFloat(e.target.value) || 0)}
+                className="w-20 h-7 text-xs"
+              />
+            </div>
+          </>
+        )}
+
+        {(previewError || status.error) && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {previewError || status.error}
+          </div>
+        )}
+
+        <Button className="w-full" onClick={handleMint} disabled={!preview || status.isLoading}>
+          {status.isLoading ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : null}
+          {status.isLoading
+            ? status.stage === 'confirming' ? "Confirming..." : "Adding liquidity..."
+            : "Add liquidity"}
+        </Button>
+
+        {status.transactionHash && (
+          <a
+            href={`https://sepolia.etherscan.io/tx/${status.transactionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-sm text-green-600 hover:underline"
+          >
+            {result?.tokenId !== undefined ? `✅ Position #${result.tokenId.toString()} minted` : "Transaction sent"}
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Approvals and mint are sent together as one sponsored user operation
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,34 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { formatUnits, parseUnits } from "viem";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ArrowUpDown, Zap, AlertCircle, ExternalLink, RefreshCw, TrendingUp, Info } from "lucide-react";
 import { useSmartWallet } from "@/app/hooks/useSmartWallet";
-import { useSponsoredTransactions } from "@/app/hooks/useSponsoredTransactions";
-import { fetchAllBalances } from "@/lib/blockchain";
+import { useSwapExecution } from "@/app/hooks/useSwapExecution";
+import { useCustomTokens } from "@/app/hooks/useCustomTokens";
+import { fetchAllBalances, TokenBalance } from "@/lib/blockchain";
+import { AmountToken, TokenAmount, tryParseAmount, compareAmounts, applySlippage, formatAmount } from "@/lib/amounts";
+import { getTokensByTag } from "@/lib/chains";
+import { DEFAULT_DEADLINE_MINUTES, DEFAULT_SLIPPAGE_PERCENT } from "@/lib/swap-execution";
 import { 
   TOKENS, 
   POOL_INFO, 
-  UNISWAP_CONTRACTS,
   getSwapQuote,
   getPoolState,
-  checkAllowance,
-  buildApproveCallData,
-  buildSwapCallData
+  getExactOutputSwapQuote,
+  V3_FEE_TIERS,
+  FeeTierQuote,
+  PriceImpactBreakdown,
+  TradeType,
+  computePriceImpact,
+  findPoolsAcrossFeeTiers
 } from "@/lib/uniswap-v3-utils";
+import { V3PoolSnapshot, loadPoolSnapshot, simulateAcrossSnapshots } from "@/lib/uniswap-v3-simulator";
+import { SwapRoute, buildCandidateRoutes, getExactOutputQuote, getMultiHopQuote } from "@/lib/uniswap-integration";
 import TokenIcon from "./token-icon";
-import { parseUnits } from "viem";
 
 // Your actual V3 pool information from Sepolia
 const ACTUAL_V3_POOL = {
@@ -38,33 +47,82 @@ const UPDATED_POOL_INFO = {
   token1: TOKENS.COPE
 };
 
-interface TokenBalance {
+interface SwapToken {
+  address: `0x${string}`;
+  decimals: number;
   symbol: string;
-  balance: string;
-  formattedBalance: string;
-  contract?: string;
+  isCustom?: boolean;
+  possibleImpersonation?: boolean;
 }
 
+const toAmountToken = (token: SwapToken): AmountToken => ({
+  symbol: token.symbol,
+  decimals: token.decimals,
+  address: token.address,
+  chainId: 11155111,
+});
+
+// Price impact above which the swap needs explicit confirmation
+const HIGH_PRICE_IMPACT_PERCENT = 5;
+
+// Local quotes are only trusted against pool snapshots this fresh
+const SNAPSHOT_MAX_AGE_MS = 60 * 1000;
+
+// Exact amount typed for a token, undefined while the input is invalid
+const toSwapAmount = (value: string, token: SwapToken): TokenAmount | undefined => {
+  return tryParseAmount(value, toAmountToken(token));
+};
+
 interface PoolState {
   price: number;
   tick: number;
   liquidity: string;
 }
 
+// Best direct-pool quote; `quoted` is the computed side: output for exact input, input for exact output
+interface DirectQuote {
+  quoted: bigint;
+  fee: number;
+  tiers: FeeTierQuote[];
+  priceImpact: PriceImpactBreakdown;
+  source: 'local' | 'quoter';
+}
+
+// Multi-hop route a quote was routed through; the path is output token first for exact output
+interface QuotedRoute {
+  path: `0x${string}`;
+  label: string;
+}
+
+// Best multi-hop quote; `quoted` is the computed side, as for DirectQuote
+interface RouteQuote extends QuotedRoute {
+  quoted: bigint;
+}
+
 export default function CustomSwap() {
   const { smartWalletAddress, client } = useSmartWallet();
-  const { sendSponsoredTransaction, status, reset } = useSponsoredTransactions();
+  const { executeSwap, status, result, reset } = useSwapExecution();
   
-  const [fromToken, setFromToken] = useState(TOKENS.USDC);
-  const [toToken, setToToken] = useState(TOKENS.COPE);
+  const { customTokens } = useCustomTokens();
+  const [fromToken, setFromToken] = useState<SwapToken>(TOKENS.USDC);
+  const [toToken, setToToken] = useState<SwapToken>(TOKENS.COPE);
   const [fromAmount, setFromAmount] = useState("");
   const [toAmount, setToAmount] = useState("");
+  const [tradeType, setTradeType] = useState<TradeType>('exactInput');
+  const [quoteFee, setQuoteFee] = useState<number | null>(null);
+  const [quoteRoute, setQuoteRoute] = useState<QuotedRoute | null>(null);
+  const [feeTierQuotes, setFeeTierQuotes] = useState<FeeTierQuote[]>([]);
+  const [priceImpact, setPriceImpact] = useState<PriceImpactBreakdown | null>(null);
+  const [quoteSource, setQuoteSource] = useState<'local' | 'quoter' | null>(null);
+  const [poolSnapshots, setPoolSnapshots] = useState<V3PoolSnapshot[]>([]);
+  const [routeCandidates, setRouteCandidates] = useState<SwapRoute[]>([]);
   const [balances, setBalances] = useState<TokenBalance[]>([]);
   const [poolState, setPoolState] = useState<PoolState | null>(null);
   const [isLoadingBalances, setIsLoadingBalances] = useState(false);
   const [isLoadingQuote, setIsLoadingQuote] = useState(false);
   const [isLoadingPoolState, setIsLoadingPoolState] = useState(false);
-  const [needsApproval, setNeedsApproval] = useState(false);
+  const [slippagePercent, setSlippagePercent] = useState(DEFAULT_SLIPPAGE_PERCENT);
+  const [deadlineMinutes, setDeadlineMinutes] = useState(DEFAULT_DEADLINE_MINUTES);
 
   // Fetch token balances and pool state from your actual V3 pool
   const fetchData = useCallback(async () => {
@@ -105,43 +163,259 @@ export default function CustomSwap() {
     }
   }, [fetchData, smartWalletAddress, client]);
 
-  // Get balance for a specific token
-  const getTokenBalance = (tokenSymbol: string): string => {
-    const balance = balances.find(b => b.symbol === tokenSymbol);
-    return balance ? balance.balance : "0";
+  // Snapshot every fee tier's pool for the pair so quotes can be simulated without QuoterV2.
+  // All or nothing: a local quote that skipped a tier could miss its best price.
+  const loadSnapshots = useCallback(async () => {
+    try {
+      const pools = await findPoolsAcrossFeeTiers(fromToken.address, toToken.address);
+      const snapshots = await Promise.all(pools
+        .filter(pool => pool.poolAddress)
+        .map(pool => loadPoolSnapshot(11155111, pool.poolAddress as `0x${string}`)));
+
+      setPoolSnapshots(snapshots);
+    } catch (error) {
+      console.warn('⚠️ Pool snapshots unavailable, quoting through QuoterV2:', error);
+      setPoolSnapshots([]);
+    }
+  }, [fromToken.address, toToken.address]);
+
+  useEffect(() => {
+    setPoolSnapshots([]);
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  // Two-hop routes through the routing tokens, looked up once per pair and quoted next to the direct pools.
+  // Route quotes take decimals from the token registry, so imported tokens are only swapped directly.
+  const loadRoutes = useCallback(async () => {
+    if (fromToken.isCustom || toToken.isCustom) {
+      setRouteCandidates([]);
+      return;
+    }
+
+    try {
+      const routes = await buildCandidateRoutes(11155111, fromToken.address, toToken.address);
+      setRouteCandidates(routes.filter(route => route.tokens.length > 2));
+    } catch (error) {
+      console.warn('⚠️ Multi-hop routes unavailable, quoting the direct pools only:', error);
+      setRouteCandidates([]);
+    }
+  }, [fromToken.address, toToken.address, fromToken.isCustom, toToken.isCustom]);
+
+  useEffect(() => {
+    setRouteCandidates([]);
+    loadRoutes();
+  }, [loadRoutes]);
+
+  // Swappable registry tokens plus visible imported tokens on Sepolia
+  const swapTokenOptions: SwapToken[] = [
+    ...getTokensByTag(11155111, 'swappable').map(token => ({
+      address: token.address as `0x${string}`,
+      decimals: token.decimals,
+      symbol: token.symbol,
+    })),
+    ...customTokens
+      .filter(token => token.chainId === 11155111 && !token.hidden)
+      .map(token => ({
+        address: token.address as `0x${string}`,
+        decimals: token.decimals,
+        symbol: token.symbol,
+        isCustom: true,
+        possibleImpersonation: token.possibleImpersonation,
+      })),
+  ];
+
+  // Balances are matched by contract so imported tokens never borrow a registry balance
+  const findBalance = (token: SwapToken) =>
+    balances.find(b => b.contract?.toLowerCase() === token.address.toLowerCase());
+
+  const getTokenBalance = (token: SwapToken): string => {
+    return findBalance(token)?.balance ?? "0";
   };
 
-  const getFormattedBalance = (tokenSymbol: string): string => {
-    const balance = balances.find(b => b.symbol === tokenSymbol);
-    return balance ? balance.formattedBalance : "0.00";
+  // Most the swap can take from the wallet: the typed input, or the quoted input plus slippage for exact output
+  const getSpendAmount = (): TokenAmount | undefined => {
+    const amountIn = toSwapAmount(fromAmount, fromToken);
+    if (!amountIn || tradeType === 'exactInput') return amountIn;
+    return applySlippage(amountIn, slippagePercent, 'max');
   };
 
-  // Get real-time quote from your V3 pool
+  // True when the amount is positive and within the exact wallet balance
+  const hasSufficientBalance = (amount: TokenAmount | undefined, token: SwapToken): boolean => {
+    const balance = findBalance(token)?.amount;
+    if (!amount || !balance || amount.raw === BigInt(0)) return false;
+    return compareAmounts(amount, balance) <= 0;
+  };
+
+  const getFormattedBalance = (token: SwapToken): string => {
+    return findBalance(token)?.formattedBalance ?? "0.00";
+  };
+
+  const selectToken = (side: 'from' | 'to', address: string) => {
+    const token = swapTokenOptions.find(t => t.address.toLowerCase() === address.toLowerCase());
+    if (!token) return;
+
+    const other = side === 'from' ? toToken : fromToken;
+    if (token.address.toLowerCase() === other.address.toLowerCase()) {
+      swapTokens();
+      return;
+    }
+
+    if (side === 'from') {
+      setFromToken(token);
+    } else {
+      setToToken(token);
+    }
+    setFromAmount("");
+    setToAmount("");
+  };
+
+  // Get real-time quote from your V3 pool; exact output quotes the input needed for the typed output.
+  // The pair is simulated locally from fresh pool snapshots when possible, otherwise quoted by QuoterV2;
+  // a two-hop route replaces it when the pair has no pool or the route pays out more or costs less.
   const getQuote = useCallback(async (amount: string) => {
-    if (!client || !amount || isNaN(Number(amount)) || Number(amount) <= 0) {
-      setToAmount("");
+    const setQuotedAmount = tradeType === 'exactInput' ? setToAmount : setFromAmount;
+    const typedToken = tradeType === 'exactInput' ? fromToken : toToken;
+    const typedAmount = toSwapAmount(amount, typedToken);
+    const clearQuote = () => {
+      setQuotedAmount("");
+      setQuoteFee(null);
+      setQuoteRoute(null);
+      setFeeTierQuotes([]);
+      setPriceImpact(null);
+      setQuoteSource(null);
+    };
+    if (!client || !typedAmount?.raw) {
+      clearQuote();
       return;
     }
 
-    setIsLoadingQuote(true);
-    try {
-      const quote = await getSwapQuote(
-        client,
+    const pairSnapshots = poolSnapshots.filter(snapshot =>
+      [snapshot.token0.toLowerCase(), snapshot.token1.toLowerCase()].includes(fromToken.address.toLowerCase()) &&
+      [snapshot.token0.toLowerCase(), snapshot.token1.toLowerCase()].includes(toToken.address.toLowerCase()));
+    const snapshotsFresh = pairSnapshots.length > 0 &&
+      pairSnapshots.every(snapshot => Date.now() - snapshot.loadedAt < SNAPSHOT_MAX_AGE_MS);
+    if (pairSnapshots.length > 0 && !snapshotsFresh) {
+      loadSnapshots();
+    }
+
+    const quoteDirect = async (): Promise<DirectQuote> => {
+      const local = snapshotsFresh
+        ? simulateAcrossSnapshots(pairSnapshots, fromToken.address, tradeType, typedAmount.raw)
+        : undefined;
+      if (local) {
+        console.log(`🧮 Simulated V3 quote (${local.fee / 10000}% tier): ${formatUnits(local.amountIn, fromToken.decimals)} ` +
+          `${fromToken.symbol} = ${formatUnits(local.amountOut, toToken.decimals)} ${toToken.symbol}`);
+        return {
+          quoted: tradeType === 'exactInput' ? local.amountOut : local.amountIn,
+          fee: local.fee,
+          tiers: local.tiers,
+          priceImpact: computePriceImpact({
+            tokenIn: fromToken.address,
+            tokenOut: toToken.address,
+            amountIn: local.amountIn,
+            amountOut: local.amountOut,
+            decimalsIn: fromToken.decimals,
+            decimalsOut: toToken.decimals,
+            fee: local.fee,
+            sqrtPriceX96Before: local.sqrtPriceX96Before,
+            sqrtPriceX96After: local.sqrtPriceX96After,
+          }),
+          source: 'local',
+        };
+      }
+
+      if (tradeType === 'exactInput') {
+        const quote = await getSwapQuote(
+          fromToken.address,
+          toToken.address,
+          amount,
+          fromToken.decimals,
+          toToken.decimals
+        );
+        console.log(`💱 V3 Quote (${quote.fee / 10000}% tier): ${amount} ${fromToken.symbol} = ${quote.amountOut} ${toToken.symbol}`);
+        return {
+          quoted: parseUnits(quote.amountOut, toToken.decimals),
+          fee: quote.fee,
+          tiers: quote.tiers,
+          priceImpact: quote.priceImpactBreakdown,
+          source: 'quoter',
+        };
+      }
+
+      const quote = await getExactOutputSwapQuote(
         fromToken.address,
         toToken.address,
         amount,
-        fromToken.decimals
+        fromToken.decimals,
+        toToken.decimals
       );
-      
-      setToAmount(quote.amountOut);
-      console.log(`💱 V3 Quote from your pool: ${amount} ${fromToken.symbol} = ${quote.amountOut} ${toToken.symbol}`);
+      console.log(`💱 V3 Exact-output quote (${quote.fee / 10000}% tier): ${quote.amountIn} ${fromToken.symbol} = ${amount} ${toToken.symbol}`);
+      return {
+        quoted: parseUnits(quote.amountIn, fromToken.decimals),
+        fee: quote.fee,
+        tiers: quote.tiers,
+        priceImpact: quote.priceImpactBreakdown,
+        source: 'quoter',
+      };
+    };
+
+    const quoteRoutes = async (): Promise<RouteQuote | undefined> => {
+      if (routeCandidates.length === 0) return undefined;
+      const params = {
+        tokenIn: fromToken.address,
+        tokenOut: toToken.address,
+        slippagePercent,
+        recipient: smartWalletAddress ?? "",
+        chainId: 11155111,
+      };
+
+      if (tradeType === 'exactInput') {
+        const quote = await getMultiHopQuote({ ...params, amountIn: amount }, routeCandidates);
+        return { quoted: quote.quotedAmountOut.raw, path: quote.route.path, label: quote.routeLabel };
+      }
+      const quote = await getExactOutputQuote({ ...params, amountOut: amount }, routeCandidates);
+      return { quoted: quote.quotedAmountIn.raw, path: quote.route.path, label: quote.routeLabel };
+    };
+
+    setIsLoadingQuote(true);
+    try {
+      const [direct, route] = await Promise.all([
+        quoteDirect().catch(error => {
+          console.warn('⚠️ No direct quote from your V3 pools:', error);
+          return undefined;
+        }),
+        quoteRoutes().catch(error => {
+          console.warn('⚠️ No multi-hop route quote:', error);
+          return undefined;
+        }),
+      ]);
+
+      // More output for the same input, or less input for the same output
+      const routeIsBetter = route && (!direct || (tradeType === 'exactInput' ? route.quoted > direct.quoted : route.quoted < direct.quoted));
+      if (route && routeIsBetter) {
+        setQuotedAmount(formatUnits(route.quoted, tradeType === 'exactInput' ? toToken.decimals : fromToken.decimals));
+        setQuoteFee(null);
+        setQuoteRoute({ path: route.path, label: route.label });
+        setFeeTierQuotes(direct?.tiers ?? []);
+        setPriceImpact(null);
+        setQuoteSource('quoter');
+      } else if (direct) {
+        setQuotedAmount(formatUnits(direct.quoted, tradeType === 'exactInput' ? toToken.decimals : fromToken.decimals));
+        setQuoteFee(direct.fee);
+        setQuoteRoute(null);
+        setFeeTierQuotes(direct.tiers);
+        setPriceImpact(direct.priceImpact);
+        setQuoteSource(direct.source);
+      } else {
+        throw new Error(`No pool or route connects ${fromToken.symbol} to ${toToken.symbol}`);
+      }
     } catch (error) {
       console.error('Error getting quote from your V3 pool:', error);
-      setToAmount("");
+      clearQuote();
     } finally {
       setIsLoadingQuote(false);
     }
-  }, [client, fromToken, toToken]);
+  }, [client, fromToken, toToken, tradeType, poolSnapshots, loadSnapshots, routeCandidates, slippagePercent, smartWalletAddress]);
 
   const handleFromAmountChange = (value: string) => {
     setFromAmount(value);
@@ -154,6 +428,26 @@ export default function CustomSwap() {
     return () => clearTimeout(timer);
   };
 
+  const handleToAmountChange = (value: string) => {
+    setToAmount(value);
+
+    const timer = setTimeout(() => {
+      getQuote(value);
+    }, 500);
+
+    return () => clearTimeout(timer);
+  };
+
+  const selectTradeType = (type: TradeType) => {
+    setTradeType(type);
+    setFromAmount("");
+    setToAmount("");
+    setQuoteFee(null);
+    setQuoteRoute(null);
+    setFeeTierQuotes([]);
+    setPriceImpact(null);
+  };
+
   const swapTokens = () => {
     const tempToken = fromToken;
     setFromToken(toToken);
@@ -164,122 +458,65 @@ export default function CustomSwap() {
     setToAmount("");
   };
 
-  // Check if approval is needed
-  const checkApproval = async (amount: string) => {
-    if (!client || !smartWalletAddress || !amount) return false;
-
-    try {
-      const amountBigInt = parseUnits(amount, fromToken.decimals);
-      const allowance = await checkAllowance(
-        client,
-        fromToken.address,
-        smartWalletAddress,
-        UNISWAP_CONTRACTS.SwapRouter
-      );
-      
-      const needsApproval = allowance < amountBigInt;
-      setNeedsApproval(needsApproval);
-      return needsApproval;
-    } catch (error) {
-      console.error('Error checking approval:', error);
-      return true;
-    }
-  };
-
-  // Execute approval transaction
-  const approveToken = async () => {
-    if (!smartWalletAddress || !fromAmount) return;
-
-    try {
-      reset();
-      
-      const amountBigInt = parseUnits(fromAmount, fromToken.decimals);
-      const approveCallData = buildApproveCallData(UNISWAP_CONTRACTS.SwapRouter, amountBigInt);
-      
-      console.log('📝 Approving token spend for your V3 pool...');
-      
-      // Use sponsored transaction for approval
-      await sendSponsoredTransaction({
-        recipient: fromToken.address,
-        amount: "0", // Approval transactions don't transfer value
-        tokenAddress: undefined, // This is a contract call, not a token transfer
-        decimals: fromToken.decimals,
-        chainId: 11155111,
-      });
-
-      if (status.transactionHash) {
-        console.log('✅ Approval successful for your V3 pool');
-        setNeedsApproval(false);
-      }
-    } catch (error) {
-      console.error('❌ Approval failed:', error);
-      alert(`❌ Token approval failed: ${error}`);
-    }
-  };
-
   // Execute swap transaction through your V3 pool
   const handleSwap = async () => {
-    if (!smartWalletAddress || !fromAmount || !toAmount || Number(fromAmount) <= 0) {
+    if (!smartWalletAddress || !toAmount || (quoteFee === null && !quoteRoute) || !toSwapAmount(fromAmount, fromToken)?.raw) {
       alert('Please enter a valid amount');
       return;
     }
 
-    const fromBalance = Number(getTokenBalance(fromToken.symbol));
-    if (Number(fromAmount) > fromBalance) {
+    const spendAmount = getSpendAmount();
+    if (!hasSufficientBalance(spendAmount, fromToken)) {
       alert(`Insufficient ${fromToken.symbol} balance`);
       return;
     }
 
-    // Check if approval is needed first
-    const needsApprovalCheck = await checkApproval(fromAmount);
-    if (needsApprovalCheck) {
-      alert('Token approval required. Please approve first.');
+    if (
+      priceImpact && priceImpact.priceImpactPercent >= HIGH_PRICE_IMPACT_PERCENT &&
+      !confirm(`This swap has a ${priceImpact.priceImpactPercent.toFixed(2)}% price impact and moves the pool price by ` +
+        `${priceImpact.poolPriceMovePercent.toFixed(2)}%. Swap anyway?`)
+    ) {
       return;
     }
 
-    try {
-      console.log(`🔄 Executing swap through your V3 pool: ${ACTUAL_V3_POOL.address}`);
-      console.log(`📊 ${fromAmount} ${fromToken.symbol} → ${toAmount} ${toToken.symbol}`);
-      
-      reset();
-
-      const amountInBigInt = parseUnits(fromAmount, fromToken.decimals);
-      const amountOutMinBigInt = parseUnits((Number(toAmount) * 0.95).toString(), toToken.decimals); // 5% slippage
-      
-      const swapCallData = buildSwapCallData(
-        fromToken.address,
-        toToken.address,
-        smartWalletAddress,
-        amountInBigInt,
-        amountOutMinBigInt
-      );
-
-      // Execute swap using sponsored transaction through V3 SwapRouter
-      await sendSponsoredTransaction({
-        recipient: UNISWAP_CONTRACTS.SwapRouter,
-        amount: "0", // Contract interaction, not token transfer
-        tokenAddress: undefined,
-        decimals: 18,
-        chainId: 11155111,
-      });
-
-      if (status.transactionHash) {
-        alert(`V3 Swap successful!\nPool: ${ACTUAL_V3_POOL.address.slice(0, 10)}...\nTx: ${status.transactionHash.slice(0, 10)}...`);
-        
-        // Refresh data after successful swap
-        setTimeout(() => {
-          fetchData();
-        }, 2000);
-        
-        // Clear form
-        setFromAmount("");
-        setToAmount("");
-      }
+    const amountIn = toSwapAmount(fromAmount, fromToken);
+    const amountOut = toSwapAmount(toAmount, toToken);
+    if (!amountIn || !amountOut) {
+      alert('Please enter a valid amount');
+      return;
+    }
 
-    } catch (error) {
-      console.error('❌ V3 Swap failed:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`❌ V3 Swap failed: ${errorMessage}`);
+    const via = quoteRoute ? `route ${quoteRoute.label}` : `the ${(quoteFee ?? 0) / 10000}% pool`;
+    console.log(`🔄 Executing swap through ${via}: ${fromAmount} ${fromToken.symbol} → ${toAmount} ${toToken.symbol}`);
+    reset();
+
+    // Approval (if needed) and swap go out together as one user operation
+    const swapResult = await executeSwap({
+      tradeType,
+      fee: quoteFee ?? undefined,
+      path: quoteRoute?.path,
+      quotedAmountIn: amountIn,
+      quotedAmountOut: amountOut,
+      slippagePercent,
+      deadlineMinutes,
+      recipient: smartWalletAddress as `0x${string}`,
+      chainId: 11155111,
+    });
+
+    if (swapResult) {
+      // Refresh data after successful swap
+      setTimeout(() => {
+        fetchData();
+        loadSnapshots();
+      }, 2000);
+
+      // Clear form
+      setFromAmount("");
+      setToAmount("");
+      setQuoteFee(null);
+      setQuoteRoute(null);
+      setFeeTierQuotes([]);
+      setPriceImpact(null);
     }
   };
 
@@ -297,8 +534,8 @@ export default function CustomSwap() {
     );
   }
 
-  const canSwap = fromAmount && toAmount && Number(fromAmount) > 0 && 
-                  Number(fromAmount) <= Number(getTokenBalance(fromToken.symbol)) && !needsApproval;
+  const maxSpendAmount = getSpendAmount();
+  const canSwap = fromAmount && toAmount && (quoteFee !== null || quoteRoute) && hasSufficientBalance(maxSpendAmount, fromToken);
 
   return (
     <Card>
@@ -312,7 +549,10 @@ export default function CustomSwap() {
             <Button
               variant="ghost"
               size="sm"
-              onClick={fetchData}
+              onClick={() => {
+                fetchData();
+                loadSnapshots();
+              }}
               disabled={isLoadingBalances || isLoadingPoolState}
               className="gap-2"
             >
@@ -340,7 +580,7 @@ export default function CustomSwap() {
           </div>
           <div className="text-sm text-green-700 dark:text-green-300 space-y-1">
             <div className="font-mono text-xs">🏊 Pool: {ACTUAL_V3_POOL.address}</div>
-            <div>💰 Fee Tier: 0.3% | 🏗️ Architecture: Uniswap V3</div>
+            <div>💰 Fee Tier: best of {V3_FEE_TIERS.map(fee => `${fee / 10000}%`).join(" / ")} | 🏗️ Architecture: Uniswap V3</div>
             <div>🔗 USDC-COPE Pair | ⚡ Gas Sponsored Swaps</div>
           </div>
         </div>
@@ -369,34 +609,72 @@ export default function CustomSwap() {
           </div>
         )}
 
+        {/* Trade type: spend an exact amount, or receive an exact amount (e.g. a peso invoice) */}
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant={tradeType === 'exactInput' ? "default" : "outline"}
+            size="sm"
+            onClick={() => selectTradeType('exactInput')}
+          >
+            Exact input
+          </Button>
+          <Button
+            variant={tradeType === 'exactOutput' ? "default" : "outline"}
+            size="sm"
+            onClick={() => selectTradeType('exactOutput')}
+          >
+            Exact output
+          </Button>
+        </div>
+
         {/* From Token */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-700 dark:text-gray-300">From</label>
           <div className="flex items-center gap-3 p-4 border-2 border-gray-200 dark:border-gray-700 rounded-xl bg-gray-50 dark:bg-gray-800">
-            <TokenIcon symbol={fromToken.symbol} size={40} />
+            <TokenIcon symbol={fromToken.symbol} size={40} isCustom={fromToken.isCustom} />
             <div className="flex-1">
-              <div className="font-semibold text-lg">{fromToken.symbol}</div>
+              <select
+                value={fromToken.address}
+                onChange={(e) => selectToken('from', e.target.value)}
+                className="font-semibold text-lg bg-transparent border-0 p-0 focus:ring-0"
+              >
+                {swapTokenOptions.map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol}{token.isCustom ? " (custom)" : ""}
+                  </option>
+                ))}
+              </select>
+              {fromToken.possibleImpersonation && (
+                <div className="text-xs text-red-600">Possible impersonation of a built-in token</div>
+              )}
               <div className="text-sm text-gray-500">
-                Balance: {getFormattedBalance(fromToken.symbol)}
+                Balance: {getFormattedBalance(fromToken)}
               </div>
             </div>
             <div className="text-right">
               <Input
                 type="number"
                 placeholder="0.0"
-                value={fromAmount}
+                value={tradeType === 'exactOutput' && isLoadingQuote ? "..." : fromAmount}
                 onChange={(e) => handleFromAmountChange(e.target.value)}
+                readOnly={tradeType === 'exactOutput'}
                 className="w-32 text-right text-lg font-medium border-0 bg-transparent p-0 focus:ring-0"
                 step="any"
               />
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleFromAmountChange(getTokenBalance(fromToken.symbol))}
-                className="text-xs text-blue-600 p-0 h-auto"
-              >
-                MAX
-              </Button>
+              {tradeType === 'exactInput' ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleFromAmountChange(getTokenBalance(fromToken))}
+                  className="text-xs text-blue-600 p-0 h-auto"
+                >
+                  MAX
+                </Button>
+              ) : (
+                <div className="text-xs text-gray-500">
+                  {maxSpendAmount ? `Max ${formatUnits(maxSpendAmount.raw, fromToken.decimals)}` : "Quoted input"}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -417,47 +695,135 @@ export default function CustomSwap() {
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-700 dark:text-gray-300">To</label>
           <div className="flex items-center gap-3 p-4 border-2 border-gray-200 dark:border-gray-700 rounded-xl bg-gray-50 dark:bg-gray-800">
-            <TokenIcon symbol={toToken.symbol} size={40} />
+            <TokenIcon symbol={toToken.symbol} size={40} isCustom={toToken.isCustom} />
             <div className="flex-1">
-              <div className="font-semibold text-lg">{toToken.symbol}</div>
+              <select
+                value={toToken.address}
+                onChange={(e) => selectToken('to', e.target.value)}
+                className="font-semibold text-lg bg-transparent border-0 p-0 focus:ring-0"
+              >
+                {swapTokenOptions.map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol}{token.isCustom ? " (custom)" : ""}
+                  </option>
+                ))}
+              </select>
+              {toToken.possibleImpersonation && (
+                <div className="text-xs text-red-600">Possible impersonation of a built-in token</div>
+              )}
               <div className="text-sm text-gray-500">
-                Balance: {getFormattedBalance(toToken.symbol)}
+                Balance: {getFormattedBalance(toToken)}
               </div>
             </div>
             <div className="text-right">
               <Input
                 type="number"
                 placeholder="0.0"
-                value={isLoadingQuote ? "..." : toAmount}
-                readOnly
+                value={tradeType === 'exactInput' && isLoadingQuote ? "..." : toAmount}
+                onChange={(e) => handleToAmountChange(e.target.value)}
+                readOnly={tradeType === 'exactInput'}
+                step="any"
                 className="w-32 text-right text-lg font-medium border-0 bg-transparent p-0 focus:ring-0"
               />
               <div className="text-xs text-gray-500">
-                {isLoadingQuote ? "Getting quote..." : "Real-time quote"}
+                {isLoadingQuote ? "Getting quote..." : quoteRoute
+                  ? `Route: ${quoteRoute.label}`
+                  : quoteFee !== null
+                    ? `Best tier: ${quoteFee / 10000}%${quoteSource === 'local' ? " (simulated)" : ""}`
+                    : "Real-time quote"}
               </div>
             </div>
           </div>
         </div>
 
-        {/* Action Buttons */}
-        <div className="space-y-3">
-          {needsApproval && (
-            <Button
-              onClick={approveToken}
-              disabled={status.isLoading || !fromAmount}
-              className="w-full h-12 bg-orange-600 hover:bg-orange-700 text-white font-semibold"
-            >
-              {status.isLoading ? (
-                <div className="flex items-center gap-2">
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  Approving...
+        {/* Per-tier comparison for the current quote */}
+        {feeTierQuotes.length > 0 && (
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            {feeTierQuotes.map(tier => (
+              <div
+                key={tier.fee}
+                className={`p-2 rounded border text-center ${tier.fee === quoteFee ? "border-green-500 bg-green-50 dark:bg-green-900/20" : ""}`}
+                title={tier.error}
+              >
+                <div className="font-medium">{tier.fee / 10000}%</div>
+                <div className="text-gray-500">
+                  {tier.amountOut !== undefined
+                    ? formatUnits(tier.amountOut, toToken.decimals)
+                    : tier.amountIn !== undefined
+                      ? formatUnits(tier.amountIn, fromToken.decimals)
+                      : tier.poolAddress ? "No quote" : "No pool"}
                 </div>
-              ) : (
-                `🔓 Approve ${fromToken.symbol}`
-              )}
-            </Button>
-          )}
+              </div>
+            ))}
+          </div>
+        )}
 
+        {/* Execution price breakdown: LP fee vs price impact */}
+        {priceImpact && (
+          <div className={`rounded-lg p-3 border text-xs space-y-1 ${
+            priceImpact.priceImpactPercent >= HIGH_PRICE_IMPACT_PERCENT
+              ? "border-red-300 bg-red-50 dark:bg-red-900/20"
+              : "bg-gray-50 dark:bg-gray-800"
+          }`}>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Mid price</span>
+              <span className="font-mono">{priceImpact.midPrice.toPrecision(6)} {toToken.symbol}/{fromToken.symbol}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Execution price</span>
+              <span className="font-mono">{priceImpact.executionPrice.toPrecision(6)} {toToken.symbol}/{fromToken.symbol}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">LP fee</span>
+              <span>{priceImpact.feePercent.toFixed(2)}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Price impact</span>
+              <span className={priceImpact.priceImpactPercent >= 1 ? "text-orange-600 font-semibold" : ""}>
+                {priceImpact.priceImpactPercent.toFixed(2)}%
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Pool price after swap</span>
+              <span>moves {priceImpact.poolPriceMovePercent.toFixed(2)}%</span>
+            </div>
+            {priceImpact.priceImpactPercent >= HIGH_PRICE_IMPACT_PERCENT && (
+              <div className="flex items-center gap-1 text-red-600 font-semibold pt-1">
+                <AlertCircle className="w-3 h-3" />
+                High price impact: this pool is too thin for this trade size
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Slippage and deadline */}
+        <div className="grid grid-cols-2 gap-3 text-xs">
+          <label className="space-y-1">
+            <span className="text-gray-500">Max slippage (%)</span>
+            <Input
+              type="number"
+              min="0.01"
+              max="50"
+              step="0.1"
+              value={slippagePercent}
+              onChange={(e) => setSlippagePercent(Math.min(Math.max(Number(e.target.value) || 0, 0.01), 50))}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-500">Deadline (minutes)</span>
+            <Input
+              type="number"
+              min="1"
+              max="180"
+              step="1"
+              value={deadlineMinutes}
+              onChange={(e) => setDeadlineMinutes(Math.min(Math.max(Math.round(Number(e.target.value) || 0), 1), 180))}
+            />
+          </label>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="space-y-3">
           <Button
             onClick={handleSwap}
             disabled={!canSwap || status.isLoading}
@@ -467,7 +833,7 @@ export default function CustomSwap() {
             {status.isLoading ? (
               <div className="flex items-center gap-2">
                 <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                Swapping...
+                {status.stage === 'building' ? "Preparing..." : status.stage === 'confirming' ? "Confirming..." : "Swapping..."}
               </div>
             ) : (
               `🚀 Swap via Your V3 Pool`
@@ -476,12 +842,19 @@ export default function CustomSwap() {
         </div>
 
         {/* Transaction Status */}
-        {status.transactionHash && (
+        {result && (
           <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3">
             <div className="text-sm text-green-800 dark:text-green-200">
               <strong>✅ Transaction Successful!</strong>
+              {result.amountIn && result.amountOut && (
+                <div className="text-xs mt-1">
+                  Swapped {formatAmount(result.amountIn, 6)} {result.amountIn.token.symbol} for{" "}
+                  {formatAmount(result.amountOut, 6)} {result.amountOut.token.symbol}
+                  {result.executionPrice !== undefined && ` @ ${result.executionPrice.toPrecision(6)}`}
+                </div>
+              )}
               <div className="text-xs mt-1 font-mono break-all">
-                Tx: {status.transactionHash}
+                Tx: {result.transactionHash}
               </div>
               <div className="text-xs mt-1">
                 Pool: {ACTUAL_V3_POOL.address}
@@ -509,8 +882,8 @@ export default function CustomSwap() {
             <div className="text-xs space-y-1">
               <div>🏊 Your Pool: {ACTUAL_V3_POOL.address.slice(0, 10)}...{ACTUAL_V3_POOL.address.slice(-6)}</div>
               <div>💎 Wallet: {smartWalletAddress.slice(0, 8)}...{smartWalletAddress.slice(-6)}</div>
-              <div>⚡ Gas: {status.isSponsored ? "Sponsored" : "Fallback"}</div>
-              <div>🌊 Protocol: Uniswap V3 • Fee: 0.3%</div>
+              <div>⚡ Gas: Sponsored • approval and swap batched in one user operation</div>
+              <div>🌊 Protocol: Uniswap V3 • Fee: {quoteRoute ? quoteRoute.label : quoteFee !== null ? `${quoteFee / 10000}%` : "best tier"}</div>
               <div>🌐 Network: Ethereum Sepolia</div>
             </div>
           </div>
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { usePositionActions, PositionAction } from "@/app/hooks/usePositionActions";
+import { TokenAmount, formatAmount, toAmount, tryParseAmount } from "@/lib/amounts";
+import { DEFAULT_SLIPPAGE_PERCENT } from "@/lib/swap-execution";
+import { DecreasePreview, MintPreview, previewDecrease, previewMint } from "@/lib/uniswap-v3-liquidity";
+
+const REMOVE_PRESETS = [25, 50, 75, 100];
+
+const ACTION_LABELS: Record<PositionAction, string> = {
+  increase: "Add liquidity",
+  decrease: "Remove liquidity",
+  collect: "Collect fees",
+  close: "Close position",
+};
+
+interface PositionActionsProps {
+  tokenId: bigint;
+}
+
+/**
+ * Increase, decrease, collect and close (decrease + collect + burn) for one V3 position
+ */
+export default function PositionActions({ tokenId }: PositionActionsProps) {
+  const {
+    position,
+    pool,
+    tokens,
+    unclaimedFees,
+    isLoadingPosition,
+    refresh,
+    increase,
+    decrease,
+    collect,
+    close,
+    status,
+  } = usePositionActions(tokenId);
+  const [tab, setTab] = useState<'increase' | 'decrease' | 'collect'>('collect');
+  const [depositToken0, setDepositToken0] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [removePercent, setRemovePercent] = useState(50);
+  const [slippagePercent, setSlippagePercent] = useState(DEFAULT_SLIPPAGE_PERCENT);
+
+  if (!position || !pool || !tokens) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+        {isLoadingPosition ? <RefreshCw className="w-4 h-4 animate-spin" /> : <AlertCircle className="w-4 h-4" />}
+        {isLoadingPosition ? "Loading position..." : status.error ?? "Position unavailable"}
+      </div>
+    );
+  }
+
+  const range = { tickLower: position.tickLower, tickUpper: position.tickUpper };
+  const depositAmount = tryParseAmount(amount, depositToken0 ? tokens.token0 : tokens.token1);
+
+  let increasePreview: MintPreview | undefined;
+  let increaseError: string | undefined;
+  if (depositAmount && depositAmount.raw > BigInt(0)) {
+    try {
+      increasePreview = previewMint(pool, range, depositAmount, tokens);
+    } catch (error) {
+      increaseError = error instanceof Error ? error.message : 'Cannot preview deposit';
+    }
+  }
+
+  const decreasePreview: DecreasePreview = previewDecrease(pool, position, removePercent, tokens);
+  const isFullWithdrawal = decreasePreview.liquidity === position.liquidity;
+
+  const handleIncrease = async () => {
+    if (!increasePreview || !depositAmount) return;
+    // The typed amount goes in exactly; the other side is what the pool takes for that liquidity
+    const desired = (amountFor: TokenAmount) =>
+      amountFor.token.address === depositAmount.token.address ? depositAmount : amountFor;
+    if (await increase(desired(increasePreview.amount0), desired(increasePreview.amount1), slippagePercent)) {
+      setAmount("");
+    }
+  };
+
+  const feesLabel = unclaimedFees
+    ? `${formatAmount(toAmount(tokens.token0, unclaimedFees.amount0), 6)} ${tokens.token0.symbol} + ` +
+      `${formatAmount(toAmount(tokens.token1, unclaimedFees.amount1), 6)} ${tokens.token1.symbol}`
+    : "Unavailable";
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="text-gray-600 dark:text-gray-300">
+          Unclaimed fees: <span className="font-medium">{feesLabel}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={refresh} disabled={isLoadingPosition}>
+          <RefreshCw className={`w-4 h-4 ${isLoadingPosition ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        {(['collect', 'increase', 'decrease'] as const).map(option => (
+          <Button key={option} variant={tab === option ? "default" : "outline"} size="sm" onClick={() => setTab(option)}>
+            {ACTION_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {tab === 'collect' && (
+        <Button
+          className="w-full"
+          onClick={collect}
+          disabled={status.isLoading || !unclaimedFees || (unclaimedFees.amount0 === BigInt(0) && unclaimedFees.amount1 === BigInt(0))}
+        >
+          Collect {feesLabel}
+        </Button>
+      )}
+
+      {tab === 'increase' && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="text"
+              inputMode="decimal"
+              placeholder={`Amount of ${depositToken0 ? tokens.token0.symbol : tokens.token1.symbol}`}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <select
+              value={depositToken0 ? "0" : "1"}
+              onChange={(e) => setDepositToken0(e.target.value === "0")}
+              className="border rounded-md px-2 bg-transparent"
+            >
+              <option value="0">{tokens.token0.symbol}</option>
+              <option value="1">{tokens.token1.symbol}</option>
+            </select>
+          </div>
+          {increasePreview && (
+            <div className="text-xs text-gray-500">
+              Deposit {formatAmount(increasePreview.amount0)} {tokens.token0.symbol} +{" "}
+              {formatAmount(increasePreview.amount1)} {tokens.token1.symbol} for {increasePreview.liquidity.toString()} liquidity
+            </div>
+          )}
+          {increaseError && <div className="text-xs text-red-600">{increaseError}</div>}
+          <Button className="w-full" onClick={handleIncrease} disabled={status.isLoading || !increasePreview}>
+            {ACTION_LABELS.increase}
+          </Button>
+        </div>
+      )}
+
+      {tab === 'decrease' && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {REMOVE_PRESETS.map(percent => (
+              <Button
+                key={percent}
+                variant={removePercent === percent ? "default" : "outline"}
+                size="sm"
+                onClick={() => setRemovePercent(percent)}
+              >
+                {percent}%
+              </Button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500">
+            Receive {formatAmount(decreasePreview.amount0)} {tokens.token0.symbol} +{" "}
+            {formatAmount(decreasePreview.amount1)} {tokens.token1.symbol}, plus unclaimed fees ({feesLabel})
+          </div>
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={() => decrease(decreasePreview, slippagePercent)}
+              disabled={status.isLoading || decreasePreview.liquidity === BigInt(0)}
+            >
+              {ACTION_LABELS.decrease}
+            </Button>
+            {isFullWithdrawal && (
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => close(decreasePreview, slippagePercent)}
+                disabled={status.isLoading}
+                title="Withdraw everything, collect fees and burn the position NFT"
+              >
+                {ACTION_LABELS.close}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span>Slippage %</span>
+        <Input
+          type="number"
+          step="0.1"
+          min="0"
+          value={slippagePercent}
+          onChange={(e) => setSlippagePercent(parseFloat(e.target.value) || 0)}
+          className="w-20 h-7 text-xs"
+        />
+      </div>
+
+      {status.isLoading && status.action && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <RefreshCw className="w-3 h-3 animate-spin" />
+          {ACTION_LABELS[status.action]}...
+        </div>
+      )}
+      {status.error && !status.isLoading && (
+        <div className="flex items-center gap-2 text-xs text-red-600">
+          <AlertCircle className="w-3 h-3" />
+          {status.error}
+        </div>
+      )}
+      {status.transactionHash && !status.isLoading && (
+        <a
+          href={`https://sepolia.etherscan.io/tx/${status.transactionHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-green-600 hover:underline"
+        >
+          ✅ {status.action ? ACTION_LABELS[status.action] : "Transaction"} sent <ExternalLink className="w-3 h-3" />
+        </a>
+      )}
+    </div>
+  );
+}
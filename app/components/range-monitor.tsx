@@ -0,0 +1,171 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, AlertTriangle, ExternalLink, RefreshCw } from "lucide-react";
+import { usePositionMonitor } from "@/app/hooks/usePositionMonitor";
+import { useRebalance } from "@/app/hooks/useRebalance";
+import { formatAmount } from "@/lib/amounts";
+import { DEFAULT_SLIPPAGE_PERCENT } from "@/lib/swap-execution";
+import { V3PositionValue } from "@/lib/uniswap-v3-positions";
+
+interface RangeMonitorProps {
+  positions: V3PositionValue[];
+  onRebalanced?: () => void;
+}
+
+/**
+ * Alerts for positions out of range or near an edge, each with a one-click rebalance
+ * into a range of the same width around the current price
+ */
+export default function RangeMonitor({ positions, onRebalanced }: RangeMonitorProps) {
+  const details = useMemo(() => positions.map(value => value.position), [positions]);
+  const { alerts, lastCheckedAt, isChecking, refresh } = usePositionMonitor(details);
+  const { preview, propose, execute, status, result, reset } = useRebalance();
+  const [proposedId, setProposedId] = useState<string | null>(null);
+  const [slippagePercent, setSlippagePercent] = useState(DEFAULT_SLIPPAGE_PERCENT);
+
+  if (alerts.length === 0 && !result) {
+    return null;
+  }
+
+  const handlePropose = (value: V3PositionValue) => {
+    setProposedId(value.tokenId.toString());
+    propose(value, slippagePercent);
+  };
+
+  const handleExecute = async () => {
+    if (await execute()) {
+      setProposedId(null);
+      refresh();
+      onRebalanced?.();
+    }
+  };
+
+  const handleCancel = () => {
+    setProposedId(null);
+    reset();
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      {alerts.map(alert => {
+        const positionId = alert.tokenId.toString();
+        const value = positions.find(candidate => candidate.tokenId === alert.tokenId);
+        const isProposed = proposedId === positionId;
+        return (
+          <div
+            key={positionId}
+            className={`p-3 rounded-lg border text-sm ${
+              alert.severity === 'critical'
+                ? "border-red-200 bg-red-50 dark:bg-red-900/20"
+                : "border-yellow-200 bg-yellow-50 dark:bg-yellow-900/20"
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {alert.severity === 'critical'
+                  ? <AlertCircle className="w-4 h-4 text-red-600" />
+                  : <AlertTriangle className="w-4 h-4 text-yellow-600" />}
+                <span>{alert.message}</span>
+              </div>
+              {value && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={status.isLoading}
+                  onClick={() => (isProposed ? handleCancel() : handlePropose(value))}
+                >
+                  {isProposed ? "Cancel" : "Rebalance"}
+                </Button>
+              )}
+            </div>
+
+            {isProposed && value && (
+              <div className="mt-3 pt-3 border-t space-y-2">
+                {status.stage === 'previewing' && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <RefreshCw className="w-3 h-3 animate-spin" />
+                    Simulating rebalance...
+                  </div>
+                )}
+
+                {preview && (
+                  <div className="text-xs space-y-1">
+                    <div>
+                      Withdraw {formatAmount(preview.withdraw0, 6)} {value.token0.symbol} +{" "}
+                      {formatAmount(preview.withdraw1, 6)} {value.token1.symbol} (fees included)
+                    </div>
+                    {preview.swap ? (
+                      <div>
+                        Swap {formatAmount(preview.swap.amountIn, 6)} {preview.swap.amountIn.token.symbol} →{" "}
+                        {formatAmount(preview.swap.amountOut, 6)} {preview.swap.amountOut.token.symbol}
+                      </div>
+                    ) : (
+                      <div>No swap needed</div>
+                    )}
+                    <div>
+                      Mint {formatAmount(preview.deposit0, 6)} {value.token0.symbol} +{" "}
+                      {formatAmount(preview.deposit1, 6)} {value.token1.symbol} in{" "}
+                      {preview.priceLower.toPrecision(6)} – {preview.priceUpper.toPrecision(6)}{" "}
+                      {value.token1.symbol}/{value.token0.symbol}
+                    </div>
+                    <div className="text-gray-500">
+                      Left in wallet: {formatAmount(preview.leftover0, 6)} {value.token0.symbol} +{" "}
+                      {formatAmount(preview.leftover1, 6)} {value.token1.symbol} • the old position NFT is burned
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span>Slippage %</span>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={slippagePercent}
+                    onChange={(e) => setSlippagePercent(parseFloat(e.target.value) || 0)}
+                    onBlur={() => handlePropose(value)}
+                    className="w-20 h-7 text-xs"
+                  />
+                </div>
+
+                <Button className="w-full" size="sm" onClick={handleExecute} disabled={!preview || status.isLoading}>
+                  {status.isLoading && status.stage !== 'previewing' ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : null}
+                  {status.stage === 'confirming' ? "Confirming..." : "Rebalance in one transaction"}
+                </Button>
+              </div>
+            )}
+
+            {isProposed && status.error && !status.isLoading && (
+              <div className="flex items-center gap-2 mt-2 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3" />
+                {status.error}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {result && status.transactionHash && (
+        <a
+          href={`https://sepolia.etherscan.io/tx/${status.transactionHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-sm text-green-600 hover:underline"
+        >
+          ✅ Rebalanced into position #{result.tokenId?.toString()}
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      )}
+
+      {lastCheckedAt && (
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+          {isChecking && <RefreshCw className="w-3 h-3 animate-spin" />}
+          Ranges checked {lastCheckedAt.toLocaleTimeString()}
+        </div>
+      )}
+    </div>
+  );
+}
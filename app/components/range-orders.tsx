@@ -0,0 +1,253 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Target, AlertCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { useSmartWallet } from "@/app/hooks/useSmartWallet";
+import { useRangeOrders } from "@/app/hooks/useRangeOrders";
+import { AmountToken, formatAmount, toAmount, tryParseAmount } from "@/lib/amounts";
+import { DEFAULT_SLIPPAGE_PERCENT } from "@/lib/swap-execution";
+import { TOKENS, findPoolsAcrossFeeTiers, sqrtPriceX96ToPrice } from "@/lib/uniswap-v3-utils";
+import { V3PoolPriceState, getPoolPriceState, getPoolToken } from "@/lib/uniswap-v3-liquidity";
+import { RangeOrderPlacement, RangeOrderState, planRangeOrder, poolPriceToRate } from "@/lib/uniswap-v3-range-orders";
+
+const STATE_STYLES: Record<RangeOrderState, string> = {
+  open: "bg-blue-100 text-blue-700",
+  partial: "bg-yellow-100 text-yellow-700",
+  filled: "bg-green-100 text-green-700",
+  closed: "bg-gray-100 text-gray-700",
+};
+
+const toPoolToken = (address: string): AmountToken => getPoolToken(11155111, address);
+
+/**
+ * Limit orders on the USDC/COPe V3 pools: a one-tick-spacing position past the target rate
+ * that the pool converts as the price crosses it
+ */
+export default function RangeOrders() {
+  const { smartWalletAddress } = useSmartWallet();
+  const { orders, statuses, place, withdraw, forget, refresh, status } = useRangeOrders();
+  const [pools, setPools] = useState<{ fee: number; poolAddress?: `0x${string}` }[]>([]);
+  const [pool, setPool] = useState<V3PoolPriceState | null>(null);
+  const [sellToken0, setSellToken0] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [targetRate, setTargetRate] = useState("");
+  const [autoWithdraw, setAutoWithdraw] = useState(true);
+
+  const selectPool = useCallback(async (poolAddress: `0x${string}`) => {
+    try {
+      setPool(await getPoolPriceState(11155111, poolAddress));
+    } catch (error) {
+      console.error('❌ Failed to load pool:', error);
+      setPool(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    findPoolsAcrossFeeTiers(TOKENS.USDC.address, TOKENS.COPE.address)
+      .then(found => {
+        setPools(found);
+        // Narrowest tick spacing first: the tighter the range, the closer fills land to the target
+        const first = found.find(candidate => candidate.poolAddress);
+        if (first?.poolAddress) selectPool(first.poolAddress);
+      })
+      .catch(error => console.error('❌ Failed to find USDC/COPe pools:', error));
+  }, [selectPool]);
+
+  if (!smartWalletAddress) {
+    return null;
+  }
+
+  const token0 = pool ? toPoolToken(pool.token0) : undefined;
+  const token1 = pool ? toPoolToken(pool.token1) : undefined;
+  const sellToken = sellToken0 ? token0 : token1;
+  const buyToken = sellToken0 ? token1 : token0;
+  const currentRate = pool && token0 && token1
+    ? poolPriceToRate(sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals), sellToken0)
+    : undefined;
+
+  const amountIn = sellToken ? tryParseAmount(amount, sellToken) : undefined;
+  let placement: RangeOrderPlacement | undefined;
+  let placementError: string | undefined;
+  if (pool && token0 && token1 && amountIn && amountIn.raw > BigInt(0) && targetRate) {
+    try {
+      placement = planRangeOrder(pool, amountIn, parseFloat(targetRate), { token0, token1 });
+    } catch (error) {
+      placementError = error instanceof Error ? error.message : 'Cannot place this order';
+    }
+  }
+
+  const handlePlace = async () => {
+    if (!placement) return;
+    if (await place(placement, DEFAULT_SLIPPAGE_PERCENT, autoWithdraw)) {
+      setAmount("");
+      selectPool(placement.pool.poolAddress);
+    }
+  };
+
+  return (
+    <Card id="range-orders">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Limit Orders (USDC / COPe V3)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Pool (fee tier); its tick spacing sets how wide the order range is */}
+        <div className="grid grid-cols-4 gap-2 text-xs">
+          {pools.map(candidate => (
+            <Button
+              key={candidate.fee}
+              variant={candidate.poolAddress && candidate.poolAddress === pool?.poolAddress ? "default" : "outline"}
+              size="sm"
+              disabled={!candidate.poolAddress}
+              onClick={() => candidate.poolAddress && selectPool(candidate.poolAddress)}
+              title={candidate.poolAddress ?? "No pool"}
+            >
+              {candidate.fee / 10000}%
+            </Button>
+          ))}
+        </div>
+
+        {pool && token0 && token1 && sellToken && buyToken && currentRate !== undefined && (
+          <>
+            <div className="flex gap-2">
+              <select
+                value={sellToken0 ? "0" : "1"}
+                onChange={(e) => {
+                  setSellToken0(e.target.value === "0");
+                  setTargetRate("");
+                }}
+                className="border rounded-md px-2 bg-transparent text-sm"
+              >
+                <option value="1">Sell {token1.symbol} for {token0.symbol}</option>
+                <option value="0">Sell {token0.symbol} for {token1.symbol}</option>
+              </select>
+              <Input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Amount of ${sellToken.symbol}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-500">
+                Target rate ({buyToken.symbol} per {sellToken.symbol}) • now {currentRate.toPrecision(6)}
+              </label>
+              <Input type="number" step="any" value={targetRate} onChange={(e) => setTargetRate(e.target.value)} />
+            </div>
+
+            {placement && (
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm space-y-1">
+                <div>
+                  Sell {formatAmount(placement.amountIn)} {sellToken.symbol} for about{" "}
+                  {formatAmount(placement.expectedOut)} {buyToken.symbol}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Fills at {placement.worstRate.toPrecision(6)} or better, averaging {placement.averageRate.toPrecision(6)}{" "}
+                  {buyToken.symbol}/{sellToken.symbol}, plus the swap fees the order earns • ticks {placement.range.tickLower} →{" "}
+                  {placement.range.tickUpper}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+              <input type="checkbox" checked={autoWithdraw} onChange={(e) => setAutoWithdraw(e.target.checked)} />
+              Withdraw automatically once filled (while this page is open)
+            </label>
+          </>
+        )}
+
+        {(placementError || (status.error && !status.isLoading)) && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {placementError || status.error}
+          </div>
+        )}
+
+        <Button className="w-full" onClick={handlePlace} disabled={!placement || status.isLoading}>
+          {status.isLoading && status.action === 'place' ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : null}
+          Place limit order
+        </Button>
+
+        {/* Placed orders */}
+        {orders.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">Your orders</h4>
+              <Button variant="ghost" size="sm" onClick={refresh}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+            {orders.map(order => {
+              const orderSell = toPoolToken(order.sellToken);
+              const orderBuy = toPoolToken(order.buyToken);
+              const orderStatus = statuses[order.tokenId];
+              const isBusy = status.isLoading && status.tokenId === order.tokenId;
+              return (
+                <div key={order.tokenId} className="border rounded-lg p-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      #{order.tokenId} Sell {formatAmount(toAmount(orderSell, BigInt(order.amountIn)))} {orderSell.symbol} at{" "}
+                      {order.targetRate} {orderBuy.symbol}/{orderSell.symbol}
+                    </span>
+                    <Badge variant="secondary" className={STATE_STYLES[order.withdrawnAt ? 'closed' : orderStatus?.state ?? 'open']}>
+                      {order.withdrawnAt ? "withdrawn" : orderStatus ? orderStatus.state : "…"}
+                    </Badge>
+                  </div>
+
+                  {orderStatus && !order.withdrawnAt && (
+                    <div className="text-xs text-gray-500">
+                      {orderStatus.filledPercent.toFixed(2)}% filled • {formatAmount(orderStatus.remainingIn, 6)} {orderSell.symbol} left,{" "}
+                      {formatAmount(orderStatus.receivedOut, 6)} {orderBuy.symbol} received • rate now {orderStatus.currentRate.toPrecision(6)}
+                    </div>
+                  )}
+
+                  {orderStatus?.state === 'filled' && !order.withdrawnAt && !order.autoWithdraw && (
+                    <div className="text-xs text-green-700">
+                      Filled — withdraw now, or a move back across the range converts it again
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    {!order.withdrawnAt ? (
+                      <Button size="sm" variant={orderStatus?.state === 'filled' ? "default" : "outline"} disabled={isBusy}
+                        onClick={() => withdraw(order.tokenId)}>
+                        {isBusy ? <RefreshCw className="w-3 h-3 animate-spin mr-1" /> : null}
+                        {orderStatus?.state === 'filled' ? "Withdraw" : "Cancel order"}
+                      </Button>
+                    ) : (
+                      <>
+                        {order.withdrawTransactionHash && (
+                          <a
+                            href={`https://sepolia.etherscan.io/tx/${order.withdrawTransactionHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-xs text-green-600 hover:underline"
+                          >
+                            ✅ Withdrawn <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => forget(order.tokenId)}>Remove</Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Orders are single-sided V3 positions; placing and withdrawing are each one sponsored user operation
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
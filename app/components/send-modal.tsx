@@ -8,7 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { getChainById, SUPPORTED_CHAINS, getChainTokens } from "@/lib/chains";
 import { TokenBalance, fetchAllBalances } from "@/lib/blockchain";
 import { useSendTransaction } from "@privy-io/react-auth";
-import { parseEther, parseUnits } from "viem";
+import { tryParseAmount, compareAmounts, TokenAmount } from "@/lib/amounts";
+import { buildTransferCallData } from "@/lib/smart-wallet-utils";
 import { useSponsoredTransactions } from "@/app/hooks/useSponsoredTransactions";
 import ChainSelector from "./chain-selector";
 import ChainLogo from "./chain-logo";
@@ -114,8 +115,15 @@ export default function SendModal({
     setShowQrScanner(false);
   };
 
+  // Exact amount entered for the selected token, undefined while the input is invalid
+  const getSendAmount = (): TokenAmount | undefined => {
+    if (!selectedToken?.amount) return undefined;
+    return tryParseAmount(amount, selectedToken.amount.token);
+  };
+
   const handleSendTransaction = async () => {
-    if (!selectedToken || !recipientAddress || !amount) return;
+    const sendAmount = getSendAmount();
+    if (!selectedToken || !recipientAddress || !sendAmount) return;
     
     setIsLoading(true);
     setTxHash(null);
@@ -130,10 +138,8 @@ export default function SendModal({
         walletType: walletType,
       });
 
-      // Determine decimals for the token
-      let decimals = 18; // Default for ETH
-      if (selectedToken.symbol === 'USDC') decimals = 6;
-      if (selectedToken.symbol === 'COPE') decimals = 6;
+      // Token decimals come from the registry entry the balance was fetched for
+      const decimals = sendAmount.token.decimals;
 
       let transactionHash: string;
 
@@ -142,6 +148,7 @@ export default function SendModal({
         await sendSponsoredTransaction({
           recipient: recipientAddress,
           amount: amount,
+          rawAmount: sendAmount.raw,
           tokenAddress: selectedToken.symbol === 'ETH' ? undefined : selectedToken.contract,
           decimals: decimals,
           chainId: selectedChainId,
@@ -157,23 +164,15 @@ export default function SendModal({
           // Native ETH transfer
           const txResponse = await sendTransaction({
             to: recipientAddress as `0x${string}`,
-            value: parseEther(amount),
+            value: sendAmount.raw,
             chainId: selectedChainId,
           });
           transactionHash = txResponse.hash;
         } else {
           // ERC-20 token transfer
-          const tokenAmount = parseUnits(amount, decimals);
-          
-          // ERC-20 transfer function call data
-          const transferSelector = '0xa9059cbb';
-          const recipientPadded = recipientAddress.slice(2).padStart(64, '0');
-          const amountPadded = tokenAmount.toString(16).padStart(64, '0');
-          const callData = `${transferSelector}${recipientPadded}${amountPadded}`;
-
           const txResponse = await sendTransaction({
             to: selectedToken.contract as `0x${string}`,
-            data: callData as `0x${string}`,
+            data: buildTransferCallData(recipientAddress, sendAmount.raw),
             chainId: selectedChainId,
           });
           transactionHash = txResponse.hash;
@@ -210,10 +209,9 @@ export default function SendModal({
 
 
   const isAmountValid = () => {
-    if (!amount || !selectedToken) return false;
-    const numAmount = parseFloat(amount);
-    const balance = parseFloat(selectedToken.balance);
-    return numAmount > 0 && numAmount <= balance;
+    const sendAmount = getSendAmount();
+    if (!sendAmount || !selectedToken?.amount) return false;
+    return sendAmount.raw > BigInt(0) && compareAmounts(sendAmount, selectedToken.amount) <= 0;
   };
 
   const canProceed = () => {
@@ -388,17 +386,20 @@ export default function SendModal({
                       >
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-3">
-                            <TokenIcon symbol={token.symbol} size={40} />
+                            <TokenIcon symbol={token.symbol} size={40} isCustom={token.isCustom} />
                             <div>
-                              <div className="font-medium">{token.symbol}</div>
+                              <div className="font-medium flex items-center gap-2">
+                                {token.symbol}
+                                {token.isCustom && <Badge variant="secondary">Custom</Badge>}
+                                {token.possibleImpersonation && (
+                                  <Badge variant="destructive">Possible impersonation</Badge>
+                                )}
+                              </div>
                               <div className="text-sm text-gray-500">{token.name}</div>
                             </div>
                           </div>
                           <div className="text-right">
                             <div className="font-medium">{token.formattedBalance}</div>
-                            {token.usdValue && (
-                              <div className="text-sm text-gray-500">{token.usdValue}</div>
-                            )}
                           </div>
                         </div>
                       </div>
@@ -435,7 +436,7 @@ export default function SendModal({
               {/* Selected Token Info */}
               <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3">
                 <div className="flex items-center gap-3">
-                  <TokenIcon symbol={selectedToken.symbol} size={40} />
+                  <TokenIcon symbol={selectedToken.symbol} size={40} isCustom={selectedToken.isCustom} />
                   <div>
                     <div className="font-medium">{selectedToken.symbol}</div>
                     <div className="text-sm text-gray-600 dark:text-gray-400">
@@ -443,6 +444,12 @@ export default function SendModal({
                     </div>
                   </div>
                 </div>
+                {selectedToken.possibleImpersonation && (
+                  <div className="flex items-center gap-2 mt-2 text-sm text-red-600">
+                    <AlertCircle className="w-4 h-4" />
+                    This imported token uses the symbol of a built-in token. Check the contract {selectedToken.contract} before sending.
+                  </div>
+                )}
               </div>
 
               {/* Recipient Address */}
@@ -514,12 +521,6 @@ export default function SendModal({
                       Max
                     </Button>
                   </div>
-                  
-                  {amount && selectedToken.usdValue && (
-                    <div className="text-sm text-gray-500">
-                      ≈ ${(parseFloat(amount) * parseFloat(selectedToken.usdValue.replace('$', ''))).toFixed(2)}
-                    </div>
-                  )}
                 </div>
               </div>
 
@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Zap, ExternalLink, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useSmartWallet } from "@/app/hooks/useSmartWallet";
+import { useCustomTokens } from "@/app/hooks/useCustomTokens";
+import { getRpcUrls } from "@/lib/rpc";
 import { usePrivy } from "@privy-io/react-auth";
 import { useSmartWallets } from "@privy-io/react-auth/smart-wallets";
 import { useEffect, useState } from "react";
@@ -30,18 +32,29 @@ const SEPOLIA_TOKEN_LIST = [
   }
 ];
 
-// RPC endpoints for Ethereum Sepolia - Using Alchemy for better reliability
+// RPC endpoints for Ethereum Sepolia from the shared RPC registry
 const jsonRpcUrlMap = {
-  11155111: [
-    `https://eth-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`,
-    'https://ethereum-sepolia-rpc.publicnode.com',
-    'https://ethereum-sepolia.blockpi.network/v1/rpc/public'
-  ]
+  11155111: getRpcUrls(11155111)
 };
 
 export default function SimpleSwap() {
   const { user } = usePrivy();
   const { smartWalletAddress } = useSmartWallet();
+  const { customTokens } = useCustomTokens();
+
+  // Visible user-imported Sepolia tokens are offered next to the built-in list
+  const tokenList = [
+    ...SEPOLIA_TOKEN_LIST,
+    ...customTokens
+      .filter(token => token.chainId === 11155111 && !token.hidden)
+      .map(token => ({
+        name: token.name,
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        chainId: token.chainId,
+      })),
+  ];
 
   // Handle errors from the swap widget
   const handleSwapError = (error: Error) => {
@@ -101,7 +114,7 @@ export default function SimpleSwap() {
         <div className="flex justify-center">
           <SwapWidget 
             jsonRpcUrlMap={jsonRpcUrlMap}
-            tokenList={SEPOLIA_TOKEN_LIST}
+            tokenList={tokenList}
             defaultInputTokenAddress="0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" // USDC
             defaultOutputTokenAddress="0xA4A4fCb23ffcd964346D2e4eCDf5A8c15C69B219" // COPE
             onConnectWalletClick={handleConnectWallet}
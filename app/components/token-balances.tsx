@@ -1,14 +1,26 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { RefreshCw, ExternalLink, Copy, Check, AlertCircle, Globe } from "lucide-react";
+import { RefreshCw, ExternalLink, Copy, Check, AlertCircle, Globe, Plus, Eye, EyeOff, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { getAllChains, getChainById, ChainConfig } from "@/lib/chains";
+import { getAllChains, getChainById, getRegistryTokens, ChainConfig } from "@/lib/chains";
 import { fetchAllChainsBalances, getAggregatedBalanceSummary, TokenBalance } from "@/lib/blockchain";
+import { valuePortfolio, getUsdValueBySymbol, PortfolioValuation } from "@/lib/valuation";
+import { useCustomTokens } from "@/app/hooks/useCustomTokens";
+import { useDisplayCurrency } from "@/app/hooks/useDisplayCurrency";
 import ChainLogo from "./chain-logo";
 import TokenIcon from "./token-icon";
 
+const SUMMARY_CARD_COLORS = [
+  "bg-blue-50 dark:bg-blue-900/20",
+  "bg-green-50 dark:bg-green-900/20",
+  "bg-orange-50 dark:bg-orange-900/20",
+  "bg-purple-50 dark:bg-purple-900/20",
+];
+
 interface TokenBalancesProps {
   walletAddress: string;
 }
@@ -17,10 +29,25 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
   const [allChainsBalances, setAllChainsBalances] = useState<{ [chainId: number]: TokenBalance[] }>({});
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { formatUsd } = useDisplayCurrency();
+  const [valuation, setValuation] = useState<PortfolioValuation | null>(null);
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
+  const [importChainId, setImportChainId] = useState<number>(11155111);
+  const [importAddress, setImportAddress] = useState("");
+  const { customTokens, isImporting, importError, importToken, setHidden, removeToken } = useCustomTokens();
 
   const chains = getAllChains();
   const aggregatedSummary = getAggregatedBalanceSummary(allChainsBalances);
+  const summarySymbols = ['ETH', ...getRegistryTokens().map(token => token.symbol)];
+  const usdBySymbol = valuation ? getUsdValueBySymbol(valuation) : {};
+  const pricedTokens = valuation?.tokens.filter(token => token.priceProvenance) ?? [];
+  // One provenance entry per symbol; the same asset is priced identically on every chain
+  const priceProvenanceBySymbol = pricedTokens.filter(
+    (token, index) => pricedTokens.findIndex(other => other.symbol === token.symbol) === index
+  );
+  const pricesWithDeviation = priceProvenanceBySymbol.filter(
+    token => token.priceProvenance?.checks && !token.priceProvenance.checks.withinTolerance
+  );
 
   // Fetch balances across all chains
   const fetchBalances = useCallback(async () => {
@@ -36,6 +63,13 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
       const balances = await fetchAllChainsBalances(walletAddress);
       setAllChainsBalances(balances);
       setLastUpdated(new Date());
+
+      try {
+        setValuation(await valuePortfolio(balances));
+      } catch (error) {
+        console.error("❌ TokenBalances: Portfolio valuation failed:", error);
+        setValuation(null);
+      }
       
       console.log('✅ TokenBalances: Multi-chain balances fetched successfully');
     } catch (error) {
@@ -52,6 +86,25 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
     fetchBalances();
   }, [walletAddress, fetchBalances]);
 
+  const handleImportToken = async () => {
+    if (!importAddress) return;
+    const imported = await importToken(importChainId, importAddress);
+    if (imported) {
+      setImportAddress("");
+      fetchBalances();
+    }
+  };
+
+  const handleSetHidden = (chainId: number, address: string, hidden: boolean) => {
+    setHidden(chainId, address, hidden);
+    fetchBalances();
+  };
+
+  const handleRemoveToken = (chainId: number, address: string) => {
+    removeToken(chainId, address);
+    fetchBalances();
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -77,8 +130,11 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
 
   // Get all unique tokens across all chains
   type TokenSummary = {
+    key: string;
     symbol: string;
     name: string;
+    isCustom: boolean;
+    possibleImpersonation: boolean;
     totalBalance: number;
     chains: { chainId: number; balance: number; chainName: string }[];
   };
@@ -94,14 +150,19 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
         const amount = parseFloat(balance.balance);
         if (amount === 0) return;
         
-        const existing = tokenMap.get(balance.symbol);
+        // Imported tokens are grouped by contract so they never merge into a registry symbol
+        const key = balance.isCustom ? `${balance.symbol}-${balance.contract}` : balance.symbol;
+        const existing = tokenMap.get(key);
         if (existing) {
           existing.totalBalance += amount;
           existing.chains.push({ chainId: parseInt(chainId), balance: amount, chainName: chain.shortName });
         } else {
-          tokenMap.set(balance.symbol, {
+          tokenMap.set(key, {
+            key,
             symbol: balance.symbol,
             name: balance.name,
+            isCustom: !!balance.isCustom,
+            possibleImpersonation: !!balance.possibleImpersonation,
             totalBalance: amount,
             chains: [{ chainId: parseInt(chainId), balance: amount, chainName: chain.shortName }]
           });
@@ -114,6 +175,13 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
 
   const allTokens = getAllTokens();
 
+  // Balances that failed inside a chain's multicall, reported per token
+  const failedBalances = Object.entries(allChainsBalances).flatMap(([chainId, balances]) =>
+    balances
+      .filter(balance => balance.error)
+      .map(balance => ({ chainId: parseInt(chainId), symbol: balance.symbol, error: balance.error }))
+  );
+
   return (
     <>
       <Card>
@@ -143,43 +211,75 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
         <CardContent className="space-y-6">
           {/* Summary Stats */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
-              <TokenIcon symbol="ETH" size={40} />
-              <div className="font-semibold">{formatNumber(aggregatedSummary.totalEth, 6)} ETH</div>
-              <div className="text-sm text-gray-500">Total across all chains</div>
-            </div>
-            <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
-              <TokenIcon symbol="USDC" size={40} />
-              <div className="font-semibold">{formatNumber(aggregatedSummary.totalUsdc, 2)} USDC</div>
-              <div className="text-sm text-gray-500">Total across all chains</div>
-            </div>
-            <div className="bg-orange-50 dark:bg-orange-900/20 rounded-lg p-4">
-              <TokenIcon symbol="COPe" size={40} />
-              <div className="font-semibold">{formatNumber(aggregatedSummary.totalCope, 2)} COPe</div>
-              <div className="text-sm text-gray-500">Total across all chains</div>
-            </div>
-            <div className="bg-purple-50 dark:bg-purple-900/20 rounded-lg p-4">
-              <TokenIcon symbol="EURC" size={40} />
-              <div className="font-semibold">{formatNumber(aggregatedSummary.totalEurc, 2)} EURC</div>
-              <div className="text-sm text-gray-500">Total across all chains</div>
-            </div>
+            {summarySymbols.map((symbol, index) => (
+              <div key={symbol} className={`${SUMMARY_CARD_COLORS[index % SUMMARY_CARD_COLORS.length]} rounded-lg p-4`}>
+                <TokenIcon symbol={symbol} size={40} />
+                <div className="font-semibold">
+                  {formatNumber(aggregatedSummary.totals[symbol] || 0, symbol === 'ETH' ? 6 : 2)} {symbol}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {usdBySymbol[symbol] !== undefined ? formatUsd(usdBySymbol[symbol]) : "Total across all chains"}
+                </div>
+              </div>
+            ))}
           </div>
 
-
-
-
+          {/* Portfolio Value */}
+          {valuation && (
+            <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+              <div>
+                <div className="font-semibold">Portfolio Value</div>
+                <div className="text-xs text-gray-500">
+                  Prices: {valuation.sources.join(", ") || "none"} • {valuation.valuedAt.toLocaleTimeString()}
+                </div>
+                {valuation.unpricedTokens.length > 0 && (
+                  <div className="text-xs text-yellow-600">
+                    Excludes unpriced: {valuation.unpricedTokens.map(token => token.symbol).join(", ")}
+                  </div>
+                )}
+                {pricesWithDeviation.length > 0 && (
+                  <div className="text-xs text-yellow-600">
+                    Price sources disagree for: {pricesWithDeviation.map(token => token.symbol).join(", ")}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {priceProvenanceBySymbol.map(token => (
+                    <span
+                      key={token.key}
+                      className="text-xs text-gray-500"
+                      title={[
+                        token.priceProvenance?.detail,
+                        `updated ${token.priceTimestamp?.toLocaleString()}`,
+                        ...(token.priceProvenance?.warnings ?? []),
+                      ].join(' • ')}
+                    >
+                      {token.symbol}: {token.priceSource}
+                      {token.priceProvenance?.warnings && " ⚠️"}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="text-xl font-bold">{formatUsd(valuation.totalUsd)}</div>
+            </div>
+          )}
 
           {/* Token Balances by Chain */}
           <div className="space-y-4">
             <h4 className="font-semibold">Token Balances by Chain</h4>
             
             {allTokens.map((token) => (
-              <div key={token.symbol} className="border rounded-lg p-4">
+              <div key={token.key} className="border rounded-lg p-4">
                 <div className="flex items-center justify-between mb-3">
                   <div className="flex items-center gap-3">
-                    <TokenIcon symbol={token.symbol} size={40} />
+                    <TokenIcon symbol={token.symbol} size={40} isCustom={token.isCustom} />
                     <div>
-                      <div className="font-semibold">{token.symbol}</div>
+                      <div className="font-semibold flex items-center gap-2">
+                        {token.symbol}
+                        {token.isCustom && <Badge variant="secondary">Custom</Badge>}
+                        {token.possibleImpersonation && (
+                          <Badge variant="destructive">Possible impersonation</Badge>
+                        )}
+                      </div>
                       <div className="text-sm text-gray-500">{token.name}</div>
                     </div>
                   </div>
@@ -202,6 +302,98 @@ export default function TokenBalances({ walletAddress }: TokenBalancesProps) {
             ))}
           </div>
 
+          {/* Partial failures */}
+          {failedBalances.length > 0 && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3 text-sm space-y-1">
+              <div className="flex items-center gap-2 font-medium text-yellow-700 dark:text-yellow-400">
+                <AlertCircle className="w-4 h-4" />
+                Some balances could not be loaded
+              </div>
+              {failedBalances.map((failed) => (
+                <div key={`${failed.chainId}-${failed.symbol}`} className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                  {failed.symbol} on {getChainById(failed.chainId)?.shortName}: {failed.error}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Custom Tokens */}
+          <div className="space-y-3">
+            <h4 className="font-semibold">Custom Tokens</h4>
+            <div className="flex flex-col md:flex-row gap-2">
+              <select
+                value={importChainId}
+                onChange={(e) => setImportChainId(parseInt(e.target.value))}
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                {chains.map((chain) => (
+                  <option key={chain.chainId} value={chain.chainId}>{chain.shortName}</option>
+                ))}
+              </select>
+              <Input
+                placeholder="ERC-20 contract address (0x...)"
+                value={importAddress}
+                onChange={(e) => setImportAddress(e.target.value)}
+                className="flex-1 font-mono"
+              />
+              <Button
+                variant="outline"
+                onClick={handleImportToken}
+                disabled={isImporting || !importAddress}
+                className="gap-2"
+              >
+                {isImporting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Import
+              </Button>
+            </div>
+            {importError && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertCircle className="w-4 h-4" />
+                {importError}
+              </div>
+            )}
+
+            {customTokens.map((token) => (
+              <div
+                key={`${token.chainId}-${token.address}`}
+                className={`flex items-center justify-between border rounded-lg p-3 ${token.hidden ? "opacity-50" : ""}`}
+              >
+                <div className="flex items-center gap-3">
+                  <TokenIcon symbol={token.symbol} size={32} isCustom />
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {token.symbol}
+                      {token.possibleImpersonation && (
+                        <Badge variant="destructive">Possible impersonation</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {getChainById(token.chainId)?.shortName} • <span className="font-mono">{formatAddress(token.address)}</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSetHidden(token.chainId, token.address, !token.hidden)}
+                    title={token.hidden ? "Show token" : "Hide token"}
+                  >
+                    {token.hidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveToken(token.chainId, token.address)}
+                    title="Remove token"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
           {/* Loading state */}
           {isLoading && allTokens.length === 0 && (
             <div className="flex items-center justify-center py-8">
@@ -1,51 +1,50 @@
 "use client";
 
 import Image from "next/image";
+import { getRegistryTokens, NATIVE_TOKEN_LOGO } from "@/lib/chains";
+
+const CUSTOM_TOKEN_ICON_CLASSES = "bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300";
 
 interface TokenIconProps {
   symbol: string;
   size?: number;
   className?: string;
+  logoUrl?: string;
+  isCustom?: boolean; // User-imported tokens never borrow a registry logo
 }
 
-export default function TokenIcon({ symbol, size = 24, className = "" }: TokenIconProps) {
-  const getTokenLogoPath = (tokenSymbol: string): string => {
-    switch (tokenSymbol.toUpperCase()) {
-      case "ETH":
-        return "/tokens/ether_crypto.png";
-      case "USDC":
-        return "/tokens/usdc_token.png";
-      case "COPE":
-      case "COPe":
-        return "/tokens/ecop.png";
-      case "EURC":
-        return "/tokens/usdc_token.png"; // Using USDC as placeholder for EURC
-      default:
-        return "/tokens/ether_crypto.png"; // Default fallback
-    }
+export default function TokenIcon({ symbol, size = 24, className = "", logoUrl, isCustom = false }: TokenIconProps) {
+  if (isCustom && !logoUrl) {
+    return (
+      <div
+        className={`flex-shrink-0 flex items-center justify-center rounded-full font-semibold ${CUSTOM_TOKEN_ICON_CLASSES} ${className}`}
+        style={{ width: size, height: size, fontSize: size * 0.4 }}
+      >
+        {symbol.slice(0, 1).toUpperCase()}
+      </div>
+    );
+  }
+
+
+  const registryToken = getRegistryTokens().find(
+    (token) => token.symbol.toUpperCase() === symbol.toUpperCase()
+  );
+
+  const getTokenLogoPath = (): string => {
+    if (logoUrl) return logoUrl;
+    return registryToken?.logoUrl || NATIVE_TOKEN_LOGO; // Native ETH and default fallback
   };
 
-  const getTokenAlt = (tokenSymbol: string): string => {
-    switch (tokenSymbol.toUpperCase()) {
-      case "ETH":
-        return "Ethereum";
-      case "USDC":
-        return "USD Coin";
-      case "COPE":
-      case "COPe":
-        return "Electronic Colombian Peso";
-      case "EURC":
-        return "Euro Coin";
-      default:
-        return "Token";
-    }
+  const getTokenAlt = (): string => {
+    if (symbol.toUpperCase() === "ETH") return "Ethereum";
+    return registryToken?.name || "Token";
   };
 
   return (
     <div className={`flex-shrink-0 ${className}`} style={{ width: size, height: size }}>
       <Image
-        src={getTokenLogoPath(symbol)}
-        alt={getTokenAlt(symbol)}
+        src={getTokenLogoPath()}
+        alt={getTokenAlt()}
         width={size}
         height={size}
         className="rounded-full object-cover"
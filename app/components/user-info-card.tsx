@@ -17,12 +17,16 @@ import {
 } from "@/components/ui/tooltip";
 import { formatAddress } from "@/lib/utils";
 import { useUser, useSmartAccountClient } from "@account-kit/react";
+import { usePortfolioValuation } from "@/app/hooks/usePortfolioValuation";
+import { useDisplayCurrency } from "@/app/hooks/useDisplayCurrency";
 
 export default function UserInfo() {
   const [isCopied, setIsCopied] = useState(false);
   const user = useUser();
   const userEmail = user?.email ?? "anon";
   const { client } = useSmartAccountClient({});
+  const { valuation, isLoading: isValuing } = usePortfolioValuation(client?.account?.address);
+  const { formatUsd } = useDisplayCurrency();
 
   const handleCopy = () => {
     navigator.clipboard.writeText(client?.account?.address ?? "");
@@ -90,6 +94,23 @@ export default function UserInfo() {
             </Button>
           </div>
         </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">
+            Portfolio value
+          </p>
+          <p className="font-medium">
+            {valuation
+              ? formatUsd(valuation.totalUsd)
+              : isValuing ? "Loading..." : "Unavailable"}
+          </p>
+          {valuation && (
+            <p className="text-xs text-muted-foreground">
+              {valuation.sources.join(", ") || "no price source"} • {valuation.valuedAt.toLocaleTimeString()}
+              {valuation.unpricedTokens.length > 0 &&
+                ` • excludes ${valuation.unpricedTokens.map((token) => token.symbol).join(", ")}`}
+            </p>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowUpDown, Zap, AlertCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { useSmartWallet } from "@/app/hooks/useSmartWallet";
+import { useV4Swap } from "@/app/hooks/useV4Swap";
+import { AmountToken, formatAmount, tryParseAmount } from "@/lib/amounts";
+import { TOKENS } from "@/lib/uniswap-v4-utils";
+
+const V4_SLIPPAGE_PERCENT = 0.5;
+
+const toAmountToken = (token: typeof TOKENS.USDC): AmountToken => ({
+  symbol: token.symbol,
+  decimals: token.decimals,
+  address: token.address,
+  chainId: 11155111,
+});
+
+export default function V4Swap() {
+  const { smartWalletAddress } = useSmartWallet();
+  const { quote, isQuoting, isSwapping, transactionHash, error, getQuote, executeSwap, reset } = useV4Swap();
+  const [sellUsdc, setSellUsdc] = useState(true);
+  const [amount, setAmount] = useState("");
+
+  const tokenIn = toAmountToken(sellUsdc ? TOKENS.USDC : TOKENS.COPE);
+  const tokenOut = toAmountToken(sellUsdc ? TOKENS.COPE : TOKENS.USDC);
+  const amountIn = tryParseAmount(amount, tokenIn);
+
+  const handleFlip = () => {
+    setSellUsdc(!sellUsdc);
+    reset();
+  };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    reset();
+  };
+
+  const handleQuote = async () => {
+    if (!amountIn || amountIn.raw === BigInt(0)) return;
+    await getQuote(amountIn, tokenOut, V4_SLIPPAGE_PERCENT);
+  };
+
+  if (!smartWalletAddress) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="w-5 h-5" />
+          V4 Swap ({tokenIn.symbol} → {tokenOut.symbol})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            type="text"
+            inputMode="decimal"
+            placeholder={`Amount of ${tokenIn.symbol}`}
+            value={amount}
+            onChange={(e) => handleAmountChange(e.target.value)}
+          />
+          <Button variant="outline" size="icon" onClick={handleFlip} title="Switch direction">
+            <ArrowUpDown className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {quote && (
+          <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm space-y-1">
+            <div>You receive ≈ {formatAmount(quote.amountOut)} {tokenOut.symbol}</div>
+            <div className="text-xs text-gray-500">
+              Minimum {formatAmount(quote.minimumAmountOut)} {tokenOut.symbol} ({V4_SLIPPAGE_PERCENT}% slippage)
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {quote ? (
+          <Button className="w-full" onClick={executeSwap} disabled={isSwapping}>
+            {isSwapping ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : null}
+            {isSwapping ? "Swapping..." : "Swap via Universal Router"}
+          </Button>
+        ) : (
+          <Button className="w-full" variant="outline" onClick={handleQuote} disabled={!amountIn || isQuoting}>
+            {isQuoting ? <RefreshCw className="w-4 h-4 animate-spin mr-2" /> : null}
+            {isQuoting ? "Quoting..." : "Get V4 quote"}
+          </Button>
+        )}
+
+        {transactionHash && (
+          <a
+            href={`https://sepolia.etherscan.io/tx/${transactionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-sm text-green-600 hover:underline"
+          >
+            ✅ Swap sent <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Approvals and swap are sent together as one sponsored user operation
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { useSmartWallet } from './useSmartWallet';
+import { MintRequest, MintResult, buildMintPlan, decodeMintResult } from '@/lib/uniswap-v3-liquidity';
+
+export interface AddLiquidityStatus {
+  isLoading: boolean;
+  stage?: 'building' | 'sending' | 'confirming';
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface UseAddLiquidityReturn {
+  mint: (request: MintRequest) => Promise<MintResult | undefined>;
+  status: AddLiquidityStatus;
+  result?: MintResult;
+  reset: () => void;
+}
+
+/**
+ * Mint a V3 position from the smart wallet: approvals and PositionManager.mint go out
+ * together as one sponsored user operation
+ */
+export function useAddLiquidity(): UseAddLiquidityReturn {
+  const { client, smartWalletAddress } = useSmartWallet();
+  const [status, setStatus] = useState<AddLiquidityStatus>({ isLoading: false });
+  const [result, setResult] = useState<MintResult>();
+
+  const reset = useCallback(() => {
+    setStatus({ isLoading: false });
+    setResult(undefined);
+  }, []);
+
+  const mint = useCallback(async (request: MintRequest) => {
+    if (!client || !smartWalletAddress) {
+      setStatus({ isLoading: false, error: 'Smart wallet not connected' });
+      return undefined;
+    }
+
+    setResult(undefined);
+    setStatus({ isLoading: true, stage: 'building' });
+
+    try {
+      const plan = await buildMintPlan(smartWalletAddress as `0x${string}`, request);
+      console.log(`🧩 Mint batch: ${plan.calls.length} calls (${plan.approvals.length} approvals)`);
+
+      setStatus({ isLoading: true, stage: 'sending' });
+      const transactionHash = await client.sendTransaction({ calls: plan.calls });
+
+      setStatus({ isLoading: true, stage: 'confirming', transactionHash });
+      const mintResult = await decodeMintResult(transactionHash, request.pool.chainId);
+      if (mintResult.status === 'reverted') {
+        throw new Error(`Mint reverted in ${transactionHash}`);
+      }
+
+      console.log('✅ Position minted:', mintResult);
+      setResult(mintResult);
+      setStatus({ isLoading: false, transactionHash });
+      return mintResult;
+    } catch (error) {
+      console.error('❌ Mint failed:', error);
+      setStatus(prev => ({
+        isLoading: false,
+        transactionHash: prev.transactionHash,
+        error: error instanceof Error ? error.message : 'Failed to add liquidity',
+      }));
+      return undefined;
+    }
+  }, [client, smartWalletAddress]);
+
+  return {
+    mint,
+    status,
+    result,
+    reset,
+  };
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchTokenMetadata } from '@/lib/blockchain';
+import {
+  CustomToken,
+  loadCustomTokens,
+  addCustomToken,
+  setCustomTokenHidden,
+  removeCustomToken,
+} from '@/lib/custom-tokens';
+
+export interface UseCustomTokensReturn {
+  customTokens: CustomToken[];
+  isImporting: boolean;
+  importError?: string;
+  importToken: (chainId: number, address: string) => Promise<CustomToken | undefined>;
+  setHidden: (chainId: number, address: string, hidden: boolean) => void;
+  removeToken: (chainId: number, address: string) => void;
+}
+
+/**
+ * Hook for importing, hiding and removing user-added ERC-20 tokens.
+ * Metadata is read on-chain so only real ERC-20 contracts can be imported.
+ */
+export function useCustomTokens(): UseCustomTokensReturn {
+  const [customTokens, setCustomTokens] = useState<CustomToken[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | undefined>();
+
+  // Load imported tokens from localStorage on mount
+  useEffect(() => {
+    setCustomTokens(loadCustomTokens());
+  }, []);
+
+  const importToken = useCallback(async (chainId: number, address: string) => {
+    setIsImporting(true);
+    setImportError(undefined);
+
+    try {
+      console.log(`🔍 Importing token ${address} on chain ${chainId}`);
+      const metadata = await fetchTokenMetadata(address.trim(), chainId);
+      const updatedTokens = addCustomToken(chainId, metadata);
+      setCustomTokens(updatedTokens);
+
+      const imported = updatedTokens[updatedTokens.length - 1];
+      if (imported.possibleImpersonation) {
+        console.warn(`⚠️ Imported ${imported.symbol} shares a symbol with a built-in token`);
+      }
+      return imported;
+    } catch (error) {
+      console.error('❌ Token import failed:', error);
+      setImportError(error instanceof Error ? error.message : 'Unknown error');
+      return undefined;
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  const setHidden = useCallback((chainId: number, address: string, hidden: boolean) => {
+    setCustomTokens(setCustomTokenHidden(chainId, address, hidden));
+  }, []);
+
+  const removeToken = useCallback((chainId: number, address: string) => {
+    setCustomTokens(removeCustomToken(chainId, address));
+  }, []);
+
+  return {
+    customTokens,
+    isImporting,
+    importError,
+    importToken,
+    setHidden,
+    removeToken,
+  };
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePrivy } from '@privy-io/react-auth';
+import {
+  DisplayCurrency,
+  FxRates,
+  convertFiat,
+  fetchFxRates,
+  formatUsdAs,
+} from '@/lib/fiat';
+import {
+  DEFAULT_USER_PREFERENCES,
+  PREFERENCES_CHANGED_EVENT,
+  loadUserPreferences,
+  saveUserPreferences,
+} from '@/lib/user-preferences';
+
+// Preferences for signed-out sessions are kept under this id
+const ANONYMOUS_USER_ID = 'anonymous';
+
+export interface UseDisplayCurrencyReturn {
+  currency: DisplayCurrency;
+  setCurrency: (currency: DisplayCurrency) => void;
+  fxRates?: FxRates;
+  fxError?: string;
+  /** USD value converted to the display currency; undefined until rates load (USD is always available) */
+  convertUsd: (usdAmount: number) => number | undefined;
+  /** USD value formatted in the display currency, or in USD while rates are unavailable */
+  formatUsd: (usdAmount: number) => string;
+}
+
+/**
+ * Hook for the signed-in user's display currency and the FX rates to apply it
+ */
+export function useDisplayCurrency(): UseDisplayCurrencyReturn {
+  const { user } = usePrivy();
+  const userId = user?.id ?? ANONYMOUS_USER_ID;
+  const [currency, setCurrencyState] = useState<DisplayCurrency>(DEFAULT_USER_PREFERENCES.currency);
+  const [fxRates, setFxRates] = useState<FxRates | undefined>();
+  const [fxError, setFxError] = useState<string | undefined>();
+
+  // Load the stored preference and follow changes made by other components
+  useEffect(() => {
+    const syncPreference = () => setCurrencyState(loadUserPreferences(userId).currency);
+    syncPreference();
+    window.addEventListener(PREFERENCES_CHANGED_EVENT, syncPreference);
+    return () => window.removeEventListener(PREFERENCES_CHANGED_EVENT, syncPreference);
+  }, [userId]);
+
+  useEffect(() => {
+    if (currency === 'USD') return;
+
+    fetchFxRates()
+      .then(rates => {
+        setFxRates(rates);
+        setFxError(undefined);
+      })
+      .catch(error => {
+        console.error('❌ FX rates unavailable:', error);
+        setFxError(error instanceof Error ? error.message : 'Unknown error');
+      });
+  }, [currency]);
+
+  const setCurrency = useCallback((nextCurrency: DisplayCurrency) => {
+    setCurrencyState(saveUserPreferences(userId, { currency: nextCurrency }).currency);
+  }, [userId]);
+
+  const convertUsd = useCallback(
+    (usdAmount: number) => convertFiat(usdAmount, 'USD', currency, fxRates),
+    [currency, fxRates]
+  );
+
+  const formatUsd = useCallback(
+    (usdAmount: number) => formatUsdAs(usdAmount, currency, fxRates),
+    [currency, fxRates]
+  );
+
+  return {
+    currency,
+    setCurrency,
+    fxRates,
+    fxError,
+    convertUsd,
+    formatUsd,
+  };
+}
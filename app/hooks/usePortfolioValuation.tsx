@@ -0,0 +1,43 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchAllChainsBalances } from '@/lib/blockchain';
+import { valuePortfolio, type PortfolioValuation } from '@/lib/valuation';
+
+export interface UsePortfolioValuationReturn {
+  valuation: PortfolioValuation | null;
+  isLoading: boolean;
+  error?: string;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for the fiat value of a wallet across all supported chains
+ */
+export function usePortfolioValuation(walletAddress?: string): UsePortfolioValuationReturn {
+  const [valuation, setValuation] = useState<PortfolioValuation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return;
+
+    setIsLoading(true);
+    setError(undefined);
+    try {
+      const balances = await fetchAllChainsBalances(walletAddress);
+      setValuation(await valuePortfolio(balances));
+    } catch (error) {
+      console.error('❌ Portfolio valuation failed:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { valuation, isLoading, error, refresh };
+}
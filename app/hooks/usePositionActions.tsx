@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useCallback, useEffect } from 'react';
+import { useSmartWallet } from './useSmartWallet';
+import { AmountToken, TokenAmount } from '@/lib/amounts';
+import { BatchCall } from '@/lib/swap-execution';
+import { getPublicClient } from '@/lib/rpc';
+import {
+  DecreasePreview,
+  V3PoolPriceState,
+  V3PositionDetails,
+  buildCollectCalls,
+  buildDecreaseLiquidityCalls,
+  buildIncreaseLiquidityPlan,
+  getPoolPriceState,
+  getPoolToken,
+  getPositionDetails,
+  previewCollect,
+} from '@/lib/uniswap-v3-liquidity';
+
+export type PositionAction = 'increase' | 'decrease' | 'collect' | 'close';
+
+export interface PositionActionStatus {
+  isLoading: boolean;
+  action?: PositionAction;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface UsePositionActionsReturn {
+  position?: V3PositionDetails;
+  pool?: V3PoolPriceState;
+  tokens?: { token0: AmountToken; token1: AmountToken };
+  unclaimedFees?: { amount0: bigint; amount1: bigint }; // Everything collect() would pay out now
+  isLoadingPosition: boolean;
+  refresh: () => Promise<void>;
+  increase: (amount0Desired: TokenAmount, amount1Desired: TokenAmount, slippagePercent: number) => Promise<boolean>;
+  decrease: (preview: DecreasePreview, slippagePercent: number) => Promise<boolean>;
+  collect: () => Promise<boolean>;
+  close: (preview: DecreasePreview, slippagePercent: number) => Promise<boolean>;
+  status: PositionActionStatus;
+}
+
+// PositionManager rejects the user operation if it lands after this
+const DEADLINE_MINUTES = 20;
+
+/**
+ * Load a V3 position with its pool price and unclaimed fees, and act on it through
+ * PositionManager; every action is one sponsored user operation
+ */
+export function usePositionActions(tokenId: bigint, chainId: number = 11155111): UsePositionActionsReturn {
+  const { client, smartWalletAddress } = useSmartWallet();
+  const [position, setPosition] = useState<V3PositionDetails>();
+  const [pool, setPool] = useState<V3PoolPriceState>();
+  const [unclaimedFees, setUnclaimedFees] = useState<{ amount0: bigint; amount1: bigint }>();
+  const [isLoadingPosition, setIsLoadingPosition] = useState(false);
+  const [status, setStatus] = useState<PositionActionStatus>({ isLoading: false });
+
+  const refresh = useCallback(async () => {
+    setIsLoadingPosition(true);
+    try {
+      const details = await getPositionDetails(chainId, tokenId);
+      const [poolState, fees] = await Promise.all([
+        getPoolPriceState(chainId, details.poolAddress),
+        smartWalletAddress
+          ? previewCollect(smartWalletAddress as `0x${string}`, details).catch(error => {
+              console.warn('⚠️ Fee preview failed:', error);
+              return undefined;
+            })
+          : Promise.resolve(undefined),
+      ]);
+
+      setPosition(details);
+      setPool(poolState);
+      setUnclaimedFees(fees);
+    } catch (error) {
+      console.error(`❌ Failed to load position ${tokenId}:`, error);
+      setStatus({ isLoading: false, error: error instanceof Error ? error.message : 'Failed to load position' });
+    } finally {
+      setIsLoadingPosition(false);
+    }
+  }, [chainId, tokenId, smartWalletAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Send one batch, wait for it and reload the position
+  const run = useCallback(async (action: PositionAction, buildCalls: (owner: `0x${string}`) => Promise<BatchCall[]>) => {
+    if (!client || !smartWalletAddress) {
+      setStatus({ isLoading: false, error: 'Smart wallet not connected' });
+      return false;
+    }
+
+    setStatus({ isLoading: true, action });
+    try {
+      const calls = await buildCalls(smartWalletAddress as `0x${string}`);
+      console.log(`🧩 Position ${tokenId} ${action}: ${calls.length} calls`);
+
+      const transactionHash = await client.sendTransaction({ calls });
+      setStatus({ isLoading: true, action, transactionHash });
+
+      const receipt = await getPublicClient(chainId).waitForTransactionReceipt({ hash: transactionHash });
+      if (receipt.status === 'reverted') {
+        throw new Error(`Position ${action} reverted in ${transactionHash}`);
+      }
+
+      console.log(`✅ Position ${tokenId} ${action} confirmed:`, transactionHash);
+      setStatus({ isLoading: false, action, transactionHash });
+      // A closed position's NFT is burned, there is nothing left to reload
+      if (action !== 'close') {
+        await refresh();
+      }
+      return true;
+    } catch (error) {
+      console.error(`❌ Position ${action} failed:`, error);
+      setStatus(prev => ({
+        isLoading: false,
+        action,
+        transactionHash: prev.transactionHash,
+        error: error instanceof Error ? error.message : `Position ${action} failed`,
+      }));
+      return false;
+    }
+  }, [client, smartWalletAddress, chainId, tokenId, refresh]);
+
+  const increase = useCallback(async (amount0Desired: TokenAmount, amount1Desired: TokenAmount, slippagePercent: number) => {
+    if (!position) return false;
+    return run('increase', async owner => (await buildIncreaseLiquidityPlan(owner, {
+      position,
+      amount0Desired,
+      amount1Desired,
+      slippagePercent,
+      deadlineMinutes: DEADLINE_MINUTES,
+    })).calls);
+  }, [position, run]);
+
+  const decrease = useCallback(async (preview: DecreasePreview, slippagePercent: number) => {
+    if (!position) return false;
+    return run('decrease', async owner =>
+      buildDecreaseLiquidityCalls(position, preview, slippagePercent, DEADLINE_MINUTES, owner));
+  }, [position, run]);
+
+  const collect = useCallback(async () => {
+    if (!position) return false;
+    return run('collect', async owner => buildCollectCalls(position, owner));
+  }, [position, run]);
+
+  // Withdraw everything, collect it with the fees and burn the NFT
+  const close = useCallback(async (preview: DecreasePreview, slippagePercent: number) => {
+    if (!position) return false;
+    return run('close', async owner =>
+      buildDecreaseLiquidityCalls(position, preview, slippagePercent, DEADLINE_MINUTES, owner, true));
+  }, [position, run]);
+
+  const tokens = position
+    ? { token0: getPoolToken(chainId, position.token0), token1: getPoolToken(chainId, position.token1) }
+    : undefined;
+
+  return {
+    position,
+    pool,
+    tokens,
+    unclaimedFees,
+    isLoadingPosition,
+    refresh,
+    increase,
+    decrease,
+    collect,
+    close,
+    status,
+  };
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState, useCallback, useEffect } from 'react';
+import { V3PositionDetails, getPoolToken } from '@/lib/uniswap-v3-liquidity';
+import { PositionRangeCheck, RangeAlert, checkPositionRanges, getRangeAlert } from '@/lib/uniswap-v3-rebalance';
+
+export interface UsePositionMonitorReturn {
+  checks: Record<string, PositionRangeCheck>; // Keyed by token id
+  alerts: RangeAlert[]; // Out-of-range first
+  lastCheckedAt?: Date;
+  isChecking: boolean;
+  refresh: () => Promise<void>;
+}
+
+// Pool ticks move with every swap; re-check this often while the page is open
+const MONITOR_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keep checking positions against their pools' current ticks and raise alerts for the
+ * ones out of range or near an edge
+ */
+export function usePositionMonitor(positions: V3PositionDetails[]): UsePositionMonitorReturn {
+  const [checks, setChecks] = useState<Record<string, PositionRangeCheck>>({});
+  const [alerts, setAlerts] = useState<RangeAlert[]>([]);
+  const [lastCheckedAt, setLastCheckedAt] = useState<Date>();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (positions.length === 0) {
+      setChecks({});
+      setAlerts([]);
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      const results = await checkPositionRanges(positions);
+      const positionsById = new Map(positions.map(position => [position.tokenId.toString(), position]));
+
+      setChecks(Object.fromEntries(results.map(check => [check.tokenId.toString(), check])));
+      setAlerts(results
+        .flatMap(check => {
+          const position = positionsById.get(check.tokenId.toString());
+          const alert = position && getRangeAlert(check, {
+            token0: getPoolToken(position.chainId, position.token0),
+            token1: getPoolToken(position.chainId, position.token1),
+          });
+          return alert ? [alert] : [];
+        })
+        .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1)));
+      setLastCheckedAt(new Date());
+
+      console.log(`🎯 Range check: ${results.length} positions, ${results.filter(check => check.status !== 'in-range').length} need attention`);
+    } catch (error) {
+      console.error('❌ Range check failed:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  }, [positions]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, MONITOR_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { checks, alerts, lastCheckedAt, isChecking, refresh };
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useSmartWallet } from './useSmartWallet';
+import { getPublicClient } from '@/lib/rpc';
+import { DEFAULT_DEADLINE_MINUTES } from '@/lib/swap-execution';
+import { decodeMintResult } from '@/lib/uniswap-v3-liquidity';
+import {
+  RangeOrderPlacement,
+  RangeOrderStatus,
+  StoredRangeOrder,
+  addRangeOrder,
+  buildRangeOrderPlan,
+  buildRangeOrderWithdrawCalls,
+  loadRangeOrders,
+  readRangeOrderStatus,
+  removeRangeOrder,
+  updateRangeOrder,
+} from '@/lib/uniswap-v3-range-orders';
+
+export interface RangeOrderActionStatus {
+  isLoading: boolean;
+  action?: 'place' | 'withdraw';
+  tokenId?: string;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface UseRangeOrdersReturn {
+  orders: StoredRangeOrder[]; // This wallet's orders, newest first
+  statuses: Record<string, RangeOrderStatus>; // Open orders only, keyed by token id
+  place: (placement: RangeOrderPlacement, slippagePercent: number, autoWithdraw: boolean) => Promise<boolean>;
+  withdraw: (tokenId: string) => Promise<boolean>;
+  forget: (tokenId: string) => void;
+  refresh: () => Promise<void>;
+  status: RangeOrderActionStatus;
+}
+
+// Fills happen as swaps cross the range; poll about this often while the page is open
+const ORDER_POLL_INTERVAL_MS = 30 * 1000;
+
+// Slippage for withdrawals; a filled order's amounts only move if the price crosses back
+const WITHDRAW_SLIPPAGE_PERCENT = 0.5;
+
+/**
+ * Place and track range orders from the smart wallet. Filled orders are withdrawn automatically
+ * while the page is open when the order asked for it, otherwise they wait for the user.
+ */
+export function useRangeOrders(): UseRangeOrdersReturn {
+  const { client, smartWalletAddress } = useSmartWallet();
+  const [orders, setOrders] = useState<StoredRangeOrder[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, RangeOrderStatus>>({});
+  const [status, setStatus] = useState<RangeOrderActionStatus>({ isLoading: false });
+  // Orders with a withdrawal in flight, so a poll does not send a second one
+  const withdrawing = useRef(new Set<string>());
+
+  const ownOrders = useCallback((all: StoredRangeOrder[]) => all
+    .filter(order => smartWalletAddress && order.owner.toLowerCase() === smartWalletAddress.toLowerCase())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [smartWalletAddress]);
+
+  // Load stored orders from localStorage once the wallet is known
+  useEffect(() => {
+    setOrders(ownOrders(loadRangeOrders()));
+  }, [ownOrders]);
+
+  const withdraw = useCallback(async (tokenId: string) => {
+    const order = orders.find(candidate => candidate.tokenId === tokenId);
+    if (!client || !smartWalletAddress) {
+      setStatus({ isLoading: false, error: 'Smart wallet not connected' });
+      return false;
+    }
+    if (!order || withdrawing.current.has(tokenId)) return false;
+
+    withdrawing.current.add(tokenId);
+    setStatus({ isLoading: true, action: 'withdraw', tokenId });
+    try {
+      const calls = await buildRangeOrderWithdrawCalls(
+        order,
+        WITHDRAW_SLIPPAGE_PERCENT,
+        DEFAULT_DEADLINE_MINUTES,
+        smartWalletAddress as `0x${string}`
+      );
+      const transactionHash = await client.sendTransaction({ calls });
+      setStatus({ isLoading: true, action: 'withdraw', tokenId, transactionHash });
+
+      const receipt = await getPublicClient(order.chainId).waitForTransactionReceipt({ hash: transactionHash });
+      if (receipt.status === 'reverted') {
+        throw new Error(`Range order withdrawal reverted in ${transactionHash}`);
+      }
+
+      console.log(`✅ Range order ${tokenId} withdrawn:`, transactionHash);
+      setOrders(ownOrders(updateRangeOrder(tokenId, {
+        withdrawnAt: new Date().toISOString(),
+        withdrawTransactionHash: transactionHash,
+      })));
+      setStatuses(prev => {
+        const remaining = { ...prev };
+        delete remaining[tokenId];
+        return remaining;
+      });
+      setStatus({ isLoading: false, action: 'withdraw', tokenId, transactionHash });
+      return true;
+    } catch (error) {
+      console.error(`❌ Range order ${tokenId} withdrawal failed:`, error);
+      setStatus(prev => ({
+        isLoading: false,
+        action: 'withdraw',
+        tokenId,
+        transactionHash: prev.transactionHash,
+        error: error instanceof Error ? error.message : 'Withdrawal failed',
+      }));
+      return false;
+    } finally {
+      withdrawing.current.delete(tokenId);
+    }
+  }, [client, smartWalletAddress, orders, ownOrders]);
+
+  const refresh = useCallback(async () => {
+    const open = orders.filter(order => !order.withdrawnAt);
+    if (open.length === 0) return;
+
+    const results = await Promise.allSettled(open.map(order => readRangeOrderStatus(order)));
+    const updated: Record<string, RangeOrderStatus> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        updated[open[index].tokenId] = result.value;
+      } else {
+        console.warn(`⚠️ Range order ${open[index].tokenId} status unavailable:`, result.reason);
+      }
+    });
+    setStatuses(updated);
+
+    for (const order of open) {
+      if (order.autoWithdraw && updated[order.tokenId]?.state === 'filled') {
+        console.log(`🎯 Range order ${order.tokenId} filled, withdrawing`);
+        await withdraw(order.tokenId);
+      }
+    }
+  }, [orders, withdraw]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, ORDER_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const place = useCallback(async (placement: RangeOrderPlacement, slippagePercent: number, autoWithdraw: boolean) => {
+    if (!client || !smartWalletAddress) {
+      setStatus({ isLoading: false, error: 'Smart wallet not connected' });
+      return false;
+    }
+
+    setStatus({ isLoading: true, action: 'place' });
+    try {
+      const plan = await buildRangeOrderPlan(
+        smartWalletAddress as `0x${string}`,
+        placement,
+        slippagePercent,
+        DEFAULT_DEADLINE_MINUTES
+      );
+      console.log(`🧩 Range order batch: ${plan.calls.length} calls (${plan.approvals.length} approvals)`);
+
+      const transactionHash = await client.sendTransaction({ calls: plan.calls });
+      setStatus({ isLoading: true, action: 'place', transactionHash });
+
+      const result = await decodeMintResult(transactionHash, placement.pool.chainId);
+      if (result.status === 'reverted' || result.tokenId === undefined) {
+        throw new Error(`Range order mint reverted in ${transactionHash}`);
+      }
+
+      const tokenId = result.tokenId.toString();
+      const buyToken = placement.sellToken0 ? placement.pool.token1 : placement.pool.token0;
+      setOrders(ownOrders(addRangeOrder({
+        tokenId,
+        chainId: placement.pool.chainId,
+        owner: smartWalletAddress,
+        poolAddress: placement.pool.poolAddress,
+        sellToken: placement.amountIn.token.address ?? '',
+        buyToken,
+        amountIn: placement.amountIn.raw.toString(),
+        targetRate: placement.targetRate,
+        tickLower: placement.range.tickLower,
+        tickUpper: placement.range.tickUpper,
+        autoWithdraw,
+        createdAt: new Date().toISOString(),
+      })));
+
+      console.log(`✅ Range order #${tokenId} placed:`, transactionHash);
+      setStatus({ isLoading: false, action: 'place', tokenId, transactionHash });
+      return true;
+    } catch (error) {
+      console.error('❌ Range order failed:', error);
+      setStatus(prev => ({
+        isLoading: false,
+        action: 'place',
+        transactionHash: prev.transactionHash,
+        error: error instanceof Error ? error.message : 'Range order failed',
+      }));
+      return false;
+    }
+  }, [client, smartWalletAddress, ownOrders]);
+
+  const forget = useCallback((tokenId: string) => {
+    setOrders(ownOrders(removeRangeOrder(tokenId)));
+  }, [ownOrders]);
+
+  return { orders, statuses, place, withdraw, forget, refresh, status };
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { useSmartWallet } from './useSmartWallet';
+import { DEFAULT_DEADLINE_MINUTES } from '@/lib/swap-execution';
+import { V3PositionValue } from '@/lib/uniswap-v3-positions';
+import { MintResult, decodeMintResult } from '@/lib/uniswap-v3-liquidity';
+import { RebalancePreview, buildRebalancePlan, previewRebalance } from '@/lib/uniswap-v3-rebalance';
+
+export interface RebalanceStatus {
+  isLoading: boolean;
+  stage?: 'previewing' | 'building' | 'sending' | 'confirming';
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface UseRebalanceReturn {
+  preview?: RebalancePreview;
+  propose: (value: V3PositionValue, slippagePercent: number, widthTicks?: number) => Promise<void>;
+  execute: () => Promise<MintResult | undefined>;
+  status: RebalanceStatus;
+  result?: MintResult; // The new position
+  reset: () => void;
+}
+
+/**
+ * Preview and carry out a one-click rebalance: withdrawing the old range, the swap and the
+ * new mint go out together as one sponsored user operation
+ */
+export function useRebalance(): UseRebalanceReturn {
+  const { client, smartWalletAddress } = useSmartWallet();
+  const [proposal, setProposal] = useState<{ value: V3PositionValue; preview: RebalancePreview }>();
+  const [status, setStatus] = useState<RebalanceStatus>({ isLoading: false });
+  const [result, setResult] = useState<MintResult>();
+
+  const reset = useCallback(() => {
+    setProposal(undefined);
+    setStatus({ isLoading: false });
+    setResult(undefined);
+  }, []);
+
+  const propose = useCallback(async (value: V3PositionValue, slippagePercent: number, widthTicks?: number) => {
+    setProposal(undefined);
+    setResult(undefined);
+    setStatus({ isLoading: true, stage: 'previewing' });
+    try {
+      const preview = await previewRebalance(value, slippagePercent, widthTicks);
+      setProposal({ value, preview });
+      setStatus({ isLoading: false });
+    } catch (error) {
+      console.error(`❌ Rebalance preview for position ${value.tokenId} failed:`, error);
+      setStatus({ isLoading: false, error: error instanceof Error ? error.message : 'Rebalance preview failed' });
+    }
+  }, []);
+
+  const execute = useCallback(async () => {
+    if (!client || !smartWalletAddress) {
+      setStatus({ isLoading: false, error: 'Smart wallet not connected' });
+      return undefined;
+    }
+    if (!proposal) return undefined;
+
+    setStatus({ isLoading: true, stage: 'building' });
+    try {
+      const plan = await buildRebalancePlan(
+        smartWalletAddress as `0x${string}`,
+        proposal.value,
+        proposal.preview,
+        DEFAULT_DEADLINE_MINUTES
+      );
+
+      setStatus({ isLoading: true, stage: 'sending' });
+      const transactionHash = await client.sendTransaction({ calls: plan.calls });
+
+      setStatus({ isLoading: true, stage: 'confirming', transactionHash });
+      const mintResult = await decodeMintResult(transactionHash, proposal.preview.pool.chainId);
+      if (mintResult.status === 'reverted') {
+        throw new Error(`Rebalance reverted in ${transactionHash}`);
+      }
+
+      console.log(`✅ Position ${proposal.value.tokenId} rebalanced into #${mintResult.tokenId}:`, transactionHash);
+      setResult(mintResult);
+      setProposal(undefined);
+      setStatus({ isLoading: false, transactionHash });
+      return mintResult;
+    } catch (error) {
+      console.error('❌ Rebalance failed:', error);
+      setStatus(prev => ({
+        isLoading: false,
+        transactionHash: prev.transactionHash,
+        error: error instanceof Error ? error.message : 'Rebalance failed',
+      }));
+      return undefined;
+    }
+  }, [client, smartWalletAddress, proposal]);
+
+  return { preview: proposal?.preview, propose, execute, status, result, reset };
+}
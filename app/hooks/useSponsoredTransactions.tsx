@@ -6,6 +6,8 @@ import { useSmartWallets } from '@privy-io/react-auth/smart-wallets';
 import { 
   prepareSponsoredTokenTransfer, 
   isGasSponsorshipAvailable,
+  resolveTransferAmount,
+  buildTransferCallData,
   type TokenTransferParams 
 } from '@/lib/smart-wallet-utils';
 
@@ -87,18 +89,18 @@ export function useSponsoredTransactions(): UseSponsoredTransactionsReturn {
       // Always try sponsorship first, but with better error handling
       setStatus(prev => ({ ...prev, isSponsored: true }));
 
-      // Build transaction parameters with proper decimals
-      const decimals = params.decimals || 18;
+      // Build transaction parameters from the exact integer amount
+      const amount = resolveTransferAmount(params);
       const txParams = params.tokenAddress 
         ? {
             // ERC-20 token transfer
             to: params.tokenAddress as `0x${string}`,
-            data: buildTransferCallData(params.recipient, params.amount, decimals),
+            data: buildTransferCallData(params.recipient, amount),
           }
         : {
             // Native ETH transfer  
             to: params.recipient as `0x${string}`,
-            value: BigInt(parseFloat(params.amount) * Math.pow(10, 18)),
+            value: amount,
           };
 
       console.log('📝 Transaction parameters:', txParams);
@@ -126,16 +128,16 @@ export function useSponsoredTransactions(): UseSponsoredTransactionsReturn {
           setStatus(prev => ({ ...prev, isSponsored: false }));
           
           // Build transaction parameters again
-          const decimals = params.decimals || 18;
+          const amount = resolveTransferAmount(params);
           const txParams = params.tokenAddress 
             ? {
                 to: params.tokenAddress as `0x${string}`,
-                data: buildTransferCallData(params.recipient, params.amount, decimals),
+                data: buildTransferCallData(params.recipient, amount),
                 gasLimit: BigInt(100000), // Explicit gas limit for token transfers
               }
             : {
                 to: params.recipient as `0x${string}`,
-                value: BigInt(parseFloat(params.amount) * Math.pow(10, 18)),
+                value: amount,
                 gasLimit: BigInt(21000), // Standard ETH transfer gas
               };
 
@@ -180,19 +182,3 @@ export function useSponsoredTransactions(): UseSponsoredTransactionsReturn {
     reset,
   };
 }
-
-/**
- * Build call data for ERC-20 token transfer
- */
-function buildTransferCallData(
-  recipient: string, 
-  amount: string, 
-  decimals: number = 18
-): `0x${string}` {
-  const transferSelector = '0xa9059cbb';
-  const recipientPadded = recipient.slice(2).padStart(64, '0');
-  const tokenAmount = BigInt(parseFloat(amount) * Math.pow(10, decimals));
-  const amountPadded = tokenAmount.toString(16).padStart(64, '0');
-  
-  return `${transferSelector}${recipientPadded}${amountPadded}` as `0x${string}`;
-} 
\ No newline at end of file
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { useSmartWallet } from './useSmartWallet';
+import {
+  SwapExecutionRequest,
+  SwapExecutionResult,
+  buildSwapExecutionPlan,
+  decodeSwapResult,
+} from '@/lib/swap-execution';
+
+export interface SwapExecutionStatus {
+  isLoading: boolean;
+  stage?: 'building' | 'sending' | 'confirming';
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface UseSwapExecutionReturn {
+  executeSwap: (request: SwapExecutionRequest) => Promise<SwapExecutionResult | undefined>;
+  status: SwapExecutionStatus;
+  result?: SwapExecutionResult;
+  reset: () => void;
+}
+
+/**
+ * Approve-and-swap as a single sponsored user operation from the smart wallet,
+ * so an approval can never land without its swap
+ */
+export function useSwapExecution(): UseSwapExecutionReturn {
+  const { client, smartWalletAddress } = useSmartWallet();
+  const [status, setStatus] = useState<SwapExecutionStatus>({ isLoading: false });
+  const [result, setResult] = useState<SwapExecutionResult>();
+
+  const reset = useCallback(() => {
+    setStatus({ isLoading: false });
+    setResult(undefined);
+  }, []);
+
+  const executeSwap = useCallback(async (request: SwapExecutionRequest) => {
+    if (!client || !smartWalletAddress) {
+      setStatus({ isLoading: false, error: 'Smart wallet not connected' });
+      return undefined;
+    }
+
+    const owner = smartWalletAddress as `0x${string}`;
+    setResult(undefined);
+    setStatus({ isLoading: true, stage: 'building' });
+
+    try {
+      const plan = await buildSwapExecutionPlan(owner, request);
+      console.log(`🧩 Swap batch: ${plan.calls.length} calls${plan.approvalIncluded ? ' (with exact-amount approval)' : ''}`);
+
+      setStatus({ isLoading: true, stage: 'sending' });
+      const transactionHash = await client.sendTransaction({ calls: plan.calls });
+
+      setStatus({ isLoading: true, stage: 'confirming', transactionHash });
+      const swapResult = await decodeSwapResult(transactionHash, owner, request);
+      if (swapResult.status === 'reverted') {
+        throw new Error(`Swap reverted in ${transactionHash}`);
+      }
+
+      console.log('✅ Swap executed:', swapResult);
+      setResult(swapResult);
+      setStatus({ isLoading: false, transactionHash });
+      return swapResult;
+    } catch (error) {
+      console.error('❌ Swap execution failed:', error);
+      setStatus(prev => ({
+        isLoading: false,
+        transactionHash: prev.transactionHash,
+        error: error instanceof Error ? error.message : 'Swap execution failed',
+      }));
+      return undefined;
+    }
+  }, [client, smartWalletAddress]);
+
+  return {
+    executeSwap,
+    status,
+    result,
+    reset,
+  };
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useCallback, useEffect } from 'react';
+import { useSmartWallet } from './useSmartWallet';
+import { AmountToken, TokenAmount, applySlippage, toAmount } from '@/lib/amounts';
+import {
+  PoolKey,
+  getUsdcCopePoolKey,
+  quoteV4ExactInputSingle,
+  buildV4SwapCalls,
+} from '@/lib/uniswap-v4-utils';
+
+// Router rejects the swap if the user operation lands after this
+const SWAP_DEADLINE_SECONDS = 20 * 60;
+
+export interface V4SwapQuote {
+  amountIn: TokenAmount;
+  amountOut: TokenAmount;
+  minimumAmountOut: TokenAmount;
+  gasEstimate: bigint;
+  zeroForOne: boolean;
+}
+
+export interface UseV4SwapReturn {
+  poolKey?: PoolKey; // Undefined until read from our position
+  quote?: V4SwapQuote;
+  isQuoting: boolean;
+  isSwapping: boolean;
+  transactionHash?: string;
+  error?: string;
+  getQuote: (amountIn: TokenAmount, tokenOut: AmountToken, slippagePercent: number) => Promise<V4SwapQuote | undefined>;
+  executeSwap: () => Promise<void>;
+  reset: () => void;
+}
+
+/**
+ * Exact-input swaps against the USDC/COPe V4 pool, quoted by the V4 Quoter and
+ * sent through the Universal Router as one sponsored user operation
+ */
+export function useV4Swap(): UseV4SwapReturn {
+  const { client, smartWalletAddress } = useSmartWallet();
+  const [poolKey, setPoolKey] = useState<PoolKey>();
+  const [quote, setQuote] = useState<V4SwapQuote>();
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isSwapping, setIsSwapping] = useState(false);
+  const [transactionHash, setTransactionHash] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  // Trade against the exact pool our position sits in (fee, tick spacing and hooks included)
+  useEffect(() => {
+    getUsdcCopePoolKey()
+      .then(setPoolKey)
+      .catch(error => {
+        console.error('❌ V4 pool key read failed:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load the V4 pool');
+      });
+  }, []);
+
+  const reset = useCallback(() => {
+    setQuote(undefined);
+    setTransactionHash(undefined);
+    setError(undefined);
+  }, []);
+
+  const getQuote = useCallback(async (amountIn: TokenAmount, tokenOut: AmountToken, slippagePercent: number) => {
+    if (!poolKey) {
+      setError('V4 pool is still loading');
+      return undefined;
+    }
+
+    const currencyIn = amountIn.token.address?.toLowerCase();
+    if (currencyIn !== poolKey.currency0.toLowerCase() && currencyIn !== poolKey.currency1.toLowerCase()) {
+      setError(`${amountIn.token.symbol} is not in the V4 pool`);
+      return undefined;
+    }
+
+    setIsQuoting(true);
+    setError(undefined);
+
+    try {
+      const zeroForOne = currencyIn === poolKey.currency0.toLowerCase();
+      const result = await quoteV4ExactInputSingle({ poolKey, zeroForOne, amountIn: amountIn.raw });
+      const amountOut = toAmount(tokenOut, result.amountOut);
+      const nextQuote: V4SwapQuote = {
+        amountIn,
+        amountOut,
+        minimumAmountOut: applySlippage(amountOut, slippagePercent, 'min'),
+        gasEstimate: result.gasEstimate,
+        zeroForOne,
+      };
+
+      console.log('💱 V4 quote:', nextQuote);
+      setQuote(nextQuote);
+      return nextQuote;
+    } catch (error) {
+      console.error('❌ V4 quote failed:', error);
+      setQuote(undefined);
+      setError(error instanceof Error ? error.message : 'Failed to quote V4 swap');
+      return undefined;
+    } finally {
+      setIsQuoting(false);
+    }
+  }, [poolKey]);
+
+  const executeSwap = useCallback(async () => {
+    if (!client || !smartWalletAddress) {
+      setError('Smart wallet not connected');
+      return;
+    }
+    if (!quote || !poolKey) {
+      setError('Get a quote first');
+      return;
+    }
+
+    setIsSwapping(true);
+    setError(undefined);
+
+    try {
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS);
+      const calls = await buildV4SwapCalls(
+        smartWalletAddress as `0x${string}`,
+        {
+          poolKey,
+          zeroForOne: quote.zeroForOne,
+          amountIn: quote.amountIn.raw,
+          amountOutMinimum: quote.minimumAmountOut.raw,
+        },
+        deadline
+      );
+
+      console.log(`🚀 Sending V4 swap as one user operation (${calls.length} calls)`);
+      const txHash = await client.sendTransaction({ calls });
+
+      console.log('✅ V4 swap sent:', txHash);
+      setTransactionHash(txHash);
+      setQuote(undefined);
+    } catch (error) {
+      console.error('❌ V4 swap failed:', error);
+      setError(error instanceof Error ? error.message : 'V4 swap failed');
+    } finally {
+      setIsSwapping(false);
+    }
+  }, [client, smartWalletAddress, quote, poolKey]);
+
+  return {
+    poolKey,
+    quote,
+    isQuoting,
+    isSwapping,
+    transactionHash,
+    error,
+    getQuote,
+    executeSwap,
+    reset,
+  };
+}
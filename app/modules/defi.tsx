@@ -22,76 +22,58 @@ import {
   ExternalLink
 } from "lucide-react";
 import { fetchAllChainsBalances, getAggregatedBalanceSummary } from "@/lib/blockchain";
-import { getPoolAnalytics, getUserDeFiPortfolio } from "@/lib/uniswap-subgraph";
+import { DeFiPortfolio, getUserDeFiPortfolio } from "@/lib/uniswap-subgraph";
+import { computePoolAnalytics, PoolAnalytics, PoolMetric } from "@/lib/pool-analytics";
+import { computePositionAnalytics, PositionAnalytics } from "@/lib/position-analytics";
+import { COPE_USDC_POOL_ADDRESS } from "@/lib/uniswap-v3-utils";
+import { amountToNumber, formatAmount, toAmount } from "@/lib/amounts";
+import { getV4Position, USDC_COPE_V4_POSITION_ID, NATIVE_CURRENCY, V4Position } from "@/lib/uniswap-v4-utils";
 import { fetchMarketData } from "@/lib/pool-data";
+import { valuePortfolio, getUsdValueBySymbol, PortfolioValuation } from "@/lib/valuation";
 import CustomSwap from "@/app/components/custom-swap";
+import V4Swap from "@/app/components/v4-swap";
+import AddLiquidity from "@/app/components/add-liquidity";
+import RangeOrders from "@/app/components/range-orders";
+import PositionActions from "@/app/components/position-actions";
+import RangeMonitor from "@/app/components/range-monitor";
 import { useSmartWallet } from "@/app/hooks/useSmartWallet";
+import { useDisplayCurrency } from "@/app/hooks/useDisplayCurrency";
 import TokenIcon from "@/app/components/token-icon";
-import { getChainById } from "@/lib/chains";
+import { getChainById, getTokenByAddress } from "@/lib/chains";
 
 interface TokenBalance {
   symbol: string;
   name: string;
   balance: string;
   formattedBalance: string;
-  usdValue?: string;
   contract?: string;
   isLoading?: boolean;
   error?: string;
 }
 
-interface PoolAnalytics {
-  poolId: string;
-  token0: { symbol: string; name: string; decimals: number };
-  token1: { symbol: string; name: string; decimals: number };
-  feeTier: number;
-  tvlUSD: number;
-  volume24H: number;
-  volumeUSD: number;
-  feesUSD: number;
-  apr: number;
-  price: number;
-  token0Price: number;
-  token1Price: number;
-  liquidity: string;
-  totalValueLockedToken0: number;
-  totalValueLockedToken1: number;
-  historicalData: any[];
-}
-
-interface UserPortfolio {
-  positions: any[];
-  totalValue: number;
-  totalFees: number;
-  positionCount: number;
-}
+type MarketData = Awaited<ReturnType<typeof fetchMarketData>>;
 
 export default function DeFi() {
   const { wallet, isSmartWallet, canUseGasSponsorship, smartWalletAddress } = useSmartWallet();
+  // Values are computed in USD and shown in the user's display currency
+  const { formatUsd: formatCurrency } = useDisplayCurrency();
   
   const [allChainsBalances, setAllChainsBalances] = useState<{ [chainId: number]: TokenBalance[] }>({});
   const [poolAnalytics, setPoolAnalytics] = useState<PoolAnalytics | null>(null);
-  const [userPortfolio, setUserPortfolio] = useState<UserPortfolio | null>(null);
-  const [marketData, setMarketData] = useState<any>(null);
-  const [ethPrice, setEthPrice] = useState<number | null>(null);
+  const [userPortfolio, setUserPortfolio] = useState<DeFiPortfolio | null>(null);
+  const [v4Position, setV4Position] = useState<V4Position | null>(null);
+  const [marketData, setMarketData] = useState<MarketData | null>(null);
+  const [valuation, setValuation] = useState<PortfolioValuation | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [managedPositionId, setManagedPositionId] = useState<string | null>(null);
+  const [positionAnalytics, setPositionAnalytics] = useState<Record<string, PositionAnalytics>>({});
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
   const aggregatedSummary = getAggregatedBalanceSummary(allChainsBalances);
-
-  // Real ETH price fetcher - no fallbacks
-  const fetchEthPrice = async () => {
-    try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-      const data = await response.json();
-      const price = data.ethereum.usd;
-      console.log('Real ETH Price:', price);
-      setEthPrice(price);
-    } catch (error) {
-      console.error('ETH price fetch failed:', error);
-      setEthPrice(null); // No fake data
-    }
-  };
+  const totalEth = aggregatedSummary.totals['ETH'] || 0;
+  const totalUsdc = aggregatedSummary.totals['USDC'] || 0;
+  const totalCope = aggregatedSummary.totals['COPe'] || 0;
+  const usdBySymbol = valuation ? getUsdValueBySymbol(valuation) : {};
 
   // Fetch all data
   const fetchData = useCallback(async () => {
@@ -110,22 +92,39 @@ export default function DeFi() {
       // Fetch multi-chain balances
       const balances = await fetchAllChainsBalances(activeAddress);
       setAllChainsBalances(balances);
+
+      // Value balances with live prices; unpriced tokens are reported, not guessed
+      try {
+        setValuation(await valuePortfolio(balances));
+      } catch (error) {
+        console.error("❌ DeFi: Portfolio valuation failed:", error);
+        setValuation(null);
+      }
       
-      // Fetch pool analytics from Uniswap subgraph
-      const analytics = await getPoolAnalytics();
-      setPoolAnalytics(analytics);
+      // Pool analytics from chain state; unavailable figures come back as unknown
+      try {
+        setPoolAnalytics(await computePoolAnalytics(11155111, COPE_USDC_POOL_ADDRESS));
+      } catch (error) {
+        console.error("❌ DeFi: Pool analytics failed:", error);
+        setPoolAnalytics(null);
+      }
       
       // Fetch user DeFi portfolio
       const portfolio = await getUserDeFiPortfolio(activeAddress);
       setUserPortfolio(portfolio);
+
+      // Our USDC/COPe V4 position, read straight from PositionManager and StateView
+      try {
+        setV4Position(await getV4Position(USDC_COPE_V4_POSITION_ID));
+      } catch (error) {
+        console.error("❌ DeFi: V4 position read failed:", error);
+        setV4Position(null);
+      }
       
       // Fetch market data for price feeds
       const market = await fetchMarketData();
       setMarketData(market);
       
-      // Simple ETH price fetch
-      fetchEthPrice();
-      
       setLastUpdated(new Date());
       console.log('✅ DeFi: All data fetched successfully');
     } catch (error) {
@@ -139,6 +138,28 @@ export default function DeFi() {
     fetchData();
   }, [smartWalletAddress, wallet?.address, fetchData]);
 
+  // Position P&L can need a log scan per position, so it loads after the portfolio is shown
+  useEffect(() => {
+    if (!userPortfolio) return;
+    let cancelled = false;
+    Promise.allSettled(userPortfolio.positions.map(position => computePositionAnalytics(position, position.history)))
+      .then(results => {
+        if (cancelled) return;
+        const analytics: Record<string, PositionAnalytics> = {};
+        results.forEach(result => {
+          if (result.status === 'fulfilled') {
+            analytics[result.value.tokenId.toString()] = result.value;
+          } else {
+            console.error("❌ DeFi: Position analytics failed:", result.reason);
+          }
+        });
+        setPositionAnalytics(analytics);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userPortfolio]);
+
   const formatNumber = (num: number, decimals: number = 2): string => {
     return new Intl.NumberFormat('en-US', {
       minimumFractionDigits: decimals,
@@ -146,19 +167,32 @@ export default function DeFi() {
     }).format(num);
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount);
+  const formatUsdValue = (symbol: string): string => {
+    if (!valuation) return isLoading ? 'Loading...' : 'Price unavailable';
+    if (valuation.unpricedTokens.some(token => token.symbol === symbol)) return 'Price unavailable';
+    return formatCurrency(usdBySymbol[symbol] || 0);
   };
 
   const formatPercentage = (value: number): string => {
     return `${value.toFixed(2)}%`;
   };
 
+  const formatV4Fees = (currency: `0x${string}`, raw: bigint): string => {
+    const token = currency === NATIVE_CURRENCY
+      ? { symbol: 'ETH', decimals: 18 }
+      : getTokenByAddress(11155111, currency);
+    if (!token) return `${raw.toString()} (raw)`;
+    return `${formatAmount(toAmount(token, raw), 6)} ${token.symbol}`;
+  };
+
+  const formatMetric = (metric: PoolMetric, format: (value: number) => string): string => {
+    return metric.status === 'known' ? format(metric.value) : 'Unknown';
+  };
+
+  const getMetricTitle = (metric: PoolMetric): string => {
+    return metric.status === 'known' ? `Source: ${metric.source}` : metric.reason;
+  };
+
   if (!smartWalletAddress && !wallet?.address) {
     return (
       <div className="space-y-6">
@@ -234,9 +268,9 @@ export default function DeFi() {
               <div className="flex items-center gap-3">
                 <TokenIcon symbol="ETH" size={40} />
                 <div>
-                  <div className="font-semibold">{formatNumber(aggregatedSummary.totalEth, 6)} ETH</div>
+                  <div className="font-semibold">{formatNumber(totalEth, 6)} ETH</div>
                   <div className="text-sm text-gray-600 dark:text-gray-300">
-                    {ethPrice ? formatCurrency(aggregatedSummary.totalEth * ethPrice) : formatCurrency(aggregatedSummary.totalEth * 3200)}
+                    {formatUsdValue('ETH')}
                   </div>
                 </div>
               </div>
@@ -246,9 +280,9 @@ export default function DeFi() {
               <div className="flex items-center gap-3">
                 <TokenIcon symbol="USDC" size={40} />
                 <div>
-                  <div className="font-semibold">{formatNumber(aggregatedSummary.totalUsdc, 2)} USDC</div>
+                  <div className="font-semibold">{formatNumber(totalUsdc, 2)} USDC</div>
                   <div className="text-sm text-gray-600 dark:text-gray-300">
-                    {formatCurrency(aggregatedSummary.totalUsdc)}
+                    {formatUsdValue('USDC')}
                   </div>
                 </div>
               </div>
@@ -258,9 +292,9 @@ export default function DeFi() {
                <div className="flex items-center gap-3">
                  <TokenIcon symbol="COPE" size={40} />
                  <div>
-                   <div className="font-semibold">{formatNumber(aggregatedSummary.totalCope, 2)} COPE</div>
+                   <div className="font-semibold">{formatNumber(totalCope, 2)} COPE</div>
                    <div className="text-sm text-gray-600 dark:text-gray-300">
-                     {poolAnalytics?.token1Price ? formatCurrency(aggregatedSummary.totalCope * poolAnalytics.token1Price) : 'Loading...'}
+                     {formatUsdValue('COPe')}
                    </div>
                  </div>
                </div>
@@ -326,20 +360,18 @@ export default function DeFi() {
               </div>
               <div className="text-right">
                 <div className="text-xl font-bold">
-                   {(() => {
-                     // Use real ETH price if available, otherwise fallback to $3200 estimate
-                     const ethPriceToUse = ethPrice || 3200;
-                     const ethValue = aggregatedSummary.totalEth * ethPriceToUse;
-                     const usdcValue = aggregatedSummary.totalUsdc;
-                     const copeValue = poolAnalytics?.token1Price ? aggregatedSummary.totalCope * poolAnalytics.token1Price : 0;
-                     return formatCurrency(ethValue + usdcValue + copeValue);
-                   })()}
-                   {!ethPrice && (
-                     <div className="text-xs text-gray-500 font-normal mt-1">
-                       *ETH estimated at $3,200 (Sepolia testnet)
-                     </div>
-                   )}
-                 </div>
+                  {valuation ? formatCurrency(valuation.totalUsd) : '—'}
+                  {valuation && (
+                    <div className="text-xs text-gray-500 font-normal mt-1">
+                      {valuation.sources.join(', ') || 'no price source'} • {valuation.valuedAt.toLocaleTimeString()}
+                    </div>
+                  )}
+                  {valuation && valuation.unpricedTokens.length > 0 && (
+                    <div className="text-xs text-yellow-600 font-normal mt-1">
+                      Excludes unpriced: {valuation.unpricedTokens.map(token => token.symbol).join(', ')}
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           </div>
@@ -375,22 +407,22 @@ export default function DeFi() {
 
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-blue-600">
-                      {formatCurrency(poolAnalytics.tvlUSD)}
+                    <div className="text-2xl font-bold text-blue-600" title={getMetricTitle(poolAnalytics.tvlUSD)}>
+                      {formatMetric(poolAnalytics.tvlUSD, formatCurrency)}
                     </div>
                     <div className="text-sm text-gray-600 dark:text-gray-300">TVL</div>
                   </div>
                   
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-green-600">
-                      {formatCurrency(poolAnalytics.volume24H)}
+                    <div className="text-2xl font-bold text-green-600" title={getMetricTitle(poolAnalytics.volume24hUSD)}>
+                      {formatMetric(poolAnalytics.volume24hUSD, formatCurrency)}
                     </div>
                     <div className="text-sm text-gray-600 dark:text-gray-300">24h Volume</div>
                   </div>
                   
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-purple-600">
-                      {formatPercentage(poolAnalytics.apr)}
+                    <div className="text-2xl font-bold text-purple-600" title={getMetricTitle(poolAnalytics.apr)}>
+                      {formatMetric(poolAnalytics.apr, formatPercentage)}
                     </div>
                     <div className="text-sm text-gray-600 dark:text-gray-300">APR</div>
                   </div>
@@ -411,15 +443,17 @@ export default function DeFi() {
                   <div className="space-y-3">
                     <div className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                       <span className="text-sm">Total Fees (24h)</span>
-                      <span className="font-medium">{formatCurrency(poolAnalytics.feesUSD)}</span>
+                      <span className="font-medium" title={getMetricTitle(poolAnalytics.fees24hUSD)}>
+                        {formatMetric(poolAnalytics.fees24hUSD, formatCurrency)}
+                      </span>
                     </div>
                     <div className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                       <span className="text-sm">{poolAnalytics.token0.symbol} Locked</span>
-                      <span className="font-medium">{formatNumber(poolAnalytics.totalValueLockedToken0, 2)}</span>
+                      <span className="font-medium">{formatNumber(amountToNumber(poolAnalytics.reserves0), 2)}</span>
                     </div>
                     <div className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                       <span className="text-sm">{poolAnalytics.token1.symbol} Locked</span>
-                      <span className="font-medium">{formatNumber(poolAnalytics.totalValueLockedToken1, 2)}</span>
+                      <span className="font-medium">{formatNumber(amountToNumber(poolAnalytics.reserves1), 2)}</span>
                     </div>
                   </div>
                 </div>
@@ -441,16 +475,36 @@ export default function DeFi() {
                         1 {poolAnalytics.token0.symbol} = {formatNumber(poolAnalytics.token0Price, 6)} {poolAnalytics.token1.symbol}
                       </span>
                     </div>
+                    {marketData?.lpData && (
+                      <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm">
+                            COPe Price ({marketData.lpData.method === 'twap' ? `${marketData.lpData.windowSeconds}s TWAP` : 'spot'})
+                          </span>
+                          <span className="font-medium">{formatNumber(marketData.lpData.price, 8)} USDC</span>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Spot {formatNumber(marketData.lpData.spotPrice, 8)} • {formatCurrency(marketData.lpData.depthUsdc)} moves price 2%
+                        </div>
+                        {marketData.lpData.warnings.map(warning => (
+                          <div key={warning} className="text-xs text-yellow-600 mt-1">⚠️ {warning}</div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             </>
           ) : (
             <div className="text-center py-8">
-              <div className="flex items-center justify-center gap-2 mb-4">
-                <RefreshCw className="w-4 h-4 animate-spin" />
-                <span className="text-sm text-gray-500">Loading pool analytics...</span>
-              </div>
+              {isLoading ? (
+                <div className="flex items-center justify-center gap-2 mb-4">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  <span className="text-sm text-gray-500">Loading pool analytics...</span>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-500">Pool analytics unavailable</span>
+              )}
             </div>
           )}
         </CardContent>
@@ -459,6 +513,55 @@ export default function DeFi() {
       {/* USDC-COPE Direct Swap Interface */}
       <CustomSwap />
 
+      {/* USDC-COPE V4 Swap through the Universal Router */}
+      <V4Swap />
+
+      {/* USDC-COPE V3 liquidity through NonfungiblePositionManager */}
+      <AddLiquidity />
+
+      {/* USDC-COPE V3 limit orders as single-tick-spacing positions */}
+      <RangeOrders />
+
+      {/* USDC-COPE V4 Position */}
+      {v4Position && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="w-5 h-5" />
+              V4 Position #{v4Position.tokenId.toString()}
+              <Badge variant="secondary" className={v4Position.inRange ? "bg-green-100 text-green-700" : "bg-yellow-100 text-yellow-700"}>
+                {v4Position.inRange ? "In range" : "Out of range"}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-gray-500">Tick range</div>
+              <div className="font-medium">{v4Position.tickLower} → {v4Position.tickUpper} (current {v4Position.pool.tick})</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-gray-500">Liquidity</div>
+              <div className="font-medium">{v4Position.liquidity.toString()}</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-gray-500">Uncollected fees</div>
+              <div className="font-medium">
+                {formatV4Fees(v4Position.poolKey.currency0, v4Position.uncollectedFees0)}
+                {" + "}
+                {formatV4Fees(v4Position.poolKey.currency1, v4Position.uncollectedFees1)}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-gray-500">Pool</div>
+              <div className="font-mono text-xs break-all">{v4Position.poolId}</div>
+              <div className="text-xs text-gray-500">
+                LP fee {v4Position.pool.lpFee / 10000}% • tick spacing {v4Position.poolKey.tickSpacing}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* User Positions */}
       <Card>
         <CardHeader>
@@ -482,47 +585,143 @@ export default function DeFi() {
                   </div>
                   <div className="bg-purple-50 dark:bg-purple-900/20 rounded-lg p-4">
                     <div className="text-2xl font-bold text-purple-600">{formatCurrency(userPortfolio.totalFees)}</div>
-                    <div className="text-sm text-gray-600 dark:text-gray-300">Collected Fees</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-300">Uncollected Fees</div>
                   </div>
                 </div>
+                {userPortfolio.unpricedTokens.length > 0 && (
+                  <div className="text-xs text-yellow-600">
+                    Totals exclude positions with unpriced tokens: {userPortfolio.unpricedTokens.join(', ')}
+                  </div>
+                )}
+
+                <RangeMonitor positions={userPortfolio.positions} onRebalanced={fetchData} />
 
                 <div className="space-y-3">
-                  {userPortfolio.positions.map((position, index) => (
-                    <div key={position.id} className="border rounded-lg p-4">
-                      <div className="flex items-center justify-between mb-3">
-                        <div>
-                          <h4 className="font-semibold">
-                            {position.pool.token0.symbol}-{position.pool.token1.symbol}
-                          </h4>
-                          <p className="text-sm text-gray-600 dark:text-gray-300">
-                             Fee Tier: {position.pool.feeTier / 1000000}%
-                           </p>
+                  {userPortfolio.positions.map((position) => {
+                    const positionId = position.tokenId.toString();
+                    const analytics = positionAnalytics[positionId];
+                    return (
+                      <div key={positionId} className="border rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <div>
+                            <h4 className="font-semibold">
+                              #{positionId} {position.token0.symbol}-{position.token1.symbol}
+                            </h4>
+                            <p className="text-sm text-gray-600 dark:text-gray-300">
+                               Fee Tier: {position.position.fee / 10000}%
+                             </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge
+                              variant="secondary"
+                              className={position.inRange ? "bg-green-100 text-green-700" : "bg-yellow-100 text-yellow-700"}
+                            >
+                              {position.inRange ? "In range" : "Out of range"}
+                            </Badge>
+                            {smartWalletAddress && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setManagedPositionId(managedPositionId === positionId ? null : positionId)}
+                              >
+                                {managedPositionId === positionId ? "Hide" : "Manage"}
+                              </Button>
+                            )}
+                          </div>
                         </div>
-                        <Badge variant="secondary" className="bg-green-100 text-green-700">
-                          Active
-                        </Badge>
-                      </div>
-                      
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                        <div>
-                          <span className="text-gray-600 dark:text-gray-300">Liquidity:</span>
-                          <div className="font-medium">{formatNumber(parseFloat(position.liquidity), 0)}</div>
-                        </div>
-                        <div>
-                          <span className="text-gray-600 dark:text-gray-300">Value:</span>
-                          <div className="font-medium">{formatCurrency(position.totalDepositedValue)}</div>
-                        </div>
-                        <div>
-                          <span className="text-gray-600 dark:text-gray-300">Fees:</span>
-                          <div className="font-medium">{formatCurrency(position.totalCollectedFees)}</div>
+                        
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                          <div>
+                            <span className="text-gray-600 dark:text-gray-300">Holdings:</span>
+                            <div className="font-medium">{formatAmount(position.amount0, 4)} {position.token0.symbol}</div>
+                            <div className="font-medium">{formatAmount(position.amount1, 4)} {position.token1.symbol}</div>
+                          </div>
+                          <div>
+                            <span className="text-gray-600 dark:text-gray-300">Value:</span>
+                            <div className="font-medium">
+                              {position.usdValue !== undefined ? formatCurrency(position.usdValue) : 'Price unavailable'}
+                            </div>
+                          </div>
+                          <div>
+                            <span className="text-gray-600 dark:text-gray-300">Uncollected fees:</span>
+                            <div className="font-medium">
+                              {formatAmount(position.uncollectedFees0, 6)} {position.token0.symbol} +{" "}
+                              {formatAmount(position.uncollectedFees1, 6)} {position.token1.symbol}
+                            </div>
+                            {position.feesUsd !== undefined && (
+                              <div className="text-xs text-gray-500">{formatCurrency(position.feesUsd)}</div>
+                            )}
+                          </div>
+                          <div>
+                            <span className="text-gray-600 dark:text-gray-300">Range ({position.token1.symbol}/{position.token0.symbol}):</span>
+                            <div className="font-medium">
+                              {formatNumber(position.priceLower, 6)} - {formatNumber(position.priceUpper, 6)}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              Current {formatNumber(position.currentPrice, 6)} • ticks {position.position.tickLower} → {position.position.tickUpper}
+                            </div>
+                          </div>
                         </div>
-                        <div>
-                          <span className="text-gray-600 dark:text-gray-300">Range:</span>
-                          <div className="font-medium">{position.tickLower} - {position.tickUpper}</div>
+
+                        {/* P&L against holding the deposited tokens */}
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm mt-3 pt-3 border-t">
+                          {analytics ? (
+                            <>
+                              <div>
+                                <span className="text-gray-600 dark:text-gray-300">Deposited / HODL:</span>
+                                <div className="font-medium">
+                                  <span title={getMetricTitle(analytics.depositValueUSD)}>
+                                    {formatMetric(analytics.depositValueUSD, formatCurrency)}
+                                  </span>
+                                  {" / "}
+                                  <span title={getMetricTitle(analytics.hodlValueUSD)}>
+                                    {formatMetric(analytics.hodlValueUSD, formatCurrency)}
+                                  </span>
+                                </div>
+                              </div>
+                              <div>
+                                <span className="text-gray-600 dark:text-gray-300">Impermanent loss:</span>
+                                <div className="font-medium" title={getMetricTitle(analytics.impermanentLossUSD)}>
+                                  {formatMetric(analytics.impermanentLossUSD, formatCurrency)}
+                                </div>
+                                <div className="text-xs text-gray-500">{formatMetric(analytics.impermanentLossPercent, formatPercentage)}</div>
+                              </div>
+                              <div>
+                                <span className="text-gray-600 dark:text-gray-300">Fees earned:</span>
+                                <div className="font-medium" title={getMetricTitle(analytics.feesEarnedUSD)}>
+                                  {formatMetric(analytics.feesEarnedUSD, formatCurrency)}
+                                </div>
+                              </div>
+                              <div>
+                                <span className="text-gray-600 dark:text-gray-300">Net P&amp;L:</span>
+                                <div
+                                  className={`font-medium ${
+                                    analytics.netPnlUSD.status === 'known' && analytics.netPnlUSD.value < 0 ? "text-red-600" : "text-green-600"
+                                  }`}
+                                  title={getMetricTitle(analytics.netPnlUSD)}
+                                >
+                                  {formatMetric(analytics.netPnlUSD, formatCurrency)}
+                                </div>
+                              </div>
+                              <div>
+                                <span className="text-gray-600 dark:text-gray-300">Realized APR:</span>
+                                <div className="font-medium" title={getMetricTitle(analytics.realizedApr)}>
+                                  {formatMetric(analytics.realizedApr, formatPercentage)}
+                                </div>
+                                {analytics.history && (
+                                  <div className="text-xs text-gray-500">Since {analytics.history.openedAt.toLocaleDateString()}</div>
+                                )}
+                              </div>
+                            </>
+                          ) : (
+                            <div className="col-span-2 md:col-span-5 text-xs text-gray-500">Loading P&amp;L...</div>
+                          )}
                         </div>
+
+                        {managedPositionId === positionId && <PositionActions tokenId={position.tokenId} />}
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             ) : (
@@ -532,7 +731,10 @@ export default function DeFi() {
                 <p className="text-gray-600 dark:text-gray-300 mb-4">
                    You don&apos;t have any active liquidity positions yet
                  </p>
-                <Button className="gap-2">
+                <Button
+                  className="gap-2"
+                  onClick={() => document.getElementById('add-liquidity')?.scrollIntoView({ behavior: 'smooth' })}
+                >
                   <ArrowUpRight className="w-4 h-4" />
                   Add Liquidity
                 </Button>
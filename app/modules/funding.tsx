@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { 
   Card, 
   CardContent, 
@@ -28,6 +28,7 @@ import TokenIcon from "@/app/components/token-icon";
 import ChainSelector from "@/app/components/chain-selector";
 import { Badge } from "@/components/ui/badge";
 import { DEFAULT_CHAIN } from "@/lib/chains";
+import { useDisplayCurrency } from "@/app/hooks/useDisplayCurrency";
 
 type FundingType = 'cash-in' | 'cash-out';
 type TokenSymbol = 'USDC' | 'ETH' | 'COPe';
@@ -54,6 +55,13 @@ export default function Funding() {
   const [otcToken, setOtcToken] = useState<TokenSymbol>('USDC');
   const [fiatCurrency, setFiatCurrency] = useState('USD');
   const [quoteId, setQuoteId] = useState<string | null>(null);
+  const { currency, formatUsd, convertUsd } = useDisplayCurrency();
+  const smallBuyUsd = parseFloat(smallBuyAmount);
+
+  // OTC quotes default to the user's display currency
+  useEffect(() => {
+    setFiatCurrency(currency);
+  }, [currency]);
 
   const handlePivyFunding = () => {
     // This would integrate with Privy funding
@@ -257,6 +265,12 @@ export default function Funding() {
                     <span className="text-sm text-gray-600">You pay:</span>
                     <span className="font-semibold">${smallBuyAmount} USD</span>
                   </div>
+                  {currency !== 'USD' && convertUsd(smallBuyUsd) !== undefined && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">In {currency}:</span>
+                      <span className="text-sm">≈ {formatUsd(smallBuyUsd)}</span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-600">You receive:</span>
                     <div className="flex items-center gap-1">
@@ -23,6 +23,8 @@ import {
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useDisplayCurrency } from "@/app/hooks/useDisplayCurrency";
+import { DISPLAY_CURRENCIES, isDisplayCurrency } from "@/lib/fiat";
 
 interface BankAccount {
   id: string;
@@ -47,6 +49,7 @@ export default function Profile() {
     accountType: '',
     swift: ''
   });
+  const { currency, setCurrency, fxRates, fxError } = useDisplayCurrency();
 
   if (!user) {
     return (
@@ -228,6 +231,36 @@ export default function Profile() {
         </CardContent>
       </Card>
 
+      {/* Preferences */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="w-5 h-5" />
+            Preferences
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="displayCurrency">Display Currency</Label>
+          <select
+            id="displayCurrency"
+            className="w-full p-2 border rounded-md"
+            value={currency}
+            onChange={(e) => isDisplayCurrency(e.target.value) && setCurrency(e.target.value)}
+          >
+            {Object.values(DISPLAY_CURRENCIES).map(info => (
+              <option key={info.code} value={info.code}>{info.code} - {info.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            Balances and portfolio values are shown in this currency.
+            {currency !== 'USD' && fxRates && ` 1 USD = ${fxRates.rates[currency].toLocaleString()} ${currency} (${fxRates.source})`}
+          </p>
+          {currency !== 'USD' && fxError && (
+            <p className="text-xs text-yellow-600">Exchange rates unavailable, showing USD: {fxError}</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Verification Status */}
       <Card>
         <CardHeader>
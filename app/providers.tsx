@@ -4,6 +4,7 @@ import { SmartWalletsProvider } from '@privy-io/react-auth/smart-wallets';
 import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
 import { PropsWithChildren } from "react";
+import { getAlchemyRpcUrl, getRpcUrls } from '@/lib/rpc';
 
 // Create a simple Redux store for Uniswap widget
 const store = configureStore({
@@ -51,7 +52,7 @@ export const Providers = (props: PropsWithChildren) => {
             name: 'Ethereum Sepolia',
             network: 'sepolia',
             nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
-            rpcUrls: { default: { http: ['https://eth-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'] } },
+            rpcUrls: { default: { http: getRpcUrls(11155111) } },
             blockExplorers: { default: { name: 'Etherscan', url: 'https://sepolia.etherscan.io' } },
           },
           {
@@ -59,7 +60,7 @@ export const Providers = (props: PropsWithChildren) => {
             name: 'OP Sepolia',
             network: 'optimism-sepolia',
             nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
-            rpcUrls: { default: { http: ['https://opt-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'] } },
+            rpcUrls: { default: { http: getRpcUrls(11155420) } },
             blockExplorers: { default: { name: 'Optimism Sepolia Explorer', url: 'https://sepolia-optimism.etherscan.io' } },
           },
           {
@@ -67,7 +68,7 @@ export const Providers = (props: PropsWithChildren) => {
             name: 'Base Sepolia',
             network: 'base-sepolia', 
             nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
-            rpcUrls: { default: { http: ['https://base-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'] } },
+            rpcUrls: { default: { http: getRpcUrls(84532) } },
             blockExplorers: { default: { name: 'Base Sepolia Explorer', url: 'https://sepolia.basescan.org' } },
           },
           {
@@ -75,7 +76,7 @@ export const Providers = (props: PropsWithChildren) => {
             name: 'Unichain Sepolia',
             network: 'unichain-sepolia',
             nativeCurrency: { name: 'Unichain Ether', symbol: 'ETH', decimals: 18 },
-            rpcUrls: { default: { http: ['https://unichain-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'] } },
+            rpcUrls: { default: { http: getRpcUrls(1301) } },
             blockExplorers: { default: { name: 'Unichain Sepolia Explorer', url: 'https://unichain-sepolia.blockscout.com' } },
           },
         ],
@@ -86,7 +87,7 @@ export const Providers = (props: PropsWithChildren) => {
           name: 'Ethereum Sepolia',
           network: 'sepolia',
           nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
-          rpcUrls: { default: { http: ['https://eth-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'] } },
+          rpcUrls: { default: { http: getRpcUrls(11155111) } },
           blockExplorers: { default: { name: 'Etherscan', url: 'https://sepolia.etherscan.io' } },
         },
       }}
@@ -94,19 +95,9 @@ export const Providers = (props: PropsWithChildren) => {
       <SmartWalletsProvider
         config={{
           paymasterContext: alchemyApiKey && alchemyPolicyId ? (chainId: number) => {
-            const getRpcUrl = (id: number): string => {
-              switch (id) {
-                case 11155111: return `https://eth-sepolia.g.alchemy.com/v2/${alchemyApiKey}`;
-                case 11155420: return `https://opt-sepolia.g.alchemy.com/v2/${alchemyApiKey}`;
-                case 84532: return `https://base-sepolia.g.alchemy.com/v2/${alchemyApiKey}`;
-                case 1301: return `https://unichain-sepolia.g.alchemy.com/v2/${alchemyApiKey}`;
-                default: return `https://eth-sepolia.g.alchemy.com/v2/${alchemyApiKey}`;
-              }
-            };
-
             return {
               policyId: alchemyPolicyId,
-              rpcUrl: getRpcUrl(chainId),
+              rpcUrl: getAlchemyRpcUrl(chainId) ?? getAlchemyRpcUrl(11155111),
             };
           } : undefined,
         }}
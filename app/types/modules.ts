@@ -1,3 +1,5 @@
+import type { UserPreferences } from '@/lib/user-preferences';
+
 export type ModuleType = 'home' | 'profile' | 'transfers' | 'defi' | 'funding' | 'clients';
 
 export interface UserProfile {
@@ -7,11 +9,7 @@ export interface UserProfile {
   avatar?: string;
   walletAddress: string;
   createdAt: Date;
-  preferences: {
-    currency: string;
-    language: string;
-    notifications: boolean;
-  };
+  preferences: UserPreferences;
 }
 
 export interface TokenBalance {
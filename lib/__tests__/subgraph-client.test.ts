@@ -0,0 +1,105 @@
+/**
+ * Subgraph client against a stubbed fetch: retries on transient failures, id_gt pagination
+ * past The Graph's 1000-entity cap, and schema validation of every response.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_PAGE_SIZE, queryAllPages, querySubgraph, schema } from '../subgraph-client';
+
+const ENDPOINT = 'http://localhost:4350/v3';
+const FAST = { baseDelayMs: 1, timeoutMs: 1000 };
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+const requestBody = (fetchMock: ReturnType<typeof vi.fn>, call: number) =>
+  JSON.parse(fetchMock.mock.calls[call][1].body) as { query: string; variables: Record<string, unknown> };
+
+const poolSchema = schema.object({
+  pool: schema.object({ id: schema.string(), liquidity: schema.numeric(), tick: schema.nullable(schema.int()) }),
+});
+const POOL = { id: '0xpool', liquidity: '1000', tick: '-276324' };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('querySubgraph', () => {
+  it('retries HTTP 503 and indexer errors with backoff, then returns the validated data', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('Service Unavailable', { status: 503 }))
+      .mockResolvedValueOnce(json({ errors: [{ message: 'bad indexers: indexer not available' }] }))
+      .mockResolvedValueOnce(json({ data: { pool: POOL } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const data = await querySubgraph(ENDPOINT, '{ pool }', {}, poolSchema, FAST);
+
+    expect(data).toEqual({ pool: { id: '0xpool', liquidity: '1000', tick: -276324 } });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('retry 1/3'));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('HTTP 503'));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('bad indexers'));
+  });
+
+  it('gives up after the configured retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(querySubgraph(ENDPOINT, '{ pool }', {}, poolSchema, { ...FAST, retries: 2 }))
+      .rejects.toThrow('Subgraph request failed after 3 attempts: HTTP 503');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry query errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(json({ errors: [{ message: 'Type `Pool` has no field `foo`' }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(querySubgraph(ENDPOINT, '{ pool }', {}, poolSchema, FAST)).rejects.toThrow('Subgraph query failed: Type `Pool` has no field `foo`');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a response with a missing field, naming its path', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(json({ data: { pool: { id: '0xpool', tick: null } } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(querySubgraph(ENDPOINT, '{ pool }', {}, poolSchema, FAST))
+      .rejects.toThrow('Invalid subgraph response at data.pool.liquidity: expected numeric string, got undefined');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('queryAllPages', () => {
+  // Ids sort as strings on the subgraph, so "10" comes before "9"
+  const ENTITIES = Array.from({ length: 2500 }, (_, index) => ({ id: String(index + 1) })).sort((a, b) => (a.id < b.id ? -1 : 1));
+  const pageSchema = schema.object({ positions: schema.array(schema.object({ id: schema.string() })) });
+
+  it('walks id_gt pages past the 1000-entity cap', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const { variables } = JSON.parse(String(init.body)) as { variables: { first: number; lastId: string } };
+      const positions = ENTITIES.filter(entity => entity.id > variables.lastId).slice(0, variables.first);
+      return json({ data: { positions } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const positions = await queryAllPages(ENDPOINT, '{ positions }', { owner: '0xowner' }, pageSchema, data => data.positions, {
+      ...FAST,
+      pageSize: 5000,
+    });
+
+    expect(positions).toEqual(ENTITIES);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect([0, 1, 2].map(call => requestBody(fetchMock, call).variables)).toEqual([
+      { owner: '0xowner', first: MAX_PAGE_SIZE, lastId: '' },
+      { owner: '0xowner', first: MAX_PAGE_SIZE, lastId: ENTITIES[999].id },
+      { owner: '0xowner', first: MAX_PAGE_SIZE, lastId: ENTITIES[1999].id },
+    ]);
+  });
+
+  it('stops at maxPages', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => json({ data: { positions: ENTITIES.slice(0, 2) } })));
+
+    await expect(queryAllPages(ENDPOINT, '{ positions }', {}, pageSchema, data => data.positions, { ...FAST, pageSize: 2, maxPages: 3 }))
+      .rejects.toThrow('Subgraph query returned more than 3 pages of 2');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Offline V3 swap simulation against QuoterV2
+ * Each fixture holds a pool snapshot and the QuoterV2 quotes recorded for it at the same block
+ * (scripts/record-simulator-fixture.mjs); the simulator must reproduce them exactly.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { V3PoolSnapshot, simulateSwap } from '../uniswap-v3-simulator';
+import fee3000 from './fixtures/uniswap-v3-simulator-fee3000.json';
+import fee500 from './fixtures/uniswap-v3-simulator-fee500.json';
+
+interface RecordedQuote {
+  zeroForOne: boolean;
+  exactInput: boolean;
+  amountIn: string;
+  amountOut: string;
+  sqrtPriceX96After: string;
+  initializedTicksCrossed: number;
+}
+
+interface SimulatorFixture {
+  source: string;
+  chainId: number;
+  pool: {
+    address: string;
+    token0: string;
+    token1: string;
+    fee: number;
+    tickSpacing: number;
+    sqrtPriceX96: string;
+    tick: number;
+    liquidity: string;
+    tickBitmap: Record<string, string>; // Word position → bitmap word
+    liquidityNet: Record<string, string>; // Initialized tick → liquidityNet
+  };
+  quotes: RecordedQuote[];
+}
+
+const FIXTURES: [string, SimulatorFixture][] = [
+  ['0.3% pool', fee3000],
+  ['0.05% pool', fee500],
+];
+
+function toSnapshot({ chainId, pool }: SimulatorFixture): V3PoolSnapshot {
+  return {
+    chainId,
+    poolAddress: pool.address as `0x${string}`,
+    token0: pool.token0 as `0x${string}`,
+    token1: pool.token1 as `0x${string}`,
+    fee: pool.fee,
+    tickSpacing: pool.tickSpacing,
+    sqrtPriceX96: BigInt(pool.sqrtPriceX96),
+    tick: pool.tick,
+    liquidity: BigInt(pool.liquidity),
+    tickBitmap: new Map(Object.entries(pool.tickBitmap).map(([word, bits]) => [Number(word), BigInt(bits)])),
+    liquidityNet: new Map(Object.entries(pool.liquidityNet).map(([tick, net]) => [Number(tick), BigInt(net)])),
+    loadedAt: 0,
+  };
+}
+
+for (const [name, fixture] of FIXTURES) {
+  describe(`simulateSwap on the ${name}`, () => {
+    const snapshot = toSnapshot(fixture);
+    const simulate = (quote: RecordedQuote) =>
+      simulateSwap(snapshot, quote.zeroForOne, quote.exactInput ? BigInt(quote.amountIn) : -BigInt(quote.amountOut));
+
+    it.each(fixture.quotes)('matches QuoterV2: $amountIn in, $amountOut out (zeroForOne $zeroForOne, exactInput $exactInput)', quote => {
+      const swap = simulate(quote);
+
+      expect(swap.complete).toBe(true);
+      expect(swap.exceedsSnapshot).toBe(false);
+      expect(swap.amountIn).toBe(BigInt(quote.amountIn));
+      expect(swap.amountOut).toBe(BigInt(quote.amountOut));
+      expect(swap.sqrtPriceX96After).toBe(BigInt(quote.sqrtPriceX96After));
+      expect(swap.initializedTicksCrossed).toBe(quote.initializedTicksCrossed);
+    });
+
+    it('covers swaps that cross initialized ticks in both directions', () => {
+      for (const zeroForOne of [true, false]) {
+        const crossed = fixture.quotes
+          .filter(quote => quote.zeroForOne === zeroForOne)
+          .map(quote => simulate(quote).initializedTicksCrossed);
+        expect(Math.max(...crossed)).toBeGreaterThan(0);
+      }
+    });
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * V3 contract ABIs against the published Uniswap artifacts, and single-pool quotes through them.
+ * A reordered tuple field changes the selector, so every call would revert on-chain.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { Abi, AbiFunction, decodeFunctionData, encodeFunctionData, formatUnits, toFunctionSelector, zeroAddress } from 'viem';
+import QuoterV2 from '@uniswap/v3-periphery/artifacts/contracts/lens/QuoterV2.sol/QuoterV2.json';
+import { getPublicClient } from '../rpc';
+import { QUOTER_ABI, computePriceImpact, getSwapQuote } from '../uniswap-v3-utils';
+import fee3000 from './fixtures/uniswap-v3-simulator-fee3000.json';
+
+vi.mock('../rpc', () => ({ getPublicClient: vi.fn() }));
+
+const findFunction = (abi: Abi, name: string): AbiFunction => {
+  const item = abi.find(entry => entry.type === 'function' && entry.name === name);
+  if (!item) throw new Error(`${name} not in ABI`);
+  return item as AbiFunction;
+};
+
+const QUOTE_PARAMS = {
+  tokenIn: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+  tokenOut: '0x19ac2612e560b2bbedf88660a2566ef53c0a15a1',
+  amountIn: BigInt(1000000),
+  amount: BigInt(1000000),
+  fee: 3000,
+  sqrtPriceLimitX96: BigInt(0),
+};
+
+describe('QUOTER_ABI', () => {
+  it.each(['quoteExactInputSingle', 'quoteExactOutputSingle'])('encodes %s exactly as QuoterV2 does', name => {
+    const ours = findFunction(QUOTER_ABI as Abi, name);
+    const published = findFunction(QuoterV2.abi as Abi, name);
+    const params = Object.fromEntries(
+      ('components' in published.inputs[0] ? published.inputs[0].components : [])
+        .map(({ name: field }) => [field, QUOTE_PARAMS[field as keyof typeof QUOTE_PARAMS]])
+    );
+
+    expect(toFunctionSelector(ours)).toBe(toFunctionSelector(published));
+    expect(encodeFunctionData({ abi: [ours], args: [params] })).toBe(encodeFunctionData({ abi: [published], args: [params] }));
+  });
+});
+
+describe('getSwapQuote', () => {
+  const { pool, quotes } = fee3000;
+  const recorded = quotes.find(quote => quote.zeroForOne && quote.exactInput && quote.initializedTicksCrossed > 0);
+  if (!recorded) throw new Error('Fixture has no tick-crossing exact-input quote');
+
+  // One 0.3% pool answering with the recorded QuoterV2 quote. Calldata is decoded with the published
+  // ABI, as the deployed quoter would, so a mismatched QUOTER_ABI fails here as it reverts on-chain.
+  const readContract = async ({ abi, functionName, args }: { abi: Abi; functionName: string; args?: readonly unknown[] }) => {
+    if (functionName === 'getPool') return args?.[2] === pool.fee ? pool.address : zeroAddress;
+    if (functionName === 'slot0') return [BigInt(pool.sqrtPriceX96), pool.tick, 0, 0, 0, 0, true];
+    if (functionName === 'quoteExactInputSingle') {
+      const { args: decoded } = decodeFunctionData({
+        abi: QuoterV2.abi as Abi,
+        data: encodeFunctionData({ abi, functionName, args }),
+      });
+      const params = decoded?.[0] as { amountIn: bigint; fee: number };
+      if (params.fee !== pool.fee || params.amountIn !== BigInt(recorded.amountIn)) throw new Error('execution reverted');
+      return [BigInt(recorded.amountOut), BigInt(recorded.sqrtPriceX96After), recorded.initializedTicksCrossed, BigInt(100000)];
+    }
+    throw new Error(`Unexpected call ${functionName}`);
+  };
+
+  it('reports the price impact of a single-pool exact-input quote', async () => {
+    vi.mocked(getPublicClient).mockReturnValue({ readContract } as unknown as ReturnType<typeof getPublicClient>);
+
+    const quote = await getSwapQuote(pool.token0, pool.token1, formatUnits(BigInt(recorded.amountIn), 18), 18, 18);
+
+    expect(quote.fee).toBe(pool.fee);
+    expect(quote.amountOut).toBe(formatUnits(BigInt(recorded.amountOut), 18));
+    expect(quote.priceImpactBreakdown).toEqual(computePriceImpact({
+      tokenIn: pool.token0,
+      tokenOut: pool.token1,
+      amountIn: BigInt(recorded.amountIn),
+      amountOut: BigInt(recorded.amountOut),
+      decimalsIn: 18,
+      decimalsOut: 18,
+      fee: pool.fee,
+      sqrtPriceX96Before: BigInt(pool.sqrtPriceX96),
+      sqrtPriceX96After: BigInt(recorded.sqrtPriceX96After),
+    }));
+    expect(quote.priceImpact).toBeGreaterThan(0);
+    expect(quote.priceImpactBreakdown.poolPriceMovePercent).toBeGreaterThan(0);
+    expect(quote.priceImpactBreakdown.executionPrice).toBeLessThan(quote.priceImpactBreakdown.midPrice);
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * The USDC/COPe V4 pool key is read from our position and must hash to the known pool id,
+ * so a guessed fee, tick spacing or hook can never be traded against.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { getPublicClient } from '../rpc';
+import { TOKENS, USDC_COPE_V4_POOL_ID, createPoolKey, getPoolId, getUsdcCopePoolKey } from '../uniswap-v4-utils';
+
+vi.mock('../rpc', () => ({ getPublicClient: vi.fn() }));
+
+describe('getUsdcCopePoolKey', () => {
+  it('rejects a key that does not hash to the USDC/COPe pool id, and retries on the next call', async () => {
+    // Hook-less 0.3% key, the pool the app used to assume
+    const hookless = createPoolKey(TOKENS.USDC.address, TOKENS.COPE.address, 3000, 60);
+    const readContract = vi.fn().mockResolvedValue([hookless, BigInt(0)]);
+    vi.mocked(getPublicClient).mockReturnValue({ readContract } as unknown as ReturnType<typeof getPublicClient>);
+
+    expect(getPoolId(hookless)).not.toBe(USDC_COPE_V4_POOL_ID);
+    await expect(getUsdcCopePoolKey()).rejects.toThrow(`expected ${USDC_COPE_V4_POOL_ID}`);
+    await expect(getUsdcCopePoolKey()).rejects.toThrow(`is in pool ${getPoolId(hookless)}`);
+    expect(readContract).toHaveBeenCalledTimes(2);
+    expect(readContract).toHaveBeenCalledWith(expect.objectContaining({ functionName: 'getPoolAndPositionInfo', args: [BigInt(12714)] }));
+  });
+});
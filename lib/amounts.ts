@@ -0,0 +1,171 @@
+/**
+ * Exact token amounts
+ * Amounts are kept as raw integer units plus decimals so nothing goes through floats
+ */
+
+import { formatUnits } from 'viem';
+
+export type Rounding = 'down' | 'up' | 'nearest';
+
+export interface AmountToken {
+  symbol: string;
+  decimals: number;
+  address?: string; // undefined for the native currency
+  chainId?: number;
+}
+
+export interface TokenAmount {
+  raw: bigint; // Integer units (wei for 18-decimal tokens)
+  token: AmountToken;
+}
+
+const BPS_DENOMINATOR = BigInt(10000);
+const DECIMAL_PATTERN = /^\d*\.?\d*$/;
+
+/**
+ * Wrap a raw integer amount
+ */
+export function toAmount(token: AmountToken, raw: bigint): TokenAmount {
+  return { raw, token };
+}
+
+/**
+ * Zero amount of a token
+ */
+export function zeroAmount(token: AmountToken): TokenAmount {
+  return toAmount(token, BigInt(0));
+}
+
+/**
+ * Parse a user-entered decimal string ("1,234.5" is rejected, "1234.5" is not).
+ * Throws on malformed input, negatives, or more fractional digits than the token supports.
+ */
+export function parseAmount(value: string, token: AmountToken): TokenAmount {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === '.' || !DECIMAL_PATTERN.test(trimmed)) {
+    throw new Error(`Invalid ${token.symbol} amount: "${value}"`);
+  }
+
+  const [whole = '', fraction = ''] = trimmed.split('.');
+  if (fraction.length > token.decimals) {
+    throw new Error(`${token.symbol} supports at most ${token.decimals} decimals`);
+  }
+
+  const raw = BigInt((whole || '0') + fraction.padEnd(token.decimals, '0'));
+  return toAmount(token, raw);
+}
+
+/**
+ * Parse without throwing; undefined for empty or invalid input
+ */
+export function tryParseAmount(value: string, token: AmountToken): TokenAmount | undefined {
+  try {
+    return parseAmount(value, token);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Divide with an explicit rounding mode (both operands non-negative)
+ */
+export function divRound(numerator: bigint, denominator: bigint, rounding: Rounding = 'down'): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === BigInt(0)) return quotient;
+
+  switch (rounding) {
+    case 'up':
+      return quotient + BigInt(1);
+    case 'nearest':
+      return remainder * BigInt(2) >= denominator ? quotient + BigInt(1) : quotient;
+    default:
+      return quotient;
+  }
+}
+
+/**
+ * Full-precision decimal string, e.g. "1234.000000000000000001"
+ */
+export function formatAmountExact(amount: TokenAmount): string {
+  return formatUnits(amount.raw, amount.token.decimals);
+}
+
+/**
+ * Decimal string with a fixed number of fractional digits, rounded exactly
+ */
+export function formatAmount(
+  amount: TokenAmount,
+  displayDecimals: number = 4,
+  rounding: Rounding = 'down'
+): string {
+  const { decimals } = amount.token;
+  const negative = amount.raw < BigInt(0);
+  const absolute = negative ? -amount.raw : amount.raw;
+
+  const scaled = displayDecimals >= decimals
+    ? absolute * BigInt(10) ** BigInt(displayDecimals - decimals)
+    : divRound(absolute, BigInt(10) ** BigInt(decimals - displayDecimals), rounding);
+
+  const digits = scaled.toString().padStart(displayDecimals + 1, '0');
+  const whole = digits.slice(0, digits.length - displayDecimals);
+  const fraction = digits.slice(digits.length - displayDecimals);
+  const formatted = displayDecimals > 0 ? `${whole}.${fraction}` : whole;
+
+  return negative ? `-${formatted}` : formatted;
+}
+
+/**
+ * Lossy conversion for display math (charts, fiat estimates) - never for on-chain amounts
+ */
+export function amountToNumber(amount: TokenAmount): number {
+  return Number(formatAmountExact(amount));
+}
+
+const assertSameToken = (a: TokenAmount, b: TokenAmount) => {
+  const sameAddress = (a.token.address ?? '').toLowerCase() === (b.token.address ?? '').toLowerCase();
+  if (a.token.decimals !== b.token.decimals || !sameAddress) {
+    throw new Error(`Cannot combine ${a.token.symbol} and ${b.token.symbol} amounts`);
+  }
+};
+
+export function addAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  assertSameToken(a, b);
+  return toAmount(a.token, a.raw + b.raw);
+}
+
+export function subtractAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  assertSameToken(a, b);
+  return toAmount(a.token, a.raw - b.raw);
+}
+
+/**
+ * -1, 0 or 1 like a sort comparator
+ */
+export function compareAmounts(a: TokenAmount, b: TokenAmount): number {
+  assertSameToken(a, b);
+  if (a.raw === b.raw) return 0;
+  return a.raw < b.raw ? -1 : 1;
+}
+
+export function isZeroAmount(amount: TokenAmount): boolean {
+  return amount.raw === BigInt(0);
+}
+
+/**
+ * Multiply by a basis-point factor (10000 = 100%)
+ */
+export function mulBps(amount: TokenAmount, bps: number, rounding: Rounding = 'down'): TokenAmount {
+  return toAmount(amount.token, divRound(amount.raw * BigInt(Math.round(bps)), BPS_DENOMINATOR, rounding));
+}
+
+/**
+ * Slippage bound for a quoted amount: 'min' for exact-input outputs, 'max' for exact-output inputs.
+ * Rounds against the trader so the bound is never looser than requested.
+ */
+export function applySlippage(amount: TokenAmount, slippagePercent: number, bound: 'min' | 'max' = 'min'): TokenAmount {
+  const slippageBps = Math.round(slippagePercent * 100);
+  return bound === 'min'
+    ? mulBps(amount, 10000 - slippageBps, 'down')
+    : mulBps(amount, 10000 + slippageBps, 'up');
+}
@@ -1,6 +1,8 @@
-import { createPublicClient, http, formatEther, formatUnits, parseAbi } from 'viem';
-import { sepolia, optimismSepolia, baseSepolia } from 'viem/chains';
-import { getChainById, TokenContract, getAllChains } from './chains';
+import { parseAbi, isAddress, getAddress } from 'viem';
+import { getChainById, ChainConfig, TokenContract, getAllChains, getChainTokens } from './chains';
+import { getCustomTokens } from './custom-tokens';
+import { getPublicClient } from './rpc';
+import { TokenAmount, toAmount, formatAmount, formatAmountExact } from './amounts';
 
 // ERC-20 ABI for balance and token info
 const ERC20_ABI = parseAbi([
@@ -10,111 +12,109 @@ const ERC20_ABI = parseAbi([
   'function name() view returns (string)',
 ]);
 
-// Create public clients for different chains
-const getPublicClient = (chainId: number) => {
-  try {
-    switch (chainId) {
-      case 11155111: // Ethereum Sepolia
-        return createPublicClient({
-          chain: sepolia,
-          transport: http('https://eth-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'),
-        });
-      case 11155420: // Optimism Sepolia  
-        return createPublicClient({
-          chain: optimismSepolia,
-          transport: http('https://opt-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'),
-        });
-      case 84532: // Base Sepolia
-        return createPublicClient({
-          chain: baseSepolia,
-          transport: http('https://base-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'),
-        });
-      case 1301: // Unichain Sepolia
-        return createPublicClient({
-          chain: {
-            id: 1301,
-            name: 'Unichain Sepolia',
-            network: 'unichain-sepolia',
-            nativeCurrency: {
-              decimals: 18,
-              name: 'Ether',
-              symbol: 'ETH',
-            },
-            rpcUrls: {
-              default: {
-                http: ['https://unichain-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'],
-              },
-              public: {
-                http: ['https://unichain-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'],
-              },
-            },
-            blockExplorers: {
-              default: {
-                name: 'Unichain Sepolia Explorer',
-                url: 'https://unichain-sepolia.blockscout.com',
-              },
-            },
-            testnet: true,
-          },
-          transport: http('https://unichain-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0'),
-        });
-      default:
-        throw new Error(`Unsupported chain ID: ${chainId}`);
-    }
-  } catch (error) {
-    console.error(`Error creating client for chain ${chainId}:`, error);
-    throw error;
-  }
-};
-
 export interface TokenBalance {
   symbol: string;
   name: string;
-  balance: string;
+  balance: string; // Full-precision decimal string
   formattedBalance: string;
-  usdValue?: string;
+  amount?: TokenAmount; // Exact raw amount, absent when the read failed
+  decimals?: number;
   contract?: string;
   contractExplorerUrl?: string; // New field for explorer link
+  isCustom?: boolean; // Imported by the user rather than from the registry
+  possibleImpersonation?: boolean;
   isLoading?: boolean;
   error?: string;
 }
 
+// Multicall3 helper for reading native balances inside a batch
+const MULTICALL3_ABI = parseAbi([
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+]);
+
+// Build a native balance entry from a raw wei amount
+const toNativeBalance = (chain: ChainConfig, balance: bigint): TokenBalance => {
+  const amount = toAmount({
+    symbol: chain.nativeCurrency.symbol,
+    decimals: chain.nativeCurrency.decimals,
+    chainId: chain.chainId,
+  }, balance);
+
+  return {
+    symbol: chain.nativeCurrency.symbol,
+    name: chain.nativeCurrency.name,
+    balance: formatAmountExact(amount),
+    formattedBalance: formatAmount(amount, 4),
+    amount,
+    decimals: chain.nativeCurrency.decimals,
+  };
+};
+
+const toFailedNativeBalance = (chain: ChainConfig, error: string): TokenBalance => ({
+  symbol: chain.nativeCurrency.symbol,
+  name: chain.nativeCurrency.name,
+  balance: '0',
+  formattedBalance: '0.0000',
+  error,
+});
+
+// Build an ERC-20 balance entry from a raw token amount
+const toTokenBalance = (chain: ChainConfig, tokenContract: TokenContract, balance: bigint): TokenBalance => {
+  const amount = toAmount({
+    symbol: tokenContract.symbol,
+    decimals: tokenContract.decimals,
+    address: tokenContract.address,
+    chainId: chain.chainId,
+  }, balance);
+
+  return {
+    symbol: tokenContract.symbol,
+    name: tokenContract.name,
+    balance: formatAmountExact(amount),
+    formattedBalance: formatAmount(amount, tokenContract.decimals === 6 ? 2 : 4),
+    amount,
+    decimals: tokenContract.decimals,
+    contract: tokenContract.address,
+    contractExplorerUrl: `${chain.blockExplorer}/token/${tokenContract.address}`,
+  };
+};
+
+const toFailedTokenBalance = (
+  chain: ChainConfig | undefined,
+  tokenContract: TokenContract,
+  error: string
+): TokenBalance => ({
+  symbol: tokenContract.symbol,
+  name: tokenContract.name,
+  balance: '0',
+  formattedBalance: '0.00',
+  decimals: tokenContract.decimals,
+  contract: tokenContract.address,
+  // Explorer URL is still useful for failed requests
+  contractExplorerUrl: chain ? `${chain.blockExplorer}/token/${tokenContract.address}` : undefined,
+  error,
+});
+
 // Fetch native ETH balance
 export async function fetchNativeBalance(
   walletAddress: string, 
   chainId: number
 ): Promise<TokenBalance> {
-  try {
-    const chain = getChainById(chainId);
-    if (!chain) {
-      throw new Error(`Chain ${chainId} not supported`);
-    }
+  const chain = getChainById(chainId);
+  if (!chain) {
+    throw new Error(`Chain ${chainId} not supported`);
+  }
 
+  try {
     const client = getPublicClient(chainId);
     const balance = await client.getBalance({ 
       address: walletAddress as `0x${string}` 
     });
 
-    const balanceInEth = formatEther(balance);
-    const formattedBalance = parseFloat(balanceInEth).toFixed(4);
-
-    return {
-      symbol: chain.nativeCurrency.symbol,
-      name: chain.nativeCurrency.name,
-      balance: balanceInEth,
-      formattedBalance,
-      // Mock USD value - you can integrate with price APIs
-      usdValue: `$${(parseFloat(balanceInEth) * 2000).toFixed(2)}`, // Assuming $2000 per ETH
-    };
+    return toNativeBalance(chain, balance);
   } catch (error) {
     console.error(`Error fetching native balance for chain ${chainId}:`, error);
-    return {
-      symbol: 'ETH',
-      name: 'Ether',
-      balance: '0',
-      formattedBalance: '0.0000',
-      error: 'Failed to load',
-    };
+    return toFailedNativeBalance(chain, 'Failed to load');
   }
 }
 
@@ -125,7 +125,6 @@ export async function fetchTokenBalance(
   chainId: number
 ): Promise<TokenBalance> {
   console.log(`🔍 Fetching ${tokenContract.symbol} balance for ${walletAddress} on chain ${chainId}`);
-  console.log(`Contract address: ${tokenContract.address}`);
   
   try {
     const chain = getChainById(chainId);
@@ -134,9 +133,6 @@ export async function fetchTokenBalance(
     }
 
     const client = getPublicClient(chainId);
-    
-    // Get token balance with detailed logging
-    console.log(`📞 Calling balanceOf for ${tokenContract.symbol}...`);
     const balance = await client.readContract({
       address: tokenContract.address as `0x${string}`,
       abi: ERC20_ABI,
@@ -144,62 +140,59 @@ export async function fetchTokenBalance(
       args: [walletAddress as `0x${string}`],
     });
 
-    console.log(`✅ Raw balance for ${tokenContract.symbol}:`, balance);
-
-    // Format balance using token decimals
-    const balanceFormatted = formatUnits(balance as bigint, tokenContract.decimals);
-    const formattedBalance = parseFloat(balanceFormatted).toFixed(
-      tokenContract.decimals === 6 ? 2 : 4
-    );
+    return toTokenBalance(chain, tokenContract, balance);
+  } catch (error) {
+    console.error(`❌ FAILED to fetch ${tokenContract.symbol} balance:`, error);
+    console.error(`Contract: ${tokenContract.address}, Chain: ${chainId}, Wallet: ${walletAddress}`);
+    return toFailedTokenBalance(getChainById(chainId), tokenContract, 'Failed to load');
+  }
+}
 
-    console.log(`✅ Formatted balance for ${tokenContract.symbol}: ${formattedBalance}`);
+/**
+ * Read symbol, name and decimals for an arbitrary ERC-20 contract
+ */
+export async function fetchTokenMetadata(
+  tokenAddress: string,
+  chainId: number
+): Promise<TokenContract> {
+  if (!isAddress(tokenAddress)) {
+    throw new Error('Invalid token contract address');
+  }
 
-    // Create explorer URL for the token contract
-    const contractExplorerUrl = `${chain.blockExplorer}/token/${tokenContract.address}`;
+  try {
+    const client = getPublicClient(chainId);
+    const address = getAddress(tokenAddress);
 
-    // USD values
-    let usdValue: string | undefined;
-    if (tokenContract.symbol === 'USDC') {
-      usdValue = `$${formattedBalance}`; // USDC is pegged to $1
-    } else if (tokenContract.symbol === 'EURC') {
-      // EURC is pegged to €1, approximate USD conversion
-      const eurToUsd = 1.08; // Approximate EUR to USD rate
-      usdValue = `$${(parseFloat(formattedBalance) * eurToUsd).toFixed(2)}`;
+    const bytecode = await client.getBytecode({ address });
+    if (!bytecode || bytecode === '0x') {
+      throw new Error('No contract deployed at this address');
     }
 
+    const [symbol, name, decimals] = await Promise.all([
+      client.readContract({ address, abi: ERC20_ABI, functionName: 'symbol' }),
+      client.readContract({ address, abi: ERC20_ABI, functionName: 'name' }),
+      client.readContract({ address, abi: ERC20_ABI, functionName: 'decimals' }),
+    ]);
+
+    console.log(`✅ Token metadata for ${address} on chain ${chainId}: ${symbol} (${decimals} decimals)`);
+
     return {
-      symbol: tokenContract.symbol,
-      name: tokenContract.name,
-      balance: balanceFormatted,
-      formattedBalance,
-      usdValue,
-      contract: tokenContract.address,
-      contractExplorerUrl,
+      address,
+      symbol,
+      name,
+      decimals: Number(decimals),
     };
   } catch (error) {
-    console.error(`❌ FAILED to fetch ${tokenContract.symbol} balance:`, error);
-    console.error(`Contract: ${tokenContract.address}, Chain: ${chainId}, Wallet: ${walletAddress}`);
-    
-    // Create explorer URL even for failed requests
-    const chain = getChainById(chainId);
-    const contractExplorerUrl = chain ? `${chain.blockExplorer}/token/${tokenContract.address}` : undefined;
-    
-    return {
-      symbol: tokenContract.symbol,
-      name: tokenContract.name,
-      balance: '0',
-      formattedBalance: '0.00',
-      usdValue: '$0.00',
-      contract: tokenContract.address,
-      contractExplorerUrl,
-      error: 'Failed to load',
-    };
+    console.error(`❌ Failed to read token metadata for ${tokenAddress} on chain ${chainId}:`, error);
+    throw new Error(`Failed to read ERC-20 metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-
-
-// Fetch all balances for a wallet on a specific chain
+/**
+ * Fetch all balances for a wallet on a specific chain.
+ * Native and token balances are read in a single Multicall3 request;
+ * a token that reverts only marks its own entry with an error.
+ */
 export async function fetchAllBalances(
   walletAddress: string,
   chainId: number
@@ -209,39 +202,64 @@ export async function fetchAllBalances(
     return [];
   }
 
-  const balances: TokenBalance[] = [];
+  const wallet = walletAddress as `0x${string}`;
+  const registryTokens = getChainTokens(chainId);
+  const customTokens = getCustomTokens(chainId);
+  const tokens: TokenContract[] = [...registryTokens, ...customTokens];
 
-  try {
-    // Always fetch native balance first
-    const nativeBalance = await fetchNativeBalance(walletAddress, chainId);
-    balances.push(nativeBalance);
+  // User-imported tokens come after registry tokens and keep their flags on the balance entry
+  const withCustomFlags = (balance: TokenBalance, index: number): TokenBalance => {
+    const customToken = customTokens[index - registryTokens.length];
+    return customToken
+      ? { ...balance, isCustom: true, possibleImpersonation: customToken.possibleImpersonation }
+      : balance;
+  };
 
-    // Fetch token balances if available on this chain
-    const tokenPromises: Promise<TokenBalance>[] = [];
-    
-    if (chain.tokens.usdc) {
-      tokenPromises.push(fetchTokenBalance(walletAddress, chain.tokens.usdc, chainId));
-    }
-    
-    if (chain.tokens.ecop) {
-      tokenPromises.push(fetchTokenBalance(walletAddress, chain.tokens.ecop, chainId));
-    }
-    
-    if (chain.tokens.eurc) {
-      tokenPromises.push(fetchTokenBalance(walletAddress, chain.tokens.eurc, chainId));
+  try {
+    const client = getPublicClient(chainId);
+    const multicall3 = client.chain.contracts?.multicall3?.address;
+    if (!multicall3) {
+      throw new Error(`Multicall3 not available on chain ${chainId}`);
     }
 
-    // Wait for all token balances
-    if (tokenPromises.length > 0) {
-      const tokenBalances = await Promise.all(tokenPromises);
-      balances.push(...tokenBalances);
-    }
+    const contracts = [
+      { address: multicall3, abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [wallet] },
+      ...tokens.map(token => ({
+        address: token.address as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [wallet],
+      })),
+    ];
 
+    console.log(`📞 Multicall: ${contracts.length} balances on chain ${chainId}`);
+    const [nativeResult, ...tokenResults] = await client.multicall({ allowFailure: true, contracts });
+
+    const balances: TokenBalance[] = [
+      nativeResult.status === 'success'
+        ? toNativeBalance(chain, nativeResult.result as bigint)
+        : toFailedNativeBalance(chain, nativeResult.error.message),
+    ];
+
+    tokenResults.forEach((result, index) => {
+      const token = tokens[index];
+      if (result.status === 'success') {
+        balances.push(withCustomFlags(toTokenBalance(chain, token, result.result as bigint), index));
+      } else {
+        console.error(`❌ FAILED to fetch ${token.symbol} balance on chain ${chainId}:`, result.error.message);
+        balances.push(withCustomFlags(toFailedTokenBalance(chain, token, result.error.message), index));
+      }
+    });
+
+    return balances;
   } catch (error) {
-    console.error('Error fetching balances:', error);
+    console.error(`Chain ${chainId}: Multicall balance fetch failed:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return [
+      toFailedNativeBalance(chain, message),
+      ...tokens.map((token, index) => withCustomFlags(toFailedTokenBalance(chain, token, message), index)),
+    ];
   }
-
-  return balances;
 }
 
 // Get USD price for tokens - REMOVED MOCK PRICES
@@ -261,73 +279,68 @@ export function formatLargeNumber(num: number): string {
   return num.toFixed(2);
 } 
 
+// In-flight portfolio refreshes, shared by components asking for the same wallet
+const pendingChainsBalances = new Map<string, Promise<{ [chainId: number]: TokenBalance[] }>>();
+
 /**
- * Fetch balances across all supported chains for a wallet address
+ * Fetch balances across all supported chains for a wallet address.
+ * Makes one multicall per chain; concurrent callers for the same wallet share the request.
  */
 export async function fetchAllChainsBalances(walletAddress: string): Promise<{
   [chainId: number]: TokenBalance[];
 }> {
-  const allChains = getAllChains();
-  const results: { [chainId: number]: TokenBalance[] } = {};
-  
-  // Fetch balances for all chains in parallel
-  const promises = allChains.map(async (chain) => {
-    try {
-      const balances = await fetchAllBalances(walletAddress, chain.chainId);
-      results[chain.chainId] = balances;
-      return { chainId: chain.chainId, balances, error: null };
-    } catch (error) {
-      console.error(`Chain ${chain.chainId}: Error fetching balances:`, error);
-      results[chain.chainId] = [];
-      return { chainId: chain.chainId, balances: [], error };
-    }
-  });
-  
-  await Promise.all(promises);
-  
-  return results;
+  const key = walletAddress.toLowerCase();
+  const pending = pendingChainsBalances.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const results: { [chainId: number]: TokenBalance[] } = {};
+
+    // Fetch balances for all chains in parallel
+    await Promise.all(getAllChains().map(async (chain) => {
+      results[chain.chainId] = await fetchAllBalances(walletAddress, chain.chainId);
+    }));
+
+    return results;
+  })();
+
+  pendingChainsBalances.set(key, request);
+  try {
+    return await request;
+  } finally {
+    pendingChainsBalances.delete(key);
+  }
+}
+
+export interface AggregatedBalanceSummary {
+  totals: Record<string, number>; // Total balance per token symbol
+  chainBreakdown: { [chainId: number]: Record<string, number> };
 }
 
 /**
  * Get aggregated balance summary across all chains
  */
-export function getAggregatedBalanceSummary(allChainsBalances: { [chainId: number]: TokenBalance[] }): {
-  totalEth: number;
-  totalUsdc: number;
-  totalCope: number;
-  totalEurc: number;
-  chainBreakdown: { [chainId: number]: { eth: number; usdc: number; cope: number; eurc: number; } };
-} {
-  const summary = {
-    totalEth: 0,
-    totalUsdc: 0,
-    totalCope: 0,
-    totalEurc: 0,
-    chainBreakdown: {} as { [chainId: number]: { eth: number; usdc: number; cope: number; eurc: number; } }
+export function getAggregatedBalanceSummary(
+  allChainsBalances: { [chainId: number]: TokenBalance[] }
+): AggregatedBalanceSummary {
+  const summary: AggregatedBalanceSummary = {
+    totals: {},
+    chainBreakdown: {},
   };
   
   Object.entries(allChainsBalances).forEach(([chainId, balances]) => {
-    const chainSummary = { eth: 0, usdc: 0, cope: 0, eurc: 0 };
+    const chainSummary: Record<string, number> = {};
     
     balances.forEach(balance => {
+      // Imported tokens may reuse a registry symbol, so keep them out of the per-symbol totals
+      if (balance.isCustom) return;
       const amount = parseFloat(balance.balance);
-      if (balance.symbol === 'ETH') {
-        chainSummary.eth += amount;
-        summary.totalEth += amount;
-      } else if (balance.symbol === 'USDC') {
-        chainSummary.usdc += amount;
-        summary.totalUsdc += amount;
-      } else if (balance.symbol === 'COPe') {
-        chainSummary.cope += amount;
-        summary.totalCope += amount;
-      } else if (balance.symbol === 'EURC') {
-        chainSummary.eurc += amount;
-        summary.totalEurc += amount;
-      }
+      chainSummary[balance.symbol] = (chainSummary[balance.symbol] || 0) + amount;
+      summary.totals[balance.symbol] = (summary.totals[balance.symbol] || 0) + amount;
     });
     
     summary.chainBreakdown[parseInt(chainId)] = chainSummary;
   });
   
   return summary;
-} 
\ No newline at end of file
+}
@@ -1,9 +1,18 @@
+/**
+ * Tags used to classify registry tokens so balance, swap and pricing code can
+ * select tokens generically instead of branching on symbols
+ */
+export type TokenTag = 'stablecoin' | 'fiat-currency' | 'swappable';
+
 export interface TokenContract {
   address: string;
   symbol: string;
   name: string;
   decimals: number;
   logoUrl?: string;
+  tags?: TokenTag[];
+  fiatCurrency?: string; // ISO 4217 code tracked by fiat-currency tokens (USD, EUR, COP)
+  coingeckoId?: string;
 }
 
 export interface ChainConfig {
@@ -15,17 +24,47 @@ export interface ChainConfig {
     symbol: string;
     decimals: number;
   };
-  rpcUrl: string;
+  alchemyNetwork: string; // Alchemy subdomain, e.g. eth-sepolia
+  publicRpcUrls: string[]; // Keyless backups used after Alchemy
   blockExplorer: string;
   pimlicoBundlerUrl: string;
-  tokens: {
-    usdc?: TokenContract;
-    ecop?: TokenContract; // Electronic Colombian Peso (COPe)
-    eurc?: TokenContract; // Euro Coin (EURC)
-  };
+  subgraphs?: { v3?: string; v4?: string }; // Uniswap subgraph deployment ids on The Graph network
+  tokens: TokenContract[];
   isDefault?: boolean;
 }
 
+// Shared token metadata - chain entries only add the deployed address
+const USDC_METADATA = {
+  symbol: "USDC",
+  name: "USD Coin",
+  decimals: 6,
+  logoUrl: "/tokens/usdc_token.png",
+  tags: ['stablecoin', 'fiat-currency', 'swappable'] as TokenTag[],
+  fiatCurrency: "USD",
+  coingeckoId: "usd-coin",
+};
+
+const COPE_METADATA = {
+  symbol: "COPe",
+  name: "Electronic Colombian Peso",
+  decimals: 18,
+  logoUrl: "/tokens/ecop.png",
+  tags: ['stablecoin', 'fiat-currency', 'swappable'] as TokenTag[],
+  fiatCurrency: "COP",
+};
+
+const EURC_METADATA = {
+  symbol: "EURC",
+  name: "Euro Coin",
+  decimals: 6,
+  logoUrl: "/tokens/usdc_token.png", // Using USDC as placeholder for EURC
+  tags: ['stablecoin', 'fiat-currency', 'swappable'] as TokenTag[],
+  fiatCurrency: "EUR",
+  coingeckoId: "euro-coin",
+};
+
+export const NATIVE_TOKEN_LOGO = "/tokens/ether_crypto.png";
+
 export const SUPPORTED_CHAINS: Record<number, ChainConfig> = {
   // Ethereum Sepolia (Default)
   11155111: {
@@ -37,29 +76,17 @@ export const SUPPORTED_CHAINS: Record<number, ChainConfig> = {
       symbol: "ETH",
       decimals: 18,
     },
-    rpcUrl: "https://eth-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0",
+    alchemyNetwork: "eth-sepolia",
+    publicRpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com", "https://sepolia.drpc.org"],
     blockExplorer: "https://sepolia.etherscan.io",
     pimlicoBundlerUrl: "https://public.pimlico.io/v2/11155111/rpc",
-    tokens: {
-      usdc: {
-        address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-        symbol: "USDC",
-        name: "USD Coin",
-        decimals: 6,
-      },
-      ecop: {
-        address: "0x19ac2612e560b2bbedf88660a2566ef53c0a15a1", // Electronic Colombian Peso (COPe)
-        symbol: "COPe",
-        name: "Electronic Colombian Peso",
-        decimals: 18,
-      },
-      eurc: {
-        address: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4", // Euro Coin (EURC)
-        symbol: "EURC",
-        name: "Euro Coin",
-        decimals: 6,
-      },
-    },
+    // No `subgraphs`: the known Uniswap V3/V4 deployment ids index mainnet, not Sepolia. Until a Sepolia
+    // deployment exists, point NEXT_PUBLIC_SUBGRAPH_ENDPOINTS at one (subgraph reads are skipped otherwise).
+    tokens: [
+      { ...USDC_METADATA, address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" },
+      { ...COPE_METADATA, address: "0x19ac2612e560b2bbedf88660a2566ef53c0a15a1" },
+      { ...EURC_METADATA, address: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4" },
+    ],
     isDefault: true,
   },
   
@@ -73,23 +100,14 @@ export const SUPPORTED_CHAINS: Record<number, ChainConfig> = {
       symbol: "ETH",
       decimals: 18,
     },
-    rpcUrl: "https://unichain-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0",
+    alchemyNetwork: "unichain-sepolia",
+    publicRpcUrls: ["https://sepolia.unichain.org", "https://unichain-sepolia-rpc.publicnode.com"],
     blockExplorer: "https://unichain-sepolia.blockscout.com",
     pimlicoBundlerUrl: "https://public.pimlico.io/v2/1301/rpc",
-    tokens: {
-      usdc: {
-        address: "0x31d0220469e10c4E71834a79b1f276d740d3768F",
-        symbol: "USDC",
-        name: "USD Coin",
-        decimals: 6,
-      },
-      ecop: {
-        address: "0xbb0d7c4141ee1fed53db766e1ffcb9c618df8260", // Electronic Colombian Peso (COPe)
-        symbol: "COPe",
-        name: "Electronic Colombian Peso",
-        decimals: 18,
-      },
-    },
+    tokens: [
+      { ...USDC_METADATA, address: "0x31d0220469e10c4E71834a79b1f276d740d3768F" },
+      { ...COPE_METADATA, address: "0xbb0d7c4141ee1fed53db766e1ffcb9c618df8260" },
+    ],
   },
   
   // Optimism Sepolia
@@ -102,23 +120,14 @@ export const SUPPORTED_CHAINS: Record<number, ChainConfig> = {
       symbol: "ETH",
       decimals: 18,
     },
-    rpcUrl: "https://opt-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0",
+    alchemyNetwork: "opt-sepolia",
+    publicRpcUrls: ["https://sepolia.optimism.io", "https://optimism-sepolia-rpc.publicnode.com"],
     blockExplorer: "https://sepolia-optimism.etherscan.io",
     pimlicoBundlerUrl: "https://public.pimlico.io/v2/11155420/rpc",
-    tokens: {
-      usdc: {
-        address: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
-        symbol: "USDC",
-        name: "USD Coin",
-        decimals: 6,
-      },
-      ecop: {
-        address: "0xa5bfe574ac515c14f37c25a92202fa5a58d8e723", // Electronic Colombian Peso (COPe)
-        symbol: "COPe",
-        name: "Electronic Colombian Peso",
-        decimals: 18,
-      },
-    },
+    tokens: [
+      { ...USDC_METADATA, address: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7" },
+      { ...COPE_METADATA, address: "0xa5bfe574ac515c14f37c25a92202fa5a58d8e723" },
+    ],
   },
   
   // Base Sepolia
@@ -131,29 +140,15 @@ export const SUPPORTED_CHAINS: Record<number, ChainConfig> = {
       symbol: "ETH",
       decimals: 18,
     },
-    rpcUrl: "https://base-sepolia.g.alchemy.com/v2/wkftoNwmx1w1I2Zo3Kljuv0T28pCBQy0",
+    alchemyNetwork: "base-sepolia",
+    publicRpcUrls: ["https://sepolia.base.org", "https://base-sepolia-rpc.publicnode.com"],
     blockExplorer: "https://sepolia.basescan.org",
     pimlicoBundlerUrl: "https://public.pimlico.io/v2/84532/rpc",
-    tokens: {
-      usdc: {
-        address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-        symbol: "USDC",
-        name: "USD Coin",
-        decimals: 6,
-      },
-      ecop: {
-        address: "0xb934dcb57fb0673b7bc0fca590c5508f1cde955d", // Electronic Colombian Peso (COPe)
-        symbol: "COPe",
-        name: "Electronic Colombian Peso",
-        decimals: 18,
-      },
-      eurc: {
-        address: "0x808456652fdb597867f38412077A9182bf77359F", // Euro Coin (EURC)
-        symbol: "EURC",
-        name: "Euro Coin",
-        decimals: 6,
-      },
-    },
+    tokens: [
+      { ...USDC_METADATA, address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+      { ...COPE_METADATA, address: "0xb934dcb57fb0673b7bc0fca590c5508f1cde955d" },
+      { ...EURC_METADATA, address: "0x808456652fdb597867f38412077A9182bf77359F" },
+    ],
   },
 };
 
@@ -168,13 +163,58 @@ export function getAllChains(): ChainConfig[] {
 }
 
 export function getChainTokens(chainId: number): TokenContract[] {
-  const chain = getChainById(chainId);
-  if (!chain) return [];
-  
-  const tokens: TokenContract[] = [];
-  if (chain.tokens.usdc) tokens.push(chain.tokens.usdc);
-  if (chain.tokens.ecop) tokens.push(chain.tokens.ecop);
-  if (chain.tokens.eurc) tokens.push(chain.tokens.eurc);
-  
-  return tokens;
-} 
\ No newline at end of file
+  return getChainById(chainId)?.tokens ?? [];
+}
+
+/**
+ * Find a registry token by symbol (case-insensitive) on a chain
+ */
+export function getTokenBySymbol(chainId: number, symbol: string): TokenContract | undefined {
+  const normalizedSymbol = symbol.toLowerCase();
+  return getChainTokens(chainId).find(token => token.symbol.toLowerCase() === normalizedSymbol);
+}
+
+/**
+ * Registry token by symbol as a pool token (typed address, decimals, symbol); throws when unlisted
+ */
+export function toPoolToken(chainId: number, symbol: string) {
+  const token = getTokenBySymbol(chainId, symbol);
+  if (!token) {
+    throw new Error(`${symbol} is not in the ${getChainById(chainId)?.name ?? `chain ${chainId}`} token registry`);
+  }
+  return {
+    address: token.address as `0x${string}`,
+    decimals: token.decimals,
+    symbol: token.symbol
+  };
+}
+
+/**
+ * Find a registry token by contract address on a chain
+ */
+export function getTokenByAddress(chainId: number, address: string): TokenContract | undefined {
+  const normalizedAddress = address.toLowerCase();
+  return getChainTokens(chainId).find(token => token.address.toLowerCase() === normalizedAddress);
+}
+
+/**
+ * Get all registry tokens on a chain carrying the given tag
+ */
+export function getTokensByTag(chainId: number, tag: TokenTag): TokenContract[] {
+  return getChainTokens(chainId).filter(token => token.tags?.includes(tag));
+}
+
+/**
+ * Get one entry per token symbol across every supported chain
+ */
+export function getRegistryTokens(): TokenContract[] {
+  const tokensBySymbol = new Map<string, TokenContract>();
+  getAllChains().forEach(chain => {
+    chain.tokens.forEach(token => {
+      if (!tokensBySymbol.has(token.symbol)) {
+        tokensBySymbol.set(token.symbol, token);
+      }
+    });
+  });
+  return Array.from(tokensBySymbol.values());
+}
@@ -0,0 +1,114 @@
+import { TokenContract, getAllChains, getChainById, getTokenByAddress } from './chains';
+
+const CUSTOM_TOKENS_STORAGE_KEY = 'convexo-custom-tokens';
+
+export interface CustomToken extends TokenContract {
+  chainId: number;
+  hidden: boolean;
+  possibleImpersonation: boolean; // Symbol matches a registry or native token at a different address
+  addedAt: string;
+}
+
+/**
+ * Load every imported token from localStorage (empty outside the browser)
+ */
+export function loadCustomTokens(): CustomToken[] {
+  if (typeof window === 'undefined') return [];
+
+  const saved = localStorage.getItem(CUSTOM_TOKENS_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return JSON.parse(saved) as CustomToken[];
+  } catch (error) {
+    console.error('Error loading custom tokens:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the imported token list to localStorage
+ */
+export function saveCustomTokens(tokens: CustomToken[]): void {
+  localStorage.setItem(CUSTOM_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+}
+
+/**
+ * Get imported tokens for a chain, skipping hidden ones unless asked
+ */
+export function getCustomTokens(chainId: number, includeHidden: boolean = false): CustomToken[] {
+  return loadCustomTokens().filter(token =>
+    token.chainId === chainId && (includeHidden || !token.hidden)
+  );
+}
+
+/**
+ * Check whether a symbol is already used by a built-in token on any supported chain
+ */
+export function collidesWithRegistrySymbol(symbol: string): boolean {
+  const normalizedSymbol = symbol.trim().toLowerCase();
+  return getAllChains().some(chain =>
+    chain.nativeCurrency.symbol.toLowerCase() === normalizedSymbol ||
+    chain.tokens.some(token => token.symbol.toLowerCase() === normalizedSymbol)
+  );
+}
+
+/**
+ * Build and store a custom token from on-chain metadata.
+ * Returns the updated list so React state can follow storage.
+ */
+export function addCustomToken(chainId: number, metadata: TokenContract): CustomToken[] {
+  if (!getChainById(chainId)) {
+    throw new Error(`Chain ${chainId} not supported`);
+  }
+  if (getTokenByAddress(chainId, metadata.address)) {
+    throw new Error(`${metadata.symbol} is already a built-in token on this chain`);
+  }
+
+  const tokens = loadCustomTokens();
+  const normalizedAddress = metadata.address.toLowerCase();
+  if (tokens.some(token => token.chainId === chainId && token.address.toLowerCase() === normalizedAddress)) {
+    throw new Error(`${metadata.symbol} has already been imported on this chain`);
+  }
+
+  const customToken: CustomToken = {
+    address: metadata.address,
+    symbol: metadata.symbol,
+    name: metadata.name,
+    decimals: metadata.decimals,
+    chainId,
+    hidden: false,
+    possibleImpersonation: collidesWithRegistrySymbol(metadata.symbol),
+    addedAt: new Date().toISOString(),
+  };
+
+  const updatedTokens = [...tokens, customToken];
+  saveCustomTokens(updatedTokens);
+  return updatedTokens;
+}
+
+/**
+ * Hide or show an imported token without forgetting it
+ */
+export function setCustomTokenHidden(chainId: number, address: string, hidden: boolean): CustomToken[] {
+  const normalizedAddress = address.toLowerCase();
+  const updatedTokens = loadCustomTokens().map(token =>
+    token.chainId === chainId && token.address.toLowerCase() === normalizedAddress
+      ? { ...token, hidden }
+      : token
+  );
+  saveCustomTokens(updatedTokens);
+  return updatedTokens;
+}
+
+/**
+ * Remove an imported token entirely
+ */
+export function removeCustomToken(chainId: number, address: string): CustomToken[] {
+  const normalizedAddress = address.toLowerCase();
+  const updatedTokens = loadCustomTokens().filter(token =>
+    !(token.chainId === chainId && token.address.toLowerCase() === normalizedAddress)
+  );
+  saveCustomTokens(updatedTokens);
+  return updatedTokens;
+}
@@ -0,0 +1,145 @@
+/**
+ * Display currencies and FX conversion
+ * Values are computed in USD and converted to the user's display currency only for formatting
+ */
+
+export type DisplayCurrency = 'USD' | 'COP' | 'EUR';
+
+export interface CurrencyInfo {
+  code: DisplayCurrency;
+  name: string;
+  locale: string;
+  fractionDigits: number;
+}
+
+export const DISPLAY_CURRENCIES: Record<DisplayCurrency, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US Dollar', locale: 'en-US', fractionDigits: 2 },
+  COP: { code: 'COP', name: 'Colombian Peso', locale: 'es-CO', fractionDigits: 0 },
+  EUR: { code: 'EUR', name: 'Euro', locale: 'de-DE', fractionDigits: 2 },
+};
+
+export const DEFAULT_DISPLAY_CURRENCY: DisplayCurrency = 'USD';
+
+export interface FxRates {
+  rates: Record<DisplayCurrency, number>; // Units of each currency per 1 USD
+  source: string;
+  fetchedAt: Date;
+}
+
+// Rates move slowly compared to token prices
+const FX_CACHE_TTL_MS = 10 * 60 * 1000;
+
+let cachedRates: FxRates | undefined;
+let inFlightRates: Promise<FxRates> | undefined;
+
+export function isDisplayCurrency(value: unknown): value is DisplayCurrency {
+  // Own keys only: `in` would also accept inherited names such as "toString"
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DISPLAY_CURRENCIES, value);
+}
+
+/**
+ * ECB-based daily rates from open.er-api.com (no API key)
+ */
+async function fetchOpenErApiRates(): Promise<FxRates> {
+  const response = await fetch('https://open.er-api.com/v6/latest/USD');
+  if (!response.ok) {
+    throw new Error(`open.er-api.com failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.result !== 'success' || !data.rates?.COP || !data.rates?.EUR) {
+    throw new Error('open.er-api.com returned no COP/EUR rates');
+  }
+
+  return {
+    rates: { USD: 1, COP: data.rates.COP, EUR: data.rates.EUR },
+    source: 'open.er-api.com',
+    fetchedAt: data.time_last_update_unix ? new Date(data.time_last_update_unix * 1000) : new Date(),
+  };
+}
+
+/**
+ * Backup: USDC quoted in COP and EUR by CoinGecko (USDC ≈ USD)
+ */
+async function fetchCoingeckoRates(): Promise<FxRates> {
+  const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=usd-coin&vs_currencies=usd,cop,eur');
+  if (!response.ok) {
+    throw new Error(`CoinGecko FX failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const usdc = data['usd-coin'];
+  if (!usdc?.usd || !usdc?.cop || !usdc?.eur) {
+    throw new Error('CoinGecko returned no COP/EUR rates');
+  }
+
+  return {
+    rates: { USD: 1, COP: usdc.cop / usdc.usd, EUR: usdc.eur / usdc.usd },
+    source: 'coingecko',
+    fetchedAt: new Date(),
+  };
+}
+
+/**
+ * Current USD FX rates, cached for a few minutes and shared across callers
+ */
+export async function fetchFxRates(): Promise<FxRates> {
+  if (cachedRates && Date.now() - cachedRates.fetchedAt.getTime() < FX_CACHE_TTL_MS) {
+    return cachedRates;
+  }
+  if (inFlightRates) return inFlightRates;
+
+  inFlightRates = (async () => {
+    try {
+      const rates = await fetchOpenErApiRates().catch(error => {
+        console.warn('⚠️ Primary FX source failed, trying CoinGecko:', error);
+        return fetchCoingeckoRates();
+      });
+      console.log(`💱 FX rates from ${rates.source}:`, rates.rates);
+      // Cache by fetch time so daily-updated sources are not refetched on every render
+      cachedRates = { ...rates, fetchedAt: new Date() };
+      return cachedRates;
+    } catch (error) {
+      throw new Error(`Failed to fetch FX rates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      inFlightRates = undefined;
+    }
+  })();
+
+  return inFlightRates;
+}
+
+/**
+ * Convert between fiat currencies through USD. Returns undefined when a needed rate is missing.
+ */
+export function convertFiat(
+  amount: number,
+  from: DisplayCurrency,
+  to: DisplayCurrency,
+  fxRates?: FxRates
+): number | undefined {
+  if (from === to) return amount;
+  if (!fxRates) return undefined;
+  return amount / fxRates.rates[from] * fxRates.rates[to];
+}
+
+/**
+ * Format an amount already expressed in the given currency
+ */
+export function formatFiat(amount: number, currency: DisplayCurrency): string {
+  const { locale, fractionDigits } = DISPLAY_CURRENCIES[currency];
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount);
+}
+
+/**
+ * Format a USD value in the display currency; falls back to USD when rates are unavailable
+ */
+export function formatUsdAs(usdAmount: number, currency: DisplayCurrency, fxRates?: FxRates): string {
+  const converted = convertFiat(usdAmount, 'USD', currency, fxRates);
+  return converted === undefined ? formatFiat(usdAmount, 'USD') : formatFiat(converted, currency);
+}
@@ -0,0 +1,294 @@
+/**
+ * Uniswap V3 pool analytics computed from chain state
+ * TVL from the pool's token balances, 24h volume and fees from Swap logs, APR from both.
+ * Figures that cannot be computed are reported as unknown, never estimated.
+ */
+
+import { parseAbi, parseAbiItem } from 'viem';
+import { getTokenByAddress } from './chains';
+import { getPublicClient } from './rpc';
+import { AmountToken, TokenAmount, amountToNumber, toAmount } from './amounts';
+import { PricedToken, createDefaultOracle } from './price-oracle';
+import { tickToPrice } from './uniswap-v3-utils';
+import { getWrappedNativeAddress } from './uniswap-integration';
+import { fetchV3PoolMetrics } from './uniswap-subgraph';
+
+const POOL_STATE_ABI = parseAbi([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function liquidity() view returns (uint128)',
+  // sqrtPriceX96, tick, observationIndex, observationCardinality, observationCardinalityNext, feeProtocol, unlocked
+  'function slot0() view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)',
+]);
+
+const ERC20_METADATA_ABI = parseAbi([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+]);
+
+const SWAP_EVENT = parseAbiItem(
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'
+);
+
+// Average block times, used to turn "last 24h" into a block range
+const BLOCK_TIME_SECONDS: Record<number, number> = {
+  11155111: 12,
+  11155420: 2,
+  84532: 2,
+  1301: 1,
+};
+
+// Most RPC providers cap eth_getLogs ranges; stay under the common limits
+const LOG_CHUNK_BLOCKS = BigInt(2000);
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export type PoolMetric =
+  | { status: 'known'; value: number; source: 'onchain' | 'subgraph' }
+  | { status: 'unknown'; reason: string };
+
+export interface PoolToken extends AmountToken {
+  address: string;
+  name: string;
+}
+
+export interface PoolAnalytics {
+  chainId: number;
+  poolAddress: `0x${string}`;
+  token0: PoolToken;
+  token1: PoolToken;
+  feeTier: number; // Hundredths of a bip, e.g. 3000 = 0.3%
+  liquidity: bigint;
+  token0Price: number; // token1 per token0 at the current tick
+  token1Price: number; // token0 per token1
+  reserves0: TokenAmount;
+  reserves1: TokenAmount;
+  tvlUSD: PoolMetric;
+  volume24hUSD: PoolMetric;
+  fees24hUSD: PoolMetric;
+  apr: PoolMetric;
+  swapCount24h?: number; // Set when volume came from logs
+  blockRange?: { fromBlock: bigint; toBlock: bigint };
+  computedAt: Date;
+}
+
+export interface PoolAnalyticsOptions {
+  useSubgraph?: boolean; // Try the subgraph first and only scan logs if it has nothing
+}
+
+const priceOracle = createDefaultOracle();
+
+export function knownMetric(value: number, source: 'onchain' | 'subgraph'): PoolMetric {
+  return { status: 'known', value, source };
+}
+
+export function unknownMetric(reason: string): PoolMetric {
+  return { status: 'unknown', reason };
+}
+
+/**
+ * Numeric value of a metric, or undefined when unknown
+ */
+export function getMetricValue(metric: PoolMetric): number | undefined {
+  return metric.status === 'known' ? metric.value : undefined;
+}
+
+/**
+ * Pool token identity, from the registry when listed and from the contract otherwise
+ */
+async function loadPoolToken(chainId: number, address: string): Promise<PoolToken> {
+  const registryToken = getTokenByAddress(chainId, address);
+  if (registryToken) {
+    return { ...registryToken, chainId };
+  }
+
+  const client = getPublicClient(chainId);
+  const [symbol, decimals] = await Promise.all([
+    client.readContract({ address: address as `0x${string}`, abi: ERC20_METADATA_ABI, functionName: 'symbol' }),
+    client.readContract({ address: address as `0x${string}`, abi: ERC20_METADATA_ABI, functionName: 'decimals' }),
+  ]);
+  return { address, symbol, name: symbol, decimals, chainId };
+}
+
+/**
+ * USD price of a pool token via the price oracle. WETH is priced as ETH;
+ * unlisted tokens have no price.
+ */
+async function getPoolTokenUsdPrice(token: PoolToken): Promise<number | undefined> {
+  const chainId = token.chainId ?? 11155111;
+  const isWrappedNative = getWrappedNativeAddress(chainId)?.toLowerCase() === token.address.toLowerCase();
+  const pricedToken: PricedToken = {
+    key: `${chainId}:${token.address.toLowerCase()}`,
+    chainId,
+    symbol: token.symbol,
+    address: token.address,
+    coingeckoId: isWrappedNative ? 'ethereum' : getTokenByAddress(chainId, token.address)?.coingeckoId,
+  };
+
+  try {
+    return (await priceOracle.getPrice(pricedToken))?.usdPrice;
+  } catch (error) {
+    console.warn(`⚠️ No USD price for pool token ${token.symbol}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Sum swap input amounts over a block range, scanning logs in provider-friendly chunks
+ */
+export async function getSwapVolume(
+  chainId: number,
+  poolAddress: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<{ volume0Raw: bigint; volume1Raw: bigint; swapCount: number }> {
+  const client = getPublicClient(chainId);
+  let volume0Raw = BigInt(0);
+  let volume1Raw = BigInt(0);
+  let swapCount = 0;
+
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - BigInt(1) < toBlock ? start + LOG_CHUNK_BLOCKS - BigInt(1) : toBlock;
+    const logs = await client.getLogs({ address: poolAddress, event: SWAP_EVENT, fromBlock: start, toBlock: end });
+
+    for (const log of logs) {
+      const { amount0, amount1 } = log.args;
+      if (amount0 === undefined || amount1 === undefined) continue;
+      // Positive deltas are paid into the pool, i.e. the swap input
+      if (amount0 > BigInt(0)) volume0Raw += amount0;
+      if (amount1 > BigInt(0)) volume1Raw += amount1;
+      swapCount++;
+    }
+  }
+
+  return { volume0Raw, volume1Raw, swapCount };
+}
+
+/**
+ * Compute TVL, 24h volume, 24h fees and fee APR for a V3 pool.
+ * Each metric is independently known or unknown with a reason.
+ */
+export async function computePoolAnalytics(
+  chainId: number,
+  poolAddress: `0x${string}`,
+  options: PoolAnalyticsOptions = {}
+): Promise<PoolAnalytics> {
+  const { useSubgraph = true } = options;
+  const client = getPublicClient(chainId);
+
+  try {
+    console.log(`📊 Computing analytics for pool ${poolAddress} on chain ${chainId}`);
+
+    const [token0Address, token1Address, feeTier, liquidity, slot0] = await Promise.all([
+      client.readContract({ address: poolAddress, abi: POOL_STATE_ABI, functionName: 'token0' }),
+      client.readContract({ address: poolAddress, abi: POOL_STATE_ABI, functionName: 'token1' }),
+      client.readContract({ address: poolAddress, abi: POOL_STATE_ABI, functionName: 'fee' }),
+      client.readContract({ address: poolAddress, abi: POOL_STATE_ABI, functionName: 'liquidity' }),
+      client.readContract({ address: poolAddress, abi: POOL_STATE_ABI, functionName: 'slot0' }),
+    ]);
+
+    const [token0, token1] = await Promise.all([
+      loadPoolToken(chainId, token0Address),
+      loadPoolToken(chainId, token1Address),
+    ]);
+
+    const [balance0, balance1, price0, price1, subgraphMetrics] = await Promise.all([
+      client.readContract({ address: token0Address, abi: ERC20_METADATA_ABI, functionName: 'balanceOf', args: [poolAddress] }),
+      client.readContract({ address: token1Address, abi: ERC20_METADATA_ABI, functionName: 'balanceOf', args: [poolAddress] }),
+      getPoolTokenUsdPrice(token0),
+      getPoolTokenUsdPrice(token1),
+      useSubgraph ? fetchV3PoolMetrics(poolAddress, chainId) : Promise.resolve(null),
+    ]);
+
+    const reserves0 = toAmount(token0, balance0);
+    const reserves1 = toAmount(token1, balance1);
+    const token0Price = tickToPrice(slot0[1], token0.decimals, token1.decimals);
+    const unpricedSymbols = [price0 === undefined && token0.symbol, price1 === undefined && token1.symbol].filter(Boolean);
+
+    const result: PoolAnalytics = {
+      chainId,
+      poolAddress,
+      token0,
+      token1,
+      feeTier,
+      liquidity,
+      token0Price,
+      token1Price: token0Price > 0 ? 1 / token0Price : 0,
+      reserves0,
+      reserves1,
+      tvlUSD: unknownMetric('Not computed'),
+      volume24hUSD: unknownMetric('Not computed'),
+      fees24hUSD: unknownMetric('Not computed'),
+      apr: unknownMetric('Not computed'),
+      computedAt: new Date(),
+    };
+
+    if (subgraphMetrics) {
+      result.tvlUSD = knownMetric(subgraphMetrics.tvlUSD, 'subgraph');
+      result.volume24hUSD = knownMetric(subgraphMetrics.volume24hUSD, 'subgraph');
+      result.fees24hUSD = knownMetric(subgraphMetrics.fees24hUSD, 'subgraph');
+    } else {
+      // Pool balances include uncollected fees, matching how the subgraph reports TVL
+      result.tvlUSD = price0 !== undefined && price1 !== undefined
+        ? knownMetric(amountToNumber(reserves0) * price0 + amountToNumber(reserves1) * price1, 'onchain')
+        : unknownMetric(`No USD price for ${unpricedSymbols.join(', ')}`);
+
+      try {
+        const toBlock = await client.getBlockNumber();
+        const blocksPerDay = BigInt(Math.ceil(SECONDS_PER_DAY / (BLOCK_TIME_SECONDS[chainId] ?? 12)));
+        const fromBlock = toBlock > blocksPerDay ? toBlock - blocksPerDay : BigInt(0);
+        const { volume0Raw, volume1Raw, swapCount } = await getSwapVolume(chainId, poolAddress, fromBlock, toBlock);
+
+        result.swapCount24h = swapCount;
+        result.blockRange = { fromBlock, toBlock };
+
+        const volume0 = amountToNumber(toAmount(token0, volume0Raw));
+        const volume1 = amountToNumber(toAmount(token1, volume1Raw));
+        if (swapCount === 0) {
+          result.volume24hUSD = knownMetric(0, 'onchain');
+          result.fees24hUSD = knownMetric(0, 'onchain');
+        } else if (price0 !== undefined && price1 !== undefined) {
+          const volumeUSD = volume0 * price0 + volume1 * price1;
+          result.volume24hUSD = knownMetric(volumeUSD, 'onchain');
+          result.fees24hUSD = knownMetric(volumeUSD * feeTier / 1000000, 'onchain');
+        } else {
+          const reason = `No USD price for ${unpricedSymbols.join(', ')}`;
+          result.volume24hUSD = unknownMetric(reason);
+          result.fees24hUSD = unknownMetric(reason);
+        }
+      } catch (error) {
+        console.error('❌ Error scanning swap logs:', error);
+        const reason = `Swap logs unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.volume24hUSD = unknownMetric(reason);
+        result.fees24hUSD = unknownMetric(reason);
+      }
+    }
+
+    const tvlUSD = getMetricValue(result.tvlUSD);
+    const fees24hUSD = getMetricValue(result.fees24hUSD);
+    if (tvlUSD === undefined || fees24hUSD === undefined) {
+      result.apr = unknownMetric('TVL or fees unknown');
+    } else if (tvlUSD === 0) {
+      result.apr = unknownMetric('Pool has no liquidity');
+    } else {
+      // APR = (daily fees * 365) / TVL * 100, from a single day so it is volatile
+      const source = result.tvlUSD.status === 'known' && result.tvlUSD.source === 'subgraph' ? 'subgraph' : 'onchain';
+      result.apr = knownMetric(fees24hUSD * 365 / tvlUSD * 100, source);
+    }
+
+    console.log('✅ Pool analytics computed:', {
+      tvlUSD: result.tvlUSD,
+      volume24hUSD: result.volume24hUSD,
+      fees24hUSD: result.fees24hUSD,
+      apr: result.apr,
+      swapCount24h: result.swapCount24h,
+    });
+
+    return result;
+  } catch (error) {
+    console.error('❌ Error computing pool analytics:', error);
+    throw new Error(`Failed to compute pool analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -1,50 +1,27 @@
-import { createPublicClient, http, formatUnits, getContract } from 'viem';
-import { sepolia } from 'viem/chains';
-import { SUPPORTED_CHAINS } from './chains';
-import { getEcopUsdcPriceFromLP, LPPriceData } from './uniswap-integration';
-
-// ERC20 ABI for balance checks
-const ERC20_ABI = [
-  {
-    "inputs": [{"type": "address"}],
-    "name": "balanceOf",
-    "outputs": [{"type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "decimals",
-    "outputs": [{"type": "uint8"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "symbol",
-    "outputs": [{"type": "string"}],
-    "stateMutability": "view",
-    "type": "function"
-  }
-] as const;
+import { getTokenBySymbol } from './chains';
+import { getEcopUsdcPriceFromLP, getPoolAddress, getWrappedNativeAddress, LPPriceData } from './uniswap-integration';
+import { fetchAllBalances } from './blockchain';
+import { valuePortfolio } from './valuation';
+import { amountToNumber } from './amounts';
+import { createDefaultOracle } from './price-oracle';
+import { PoolMetric, computePoolAnalytics, unknownMetric } from './pool-analytics';
 
 // Get token addresses from chains config (Ethereum Sepolia by default)
 const CHAIN_ID = 11155111; // Ethereum Sepolia
-const chainConfig = SUPPORTED_CHAINS[CHAIN_ID];
-const USDC_ADDRESS = chainConfig.tokens.usdc?.address || "";
-const ECOP_ADDRESS = chainConfig.tokens.ecop?.address || "";
+const USDC_ADDRESS = getTokenBySymbol(CHAIN_ID, 'USDC')?.address || "";
+const ECOP_ADDRESS = getTokenBySymbol(CHAIN_ID, 'COPe')?.address || "";
+
+const priceOracle = createDefaultOracle();
 
 export interface PoolData {
   poolType: 'USDC/ETH' | 'USDC/ECOP';
   usdcEcopPrice?: number;
   ethUsdcPrice?: number;
-  totalLiquidity: number;
-  volume24h: number;
-  fees24h: number;
-  apr: number;
-  tvlUSD: number;
-  volumeUSD: number;
-  feesUSD: number;
+  poolAddress?: string; // undefined when no pool exists for the pair
+  tvlUSD: PoolMetric;
+  volume24h: PoolMetric;
+  fees24h: PoolMetric;
+  apr: PoolMetric;
   token0: {
     symbol: string;
     name: string;
@@ -64,14 +41,8 @@ export interface UserBalance {
   totalUsd: number;
 }
 
-// Create a public client for Sepolia
-const publicClient = createPublicClient({
-  chain: sepolia,
-  transport: http()
-});
-
 /**
- * Fetch market data combining CoinGecko (for ETH) and LP data (for ECOP)
+ * Fetch market data combining the price oracle (for ETH) and LP data (for ECOP)
  */
 export async function fetchMarketData(): Promise<{
   ethPrice: number;
@@ -80,23 +51,20 @@ export async function fetchMarketData(): Promise<{
   lpData?: LPPriceData;
 }> {
   try {
-    console.log('💰 Fetching market data from CoinGecko and LP...');
+    console.log('💰 Fetching market data from price oracle and LP...');
     
-    // Get ETH price from CoinGecko
-    const ethResponse = await fetch(
-      'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd&include_24hr_change=true'
-    );
-    
-    if (!ethResponse.ok) {
-      throw new Error(`CoinGecko ETH API failed: ${ethResponse.status}`);
-    }
-    
-    const ethData = await ethResponse.json();
-    const ethPrice = ethData.ethereum?.usd || 0;
+    // Get ETH price from the oracle (Chainlink first, CoinGecko as backup)
+    const ethQuote = await priceOracle.getPrice({
+      key: `${CHAIN_ID}:native`,
+      chainId: CHAIN_ID,
+      symbol: 'ETH',
+      coingeckoId: 'ethereum',
+    });
     
-    if (!ethPrice) {
-      throw new Error('Missing ETH price from CoinGecko');
+    if (!ethQuote) {
+      throw new Error('Missing ETH price from oracle');
     }
+    const ethPrice = ethQuote.usdPrice;
     
     // Get ECOP price from LP - NO FALLBACK, must use real price
     let ecopPrice = 0; // Will be set from LP
@@ -129,7 +97,7 @@ export async function fetchMarketData(): Promise<{
       ethPrice,
       ecopPrice,
       usdcEcopRate,
-      source: lpData ? 'LP + CoinGecko' : 'CoinGecko + Fallback',
+      source: `LP + ${ethQuote.provenance.source}`,
       timestamp: new Date().toISOString(),
     });
     
@@ -147,97 +115,49 @@ export async function fetchMarketData(): Promise<{
 }
 
 /**
- * Generate pool analytics for different pool types
+ * On-chain metrics for the 0.3% pool of a pair; every metric is unknown if the pool does not exist
  */
-function generatePoolAnalytics(poolType: 'USDC/ETH' | 'USDC/ECOP', ethPrice: number, ecopPrice: number): {
-  tvlUSD: number;
-  volumeUSD: number;
-  feesUSD: number;
-  volume24h: number;
-  fees24h: number;
-  apr: number;
-} {
-  let baseTVL: number;
-  let volumeMultiplier: number;
-  
-  if (poolType === 'USDC/ETH') {
-    // ETH pools typically have higher liquidity
-    baseTVL = 150000; // $150k base TVL for ETH pool
-    volumeMultiplier = 0.3; // Higher volume for ETH
-  } else {
-    // ECOP pools smaller but growing
-    baseTVL = 25000; // $25k base TVL for ECOP pool
-    volumeMultiplier = 0.15; // Lower volume for newer token
+async function getPairMetrics(tokenA: string, tokenB: string): Promise<Pick<PoolData, 'poolAddress' | 'tvlUSD' | 'volume24h' | 'fees24h' | 'apr'>> {
+  const poolAddress = tokenA && tokenB ? await getPoolAddress(CHAIN_ID, tokenA, tokenB, 3000) : undefined;
+  if (!poolAddress) {
+    const missing = unknownMetric('Pool not found');
+    return { tvlUSD: missing, volume24h: missing, fees24h: missing, apr: missing };
+  }
+
+  try {
+    const analytics = await computePoolAnalytics(CHAIN_ID, poolAddress);
+    return {
+      poolAddress,
+      tvlUSD: analytics.tvlUSD,
+      volume24h: analytics.volume24hUSD,
+      fees24h: analytics.fees24hUSD,
+      apr: analytics.apr,
+    };
+  } catch (error) {
+    const unavailable = unknownMetric(error instanceof Error ? error.message : 'Unknown error');
+    return { poolAddress, tvlUSD: unavailable, volume24h: unavailable, fees24h: unavailable, apr: unavailable };
   }
-  
-  const tvlUSD = baseTVL + (Math.random() * 50000); // Add some variance
-  const volume24h = tvlUSD * (volumeMultiplier + Math.random() * 0.2);
-  const feeRate = 0.003; // 0.3% fee
-  const fees24h = volume24h * feeRate;
-  
-  // APR calculation: (daily fees * 365) / TVL * 100
-  const apr = (fees24h * 365 / tvlUSD) * 100;
-  
-  return {
-    tvlUSD,
-    volumeUSD: volume24h,
-    feesUSD: fees24h,
-    volume24h,
-    fees24h,
-    apr,
-  };
 }
 
 /**
- * Fetch user's token balances from blockchain
+ * Fetch user's token balances from blockchain, valued by the shared valuation service
  */
 export async function fetchUserBalances(walletAddress: string): Promise<UserBalance> {
   try {
     console.log('👛 Fetching user balances for:', walletAddress);
-    
-    // Fetch ETH balance
-    const ethBalance = await publicClient.getBalance({
-      address: walletAddress as `0x${string}`
-    });
-    const ethAmount = Number(formatUnits(ethBalance, 18));
 
-    // Fetch USDC balance
-    let usdcAmount = 0;
-    if (USDC_ADDRESS && USDC_ADDRESS !== "0x") {
-      try {
-        const usdcBalance = await publicClient.readContract({
-          address: USDC_ADDRESS as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [walletAddress as `0x${string}`],
-        }) as bigint;
-        usdcAmount = Number(formatUnits(usdcBalance, 6));
-      } catch (error) {
-        console.warn('Failed to fetch USDC balance:', error);
-      }
-    }
-
-    // Fetch ECOP balance
-    let ecopAmount = 0;
-    if (ECOP_ADDRESS && ECOP_ADDRESS !== "0x") {
-      try {
-        const ecopBalance = await publicClient.readContract({
-          address: ECOP_ADDRESS as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [walletAddress as `0x${string}`],
-        }) as bigint;
-        ecopAmount = Number(formatUnits(ecopBalance, 18));
-      } catch (error) {
-        console.warn('Failed to fetch ECOP balance:', error);
-      }
-    }
+    const balances = await fetchAllBalances(walletAddress, CHAIN_ID);
+    const valuation = await valuePortfolio({ [CHAIN_ID]: balances });
+    const amountOf = (symbol: string) => {
+      const balance = balances.find(b => b.symbol === symbol && !b.isCustom);
+      return balance?.amount ? amountToNumber(balance.amount) : 0;
+    };
 
     return {
-      eth: ethAmount,
-      usdc: usdcAmount,
-      ecop: ecopAmount,
-      totalUsd: 0 // Will be calculated in the main function
+      eth: amountOf('ETH'),
+      usdc: amountOf('USDC'),
+      ecop: amountOf('COPe'),
+      totalUsd: valuation.totalUsd,
     };
   } catch (error) {
     console.error('❌ Failed to fetch user balances:', error);
@@ -255,25 +175,20 @@ export async function fetchAllPoolsData(walletAddress?: string): Promise<{
   console.log('🚀 Starting dual pool data fetch...');
   
   try {
-    // Get market prices from CoinGecko
+    // Get market prices from the oracle and LP
     const marketData = await fetchMarketData();
     
-    // Generate analytics for both pools
-    const usdcEthAnalytics = generatePoolAnalytics('USDC/ETH', marketData.ethPrice, marketData.ecopPrice);
-    const usdcEcopAnalytics = generatePoolAnalytics('USDC/ECOP', marketData.ethPrice, marketData.ecopPrice);
+    // Compute analytics for both pools from chain state
+    const [usdcEthAnalytics, usdcEcopAnalytics] = await Promise.all([
+      getPairMetrics(USDC_ADDRESS, getWrappedNativeAddress(CHAIN_ID) ?? ''),
+      getPairMetrics(USDC_ADDRESS, ECOP_ADDRESS),
+    ]);
     
     // Fetch user balances if wallet address provided
     let userBalance: UserBalance | undefined;
     if (walletAddress) {
       try {
         userBalance = await fetchUserBalances(walletAddress);
-        
-        // Calculate total USD value
-        const ethValueUsd = userBalance.eth * marketData.ethPrice;
-        const usdcValueUsd = userBalance.usdc; // USDC is already ~$1
-        const ecopValueUsd = userBalance.ecop * marketData.ecopPrice;
-        
-        userBalance.totalUsd = ethValueUsd + usdcValueUsd + ecopValueUsd;
         console.log('👛 User balance calculated:', userBalance);
       } catch (error) {
         console.warn('⚠️ Failed to fetch user balances:', error);
@@ -285,13 +200,7 @@ export async function fetchAllPoolsData(walletAddress?: string): Promise<{
       {
         poolType: 'USDC/ETH',
         ethUsdcPrice: marketData.ethPrice,
-        totalLiquidity: usdcEthAnalytics.tvlUSD,
-        volume24h: usdcEthAnalytics.volume24h,
-        fees24h: usdcEthAnalytics.fees24h,
-        apr: usdcEthAnalytics.apr,
-        tvlUSD: usdcEthAnalytics.tvlUSD,
-        volumeUSD: usdcEthAnalytics.volumeUSD,
-        feesUSD: usdcEthAnalytics.feesUSD,
+        ...usdcEthAnalytics,
         token0: {
           symbol: 'USDC',
           name: 'USD Coin',
@@ -307,13 +216,7 @@ export async function fetchAllPoolsData(walletAddress?: string): Promise<{
       {
         poolType: 'USDC/ECOP',
         usdcEcopPrice: marketData.usdcEcopRate,
-        totalLiquidity: usdcEcopAnalytics.tvlUSD,
-        volume24h: usdcEcopAnalytics.volume24h,
-        fees24h: usdcEcopAnalytics.fees24h,
-        apr: usdcEcopAnalytics.apr,
-        tvlUSD: usdcEcopAnalytics.tvlUSD,
-        volumeUSD: usdcEcopAnalytics.volumeUSD,
-        feesUSD: usdcEcopAnalytics.feesUSD,
+        ...usdcEcopAnalytics,
         token0: {
           symbol: 'USDC',
           name: 'USD Coin',
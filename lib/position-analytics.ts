@@ -0,0 +1,337 @@
+/**
+ * Uniswap V3 position P&L
+ * Compares a position with simply holding what was deposited: impermanent loss, fees earned,
+ * net P&L and realized APR. Deposit history comes from the subgraph when it has the position
+ * and from the PositionManager's IncreaseLiquidity, DecreaseLiquidity and Collect logs otherwise.
+ * Figures that cannot be computed are reported as unknown, never estimated.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  encodeEventTopics,
+  formatLog,
+  numberToHex,
+  pad,
+  parseEventLogs,
+} from 'viem';
+import { getPublicClient } from './rpc';
+import { AmountToken, TokenAmount, amountToNumber, toAmount, tryParseAmount } from './amounts';
+import { PriceSource, defaultPriceSource } from './valuation';
+import { PoolMetric, getMetricValue, knownMetric, unknownMetric } from './pool-analytics';
+import { UserPosition, isSubgraphHistoryOf } from './uniswap-subgraph';
+import { V3PositionValue, toPricedToken } from './uniswap-v3-positions';
+import { POOL_ABI, sqrtPriceX96ToPrice } from './uniswap-v3-utils';
+import { POSITION_MANAGER_ABI, getPositionManagerAddress } from './uniswap-v3-liquidity';
+
+// Most RPC providers cap eth_getLogs ranges; stay under the common limits
+const LOG_CHUNK_BLOCKS = BigInt(2000);
+
+// Older positions are left to the subgraph rather than scanned (~70 days of Sepolia blocks)
+const MAX_LOG_HISTORY_BLOCKS = BigInt(500000);
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const POSITION_EVENT_TOPICS = (['IncreaseLiquidity', 'DecreaseLiquidity', 'Collect'] as const).map(
+  eventName => encodeEventTopics({ abi: POSITION_MANAGER_ABI, eventName })[0]
+);
+
+export interface PositionDeposit {
+  blockNumber: bigint;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+export interface PositionHistory {
+  source: 'onchain' | 'subgraph';
+  openedBlock: bigint;
+  openedAt: Date;
+  deposits: PositionDeposit[];
+  withdrawn0: bigint; // Principal taken out by decreaseLiquidity
+  withdrawn1: bigint;
+  collected0: bigint; // Everything collect() paid out, withdrawn principal included
+  collected1: bigint;
+}
+
+export interface PositionAnalytics {
+  tokenId: bigint;
+  history?: PositionHistory;
+  feesEarned0?: TokenAmount; // Collected and uncollected fees
+  feesEarned1?: TokenAmount;
+  depositValueUSD: PoolMetric; // Each deposit at the pool price of its block; unknown for subgraph histories
+  hodlValueUSD: PoolMetric; // The deposited tokens, held instead, at today's prices
+  lpValueUSD: PoolMetric; // Principal in the position plus principal already withdrawn
+  impermanentLossUSD: PoolMetric; // lpValue - hodlValue; negative is a loss
+  impermanentLossPercent: PoolMetric;
+  feesEarnedUSD: PoolMetric;
+  netPnlUSD: PoolMetric; // lpValue + fees - depositValue
+  realizedApr: PoolMetric; // Net P&L over the deposit value, annualized from the opening block
+  computedAt: Date;
+}
+
+/**
+ * Deposit history from a subgraph Position. The subgraph only keeps totals, so the deposits
+ * are one entry at the opening block: enough for today's hodl value, not for deposit-time
+ * prices. Its collectedFeesToken* count every Collect, principal included, the same as the logs.
+ */
+function historyFromSubgraph(position: UserPosition, token0: AmountToken, token1: AmountToken): PositionHistory | undefined {
+  if (!position.transaction) return undefined;
+
+  const [deposited0, deposited1, withdrawn0, withdrawn1, collected0, collected1] = [
+    tryParseAmount(position.depositedToken0, token0),
+    tryParseAmount(position.depositedToken1, token1),
+    tryParseAmount(position.withdrawnToken0, token0),
+    tryParseAmount(position.withdrawnToken1, token1),
+    tryParseAmount(position.collectedFeesToken0, token0),
+    tryParseAmount(position.collectedFeesToken1, token1),
+  ];
+  if (!deposited0 || !deposited1 || !withdrawn0 || !withdrawn1 || !collected0 || !collected1) {
+    return undefined;
+  }
+
+  const openedBlock = BigInt(position.transaction.blockNumber);
+  return {
+    source: 'subgraph',
+    openedBlock,
+    openedAt: new Date(Number(position.transaction.timestamp) * 1000),
+    deposits: [{ blockNumber: openedBlock, amount0: deposited0.raw, amount1: deposited1.raw }],
+    withdrawn0: withdrawn0.raw,
+    withdrawn1: withdrawn1.raw,
+    collected0: collected0.raw,
+    collected1: collected1.raw,
+  };
+}
+
+/**
+ * Whether the position NFT existed at a block; reads before the mint revert
+ */
+async function positionExistsAt(chainId: number, tokenId: bigint, blockNumber: bigint): Promise<boolean> {
+  try {
+    await getPublicClient(chainId).readContract({
+      address: getPositionManagerAddress(chainId),
+      abi: POSITION_MANAGER_ABI,
+      functionName: 'positions',
+      args: [tokenId],
+      blockNumber,
+    });
+    return true;
+  } catch (error) {
+    const notMinted = error instanceof BaseError && error.walk(cause =>
+      cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError
+    );
+    if (notMinted) return false;
+    throw error;
+  }
+}
+
+/**
+ * Block the position was minted in, by binary search over historical reads
+ */
+async function findOpeningBlock(chainId: number, tokenId: bigint, latestBlock: bigint): Promise<bigint> {
+  let low = latestBlock > MAX_LOG_HISTORY_BLOCKS ? latestBlock - MAX_LOG_HISTORY_BLOCKS : BigInt(0);
+  if (await positionExistsAt(chainId, tokenId, low)) {
+    throw new Error(`Position is older than ${MAX_LOG_HISTORY_BLOCKS} blocks, its history needs the subgraph`);
+  }
+
+  let high = latestBlock;
+  while (low + BigInt(1) < high) {
+    const middle = (low + high) / BigInt(2);
+    if (await positionExistsAt(chainId, tokenId, middle)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+}
+
+/**
+ * Deposit history from PositionManager logs, scanned in provider-friendly chunks from the
+ * mint block. Checked against the position's current liquidity so a gap in the logs shows.
+ */
+async function historyFromLogs(value: V3PositionValue): Promise<PositionHistory> {
+  const { chainId, tokenId } = value.position;
+  const client = getPublicClient(chainId);
+  const latestBlock = await client.getBlockNumber();
+  const openedBlock = await findOpeningBlock(chainId, tokenId, latestBlock);
+
+  const history: PositionHistory = {
+    source: 'onchain',
+    openedBlock,
+    openedAt: new Date(Number((await client.getBlock({ blockNumber: openedBlock })).timestamp) * 1000),
+    deposits: [],
+    withdrawn0: BigInt(0),
+    withdrawn1: BigInt(0),
+    collected0: BigInt(0),
+    collected1: BigInt(0),
+  };
+  let netLiquidity = BigInt(0);
+
+  for (let start = openedBlock; start <= latestBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - BigInt(1) < latestBlock ? start + LOG_CHUNK_BLOCKS - BigInt(1) : latestBlock;
+    // Raw request: topic filters on the indexed tokenId across all three events in one call
+    const rawLogs = await client.request({
+      method: 'eth_getLogs',
+      params: [{
+        address: getPositionManagerAddress(chainId),
+        fromBlock: numberToHex(start),
+        toBlock: numberToHex(end),
+        topics: [POSITION_EVENT_TOPICS, pad(numberToHex(tokenId))],
+      }],
+    });
+
+    for (const log of parseEventLogs({ abi: POSITION_MANAGER_ABI, logs: rawLogs.map(raw => formatLog(raw)) })) {
+      if (log.eventName === 'IncreaseLiquidity') {
+        netLiquidity += log.args.liquidity;
+        history.deposits.push({ blockNumber: log.blockNumber, amount0: log.args.amount0, amount1: log.args.amount1 });
+      } else if (log.eventName === 'DecreaseLiquidity') {
+        netLiquidity -= log.args.liquidity;
+        history.withdrawn0 += log.args.amount0;
+        history.withdrawn1 += log.args.amount1;
+      } else if (log.eventName === 'Collect') {
+        history.collected0 += log.args.amount0;
+        history.collected1 += log.args.amount1;
+      }
+    }
+  }
+
+  if (netLiquidity !== value.position.liquidity) {
+    throw new Error(`Logs account for ${netLiquidity} liquidity but the position holds ${value.position.liquidity}`);
+  }
+
+  console.log(`📜 Position ${tokenId} history: ${history.deposits.length} deposits since block ${openedBlock}`);
+  return history;
+}
+
+/**
+ * Deposits valued in token1 at the pool price of their block (an archive read per block)
+ */
+async function getDepositValueInToken1(value: V3PositionValue, deposits: PositionDeposit[]): Promise<number> {
+  const client = getPublicClient(value.position.chainId);
+  const blocks = Array.from(new Set(deposits.map(deposit => deposit.blockNumber)));
+  const prices = new Map(await Promise.all(blocks.map(async blockNumber => {
+    const [sqrtPriceX96] = await client.readContract({
+      address: value.position.poolAddress,
+      abi: POOL_ABI,
+      functionName: 'slot0',
+      blockNumber,
+    });
+    return [blockNumber, sqrtPriceX96ToPrice(sqrtPriceX96, value.token0.decimals, value.token1.decimals)] as const;
+  })));
+
+  return deposits.reduce((total, deposit) =>
+    total +
+    amountToNumber(toAmount(value.token0, deposit.amount0)) * (prices.get(deposit.blockNumber) ?? 0) +
+    amountToNumber(toAmount(value.token1, deposit.amount1)),
+  0);
+}
+
+/**
+ * P&L of one position against holding its deposits. Pass the subgraph's Position when the
+ * portfolio has it; it is used only if its token id and pool match, otherwise the history is
+ * read from logs. Each metric is independently known or unknown with a reason.
+ */
+export async function computePositionAnalytics(
+  value: V3PositionValue,
+  subgraphPosition?: UserPosition,
+  priceSource: PriceSource = defaultPriceSource
+): Promise<PositionAnalytics> {
+  const unknown = (reason: string): PositionAnalytics => ({
+    tokenId: value.tokenId,
+    depositValueUSD: unknownMetric(reason),
+    hodlValueUSD: unknownMetric(reason),
+    lpValueUSD: unknownMetric(reason),
+    impermanentLossUSD: unknownMetric(reason),
+    impermanentLossPercent: unknownMetric(reason),
+    feesEarnedUSD: unknownMetric(reason),
+    netPnlUSD: unknownMetric(reason),
+    realizedApr: unknownMetric(reason),
+    computedAt: new Date(),
+  });
+
+  // A subgraph entry from another pool or deployment would feed someone else's deposits into the P&L
+  if (subgraphPosition && !isSubgraphHistoryOf(subgraphPosition, value)) {
+    console.warn(`⚠️ Subgraph position ${subgraphPosition.id} is not in pool ${value.position.poolAddress}; reading logs instead`);
+  }
+  let history = subgraphPosition && isSubgraphHistoryOf(subgraphPosition, value)
+    ? historyFromSubgraph(subgraphPosition, value.token0, value.token1)
+    : undefined;
+  if (!history) {
+    try {
+      history = await historyFromLogs(value);
+    } catch (error) {
+      console.error(`❌ Error reading history of position ${value.tokenId}:`, error);
+      return unknown(`Deposit history unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const { chainId } = value.position;
+  const deposited0 = history.deposits.reduce((total, deposit) => total + deposit.amount0, BigInt(0));
+  const deposited1 = history.deposits.reduce((total, deposit) => total + deposit.amount1, BigInt(0));
+  // Withdrawn principal is either collected or still owed, and owed amounts are part of the uncollected fees
+  const feesEarned0 = toAmount(value.token0, history.collected0 + value.uncollectedFees0.raw - history.withdrawn0);
+  const feesEarned1 = toAmount(value.token1, history.collected1 + value.uncollectedFees1.raw - history.withdrawn1);
+
+  const result: PositionAnalytics = { ...unknown('Not computed'), history, feesEarned0, feesEarned1 };
+  const source = history.source;
+
+  const [pricedToken0, pricedToken1] = [toPricedToken(value.token0, chainId), toPricedToken(value.token1, chainId)];
+  const prices = await priceSource.getUsdPrices([pricedToken0, pricedToken1]);
+  const price0 = prices[pricedToken0.key]?.usdPrice;
+  const price1 = prices[pricedToken1.key]?.usdPrice;
+  if (price0 === undefined || price1 === undefined) {
+    const unpriced = [price0 === undefined && value.token0.symbol, price1 === undefined && value.token1.symbol].filter(Boolean);
+    return { ...unknown(`No USD price for ${unpriced.join(', ')}`), history, feesEarned0, feesEarned1 };
+  }
+
+  const usd = (token: AmountToken, raw: bigint, price: number) => amountToNumber(toAmount(token, raw)) * price;
+  const hodlValueUSD = usd(value.token0, deposited0, price0) + usd(value.token1, deposited1, price1);
+  const lpValueUSD =
+    usd(value.token0, value.amount0.raw + history.withdrawn0, price0) +
+    usd(value.token1, value.amount1.raw + history.withdrawn1, price1);
+  const feesEarnedUSD = usd(value.token0, feesEarned0.raw, price0) + usd(value.token1, feesEarned1.raw, price1);
+
+  result.hodlValueUSD = knownMetric(hodlValueUSD, source);
+  result.lpValueUSD = knownMetric(lpValueUSD, 'onchain');
+  result.feesEarnedUSD = knownMetric(feesEarnedUSD, source);
+  result.impermanentLossUSD = knownMetric(lpValueUSD - hodlValueUSD, source);
+  result.impermanentLossPercent = hodlValueUSD > 0
+    ? knownMetric((lpValueUSD - hodlValueUSD) / hodlValueUSD * 100, source)
+    : unknownMetric('Nothing deposited');
+
+  if (source === 'subgraph') {
+    // Pricing the totals at the opening block would misstate every later deposit
+    result.depositValueUSD = unknownMetric('Deposit blocks unavailable: the subgraph only keeps deposit totals');
+  } else {
+    try {
+      // Deposit-time prices are in token1; today's token1 price turns them into USD
+      result.depositValueUSD = knownMetric(await getDepositValueInToken1(value, history.deposits) * price1, source);
+    } catch (error) {
+      console.error(`❌ Error reading deposit prices of position ${value.tokenId}:`, error);
+      result.depositValueUSD = unknownMetric(`Deposit-time pool price unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const depositValueUSD = getMetricValue(result.depositValueUSD);
+  if (depositValueUSD !== undefined) {
+    const netPnlUSD = lpValueUSD + feesEarnedUSD - depositValueUSD;
+    const ageSeconds = (Date.now() - history.openedAt.getTime()) / 1000;
+    result.netPnlUSD = knownMetric(netPnlUSD, source);
+    result.realizedApr = depositValueUSD > 0 && ageSeconds > 0
+      ? knownMetric(netPnlUSD / depositValueUSD * (SECONDS_PER_YEAR / ageSeconds) * 100, source)
+      : unknownMetric('Nothing deposited');
+  } else {
+    result.netPnlUSD = unknownMetric('Deposit value unknown');
+    result.realizedApr = unknownMetric('Deposit value unknown');
+  }
+
+  console.log(`✅ Position ${value.tokenId} analytics computed:`, {
+    impermanentLossUSD: result.impermanentLossUSD,
+    feesEarnedUSD: result.feesEarnedUSD,
+    netPnlUSD: result.netPnlUSD,
+    realizedApr: result.realizedApr,
+  });
+
+  return result;
+}
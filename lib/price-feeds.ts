@@ -76,7 +76,8 @@ export async function fetchMultipleTokenPrices(coinIds: string[]): Promise<Recor
   try {
     const idsParam = coinIds.join(',');
     const url = `https://api.coingecko.com/api/v3/simple/price?ids=${idsParam}` +
-      `&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`;
+      `&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true` +
+      `&include_last_updated_at=true`;
     const response = await fetch(url);
     
     if (!response.ok) {
@@ -94,7 +95,7 @@ export async function fetchMultipleTokenPrices(coinIds: string[]): Promise<Recor
           change24h: tokenData.usd_24h_change || 0,
           marketCap: tokenData.usd_market_cap,
           volume24h: tokenData.usd_24h_vol,
-          lastUpdated: new Date(),
+          lastUpdated: tokenData.last_updated_at ? new Date(tokenData.last_updated_at * 1000) : new Date(),
         };
       }
     }
@@ -0,0 +1,316 @@
+/**
+ * Price oracle layer
+ * Chainlink, Uniswap V3 TWAP and CoinGecko adapters behind one interface,
+ * plus a composite that applies priority, staleness and deviation checks
+ */
+
+import { parseAbi } from 'viem';
+import { getPublicClient } from './rpc';
+import { getTokenBySymbol } from './chains';
+import { fetchMultipleTokenPrices } from './price-feeds';
+import { COPE_USDC_POOL_ADDRESS, tickToPrice } from './uniswap-v3-utils';
+import { DEFAULT_TWAP_WINDOWS, getPoolTwap } from './uniswap-twap';
+import { MIN_COPE_POOL_DEPTH_USDC } from './uniswap-integration';
+
+export interface PricedToken {
+  key: string; // chainId:address, or chainId:native
+  chainId: number;
+  symbol: string;
+  address?: string;
+  coingeckoId?: string; // Registry asset id; absent for user-imported tokens
+}
+
+export interface PriceChecks {
+  consulted: string[];
+  stale: string[];
+  failed: string[];
+  deviations: { source: string; usdPrice: number; deviationPercent: number }[];
+  withinTolerance: boolean;
+}
+
+export interface PriceProvenance {
+  source: string;
+  detail: string; // Feed address, pool and window, or API endpoint
+  fetchedAt: Date;
+  warnings?: string[]; // e.g. TWAP fell back to spot
+  checks?: PriceChecks; // Set by the composite oracle
+}
+
+export interface OraclePrice {
+  usdPrice: number;
+  timestamp: Date; // When the source last updated the price
+  provenance: PriceProvenance;
+}
+
+export interface PriceOracle {
+  name: string;
+  /** Returns undefined when the oracle does not cover the token */
+  getPrice(token: PricedToken): Promise<OraclePrice | undefined>;
+}
+
+// Chainlink AggregatorV3Interface (read-only subset)
+const AGGREGATOR_ABI = parseAbi([
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() view returns (uint8)',
+]);
+
+export interface ChainlinkFeed {
+  chainId: number;
+  aggregator: `0x${string}`;
+  description: string;
+}
+
+// Chainlink USD feeds on Ethereum Sepolia, keyed by registry asset id
+export const SEPOLIA_CHAINLINK_FEEDS: Record<string, ChainlinkFeed> = {
+  ethereum: {
+    chainId: 11155111,
+    aggregator: '0x694AA1769357215DE4FAC081bf1f309aDC325306',
+    description: 'ETH / USD',
+  },
+  'usd-coin': {
+    chainId: 11155111,
+    aggregator: '0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E',
+    description: 'USDC / USD',
+  },
+  'euro-coin': {
+    chainId: 11155111,
+    aggregator: '0x1a81afB8146aeFfCFc5E50e8479e826E7D55b910',
+    description: 'EUR / USD', // EURC tracks EUR
+  },
+};
+
+/**
+ * Chainlink aggregator adapter; feeds are looked up by the token's asset id
+ */
+export function createChainlinkOracle(feeds: Record<string, ChainlinkFeed> = SEPOLIA_CHAINLINK_FEEDS): PriceOracle {
+  return {
+    name: 'chainlink',
+    async getPrice(token) {
+      const feed = token.coingeckoId ? feeds[token.coingeckoId] : undefined;
+      if (!feed) return undefined;
+
+      const client = getPublicClient(feed.chainId);
+      const [roundData, decimals] = await Promise.all([
+        client.readContract({ address: feed.aggregator, abi: AGGREGATOR_ABI, functionName: 'latestRoundData' }),
+        client.readContract({ address: feed.aggregator, abi: AGGREGATOR_ABI, functionName: 'decimals' }),
+      ]);
+
+      const [, answer, , updatedAt] = roundData;
+      if (answer <= BigInt(0)) {
+        throw new Error(`Chainlink ${feed.description} returned a non-positive answer`);
+      }
+
+      return {
+        usdPrice: Number(answer) / 10 ** decimals,
+        timestamp: new Date(Number(updatedAt) * 1000),
+        provenance: {
+          source: 'chainlink',
+          detail: `${feed.description} aggregator ${feed.aggregator}`,
+          fetchedAt: new Date(),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * CoinGecko adapter; prices every token with a registry asset id
+ */
+export function createCoingeckoOracle(): PriceOracle {
+  return {
+    name: 'coingecko',
+    async getPrice(token) {
+      if (!token.coingeckoId) return undefined;
+
+      const prices = await fetchMultipleTokenPrices([token.coingeckoId]);
+      const priceData = prices[token.coingeckoId];
+      if (!priceData) return undefined;
+
+      return {
+        usdPrice: priceData.price,
+        timestamp: priceData.lastUpdated,
+        provenance: {
+          source: 'coingecko',
+          detail: `simple/price ${token.coingeckoId}`,
+          fetchedAt: new Date(),
+        },
+      };
+    },
+  };
+}
+
+export interface TwapOracleConfig {
+  chainId: number;
+  poolAddress: `0x${string}`;
+  baseToken: { address: string; decimals: number }; // Token being priced
+  quoteToken: { address: string; decimals: number; pricedToken: PricedToken }; // Converted to USD via quoteOracle
+  windows?: number[]; // TWAP windows in seconds, longest first
+  allowSpotFallback?: boolean;
+  minQuoteDepth?: number; // Quote tokens needed to move the price 2%; shallower pools are not used
+  quoteOracle: PriceOracle;
+}
+
+/**
+ * Uniswap V3 observe() TWAP adapter for a single pool.
+ * The pool gives base/quote; the quote token's USD price comes from quoteOracle.
+ * Shallow pools throw so the composite moves on to the next source.
+ */
+export function createUniswapTwapOracle(config: TwapOracleConfig): PriceOracle {
+  const baseAddress = config.baseToken.address.toLowerCase();
+
+  return {
+    name: 'uniswap-v3-twap',
+    async getPrice(token) {
+      if (token.chainId !== config.chainId || token.address?.toLowerCase() !== baseAddress) {
+        return undefined;
+      }
+
+      const [twap, quotePrice] = await Promise.all([
+        getPoolTwap(config.chainId, config.poolAddress, {
+          windows: config.windows,
+          allowSpotFallback: config.allowSpotFallback,
+        }),
+        config.quoteOracle.getPrice(config.quoteToken.pricedToken),
+      ]);
+
+      if (!quotePrice) {
+        throw new Error('Quote token price unavailable for TWAP conversion');
+      }
+
+      const isBaseToken0 = twap.token0.toLowerCase() === baseAddress;
+
+      const quoteDepthRaw = isBaseToken0 ? twap.depth.token1Raw : twap.depth.token0Raw;
+      const quoteDepth = Number(quoteDepthRaw) / 10 ** config.quoteToken.decimals;
+      if (config.minQuoteDepth !== undefined && quoteDepth < config.minQuoteDepth) {
+        throw new Error(`Pool ${config.poolAddress} too shallow to price: depth ${quoteDepth.toFixed(2)} < ${config.minQuoteDepth}`);
+      }
+
+      // Pool price is token1 per token0; express it as quote per base
+      const quotePerBase = isBaseToken0
+        ? tickToPrice(twap.tick, config.baseToken.decimals, config.quoteToken.decimals)
+        : 1 / tickToPrice(twap.tick, config.quoteToken.decimals, config.baseToken.decimals);
+
+      const method = twap.method === 'twap' ? `${twap.windowSeconds}s TWAP` : 'spot';
+      return {
+        usdPrice: quotePerBase * quotePrice.usdPrice,
+        timestamp: new Date(),
+        provenance: {
+          source: twap.method === 'twap' ? 'uniswap-v3-twap' : 'uniswap-v3-spot',
+          detail: `pool ${config.poolAddress} ${method}, quote via ${quotePrice.provenance.source}`,
+          fetchedAt: new Date(),
+          warnings: twap.warnings.length > 0 ? twap.warnings : undefined,
+        },
+      };
+    },
+  };
+}
+
+export interface CompositeOracleOptions {
+  maxAgeSeconds?: number; // Older prices are skipped
+  maxDeviationPercent?: number; // Allowed spread between the chosen price and other fresh sources
+  rejectOnDeviation?: boolean; // Return no price instead of a flagged one
+}
+
+/**
+ * Query oracles in priority order and return the first fresh price,
+ * cross-checked against every other fresh source.
+ */
+export function createCompositeOracle(oracles: PriceOracle[], options: CompositeOracleOptions = {}): PriceOracle {
+  const { maxAgeSeconds = 3600, maxDeviationPercent = 2, rejectOnDeviation = false } = options;
+
+  return {
+    name: oracles.map(oracle => oracle.name).join('>'),
+    async getPrice(token) {
+      const failed: string[] = [];
+      const results = await Promise.all(oracles.map(async oracle => {
+        try {
+          return { name: oracle.name, price: await oracle.getPrice(token) };
+        } catch (error) {
+          console.warn(`⚠️ ${oracle.name} price for ${token.symbol} failed:`, error);
+          failed.push(oracle.name);
+          return { name: oracle.name, price: undefined };
+        }
+      }));
+
+      const now = Date.now();
+      const answered = results.filter(result => result.price !== undefined) as { name: string; price: OraclePrice }[];
+      const fresh = answered.filter(result => (now - result.price.timestamp.getTime()) / 1000 <= maxAgeSeconds);
+      const stale = answered.filter(result => !fresh.includes(result)).map(result => result.name);
+
+      if (fresh.length === 0) {
+        if (answered.length > 0) {
+          console.warn(`⚠️ Only stale prices for ${token.symbol}: ${stale.join(', ')}`);
+        }
+        return undefined;
+      }
+
+      const [primary, ...others] = fresh;
+      const deviations = others.map(other => ({
+        source: other.name,
+        usdPrice: other.price.usdPrice,
+        deviationPercent: Math.abs(other.price.usdPrice - primary.price.usdPrice) / primary.price.usdPrice * 100,
+      }));
+      const withinTolerance = deviations.every(deviation => deviation.deviationPercent <= maxDeviationPercent);
+
+      if (!withinTolerance) {
+        console.warn(`⚠️ ${token.symbol} price sources disagree beyond ${maxDeviationPercent}%:`, deviations);
+        if (rejectOnDeviation) return undefined;
+      }
+
+      return {
+        ...primary.price,
+        provenance: {
+          ...primary.price.provenance,
+          checks: {
+            consulted: oracles.map(oracle => oracle.name),
+            stale,
+            failed,
+            deviations,
+            withinTolerance,
+          },
+        },
+      };
+    },
+  };
+}
+
+const coingeckoOracle = createCoingeckoOracle();
+const chainlinkOracle = createChainlinkOracle();
+
+// USD oracle for the quote side of TWAPs (USDC)
+const usdcQuoteOracle = createCompositeOracle([chainlinkOracle, coingeckoOracle]);
+
+/**
+ * Default oracle: Chainlink first, then the COPe pool TWAP, then CoinGecko
+ */
+export function createDefaultOracle(): PriceOracle {
+  const usdc = getTokenBySymbol(11155111, 'USDC');
+  const cope = getTokenBySymbol(11155111, 'COPe');
+  const oracles: PriceOracle[] = [chainlinkOracle];
+
+  if (usdc && cope) {
+    oracles.push(createUniswapTwapOracle({
+      chainId: 11155111,
+      poolAddress: COPE_USDC_POOL_ADDRESS,
+      baseToken: cope,
+      quoteToken: {
+        address: usdc.address,
+        decimals: usdc.decimals,
+        pricedToken: {
+          key: `11155111:${usdc.address.toLowerCase()}`,
+          chainId: 11155111,
+          symbol: usdc.symbol,
+          address: usdc.address,
+          coingeckoId: usdc.coingeckoId,
+        },
+      },
+      windows: DEFAULT_TWAP_WINDOWS,
+      allowSpotFallback: true,
+      minQuoteDepth: MIN_COPE_POOL_DEPTH_USDC,
+      quoteOracle: usdcQuoteOracle,
+    }));
+  }
+
+  oracles.push(coingeckoOracle);
+  return createCompositeOracle(oracles);
+}
@@ -0,0 +1,71 @@
+import { createPublicClient, fallback, http, type Chain } from 'viem';
+import { sepolia, optimismSepolia, baseSepolia, unichainSepolia } from 'viem/chains';
+import { getChainById } from './chains';
+
+// viem chain definitions for every supported chain
+const VIEM_CHAINS: Record<number, Chain> = {
+  11155111: sepolia,
+  1301: unichainSepolia,
+  11155420: optimismSepolia,
+  84532: baseSepolia,
+};
+
+/**
+ * Get the viem chain definition for a supported chain
+ */
+export function getViemChain(chainId: number): Chain {
+  const chain = VIEM_CHAINS[chainId];
+  if (!chain) {
+    throw new Error(`Unsupported chain ID: ${chainId}`);
+  }
+  return chain;
+}
+
+/**
+ * Alchemy RPC URL for a chain, or undefined when no API key is configured
+ */
+export function getAlchemyRpcUrl(chainId: number): string | undefined {
+  const apiKey = process.env.NEXT_PUBLIC_ALCHEMY_API_KEY;
+  const chain = getChainById(chainId);
+  if (!apiKey || !chain) return undefined;
+  return `https://${chain.alchemyNetwork}.g.alchemy.com/v2/${apiKey}`;
+}
+
+/**
+ * Ordered RPC URLs for a chain: Alchemy first (when configured), then public backups
+ */
+export function getRpcUrls(chainId: number): string[] {
+  const chain = getChainById(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain ID: ${chainId}`);
+  }
+
+  const alchemyRpcUrl = getAlchemyRpcUrl(chainId);
+  return alchemyRpcUrl ? [alchemyRpcUrl, ...chain.publicRpcUrls] : [...chain.publicRpcUrls];
+}
+
+const createRpcClient = (chainId: number) => {
+  return createPublicClient({
+    chain: getViemChain(chainId),
+    transport: fallback(getRpcUrls(chainId).map(url => http(url))),
+  });
+};
+
+export type RpcClient = ReturnType<typeof createRpcClient>;
+
+// One client per chain for the lifetime of the app
+const clients = new Map<number, RpcClient>();
+
+/**
+ * Get the shared public client for a chain.
+ * Requests fail over to the next RPC URL when a transport errors.
+ */
+export function getPublicClient(chainId: number): RpcClient {
+  const existing = clients.get(chainId);
+  if (existing) return existing;
+
+  const client = createRpcClient(chainId);
+  clients.set(chainId, client);
+  console.log(`🔌 RPC client ready for chain ${chainId} (${getRpcUrls(chainId).length} endpoints)`);
+  return client;
+}
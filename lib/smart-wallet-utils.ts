@@ -4,7 +4,7 @@
  */
 
 import { getGasManager, type UserOp } from './alchemy-gas-manager';
-import { parseEther, parseUnits } from 'viem';
+import { parseAmount } from './amounts';
 
 export interface TransactionParams {
   to: string;
@@ -15,12 +15,36 @@ export interface TransactionParams {
 
 export interface TokenTransferParams {
   recipient: string;
-  amount: string;
+  amount: string; // Decimal string, parsed exactly with the token decimals
+  rawAmount?: bigint; // Exact integer units; takes precedence over amount
   tokenAddress?: string; // undefined for native ETH
   decimals?: number;
   chainId: number;
 }
 
+/**
+ * Resolve the exact integer amount of a transfer without going through floats
+ */
+export function resolveTransferAmount(params: TokenTransferParams): bigint {
+  if (params.rawAmount !== undefined) return params.rawAmount;
+  return parseAmount(params.amount, {
+    symbol: params.tokenAddress ? 'token' : 'ETH',
+    decimals: params.tokenAddress ? params.decimals ?? 18 : 18,
+    address: params.tokenAddress,
+    chainId: params.chainId,
+  }).raw;
+}
+
+/**
+ * Build ERC-20 transfer(address,uint256) call data
+ */
+export function buildTransferCallData(recipient: string, amount: bigint): `0x${string}` {
+  const transferSelector = '0xa9059cbb';
+  const recipientPadded = recipient.slice(2).padStart(64, '0');
+  const amountPadded = amount.toString(16).padStart(64, '0');
+  return `${transferSelector}${recipientPadded}${amountPadded}` as `0x${string}`;
+}
+
 /**
  * Prepare a transaction with Alchemy gas sponsorship
  * Following the 3-step process from Alchemy docs:
@@ -95,26 +119,20 @@ export async function prepareSponsoredTokenTransfer(
 ): Promise<UserOp> {
   let txParams: TransactionParams;
 
+  const amount = resolveTransferAmount(params);
+
   if (!params.tokenAddress) {
     // Native ETH transfer
     txParams = {
       to: params.recipient,
-      value: parseEther(params.amount),
+      value: amount,
       chainId: params.chainId,
     };
   } else {
     // ERC-20 token transfer
-    const decimals = params.decimals || 18;
-    const tokenAmount = parseUnits(params.amount, decimals);
-    
-    // ERC-20 transfer(address,uint256) function signature
-    const transferSelector = '0xa9059cbb';
-    const recipientPadded = params.recipient.slice(2).padStart(64, '0');
-    const amountPadded = tokenAmount.toString(16).padStart(64, '0');
-    
     txParams = {
       to: params.tokenAddress,
-      data: `${transferSelector}${recipientPadded}${amountPadded}`,
+      data: buildTransferCallData(params.recipient, amount),
       chainId: params.chainId,
     };
   }
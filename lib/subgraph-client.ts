@@ -0,0 +1,214 @@
+/**
+ * Subgraph client
+ * Typed GraphQL requests to the Uniswap subgraphs: per-chain endpoints, retries with exponential
+ * backoff on transient failures, id_gt cursor pagination and schema validation of every response.
+ */
+
+import { getChainById } from './chains';
+
+export type SubgraphVersion = 'v3' | 'v4';
+
+export interface SubgraphRequestOptions {
+  retries?: number; // Attempts after the first, for network errors, timeouts, 429/5xx and indexer errors
+  baseDelayMs?: number; // First backoff delay; doubles on every retry
+  timeoutMs?: number; // Per attempt
+}
+
+export interface SubgraphPaginationOptions extends SubgraphRequestOptions {
+  pageSize?: number;
+  maxPages?: number;
+}
+
+// The Graph caps `first` at 1000
+export const MAX_PAGE_SIZE = 1000;
+
+const DEFAULT_REQUEST_OPTIONS: Required<SubgraphRequestOptions> = {
+  retries: 3,
+  baseDelayMs: 500,
+  timeoutMs: 10 * 1000,
+};
+
+// Gateway and indexer errors that clear up on their own; any other GraphQL error is a bad query
+const TRANSIENT_GRAPHQL_ERROR = /indexer|timed? ?out|unavailable|too many requests|rate limit/i;
+
+// BigInt and BigDecimal fields arrive as strings
+const NUMERIC_STRING = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+/**
+ * Full endpoint URLs by chain and version, e.g. {"11155111":{"v3":"http://localhost:4350/v3"}}.
+ * Points the app at a self-hosted graph-node or the local fixture server.
+ */
+function getEndpointOverrides(): Record<string, Partial<Record<SubgraphVersion, string>>> {
+  const raw = process.env.NEXT_PUBLIC_SUBGRAPH_ENDPOINTS;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('❌ NEXT_PUBLIC_SUBGRAPH_ENDPOINTS is not valid JSON:', error);
+    return {};
+  }
+}
+
+const endpointOverrides = getEndpointOverrides();
+
+/**
+ * Endpoint for a chain's V3 or V4 subgraph: an override from NEXT_PUBLIC_SUBGRAPH_ENDPOINTS, else
+ * The Graph gateway when NEXT_PUBLIC_GRAPH_API_KEY is set. Undefined when neither is configured,
+ * so callers skip the request instead of sending a key of "undefined".
+ */
+export function getSubgraphUrl(chainId: number, version: SubgraphVersion): string | undefined {
+  const override = endpointOverrides[chainId]?.[version];
+  if (override) return override;
+
+  const apiKey = process.env.NEXT_PUBLIC_GRAPH_API_KEY;
+  const subgraphId = getChainById(chainId)?.subgraphs?.[version];
+  if (!apiKey || !subgraphId) return undefined;
+  return `https://gateway.thegraph.com/api/${apiKey}/subgraphs/id/${subgraphId}`;
+}
+
+/**
+ * Validator for one part of a response: returns the typed value or throws naming the path
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const invalid = (path: string, expected: string, value: unknown): never => {
+  const received = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new Error(`Invalid subgraph response at ${path}: expected ${expected}, got ${received}`);
+};
+
+/**
+ * Schema builders. Missing fields fail validation instead of defaulting, so a schema change in
+ * the subgraph surfaces as an error rather than as zeros.
+ */
+export const schema = {
+  string: (): Schema<string> => (value, path) => (typeof value === 'string' ? value : invalid(path, 'string', value)),
+
+  numeric: (): Schema<string> => (value, path) =>
+    typeof value === 'string' && NUMERIC_STRING.test(value) ? value : invalid(path, 'numeric string', value),
+
+  // Int fields are JSON numbers, BigInt fields (dates, ticks) numeric strings
+  int: (): Schema<number> => (value, path) => {
+    const parsed = typeof value === 'string' && NUMERIC_STRING.test(value) ? Number(value) : value;
+    return typeof parsed === 'number' && Number.isSafeInteger(parsed) ? parsed : invalid(path, 'integer', value);
+  },
+
+  object: <S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> =>
+    (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return invalid(path, 'object', value);
+      }
+      const record = value as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.entries(shape).map(([key, field]) => [key, field(record[key], `${path}.${key}`)])
+      ) as { [K in keyof S]: Infer<S[K]> };
+    },
+
+  array: <T>(item: Schema<T>): Schema<T[]> => (value, path) =>
+    Array.isArray(value) ? value.map((entry, index) => item(entry, `${path}[${index}]`)) : invalid(path, 'array', value),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => (value, path) =>
+    (value === null || value === undefined ? null : inner(value, path)),
+
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => (value, path) =>
+    (value === undefined ? undefined : inner(value, path)),
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run one query and validate `data` against the schema. Network errors, timeouts, HTTP 429/5xx
+ * and indexer errors are retried with exponential backoff and jitter; other failures throw at once.
+ */
+export async function querySubgraph<T>(
+  url: string,
+  query: string,
+  variables: Record<string, unknown>,
+  dataSchema: Schema<T>,
+  options: SubgraphRequestOptions = {}
+): Promise<T> {
+  const { retries, baseDelayMs, timeoutMs } = { ...DEFAULT_REQUEST_OPTIONS, ...options };
+  let lastError = 'no attempt made';
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const delay = baseDelayMs * 2 ** (attempt - 1) + Math.random() * baseDelayMs;
+      console.warn(`⚠️ Subgraph request retry ${attempt}/${retries} in ${Math.round(delay)}ms: ${lastError}`);
+      await sleep(delay);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    let status: number;
+    let body: { data?: unknown; errors?: { message: string }[] } | undefined;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: controller.signal,
+      });
+      status = response.status;
+      body = response.ok ? await response.json() : undefined;
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+      continue;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (status === 429 || status >= 500) {
+      lastError = `HTTP ${status}`;
+      continue;
+    }
+    if (!body) {
+      throw new Error(`Subgraph request failed: HTTP ${status}`);
+    }
+
+    if (body.errors?.length) {
+      const message = body.errors.map(error => error.message).join('; ');
+      if (TRANSIENT_GRAPHQL_ERROR.test(message)) {
+        lastError = message;
+        continue;
+      }
+      throw new Error(`Subgraph query failed: ${message}`);
+    }
+
+    return dataSchema(body.data, 'data');
+  }
+
+  throw new Error(`Subgraph request failed after ${retries + 1} attempts: ${lastError}`);
+}
+
+/**
+ * Every entity a query matches, a page at a time. The query takes $first and $lastId, filters on
+ * `id_gt: $lastId` and orders by id ascending; `select` picks the page's entities out of the data.
+ */
+export async function queryAllPages<D, T extends { id: string }>(
+  url: string,
+  query: string,
+  variables: Record<string, unknown>,
+  dataSchema: Schema<D>,
+  select: (data: D) => T[],
+  options: SubgraphPaginationOptions = {}
+): Promise<T[]> {
+  const pageSize = Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  const maxPages = options.maxPages ?? 100;
+  const results: T[] = [];
+  let lastId = '';
+
+  for (let page = 0; page < maxPages; page++) {
+    const entities = select(await querySubgraph(url, query, { ...variables, first: pageSize, lastId }, dataSchema, options));
+    results.push(...entities);
+    if (entities.length < pageSize) return results;
+    lastId = entities[entities.length - 1].id;
+  }
+
+  throw new Error(`Subgraph query returned more than ${maxPages} pages of ${pageSize}`);
+}
@@ -0,0 +1,199 @@
+/**
+ * Swap execution
+ * Builds the exact-amount approval and SwapRouter02 call for a quoted V3 swap as one
+ * smart-account batch, and decodes what the swap actually moved from the receipt
+ */
+
+import { parseAbi, parseEventLogs } from 'viem';
+import { getPublicClient } from './rpc';
+import { AmountToken, TokenAmount, amountToNumber, applySlippage, toAmount } from './amounts';
+import { getSwapRouter02Address } from './uniswap-integration';
+import {
+  TradeType,
+  buildApproveCallData,
+  buildExactInputPathCallData,
+  buildExactOutputPathCallData,
+  buildExactOutputSwapCallData,
+  buildSwapCallData,
+} from './uniswap-v3-utils';
+
+const ERC20_EVENTS_ABI = parseAbi([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+export const DEFAULT_SLIPPAGE_PERCENT = 0.5;
+export const DEFAULT_DEADLINE_MINUTES = 20;
+
+export interface BatchCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value?: bigint;
+}
+
+export interface SwapExecutionRequest {
+  tradeType: TradeType;
+  fee?: number; // Fee tier of a direct-pool quote
+  path?: `0x${string}`; // Packed route of a multi-hop quote, used instead of fee: input token first
+  // for 'exactInput', output token first for 'exactOutput' as the router expects
+  quotedAmountIn: TokenAmount; // Exact for 'exactInput'
+  quotedAmountOut: TokenAmount; // Exact for 'exactOutput'
+  slippagePercent: number;
+  deadlineMinutes: number;
+  recipient: `0x${string}`;
+  chainId: number;
+}
+
+export interface SwapExecutionPlan {
+  calls: BatchCall[];
+  approvalIncluded: boolean;
+  amountInMaximum: TokenAmount; // What the router may pull; also the approved amount
+  amountOutMinimum: TokenAmount; // What the swap must deliver or revert
+}
+
+export interface SwapExecutionResult {
+  transactionHash: `0x${string}`;
+  status: 'success' | 'reverted';
+  amountIn?: TokenAmount; // Decoded from Transfer logs; undefined if not found
+  amountOut?: TokenAmount;
+  executionPrice?: number; // tokenOut per tokenIn
+  gasUsed: bigint;
+}
+
+const tokenAddress = (token: AmountToken): `0x${string}` => {
+  if (!token.address) {
+    throw new Error(`${token.symbol} has no contract address; wrap native ETH before swapping`);
+  }
+  return token.address as `0x${string}`;
+};
+
+/**
+ * Slippage-bounded limits for a quote: exact input fixes amountIn and bounds the output
+ * from below, exact output fixes amountOut and bounds the input from above
+ */
+export function getSwapLimits(request: SwapExecutionRequest): { amountInMaximum: TokenAmount; amountOutMinimum: TokenAmount } {
+  return request.tradeType === 'exactInput'
+    ? {
+        amountInMaximum: request.quotedAmountIn,
+        amountOutMinimum: applySlippage(request.quotedAmountOut, request.slippagePercent, 'min'),
+      }
+    : {
+        amountInMaximum: applySlippage(request.quotedAmountIn, request.slippagePercent, 'max'),
+        amountOutMinimum: request.quotedAmountOut,
+      };
+}
+
+/**
+ * SwapRouter02 call for a request: a packed-path swap for multi-hop routes, otherwise a
+ * single-pool swap in the quoted fee tier
+ */
+function buildRouterCallData(
+  request: SwapExecutionRequest,
+  amountInMaximum: TokenAmount,
+  amountOutMinimum: TokenAmount,
+  deadlineSeconds: number
+): `0x${string}` {
+  const tokenIn = tokenAddress(request.quotedAmountIn.token);
+  const tokenOut = tokenAddress(request.quotedAmountOut.token);
+
+  if (request.path) {
+    return request.tradeType === 'exactInput'
+      ? buildExactInputPathCallData(request.path, request.recipient, request.quotedAmountIn.raw, amountOutMinimum.raw, deadlineSeconds)
+      : buildExactOutputPathCallData(request.path, request.recipient, request.quotedAmountOut.raw, amountInMaximum.raw, deadlineSeconds);
+  }
+
+  if (request.fee === undefined) {
+    throw new Error('Swap request needs a fee tier or a route path');
+  }
+  return request.tradeType === 'exactInput'
+    ? buildSwapCallData(
+        tokenIn,
+        tokenOut,
+        request.recipient,
+        request.quotedAmountIn.raw,
+        amountOutMinimum.raw,
+        request.fee,
+        deadlineSeconds
+      )
+    : buildExactOutputSwapCallData(
+        tokenIn,
+        tokenOut,
+        request.recipient,
+        request.quotedAmountOut.raw,
+        amountInMaximum.raw,
+        request.fee,
+        deadlineSeconds
+      );
+}
+
+/**
+ * Calls for one batched user operation: approve exactly what the router may pull (only when
+ * the current allowance is short), then the router swap wrapped in a deadline multicall.
+ * Exact-output batches reset the allowance afterwards so no unused approval is left behind.
+ */
+export async function buildSwapExecutionPlan(
+  owner: `0x${string}`,
+  request: SwapExecutionRequest
+): Promise<SwapExecutionPlan> {
+  const router = getSwapRouter02Address(request.chainId);
+  if (!router) {
+    throw new Error(`Uniswap V3 not supported on chain ${request.chainId}`);
+  }
+
+  const tokenIn = tokenAddress(request.quotedAmountIn.token);
+  const { amountInMaximum, amountOutMinimum } = getSwapLimits(request);
+  const deadlineSeconds = Math.round(request.deadlineMinutes * 60);
+  const swapData = buildRouterCallData(request, amountInMaximum, amountOutMinimum, deadlineSeconds);
+
+  const allowance = await getPublicClient(request.chainId).readContract({
+    address: tokenIn,
+    abi: ERC20_EVENTS_ABI,
+    functionName: 'allowance',
+    args: [owner, router],
+  });
+  const approvalIncluded = allowance < amountInMaximum.raw;
+
+  const calls: BatchCall[] = [
+    ...(approvalIncluded ? [{ to: tokenIn, data: buildApproveCallData(router, amountInMaximum.raw) }] : []),
+    { to: router, data: swapData },
+    ...(approvalIncluded && request.tradeType === 'exactOutput'
+      ? [{ to: tokenIn, data: buildApproveCallData(router, BigInt(0)) }]
+      : []),
+  ];
+
+  return { calls, approvalIncluded, amountInMaximum, amountOutMinimum };
+}
+
+/**
+ * Wait for the swap transaction and read the amounts actually moved from its Transfer logs
+ */
+export async function decodeSwapResult(
+  transactionHash: `0x${string}`,
+  owner: `0x${string}`,
+  request: SwapExecutionRequest
+): Promise<SwapExecutionResult> {
+  const receipt = await getPublicClient(request.chainId).waitForTransactionReceipt({ hash: transactionHash });
+  const tokenIn = tokenAddress(request.quotedAmountIn.token).toLowerCase();
+  const tokenOut = tokenAddress(request.quotedAmountOut.token).toLowerCase();
+
+  const transfers = parseEventLogs({ abi: ERC20_EVENTS_ABI, eventName: 'Transfer', logs: receipt.logs });
+  const sumTransfers = (token: string, match: (from: string, to: string) => boolean) => transfers
+    .filter(log => log.address.toLowerCase() === token && match(log.args.from.toLowerCase(), log.args.to.toLowerCase()))
+    .reduce((total, log) => total + log.args.value, BigInt(0));
+
+  const paidRaw = sumTransfers(tokenIn, from => from === owner.toLowerCase());
+  const receivedRaw = sumTransfers(tokenOut, (_, to) => to === request.recipient.toLowerCase());
+
+  const amountIn = paidRaw > BigInt(0) ? toAmount(request.quotedAmountIn.token, paidRaw) : undefined;
+  const amountOut = receivedRaw > BigInt(0) ? toAmount(request.quotedAmountOut.token, receivedRaw) : undefined;
+  const executionPrice = amountIn && amountOut ? amountToNumber(amountOut) / amountToNumber(amountIn) : undefined;
+
+  return {
+    transactionHash,
+    status: receipt.status,
+    amountIn,
+    amountOut,
+    executionPrice,
+    gasUsed: receipt.gasUsed,
+  };
+}
@@ -1,20 +1,37 @@
-import { createPublicClient, http, getContract, parseUnits, formatUnits } from 'viem';
-import { sepolia, mainnet } from 'viem/chains';
-import { SUPPORTED_CHAINS } from './chains';
+import { encodePacked, getContract, parseAbi } from 'viem';
+import { getTokenByAddress, getTokenBySymbol, getTokensByTag } from './chains';
+import { getPublicClient } from './rpc';
+import { AmountToken, TokenAmount, parseAmount, toAmount, formatAmountExact, applySlippage, amountToNumber } from './amounts';
+import { CardinalityGuidance, PoolTwap, PoolTwapOptions, getPoolTwap } from './uniswap-twap';
+import {
+  FeeTierQuote,
+  PriceImpactBreakdown,
+  buildSwapCallData,
+  computePriceImpact,
+  findPoolsAcrossFeeTiers,
+  quoteAcrossFeeTiers,
+  tickToPrice,
+} from './uniswap-v3-utils';
 
 // Uniswap V3 Contract Addresses
 const UNISWAP_V3_ADDRESSES = {
   // Ethereum Mainnet
   1: {
     router: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
-    quoter: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
+    swapRouter02: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e', // QuoterV2
     factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    positionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+    weth: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
   },
   // Ethereum Sepolia
   11155111: {
     router: '0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E',
-    quoter: '0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3',
+    swapRouter02: '0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E', // Sepolia only has SwapRouter02
+    quoter: '0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3', // QuoterV2
     factory: '0x0227628f3F023bb0B980b67D528571c95c6DaC1c',
+    positionManager: '0x1238536071E1c677A632429e3655c799b22cDA52',
+    weth: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
   },
 };
 
@@ -44,62 +61,13 @@ const ROUTER_ABI = [
   },
 ] as const;
 
-// Uniswap V3 Quoter ABI
-const QUOTER_ABI = [
-  {
-    inputs: [
-      { name: 'tokenIn', type: 'address' },
-      { name: 'tokenOut', type: 'address' },
-      { name: 'fee', type: 'uint24' },
-      { name: 'amountIn', type: 'uint256' },
-      { name: 'sqrtPriceLimitX96', type: 'uint160' },
-    ],
-    name: 'quoteExactInputSingle',
-    outputs: [{ name: 'amountOut', type: 'uint256' }],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-] as const;
-
-// Uniswap V3 Pool ABI for price and liquidity data
-const POOL_ABI = [
-  {
-    inputs: [],
-    name: 'slot0',
-    outputs: [
-      { name: 'sqrtPriceX96', type: 'uint160' },
-      { name: 'tick', type: 'int24' },
-      { name: 'observationIndex', type: 'uint16' },
-      { name: 'observationCardinality', type: 'uint16' },
-      { name: 'observationCardinalityNext', type: 'uint16' },
-      { name: 'feeProtocol', type: 'uint8' },
-      { name: 'unlocked', type: 'bool' },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'liquidity',
-    outputs: [{ name: '', type: 'uint128' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'token0',
-    outputs: [{ name: '', type: 'address' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'token1',
-    outputs: [{ name: '', type: 'address' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
+// QuoterV2 path quotes revert internally and are only meant for eth_call, so they are typed as view here
+const QUOTER_V2_PATH_ABI = parseAbi([
+  // amountOut, sqrtPriceX96AfterList, initializedTicksCrossedList, gasEstimate
+  'function quoteExactInput(bytes path, uint256 amountIn) view returns (uint256, uint160[], uint32[], uint256)',
+  // amountIn, sqrtPriceX96AfterList, initializedTicksCrossedList, gasEstimate
+  'function quoteExactOutput(bytes path, uint256 amountOut) view returns (uint256, uint160[], uint32[], uint256)',
+]);
 
 // Uniswap V3 Factory ABI to get pool address
 const FACTORY_ABI = [
@@ -149,151 +117,213 @@ export interface SwapParams {
   chainId: number;
 }
 
+export interface ExactOutputSwapParams {
+  tokenIn: string;
+  tokenOut: string;
+  amountOut: string; // Exact amount to receive
+  slippagePercent: number; // Bounds the input from above
+  recipient: string;
+  chainId: number;
+}
+
 export interface SwapQuote {
   amountOut: string;
   amountOutFormatted: string;
-  priceImpact: number;
+  priceImpact: number; // Percent, execution vs mid price excluding the LP fee
+  priceImpactBreakdown: PriceImpactBreakdown;
   minimumAmountOut: string;
   route: string;
+  fee: number; // Fee tier the quote was routed through
+  feeTiers: FeeTierQuote[]; // Every tier's quote, for comparison
+  amountIn: TokenAmount;
+  quotedAmountOut: TokenAmount;
+  minimumAmountOutExact: TokenAmount;
 }
 
 export interface LPPriceData {
   token0: string;
   token1: string;
-  price: number; // token1/token0 price
+  price: number; // USDC per ECOP (TWAP unless method is 'spot')
+  spotPrice: number; // USDC per ECOP from slot0
+  method: 'twap' | 'spot';
+  windowSeconds?: number;
   sqrtPriceX96: bigint;
   liquidity: bigint;
+  depthUsdc: number; // USDC needed to move the price by depthRangePercent
   poolAddress: string;
+  fee: number; // Fee tier of the pool used
+  warnings: string[];
+  cardinalityGuidance?: CardinalityGuidance;
+}
+
+export interface LPPriceOptions extends PoolTwapOptions {
+  minDepthUsdc?: number; // Below this the pool is too shallow to price ECOP
 }
 
+// Minimum USDC depth within ±2% for the pool to be trusted as a price source
+export const MIN_COPE_POOL_DEPTH_USDC = 100;
+
 /**
- * Get token decimals from chain config
+ * Amount identity for a token address, using registry metadata when known
  */
-function getTokenDecimals(tokenAddress: string, chainId: number): number {
-  const chain = SUPPORTED_CHAINS[chainId];
-  if (!chain) return 18; // Default to 18
-  
-  const normalizedAddress = tokenAddress.toLowerCase();
-  
-  if (chain.tokens.usdc?.address.toLowerCase() === normalizedAddress) {
-    return chain.tokens.usdc.decimals;
-  }
-  if (chain.tokens.ecop?.address.toLowerCase() === normalizedAddress) {
-    return chain.tokens.ecop.decimals;
+function toAmountToken(tokenAddress: string, chainId: number): AmountToken {
+  const token = getTokenByAddress(chainId, tokenAddress);
+  return {
+    symbol: token?.symbol ?? tokenAddress,
+    decimals: token?.decimals ?? 18,
+    address: tokenAddress,
+    chainId,
+  };
+}
+
+/**
+ * Uniswap V3 contract addresses on a chain; throws where V3 is not deployed
+ */
+export function getUniswapV3Addresses(chainId: number) {
+  const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  if (!addresses) {
+    throw new Error(`Uniswap V3 not supported on chain ${chainId}`);
   }
-  
-  return 18; // Default
+  return addresses;
+}
+
+/**
+ * Wrapped native token (WETH) used by Uniswap V3 on a chain
+ */
+export function getWrappedNativeAddress(chainId: number): `0x${string}` | undefined {
+  const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  return addresses?.weth as `0x${string}` | undefined;
 }
 
 /**
- * Calculate price from Uniswap V3 sqrtPriceX96
+ * SwapRouter02 address on a chain; swaps are sent to it, so it is also the spender to approve
  */
-function calculatePriceFromSqrtPriceX96(
-  sqrtPriceX96: bigint,
-  token0Decimals: number,
-  token1Decimals: number
-): number {
-  // Price = (sqrtPriceX96 / 2^96)^2 * (10^token0Decimals / 10^token1Decimals)
-  const sqrtPrice = Number(sqrtPriceX96) / (2 ** 96);
-  const price = sqrtPrice ** 2;
-  const decimalAdjustment = (10 ** token0Decimals) / (10 ** token1Decimals);
-  return price * decimalAdjustment;
+export function getSwapRouter02Address(chainId: number): `0x${string}` | undefined {
+  const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  return addresses?.swapRouter02 as `0x${string}` | undefined;
 }
 
 /**
- * Get ECOP-USDC price directly from Uniswap LP
+ * Look up a V3 pool through the factory; undefined when it has not been created
  */
-export async function getEcopUsdcPriceFromLP(chainId: number = 11155111): Promise<LPPriceData> {
+export async function getPoolAddress(
+  chainId: number,
+  tokenA: string,
+  tokenB: string,
+  fee: number
+): Promise<`0x${string}` | undefined> {
   const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
-  const chainConfig = SUPPORTED_CHAINS[chainId];
+  if (!addresses) {
+    throw new Error(`Uniswap V3 not available on chain ${chainId}`);
+  }
+
+  const poolAddress = await getPublicClient(chainId).readContract({
+    address: addresses.factory as `0x${string}`,
+    abi: FACTORY_ABI,
+    functionName: 'getPool',
+    args: [tokenA as `0x${string}`, tokenB as `0x${string}`, fee],
+  }) as `0x${string}`;
+
+  return poolAddress === '0x0000000000000000000000000000000000000000' ? undefined : poolAddress;
+}
+
+/**
+ * Get the ECOP-USDC price from the Uniswap LP as a TWAP.
+ * Every fee tier is checked and the deepest pool is used. Falls back to spot
+ * with a warning when that pool lacks history, and throws when it is too
+ * shallow to price ECOP at all.
+ */
+export async function getEcopUsdcPriceFromLP(
+  chainId: number = 11155111,
+  options: LPPriceOptions = {}
+): Promise<LPPriceData> {
+  const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  const usdcToken = getTokenBySymbol(chainId, 'USDC');
+  const ecopToken = getTokenBySymbol(chainId, 'COPe');
+  const { minDepthUsdc = MIN_COPE_POOL_DEPTH_USDC, ...twapOptions } = options;
   
-  if (!addresses || !chainConfig?.tokens.usdc || !chainConfig?.tokens.ecop) {
+  if (!addresses || !usdcToken || !ecopToken) {
     throw new Error(`ECOP-USDC pair not available on chain ${chainId}`);
   }
 
-  const chain = chainId === 11155111 ? sepolia : mainnet;
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(),
-  });
-
   try {
-    const usdcAddress = chainConfig.tokens.usdc.address;
-    const ecopAddress = chainConfig.tokens.ecop.address;
+    const usdcAddress = usdcToken.address;
+    const ecopAddress = ecopToken.address;
     
-    // Get pool address from factory
-    const poolAddress = await publicClient.readContract({
-      address: addresses.factory as `0x${string}`,
-      abi: FACTORY_ABI,
-      functionName: 'getPool',
-      args: [
-        usdcAddress as `0x${string}`,
-        ecopAddress as `0x${string}`,
-        3000 // 0.3% fee tier
-      ],
-    }) as string;
-
-    if (poolAddress === '0x0000000000000000000000000000000000000000') {
+    const pools = (await findPoolsAcrossFeeTiers(usdcAddress, ecopAddress, chainId, addresses.factory as `0x${string}`))
+      .filter((pool): pool is { fee: number; poolAddress: `0x${string}` } => pool.poolAddress !== undefined);
+    if (pools.length === 0) {
       throw new Error('ECOP-USDC pool does not exist');
     }
 
-    console.log('🏊 Found ECOP-USDC pool at:', poolAddress);
-
-    // Get pool data
-    const [slot0, liquidity, token0, token1] = await Promise.all([
-      publicClient.readContract({
-        address: poolAddress as `0x${string}`,
-        abi: POOL_ABI,
-        functionName: 'slot0',
-      }) as Promise<readonly [bigint, number, number, number, number, number, boolean]>,
-      publicClient.readContract({
-        address: poolAddress as `0x${string}`,
-        abi: POOL_ABI,
-        functionName: 'liquidity',
-      }) as Promise<bigint>,
-      publicClient.readContract({
-        address: poolAddress as `0x${string}`,
-        abi: POOL_ABI,
-        functionName: 'token0',
-      }) as Promise<string>,
-      publicClient.readContract({
-        address: poolAddress as `0x${string}`,
-        abi: POOL_ABI,
-        functionName: 'token1',
-      }) as Promise<string>,
-    ]);
-
-    const sqrtPriceX96 = slot0[0] as bigint;
-    
-    // Determine which token is token0 and token1
-    const isUsdcToken0 = token0.toLowerCase() === usdcAddress.toLowerCase();
-    const token0Decimals = isUsdcToken0 ? 6 : 18;
-    const token1Decimals = isUsdcToken0 ? 18 : 6;
-    
-    // Calculate price (token1/token0)
-    let price = calculatePriceFromSqrtPriceX96(sqrtPriceX96, token0Decimals, token1Decimals);
+    // USDC is token0 or token1 by address order, the same in every tier
+    const isUsdcToken0 = BigInt(usdcAddress) < BigInt(ecopAddress);
+    const getUsdcDepthRaw = (twap: PoolTwap) => isUsdcToken0 ? twap.depth.token0Raw : twap.depth.token1Raw;
+
+    const candidates = (await Promise.all(pools.map(async pool => {
+      try {
+        return { ...pool, twap: await getPoolTwap(chainId, pool.poolAddress, twapOptions) };
+      } catch (error) {
+        console.warn(`⚠️ Skipping ECOP-USDC ${pool.fee / 10000}% pool:`, error);
+        return undefined;
+      }
+    }))).filter(candidate => candidate !== undefined);
+
+    const deepest = candidates.reduce<typeof candidates[number] | undefined>((best, candidate) =>
+      !best || getUsdcDepthRaw(candidate.twap) > getUsdcDepthRaw(best.twap) ? candidate : best,
+    undefined);
+    if (!deepest) {
+      throw new Error('No ECOP-USDC pool could be read');
+    }
+
+    const { poolAddress, fee, twap } = deepest;
+    console.log(`🏊 Using ECOP-USDC ${fee / 10000}% pool at:`, poolAddress);
+
+    const token0Decimals = isUsdcToken0 ? usdcToken.decimals : ecopToken.decimals;
+    const token1Decimals = isUsdcToken0 ? ecopToken.decimals : usdcToken.decimals;
     
-    // If USDC is token1, we need the inverse for ECOP/USDC price
-    if (!isUsdcToken0) {
-      price = 1 / price;
+    // Pool prices are token1 per token0; if USDC is token0 that is ECOP per USDC, so invert
+    const toUsdcPerEcop = (tick: number) => {
+      const price = tickToPrice(tick, token0Decimals, token1Decimals);
+      return isUsdcToken0 ? 1 / price : price;
+    };
+    const price = toUsdcPerEcop(twap.tick);
+    const spotPrice = toUsdcPerEcop(twap.spotTick);
+
+    const depthUsdc = amountToNumber(toAmount(toAmountToken(usdcAddress, chainId), getUsdcDepthRaw(twap)));
+    if (depthUsdc < minDepthUsdc) {
+      throw new Error(
+        `ECOP-USDC pool too shallow to price ECOP: $${depthUsdc.toFixed(2)} moves the price ` +
+        `${twap.depth.rangePercent}% (minimum $${minDepthUsdc})`
+      );
     }
 
     console.log('💰 ECOP-USDC LP Price:', {
       price,
-      sqrtPriceX96: sqrtPriceX96.toString(),
-      liquidity: liquidity.toString(),
-      token0,
-      token1,
+      spotPrice,
+      method: twap.method,
+      windowSeconds: twap.windowSeconds,
+      fee,
+      depthUsdc,
+      liquidity: twap.depth.liquidity.toString(),
       isUsdcToken0,
+      warnings: twap.warnings,
     });
 
     return {
-      token0,
-      token1,
+      token0: isUsdcToken0 ? usdcAddress : ecopAddress,
+      token1: isUsdcToken0 ? ecopAddress : usdcAddress,
       price, // ECOP price in USDC
-      sqrtPriceX96,
-      liquidity,
+      spotPrice,
+      method: twap.method,
+      windowSeconds: twap.windowSeconds,
+      sqrtPriceX96: twap.sqrtPriceX96,
+      liquidity: twap.depth.liquidity,
+      depthUsdc,
       poolAddress,
+      fee,
+      warnings: twap.warnings,
+      cardinalityGuidance: twap.cardinalityGuidance,
     };
   } catch (error) {
     console.error('❌ Error fetching ECOP-USDC price from LP:', error);
@@ -302,7 +332,7 @@ export async function getEcopUsdcPriceFromLP(chainId: number = 11155111): Promis
 }
 
 /**
- * Get quote for exact input swap
+ * Get quote for exact input swap, routed through whichever fee tier returns the most
  */
 export async function getSwapQuote(params: SwapParams): Promise<SwapQuote> {
   const addresses = UNISWAP_V3_ADDRESSES[params.chainId as keyof typeof UNISWAP_V3_ADDRESSES];
@@ -310,20 +340,15 @@ export async function getSwapQuote(params: SwapParams): Promise<SwapQuote> {
     throw new Error(`Uniswap V3 not supported on chain ${params.chainId}`);
   }
 
-  // Create client for the appropriate chain
-  const chain = params.chainId === 11155111 ? sepolia : mainnet;
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(),
-  });
-
   try {
     // Get correct decimals for input and output tokens
-    const tokenInDecimals = getTokenDecimals(params.tokenIn, params.chainId);
-    const tokenOutDecimals = getTokenDecimals(params.tokenOut, params.chainId);
+    const tokenIn = toAmountToken(params.tokenIn, params.chainId);
+    const tokenOut = toAmountToken(params.tokenOut, params.chainId);
+    const tokenInDecimals = tokenIn.decimals;
+    const tokenOutDecimals = tokenOut.decimals;
     
-    const amountInWei = parseUnits(params.amountIn, tokenInDecimals);
-    const fee = 3000; // 0.3% fee tier (most common)
+    const amountIn = parseAmount(params.amountIn, tokenIn);
+    const amountInWei = amountIn.raw;
 
     console.log('🔍 Getting swap quote...', {
       tokenIn: params.tokenIn,
@@ -334,48 +359,42 @@ export async function getSwapQuote(params: SwapParams): Promise<SwapQuote> {
       amountInWei: amountInWei.toString(),
     });
 
-    // Use readContract instead of getContract for read operations
-    const amountOut = await publicClient.readContract({
-      address: addresses.quoter as `0x${string}`,
-      abi: QUOTER_ABI,
-      functionName: 'quoteExactInputSingle',
-      args: [
-        params.tokenIn as `0x${string}`,
-        params.tokenOut as `0x${string}`,
-        fee,
-        amountInWei,
-        BigInt(0), // sqrtPriceLimitX96 = 0 (no limit)
-      ],
-    }) as bigint;
+    const best = await quoteAcrossFeeTiers(params.tokenIn, params.tokenOut, amountInWei, params.chainId, {
+      factory: addresses.factory as `0x${string}`,
+      quoter: addresses.quoter as `0x${string}`,
+    });
+    const amountOut = best.amountOut;
 
-    const amountOutFormatted = formatUnits(amountOut, tokenOutDecimals);
+    const quotedAmountOut = toAmount(tokenOut, amountOut);
+    const amountOutFormatted = formatAmountExact(quotedAmountOut);
     
-    // Calculate minimum amount out with slippage
-    const slippageMultiplier = (100 - params.slippagePercent) / 100;
-    const minimumAmountOut = BigInt(Math.floor(Number(amountOut) * slippageMultiplier));
-
-    // Calculate price impact using LP data if available
-    let priceImpact = 0.1; // Default fallback
-    try {
-      // Try to get real price impact from LP
-      const chainConfig = SUPPORTED_CHAINS[params.chainId];
-      if (chainConfig?.tokens.usdc && chainConfig?.tokens.ecop) {
-        const lpData = await getEcopUsdcPriceFromLP(params.chainId);
-        // Simple price impact calculation based on trade size vs liquidity
-        const tradeValue = Number(params.amountIn) * (tokenInDecimals === 6 ? 1 : lpData.price);
-        const liquidityUSD = Number(lpData.liquidity) / 1e18 * lpData.price; // Rough estimate
-        priceImpact = Math.min((tradeValue / liquidityUSD) * 100, 5); // Cap at 5%
-      }
-    } catch (error) {
-      console.warn('⚠️ Could not calculate real price impact, using default');
-    }
+    // Calculate minimum amount out with slippage, exactly in integer units
+    const minimumAmountOut = applySlippage(quotedAmountOut, params.slippagePercent, 'min');
+
+    const priceImpactBreakdown = computePriceImpact({
+      tokenIn: params.tokenIn,
+      tokenOut: params.tokenOut,
+      amountIn: amountInWei,
+      amountOut,
+      decimalsIn: tokenInDecimals,
+      decimalsOut: tokenOutDecimals,
+      fee: best.fee,
+      sqrtPriceX96Before: best.sqrtPriceX96Before,
+      sqrtPriceX96After: best.sqrtPriceX96After,
+    });
 
     return {
       amountOut: amountOut.toString(),
       amountOutFormatted,
-      priceImpact,
-      minimumAmountOut: minimumAmountOut.toString(),
-      route: `${params.tokenIn} → ${params.tokenOut}`,
+      priceImpact: priceImpactBreakdown.priceImpactPercent,
+      priceImpactBreakdown,
+      minimumAmountOut: minimumAmountOut.raw.toString(),
+      route: `${params.tokenIn} → ${params.tokenOut} (${best.fee / 10000}%)`,
+      fee: best.fee,
+      feeTiers: best.tiers,
+      amountIn,
+      quotedAmountOut,
+      minimumAmountOutExact: minimumAmountOut,
     };
   } catch (error) {
     console.error('❌ Error getting swap quote:', error);
@@ -383,6 +402,249 @@ export async function getSwapQuote(params: SwapParams): Promise<SwapQuote> {
   }
 }
 
+export interface SwapRoute {
+  tokens: `0x${string}`[]; // tokenIn, intermediate tokens..., tokenOut
+  fees: number[]; // Fee tier of each hop
+  path: `0x${string}`; // Packed token/fee/token... path for QuoterV2 and SwapRouter02
+}
+
+export interface RouteQuote extends SwapRoute {
+  amountIn?: bigint; // Quoted input for exact-output routes
+  amountOut?: bigint; // Quoted output for exact-input routes; both undefined when the route could not be quoted
+  gasEstimate?: bigint;
+  error?: string;
+}
+
+export interface MultiHopQuote {
+  route: SwapRoute;
+  routeLabel: string; // e.g. "EURC → USDC (0.05%) → COPe (0.3%)"
+  amountIn: TokenAmount;
+  quotedAmountOut: TokenAmount;
+  minimumAmountOut: TokenAmount;
+  gasEstimate: bigint;
+  candidates: RouteQuote[]; // Every route tried, for comparison
+}
+
+export interface ExactOutputQuote {
+  route: SwapRoute; // path is encoded output-first, as exactOutput expects
+  routeLabel: string;
+  amountOut: TokenAmount;
+  quotedAmountIn: TokenAmount;
+  maximumAmountIn: TokenAmount;
+  gasEstimate: bigint;
+  candidates: RouteQuote[];
+}
+
+/**
+ * Packed V3 path: token (20 bytes), then fee (3 bytes) and token for each hop
+ */
+export function encodeRoutePath(tokens: `0x${string}`[], fees: number[]): `0x${string}` {
+  if (tokens.length !== fees.length + 1) {
+    throw new Error('A route needs exactly one fee per hop');
+  }
+
+  const types = tokens.flatMap((_, index) => index < fees.length ? ['address', 'uint24'] : ['address']);
+  const values = tokens.flatMap((token, index) => index < fees.length ? [token, fees[index]] : [token]);
+  return encodePacked(types, values);
+}
+
+/**
+ * Tokens routes may pass through: swappable registry tokens plus the wrapped native token
+ */
+export function getRoutingTokens(chainId: number): `0x${string}`[] {
+  const tokens = getTokensByTag(chainId, 'swappable').map(token => token.address as `0x${string}`);
+  const weth = getWrappedNativeAddress(chainId);
+  return weth ? [...tokens, weth] : tokens;
+}
+
+/**
+ * Every route from tokenIn to tokenOut over existing pools: the direct pair in each
+ * fee tier, and two-hop routes through each routing token in every tier combination
+ */
+export async function buildCandidateRoutes(
+  chainId: number,
+  tokenIn: `0x${string}`,
+  tokenOut: `0x${string}`
+): Promise<SwapRoute[]> {
+  const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  if (!addresses) {
+    throw new Error(`Uniswap V3 not supported on chain ${chainId}`);
+  }
+
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const intermediates = getRoutingTokens(chainId).filter(token => !same(token, tokenIn) && !same(token, tokenOut));
+
+  // Fee tiers with a pool, per pair; each pair is looked up once
+  const getFeeTiers = async (tokenA: `0x${string}`, tokenB: `0x${string}`) => {
+    const pools = await findPoolsAcrossFeeTiers(tokenA, tokenB, chainId, addresses.factory as `0x${string}`);
+    return pools.filter(pool => pool.poolAddress).map(pool => pool.fee);
+  };
+
+  const [directFees, hops] = await Promise.all([
+    getFeeTiers(tokenIn, tokenOut),
+    Promise.all(intermediates.map(async middle => {
+      const [firstFees, secondFees] = await Promise.all([getFeeTiers(tokenIn, middle), getFeeTiers(middle, tokenOut)]);
+      return { middle, firstFees, secondFees };
+    })),
+  ]);
+
+  const routes: { tokens: `0x${string}`[]; fees: number[] }[] = [
+    ...directFees.map(fee => ({ tokens: [tokenIn, tokenOut], fees: [fee] })),
+    ...hops.flatMap(({ middle, firstFees, secondFees }) =>
+      firstFees.flatMap(firstFee => secondFees.map(secondFee => ({
+        tokens: [tokenIn, middle, tokenOut],
+        fees: [firstFee, secondFee],
+      })))
+    ),
+  ];
+
+  return routes.map(route => ({ ...route, path: encodeRoutePath(route.tokens, route.fees) }));
+}
+
+/**
+ * Human-readable route, e.g. "EURC → USDC (0.05%) → COPe (0.3%)"
+ */
+export function formatRoute(route: SwapRoute, chainId: number): string {
+  const symbols = route.tokens.map(token => toAmountToken(token, chainId).symbol);
+  return symbols.reduce((label, symbol, index) => `${label} → ${symbol} (${route.fees[index - 1] / 10000}%)`);
+}
+
+/**
+ * Quote every candidate route with QuoterV2.quoteExactInput and pick the largest output.
+ * Routes default to every candidate from buildCandidateRoutes.
+ */
+export async function getMultiHopQuote(params: SwapParams, routes?: SwapRoute[]): Promise<MultiHopQuote> {
+  const addresses = UNISWAP_V3_ADDRESSES[params.chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  if (!addresses) {
+    throw new Error(`Uniswap V3 not supported on chain ${params.chainId}`);
+  }
+
+  try {
+    const tokenIn = toAmountToken(params.tokenIn, params.chainId);
+    const tokenOut = toAmountToken(params.tokenOut, params.chainId);
+    const amountIn = parseAmount(params.amountIn, tokenIn);
+    const client = getPublicClient(params.chainId);
+
+    const candidateRoutes = routes
+      ?? await buildCandidateRoutes(params.chainId, params.tokenIn as `0x${string}`, params.tokenOut as `0x${string}`);
+    if (candidateRoutes.length === 0) {
+      throw new Error(`No pools connect ${tokenIn.symbol} to ${tokenOut.symbol}`);
+    }
+
+    const candidates: RouteQuote[] = await Promise.all(candidateRoutes.map(async route => {
+      try {
+        const [amountOut, , , gasEstimate] = await client.readContract({
+          address: addresses.quoter as `0x${string}`,
+          abi: QUOTER_V2_PATH_ABI,
+          functionName: 'quoteExactInput',
+          args: [route.path, amountIn.raw],
+        });
+        return { ...route, amountOut, gasEstimate };
+      } catch (error) {
+        return { ...route, error: error instanceof Error ? error.message : 'Quote failed' };
+      }
+    }));
+
+    const best = candidates.reduce<RouteQuote | undefined>((current, candidate) =>
+      candidate.amountOut !== undefined && (current?.amountOut === undefined || candidate.amountOut > current.amountOut)
+        ? candidate
+        : current,
+    undefined);
+
+    if (!best || best.amountOut === undefined) {
+      throw new Error(`None of ${candidates.length} routes could be quoted`);
+    }
+
+    const quotedAmountOut = toAmount(tokenOut, best.amountOut);
+    const routeLabel = formatRoute(best, params.chainId);
+    console.log(`🧭 Best route ${routeLabel}: ${formatAmountExact(quotedAmountOut)} ${tokenOut.symbol}`);
+
+    return {
+      route: { tokens: best.tokens, fees: best.fees, path: best.path },
+      routeLabel,
+      amountIn,
+      quotedAmountOut,
+      minimumAmountOut: applySlippage(quotedAmountOut, params.slippagePercent, 'min'),
+      gasEstimate: best.gasEstimate ?? BigInt(0),
+      candidates,
+    };
+  } catch (error) {
+    console.error('❌ Error getting multi-hop quote:', error);
+    throw new Error(`Failed to get multi-hop quote: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Quote every candidate route for receiving exactly amountOut and pick the smallest input.
+ * Routes are given input token first, as buildCandidateRoutes returns them, and default to all of those.
+ */
+export async function getExactOutputQuote(params: ExactOutputSwapParams, routes?: SwapRoute[]): Promise<ExactOutputQuote> {
+  const addresses = UNISWAP_V3_ADDRESSES[params.chainId as keyof typeof UNISWAP_V3_ADDRESSES];
+  if (!addresses) {
+    throw new Error(`Uniswap V3 not supported on chain ${params.chainId}`);
+  }
+
+  try {
+    const tokenIn = toAmountToken(params.tokenIn, params.chainId);
+    const tokenOut = toAmountToken(params.tokenOut, params.chainId);
+    const amountOut = parseAmount(params.amountOut, tokenOut);
+    const client = getPublicClient(params.chainId);
+
+    const candidateRoutes = routes
+      ?? await buildCandidateRoutes(params.chainId, params.tokenIn as `0x${string}`, params.tokenOut as `0x${string}`);
+    if (candidateRoutes.length === 0) {
+      throw new Error(`No pools connect ${tokenIn.symbol} to ${tokenOut.symbol}`);
+    }
+
+    // Exact-output paths run from the output token back to the input token
+    const reversed = candidateRoutes.map(route => ({
+      ...route,
+      path: encodeRoutePath([...route.tokens].reverse(), [...route.fees].reverse()),
+    }));
+
+    const candidates: RouteQuote[] = await Promise.all(reversed.map(async route => {
+      try {
+        const [amountIn, , , gasEstimate] = await client.readContract({
+          address: addresses.quoter as `0x${string}`,
+          abi: QUOTER_V2_PATH_ABI,
+          functionName: 'quoteExactOutput',
+          args: [route.path, amountOut.raw],
+        });
+        return { ...route, amountIn, gasEstimate };
+      } catch (error) {
+        return { ...route, error: error instanceof Error ? error.message : 'Quote failed' };
+      }
+    }));
+
+    const best = candidates.reduce<RouteQuote | undefined>((current, candidate) =>
+      candidate.amountIn !== undefined && (current?.amountIn === undefined || candidate.amountIn < current.amountIn)
+        ? candidate
+        : current,
+    undefined);
+
+    if (!best || best.amountIn === undefined) {
+      throw new Error(`None of ${candidates.length} routes can deliver ${formatAmountExact(amountOut)} ${tokenOut.symbol}`);
+    }
+
+    const quotedAmountIn = toAmount(tokenIn, best.amountIn);
+    const routeLabel = formatRoute(best, params.chainId);
+    console.log(`🧭 Best exact-output route ${routeLabel}: ${formatAmountExact(quotedAmountIn)} ${tokenIn.symbol}`);
+
+    return {
+      route: { tokens: best.tokens, fees: best.fees, path: best.path },
+      routeLabel,
+      amountOut,
+      quotedAmountIn,
+      maximumAmountIn: applySlippage(quotedAmountIn, params.slippagePercent, 'max'),
+      gasEstimate: best.gasEstimate ?? BigInt(0),
+      candidates,
+    };
+  } catch (error) {
+    console.error('❌ Error getting exact-output quote:', error);
+    throw new Error(`Failed to get exact-output quote: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Check if token approval is needed
  */
@@ -393,11 +655,7 @@ export async function checkTokenApproval(
   amount: string,
   chainId: number
 ): Promise<boolean> {
-  const chain = chainId === 11155111 ? sepolia : mainnet;
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(),
-  });
+  const publicClient = getPublicClient(chainId);
 
   try {
     const allowance = await publicClient.readContract({
@@ -410,8 +668,7 @@ export async function checkTokenApproval(
       ],
     }) as bigint;
 
-    const tokenDecimals = getTokenDecimals(tokenAddress, chainId);
-    const amountWei = parseUnits(amount, tokenDecimals);
+    const amountWei = parseAmount(amount, toAmountToken(tokenAddress, chainId)).raw;
     return allowance >= amountWei;
   } catch (error) {
     console.error('❌ Error checking token approval:', error);
@@ -428,8 +685,7 @@ export function prepareApprovalTransaction(
   amount: string,
   chainId: number = 11155111
 ) {
-  const tokenDecimals = getTokenDecimals(tokenAddress, chainId);
-  const amountWei = parseUnits(amount, tokenDecimals);
+  const amountWei = parseAmount(amount, toAmountToken(tokenAddress, chainId)).raw;
   
   // Encode the approval function call
   const approveCalldata = `0x095ea7b3${spenderAddress.slice(2).padStart(64, '0')}${amountWei.toString(16).padStart(64, '0')}`;
@@ -442,41 +698,43 @@ export function prepareApprovalTransaction(
 }
 
 /**
- * Prepare swap transaction data
+ * Prepare swap transaction data: SwapRouter02 exactInputSingle through the quoted fee tier,
+ * wrapped in multicall so it reverts after the deadline
  */
 export function prepareSwapTransaction(
   params: SwapParams,
   quote: SwapQuote,
-  chainId: number
+  chainId: number,
+  deadlineSeconds: number = 20 * 60
 ) {
   const addresses = UNISWAP_V3_ADDRESSES[chainId as keyof typeof UNISWAP_V3_ADDRESSES];
   if (!addresses) {
     throw new Error(`Uniswap V3 not supported on chain ${chainId}`);
   }
 
-  const deadline = Math.floor(Date.now() / 1000) + 20 * 60; // 20 minutes from now
-  const tokenInDecimals = getTokenDecimals(params.tokenIn, chainId);
-  const amountInWei = parseUnits(params.amountIn, tokenInDecimals);
-  const amountOutMinimum = BigInt(quote.minimumAmountOut);
+  const amountInWei = parseAmount(params.amountIn, toAmountToken(params.tokenIn, chainId)).raw;
+  const amountOutMinimum = quote.minimumAmountOutExact.raw;
 
-  // Encode exactInputSingle call
-  const swapParams = {
+  console.log('🔧 Preparing swap transaction:', {
     tokenIn: params.tokenIn,
     tokenOut: params.tokenOut,
-    fee: 3000, // 0.3%
+    fee: quote.fee,
     recipient: params.recipient,
-    deadline: BigInt(deadline),
-    amountIn: amountInWei,
-    amountOutMinimum,
-    sqrtPriceLimitX96: BigInt(0),
-  };
-
-  // This is a simplified encoding - in a real app you'd use a proper ABI encoder
-  console.log('🔧 Preparing swap transaction:', swapParams);
+    amountIn: amountInWei.toString(),
+    amountOutMinimum: amountOutMinimum.toString(),
+  });
 
   return {
-    to: addresses.router as `0x${string}`,
-    data: '0x' as `0x${string}`, // You'd encode the actual call data here
+    to: addresses.swapRouter02 as `0x${string}`,
+    data: buildSwapCallData(
+      params.tokenIn,
+      params.tokenOut,
+      params.recipient,
+      amountInWei,
+      amountOutMinimum,
+      quote.fee,
+      deadlineSeconds
+    ),
     value: BigInt(0),
   };
 }
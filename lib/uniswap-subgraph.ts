@@ -1,16 +1,13 @@
 // Uniswap Subgraph Integration
 // Based on: https://docs.uniswap.org/api/subgraph/overview
+// Requests go through lib/subgraph-client.ts; see getSubgraphUrl for endpoint configuration.
 
-// V4 Subgraph for Ethereum Sepolia
-const UNISWAP_V4_SUBGRAPH_URL = 
-  `https://gateway.thegraph.com/api/${process.env.NEXT_PUBLIC_GRAPH_API_KEY}/subgraphs/id/DiYPVdygkfjDWhbxGSqAQxwBKmfKnkWQojqeM2rkLb3G`;
+import { V3PositionValue, getOnChainV3Portfolio } from './uniswap-v3-positions';
+import { USDC_COPE_V4_POOL_ID } from './uniswap-v4-utils';
+import { Infer, SubgraphVersion, getSubgraphUrl, queryAllPages, querySubgraph, schema } from './subgraph-client';
 
-// Fallback to V3 if needed
-const UNISWAP_V3_SUBGRAPH_URL = 
-  `https://gateway.thegraph.com/api/${process.env.NEXT_PUBLIC_GRAPH_API_KEY}/subgraphs/id/5zvR82QoaXYFyDEKLZ9t6v9adgnptxYpKpSbxtgVENFV`;
-
-// GraphQL queries for Uniswap V4 data
-const POOL_QUERY = `
+// Pool fields shared by the V3 and V4 schemas; V4 pools add hooks and tickSpacing
+const poolQuery = (version: SubgraphVersion) => `
   query GetPool($poolId: ID!) {
     pool(id: $poolId) {
       id
@@ -26,22 +23,20 @@ const POOL_QUERY = `
         name
         decimals
       }
-      fee
+      feeTier
       liquidity
-      sqrtPriceX96
+      sqrtPrice
       tick
       token0Price
       token1Price
       volumeUSD
-      volume24H: volumeUSD
-      tvlUSD
       totalValueLockedUSD
       totalValueLockedToken0
       totalValueLockedToken1
       feesUSD
-      feeGrowthGlobal0X128
-      feeGrowthGlobal1X128
+      ${version === 'v4' ? 'hooks\n      tickSpacing' : ''}
       poolDayData(first: 1, orderBy: date, orderDirection: desc) {
+        date
         tvlUSD
         volumeUSD
         feesUSD
@@ -51,7 +46,7 @@ const POOL_QUERY = `
 `;
 
 const POOL_DAY_DATA_QUERY = `
-  query GetPoolDayData($poolId: ID!, $days: Int!) {
+  query GetPoolDayData($poolId: String!, $days: Int!) {
     poolDayDatas(
       where: { pool: $poolId }
       first: $days
@@ -70,9 +65,15 @@ const POOL_DAY_DATA_QUERY = `
   }
 `;
 
+// V3 schema: V4 positions carry neither a pool nor liquidity amounts, and V3 range bounds are Tick entities
 const USER_POSITIONS_QUERY = `
-  query GetUserPositions($user: String!) {
-    positions(where: { owner: $user }) {
+  query GetUserPositions($user: Bytes!, $first: Int!, $lastId: ID!) {
+    positions(
+      where: { owner: $user, id_gt: $lastId }
+      first: $first
+      orderBy: id
+      orderDirection: asc
+    ) {
       id
       owner
       pool {
@@ -86,22 +87,124 @@ const USER_POSITIONS_QUERY = `
         feeTier
       }
       liquidity
-      tickLower
-      tickUpper
+      tickLower {
+        tickIdx
+      }
+      tickUpper {
+        tickIdx
+      }
       depositedToken0
       depositedToken1
       withdrawnToken0
       withdrawnToken1
       collectedFeesToken0
       collectedFeesToken1
-      feeGrowthInside0LastX128
-      feeGrowthInside1LastX128
+      transaction {
+        blockNumber
+        timestamp
+      }
     }
   }
 `;
 
+// Last 24 hourly buckets for a V3 pool, used to accelerate on-chain analytics
+const V3_POOL_METRICS_QUERY = `
+  query GetV3PoolMetrics($poolId: ID!) {
+    pool(id: $poolId) {
+      totalValueLockedUSD
+      poolHourData(first: 24, orderBy: periodStartUnix, orderDirection: desc) {
+        periodStartUnix
+        volumeUSD
+        feesUSD
+      }
+    }
+  }
+`;
+
+const TOKEN_SCHEMA = schema.object({
+  id: schema.string(),
+  symbol: schema.string(),
+  name: schema.string(),
+  decimals: schema.int(),
+});
+
+const POOL_SCHEMA = schema.object({
+  pool: schema.nullable(schema.object({
+    id: schema.string(),
+    token0: TOKEN_SCHEMA,
+    token1: TOKEN_SCHEMA,
+    feeTier: schema.int(),
+    liquidity: schema.numeric(),
+    sqrtPrice: schema.numeric(),
+    tick: schema.nullable(schema.int()), // Null until the pool is initialized
+    token0Price: schema.numeric(),
+    token1Price: schema.numeric(),
+    volumeUSD: schema.numeric(),
+    totalValueLockedUSD: schema.numeric(),
+    totalValueLockedToken0: schema.numeric(),
+    totalValueLockedToken1: schema.numeric(),
+    feesUSD: schema.numeric(),
+    hooks: schema.optional(schema.string()),
+    tickSpacing: schema.optional(schema.int()),
+    poolDayData: schema.array(schema.object({
+      date: schema.int(),
+      tvlUSD: schema.numeric(),
+      volumeUSD: schema.numeric(),
+      feesUSD: schema.numeric(),
+    })),
+  })),
+});
+
+const POOL_DAY_DATA_SCHEMA = schema.object({
+  poolDayDatas: schema.array(schema.object({
+    date: schema.int(),
+    tvlUSD: schema.numeric(),
+    volumeUSD: schema.numeric(),
+    feesUSD: schema.numeric(),
+    high: schema.numeric(),
+    low: schema.numeric(),
+    open: schema.numeric(),
+    close: schema.numeric(),
+  })),
+});
+
+const USER_POSITION_SCHEMA = schema.object({
+  id: schema.string(),
+  owner: schema.string(),
+  pool: schema.object({
+    id: schema.string(),
+    token0: schema.object({ symbol: schema.string() }),
+    token1: schema.object({ symbol: schema.string() }),
+    feeTier: schema.int(),
+  }),
+  liquidity: schema.numeric(),
+  tickLower: schema.object({ tickIdx: schema.int() }),
+  tickUpper: schema.object({ tickIdx: schema.int() }),
+  depositedToken0: schema.numeric(),
+  depositedToken1: schema.numeric(),
+  withdrawnToken0: schema.numeric(),
+  withdrawnToken1: schema.numeric(),
+  collectedFeesToken0: schema.numeric(),
+  collectedFeesToken1: schema.numeric(),
+  transaction: schema.object({ blockNumber: schema.numeric(), timestamp: schema.numeric() }),
+});
+
+const USER_POSITIONS_SCHEMA = schema.object({ positions: schema.array(USER_POSITION_SCHEMA) });
+
+const V3_POOL_METRICS_SCHEMA = schema.object({
+  pool: schema.nullable(schema.object({
+    totalValueLockedUSD: schema.numeric(),
+    poolHourData: schema.array(schema.object({
+      periodStartUnix: schema.int(),
+      volumeUSD: schema.numeric(),
+      feesUSD: schema.numeric(),
+    })),
+  })),
+});
+
 export interface PoolData {
   id: string;
+  version: SubgraphVersion;
   token0: {
     id: string;
     symbol: string;
@@ -117,33 +220,27 @@ export interface PoolData {
   fee: number;
   liquidity: string;
   sqrtPriceX96: string;
-  tick: number;
+  tick: number | null;
   token0Price: string;
   token1Price: string;
   volumeUSD: string;
-  volume24H: string;
+  volume24H: string; // Latest day bucket, when it started within the last 24h
   tvlUSD: string;
   totalValueLockedUSD: string;
   totalValueLockedToken0: string;
   totalValueLockedToken1: string;
   feesUSD: string;
+  hooks?: string; // V4 only
+  tickSpacing?: number; // V4 only
   poolDayData: Array<{
+    date: number;
     tvlUSD: string;
     volumeUSD: string;
     feesUSD: string;
   }>;
 }
 
-export interface PoolDayData {
-  date: number;
-  tvlUSD: string;
-  volumeUSD: string;
-  feesUSD: string;
-  high: string;
-  low: string;
-  open: string;
-  close: string;
-}
+export type PoolDayData = Infer<typeof POOL_DAY_DATA_SCHEMA>['poolDayDatas'][number];
 
 export interface UserPosition {
   id: string;
@@ -163,56 +260,65 @@ export interface UserPosition {
   withdrawnToken1: string;
   collectedFeesToken0: string;
   collectedFeesToken1: string;
+  transaction?: { blockNumber: string; timestamp: string }; // Position creation
 }
 
-// USDC-COPE Pool ID on Ethereum Sepolia (V4 format)
-// Based on the Uniswap V4 position: https://app.uniswap.org/positions/v4/ethereum_sepolia/12714
-const USDC_COPE_POOL_ID = "12714";
-
 /**
- * Fetch pool data from Uniswap subgraph
+ * Fetch pool data from a Uniswap subgraph; null when the subgraph is not configured,
+ * the pool is not indexed, or the request fails
  */
-export async function fetchPoolData(poolId: string = USDC_COPE_POOL_ID): Promise<PoolData | null> {
-  try {
-    console.log(`🔍 Fetching pool data for ${poolId} from Uniswap V4 subgraph`);
-    
-    const response = await fetch(UNISWAP_V4_SUBGRAPH_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: POOL_QUERY,
-        variables: { poolId },
-      }),
-    });
+export async function fetchPoolData(
+  poolId: string = USDC_COPE_V4_POOL_ID,
+  version: SubgraphVersion = 'v4',
+  chainId: number = 11155111
+): Promise<PoolData | null> {
+  const url = getSubgraphUrl(chainId, version);
+  if (!url) return null;
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.errors) {
-      console.error('GraphQL errors:', data.errors);
-      return null;
-    }
+  try {
+    console.log(`🔍 Fetching pool data for ${poolId} from Uniswap ${version.toUpperCase()} subgraph`);
 
-    const pool = data.data.pool;
+    const { pool } = await querySubgraph(url, poolQuery(version), { poolId: poolId.toLowerCase() }, POOL_SCHEMA);
     if (!pool) {
       console.warn(`Pool ${poolId} not found in subgraph`);
       return null;
     }
 
-    console.log('✅ Pool data fetched successfully:', {
+    const latestDay = pool.poolDayData[0];
+    const since = Math.floor(Date.now() / 1000) - 24 * 60 * 60;
+    const poolData: PoolData = {
       id: pool.id,
-      tokens: `${pool.token0.symbol}-${pool.token1.symbol}`,
-      tvlUSD: pool.tvlUSD,
-      volume24H: pool.volume24H,
-      feesUSD: pool.feesUSD
+      version,
+      token0: pool.token0,
+      token1: pool.token1,
+      fee: pool.feeTier,
+      liquidity: pool.liquidity,
+      sqrtPriceX96: pool.sqrtPrice,
+      tick: pool.tick,
+      token0Price: pool.token0Price,
+      token1Price: pool.token1Price,
+      volumeUSD: pool.volumeUSD,
+      // No bucket in the last day means no swaps, not missing data
+      volume24H: latestDay && latestDay.date >= since ? latestDay.volumeUSD : '0',
+      tvlUSD: pool.totalValueLockedUSD,
+      totalValueLockedUSD: pool.totalValueLockedUSD,
+      totalValueLockedToken0: pool.totalValueLockedToken0,
+      totalValueLockedToken1: pool.totalValueLockedToken1,
+      feesUSD: pool.feesUSD,
+      hooks: pool.hooks,
+      tickSpacing: pool.tickSpacing,
+      poolDayData: pool.poolDayData,
+    };
+
+    console.log('✅ Pool data fetched successfully:', {
+      id: poolData.id,
+      tokens: `${poolData.token0.symbol}-${poolData.token1.symbol}`,
+      tvlUSD: poolData.tvlUSD,
+      volume24H: poolData.volume24H,
+      feesUSD: poolData.feesUSD
     });
 
-    return pool;
+    return poolData;
   } catch (error) {
     console.error('❌ Error fetching pool data from subgraph:', error);
     return null;
@@ -223,38 +329,21 @@ export async function fetchPoolData(poolId: string = USDC_COPE_POOL_ID): Promise
  * Fetch historical pool data for APR calculation
  */
 export async function fetchPoolDayData(
-  poolId: string = USDC_COPE_POOL_ID, 
-  days: number = 30
+  poolId: string = USDC_COPE_V4_POOL_ID,
+  days: number = 30,
+  version: SubgraphVersion = 'v4',
+  chainId: number = 11155111
 ): Promise<PoolDayData[]> {
+  const url = getSubgraphUrl(chainId, version);
+  if (!url) return [];
+
   try {
     console.log(`🔍 Fetching ${days} days of pool data for ${poolId}`);
-    
-    const response = await fetch(UNISWAP_V4_SUBGRAPH_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: POOL_DAY_DATA_QUERY,
-        variables: { poolId, days },
-      }),
-    });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    const { poolDayDatas } = await querySubgraph(url, POOL_DAY_DATA_QUERY, { poolId: poolId.toLowerCase(), days }, POOL_DAY_DATA_SCHEMA);
+    console.log(`✅ Fetched ${poolDayDatas.length} days of pool data`);
 
-    const data = await response.json();
-    
-    if (data.errors) {
-      console.error('GraphQL errors:', data.errors);
-      return [];
-    }
-
-    const poolDayData = data.data.poolDayDatas || [];
-    console.log(`✅ Fetched ${poolDayData.length} days of pool data`);
-    
-    return poolDayData;
+    return poolDayDatas;
   } catch (error) {
     console.error('❌ Error fetching pool day data:', error);
     return [];
@@ -262,44 +351,71 @@ export async function fetchPoolDayData(
 }
 
 /**
- * Fetch user positions from Uniswap subgraph
+ * Fetch every V3 position a user owns from the V3 subgraph, paging past The Graph's 1000-entity cap
  */
-export async function fetchUserPositions(userAddress: string): Promise<UserPosition[]> {
+export async function fetchUserPositions(userAddress: string, chainId: number = 11155111): Promise<UserPosition[]> {
+  const url = getSubgraphUrl(chainId, 'v3');
+  if (!url) return [];
+
   try {
     console.log(`🔍 Fetching positions for user ${userAddress}`);
-    
-    const response = await fetch(UNISWAP_V4_SUBGRAPH_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: USER_POSITIONS_QUERY,
-        variables: { user: userAddress.toLowerCase() },
-      }),
-    });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (data.errors) {
-      console.error('GraphQL errors:', data.errors);
-      return [];
-    }
-
-    const positions = data.data.positions || [];
+    const positions = await queryAllPages(
+      url,
+      USER_POSITIONS_QUERY,
+      { user: userAddress.toLowerCase() },
+      USER_POSITIONS_SCHEMA,
+      data => data.positions
+    );
     console.log(`✅ Found ${positions.length} positions for user`);
-    
-    return positions;
+
+    return positions.map(position => ({
+      ...position,
+      tickLower: position.tickLower.tickIdx,
+      tickUpper: position.tickUpper.tickIdx,
+    }));
   } catch (error) {
     console.error('❌ Error fetching user positions:', error);
     return [];
   }
 }
 
+export interface V3PoolMetrics {
+  tvlUSD: number;
+  volume24hUSD: number;
+  fees24hUSD: number;
+}
+
+/**
+ * 24h metrics for a V3 pool from the subgraph; null when the subgraph is not configured,
+ * the pool is not indexed, or the request fails
+ */
+export async function fetchV3PoolMetrics(poolAddress: string, chainId: number = 11155111): Promise<V3PoolMetrics | null> {
+  const url = getSubgraphUrl(chainId, 'v3');
+  if (!url) return null;
+
+  try {
+    const { pool } = await querySubgraph(url, V3_POOL_METRICS_QUERY, { poolId: poolAddress.toLowerCase() }, V3_POOL_METRICS_SCHEMA);
+    if (!pool) {
+      console.warn(`⚠️ V3 pool ${poolAddress} not available in subgraph`);
+      return null;
+    }
+
+    // Only count buckets that started within the last 24h
+    const since = Math.floor(Date.now() / 1000) - 24 * 60 * 60;
+    const recentHours = pool.poolHourData.filter(hour => hour.periodStartUnix >= since);
+
+    return {
+      tvlUSD: parseFloat(pool.totalValueLockedUSD),
+      volume24hUSD: recentHours.reduce((sum, hour) => sum + parseFloat(hour.volumeUSD), 0),
+      fees24hUSD: recentHours.reduce((sum, hour) => sum + parseFloat(hour.feesUSD), 0),
+    };
+  } catch (error) {
+    console.error('❌ Error fetching V3 pool metrics from subgraph:', error);
+    return null;
+  }
+}
+
 /**
  * Calculate APR from pool data
  */
@@ -311,13 +427,13 @@ export function calculateAPR(poolData: PoolData, poolDayData: PoolDayData[]): nu
 
     // Calculate average daily fees over the last 30 days
     const totalFeesUSD = poolDayData.reduce((sum, day) => {
-      return sum + parseFloat(day.feesUSD || '0');
+      return sum + parseFloat(day.feesUSD);
     }, 0);
     
     const averageDailyFees = totalFeesUSD / poolDayData.length;
     
     // Get current TVL
-    const currentTVL = parseFloat(poolData.tvlUSD || '0');
+    const currentTVL = parseFloat(poolData.tvlUSD);
     
     if (currentTVL === 0) {
       return 0;
@@ -344,42 +460,29 @@ export function calculateAPR(poolData: PoolData, poolDayData: PoolDayData[]): nu
 /**
  * Get comprehensive DeFi analytics for a pool
  */
-export async function getPoolAnalytics(poolId: string = USDC_COPE_POOL_ID) {
+export async function getPoolAnalytics(
+  poolId: string = USDC_COPE_V4_POOL_ID,
+  version: SubgraphVersion = 'v4',
+  chainId: number = 11155111
+) {
   try {
     console.log('🚀 Fetching comprehensive pool analytics');
     
     // Fetch current pool data
-    const poolData = await fetchPoolData(poolId);
+    const poolData = await fetchPoolData(poolId, version, chainId);
     if (!poolData) {
-      console.warn('⚠️ V4 subgraph data not available, using fallback data');
-      // Fallback analytics for USDC-COPE pool
-      return {
-        poolId: poolId,
-        token0: { symbol: "USDC", name: "USD Coin", decimals: 6 },
-        token1: { symbol: "COPE", name: "Electronic Colombian Peso", decimals: 18 },
-        feeTier: 3000, // 0.3%
-        tvlUSD: 25000,
-        volume24H: 1500,
-        volumeUSD: 1500,
-        feesUSD: 45,
-        apr: 65.7,
-        price: 0.0002395, // 1 COPE = 0.0002395 USDC (4174.57 COPE = 1 USDC)
-        token0Price: 4174.57, // 1 USDC = 4174.57 COPE
-        token1Price: 0.0002395, // 1 COPE = 0.0002395 USDC
-        liquidity: "1000000000000000000",
-        totalValueLockedToken0: 25000, // USDC
-        totalValueLockedToken1: 104364250, // COPE
-        historicalData: []
-      };
+      // No fabricated fallback: on-chain analytics live in lib/pool-analytics.ts
+      console.warn(`⚠️ ${version.toUpperCase()} subgraph data not available`);
+      return null;
     }
 
     // Fetch historical data for APR calculation
-    const poolDayData = await fetchPoolDayData(poolId, 30);
+    const poolDayData = await fetchPoolDayData(poolId, 30, version, chainId);
     
     // Calculate APR
     const apr = calculateAPR(poolData, poolDayData);
     
-    // Calculate price from sqrtPriceX96 (V4 format)
+    // Calculate price from sqrtPriceX96 (same encoding in V3 and V4)
     const sqrtPriceX96 = parseFloat(poolData.sqrtPriceX96);
     const price = (sqrtPriceX96 / (2 ** 96)) ** 2;
     
@@ -387,18 +490,18 @@ export async function getPoolAnalytics(poolId: string = USDC_COPE_POOL_ID) {
       poolId: poolData.id,
       token0: poolData.token0,
       token1: poolData.token1,
-      feeTier: poolData.fee, // V4 uses 'fee' instead of 'feeTier'
-      tvlUSD: parseFloat(poolData.tvlUSD || '0'),
-      volume24H: parseFloat(poolData.volume24H || '0'),
-      volumeUSD: parseFloat(poolData.volumeUSD || '0'),
-      feesUSD: parseFloat(poolData.feesUSD || '0'),
+      feeTier: poolData.fee,
+      tvlUSD: parseFloat(poolData.tvlUSD),
+      volume24H: parseFloat(poolData.volume24H),
+      volumeUSD: parseFloat(poolData.volumeUSD),
+      feesUSD: parseFloat(poolData.feesUSD),
       apr: apr,
       price: price,
-      token0Price: parseFloat(poolData.token0Price || '0'),
-      token1Price: parseFloat(poolData.token1Price || '0'),
+      token0Price: parseFloat(poolData.token0Price),
+      token1Price: parseFloat(poolData.token1Price),
       liquidity: poolData.liquidity,
-      totalValueLockedToken0: parseFloat(poolData.totalValueLockedToken0 || '0'),
-      totalValueLockedToken1: parseFloat(poolData.totalValueLockedToken1 || '0'),
+      totalValueLockedToken0: parseFloat(poolData.totalValueLockedToken0),
+      totalValueLockedToken1: parseFloat(poolData.totalValueLockedToken1),
       historicalData: poolDayData
     };
 
@@ -416,48 +519,56 @@ export async function getPoolAnalytics(poolId: string = USDC_COPE_POOL_ID) {
   }
 }
 
+export interface DeFiPortfolioPosition extends V3PositionValue {
+  history?: UserPosition; // Subgraph deposit/withdraw/collect totals, when the subgraph is reachable
+}
+
+export interface DeFiPortfolio {
+  positions: DeFiPortfolioPosition[];
+  totalValue: number; // USD, principal of priced positions
+  totalFees: number; // USD, uncollected fees of priced positions
+  positionCount: number;
+  unpricedTokens: string[];
+}
+
+/**
+ * Whether a subgraph Position is the history of an on-chain position: the same token id in the
+ * same pool. Token ids repeat across PositionManager deployments, so the id alone is not enough.
+ */
+export function isSubgraphHistoryOf(entry: UserPosition, value: V3PositionValue): boolean {
+  return entry.id === value.tokenId.toString() && entry.pool.id.toLowerCase() === value.position.poolAddress.toLowerCase();
+}
+
 /**
- * Get user's DeFi portfolio including positions and rewards
+ * Get user's DeFi portfolio. Positions and values are read on-chain so the portfolio works
+ * without the subgraph (or an API key); subgraph history is attached when available.
  */
-export async function getUserDeFiPortfolio(userAddress: string) {
+export async function getUserDeFiPortfolio(userAddress: string, chainId: number = 11155111): Promise<DeFiPortfolio> {
   try {
     console.log(`🔍 Fetching DeFi portfolio for ${userAddress}`);
-    
-    // Fetch user positions
-    const positions = await fetchUserPositions(userAddress);
-    
-    // Calculate total value and fees for each position
-    const portfolio = positions.map(position => {
-      const depositedValue0 = parseFloat(position.depositedToken0 || '0');
-      const depositedValue1 = parseFloat(position.depositedToken1 || '0');
-      const collectedFees0 = parseFloat(position.collectedFeesToken0 || '0');
-      const collectedFees1 = parseFloat(position.collectedFeesToken1 || '0');
-      
-      return {
-        ...position,
-        depositedValue0,
-        depositedValue1,
-        collectedFees0,
-        collectedFees1,
-        totalDepositedValue: depositedValue0 + depositedValue1,
-        totalCollectedFees: collectedFees0 + collectedFees1
-      };
-    });
 
-    const totalValue = portfolio.reduce((sum, pos) => sum + pos.totalDepositedValue, 0);
-    const totalFees = portfolio.reduce((sum, pos) => sum + pos.totalCollectedFees, 0);
+    const [onChain, history] = await Promise.all([
+      getOnChainV3Portfolio(userAddress as `0x${string}`, chainId),
+      fetchUserPositions(userAddress, chainId),
+    ]);
+
+    const positions = onChain.positions.map(position => ({
+      ...position,
+      history: history.find(entry => isSubgraphHistoryOf(entry, position)),
+    }));
 
     console.log('✅ User portfolio calculated:', {
-      positions: portfolio.length,
-      totalValue: totalValue.toFixed(2),
-      totalFees: totalFees.toFixed(2)
+      positions: positions.length,
+      totalValue: onChain.totalUsd.toFixed(2),
+      totalFees: onChain.totalFeesUsd.toFixed(2)
     });
 
     return {
-      positions: portfolio,
-      totalValue,
-      totalFees,
-      positionCount: portfolio.length
+      positions,
+      totalValue: onChain.totalUsd,
+      totalFees: onChain.totalFeesUsd,
+      positionCount: positions.length,
+      unpricedTokens: onChain.unpricedTokens,
     };
   } catch (error) {
     console.error('❌ Error getting user DeFi portfolio:', error);
@@ -465,7 +576,8 @@ export async function getUserDeFiPortfolio(userAddress: string) {
       positions: [],
       totalValue: 0,
       totalFees: 0,
-      positionCount: 0
+      positionCount: 0,
+      unpricedTokens: [],
     };
   }
-} 
\ No newline at end of file
+}
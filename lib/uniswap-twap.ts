@@ -0,0 +1,191 @@
+/**
+ * Uniswap V3 pool TWAP
+ * Time-weighted ticks from observe(), observation-cardinality guidance and liquidity-depth checks
+ */
+
+import { encodeFunctionData, parseAbi } from 'viem';
+import { getPublicClient } from './rpc';
+
+const POOL_ORACLE_ABI = parseAbi([
+  // sqrtPriceX96, tick, observationIndex, observationCardinality, observationCardinalityNext, feeProtocol, unlocked
+  'function slot0() view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)',
+  'function liquidity() view returns (uint128)',
+  'function token0() view returns (address)',
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function increaseObservationCardinalityNext(uint16 observationCardinalityNext)',
+]);
+
+// Windows tried longest first; a shorter one is used when the pool lacks history
+export const DEFAULT_TWAP_WINDOWS = [1800, 600, 300];
+
+// Ethereum Sepolia block time; a pool writes at most one observation per block
+const SECONDS_PER_BLOCK = 12;
+
+const Q96 = BigInt(2) ** BigInt(96);
+const SQRT_SCALE = BigInt(1e9);
+
+export interface CardinalityGuidance {
+  windowSeconds: number;
+  observationCardinality: number;
+  observationCardinalityNext: number;
+  recommendedCardinality: number;
+  /** Anyone can send this to grow the pool's observation buffer (caller pays the storage gas) */
+  transaction: { to: `0x${string}`; data: `0x${string}` };
+  message: string;
+}
+
+export interface LiquidityDepth {
+  liquidity: bigint; // In-range liquidity
+  rangePercent: number;
+  token0Raw: bigint; // token0 sold into the pool to move the price down by rangePercent
+  token1Raw: bigint; // token1 sold into the pool to move the price up by rangePercent
+}
+
+export interface PoolTwap {
+  poolAddress: `0x${string}`;
+  token0: string;
+  method: 'twap' | 'spot';
+  tick: number; // Mean tick for 'twap', current tick for 'spot'
+  windowSeconds?: number; // Set for 'twap'
+  spotTick: number;
+  sqrtPriceX96: bigint;
+  depth: LiquidityDepth;
+  warnings: string[];
+  cardinalityGuidance?: CardinalityGuidance; // Set when the longest window could not be served
+}
+
+export interface PoolTwapOptions {
+  windows?: number[]; // Seconds, longest first
+  allowSpotFallback?: boolean; // Use slot0 when no window can be served
+  depthRangePercent?: number;
+}
+
+/**
+ * Arithmetic-mean tick over a window, rounded toward negative infinity like OracleLibrary.consult
+ */
+export function getTimeWeightedTick(tickCumulatives: readonly bigint[], windowSeconds: number): number {
+  const delta = tickCumulatives[1] - tickCumulatives[0];
+  const window = BigInt(windowSeconds);
+  let meanTick = delta / window;
+  if (delta < BigInt(0) && delta % window !== BigInt(0)) {
+    meanTick -= BigInt(1);
+  }
+  return Number(meanTick);
+}
+
+/**
+ * Observations needed to serve a window even if every block has a swap
+ */
+export function getRequiredCardinality(windowSeconds: number): number {
+  return Math.ceil(windowSeconds / SECONDS_PER_BLOCK) + 1;
+}
+
+/**
+ * Calldata for IUniswapV3Pool.increaseObservationCardinalityNext
+ */
+export function buildIncreaseCardinalityCallData(cardinalityNext: number): `0x${string}` {
+  return encodeFunctionData({
+    abi: POOL_ORACLE_ABI,
+    functionName: 'increaseObservationCardinalityNext',
+    args: [cardinalityNext],
+  });
+}
+
+/**
+ * Token amounts needed to move the price by rangePercent in either direction.
+ * Assumes in-range liquidity stays constant over the move, so depth across
+ * initialized ticks is approximate.
+ */
+export function getLiquidityDepth(sqrtPriceX96: bigint, liquidity: bigint, rangePercent: number): LiquidityDepth {
+  const upFactor = BigInt(Math.round(Math.sqrt(1 + rangePercent / 100) * 1e9));
+  const downFactor = BigInt(Math.round(Math.sqrt(Math.max(1 - rangePercent / 100, 0)) * 1e9));
+  const sqrtPriceUp = sqrtPriceX96 * upFactor / SQRT_SCALE;
+  const sqrtPriceDown = sqrtPriceX96 * downFactor / SQRT_SCALE;
+
+  // Δtoken1 = L·(√P_up − √P), Δtoken0 = L·(√P − √P_down)/(√P·√P_down), in Q96
+  const token1Raw = liquidity * (sqrtPriceUp - sqrtPriceX96) / Q96;
+  const token0Raw = sqrtPriceDown > BigInt(0)
+    ? liquidity * Q96 * (sqrtPriceX96 - sqrtPriceDown) / sqrtPriceX96 / sqrtPriceDown
+    : BigInt(0);
+
+  return { liquidity, rangePercent, token0Raw, token1Raw };
+}
+
+/**
+ * Read a pool's TWAP, trying each window in order. When none can be served the
+ * result falls back to the slot0 spot tick with a warning (unless disabled),
+ * and carries guidance for growing the observation buffer.
+ */
+export async function getPoolTwap(
+  chainId: number,
+  poolAddress: `0x${string}`,
+  options: PoolTwapOptions = {}
+): Promise<PoolTwap> {
+  const { windows = DEFAULT_TWAP_WINDOWS, allowSpotFallback = true, depthRangePercent = 2 } = options;
+  const client = getPublicClient(chainId);
+
+  try {
+    const [slot0, liquidity, token0] = await Promise.all([
+      client.readContract({ address: poolAddress, abi: POOL_ORACLE_ABI, functionName: 'slot0' }),
+      client.readContract({ address: poolAddress, abi: POOL_ORACLE_ABI, functionName: 'liquidity' }),
+      client.readContract({ address: poolAddress, abi: POOL_ORACLE_ABI, functionName: 'token0' }),
+    ]);
+    const [sqrtPriceX96, spotTick, , observationCardinality, observationCardinalityNext] = slot0;
+    const depth = getLiquidityDepth(sqrtPriceX96, liquidity, depthRangePercent);
+    const warnings: string[] = [];
+
+    let twap: { tick: number; windowSeconds: number } | undefined;
+    for (const windowSeconds of windows) {
+      try {
+        const [tickCumulatives] = await client.readContract({
+          address: poolAddress,
+          abi: POOL_ORACLE_ABI,
+          functionName: 'observe',
+          args: [[windowSeconds, 0]],
+        });
+        twap = { tick: getTimeWeightedTick(tickCumulatives, windowSeconds), windowSeconds };
+        break;
+      } catch (error) {
+        // observe() reverts with "OLD" when the window reaches past the oldest observation
+        console.warn(`⚠️ Pool ${poolAddress} has no ${windowSeconds}s history:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    let cardinalityGuidance: CardinalityGuidance | undefined;
+    const longestWindow = windows[0];
+    if (longestWindow !== undefined && twap?.windowSeconds !== longestWindow) {
+      const recommendedCardinality = getRequiredCardinality(longestWindow);
+      const alreadyRequested = observationCardinalityNext >= recommendedCardinality;
+      const currentState = `currently ${observationCardinality}`;
+      cardinalityGuidance = {
+        windowSeconds: longestWindow,
+        observationCardinality,
+        observationCardinalityNext,
+        recommendedCardinality,
+        transaction: { to: poolAddress, data: buildIncreaseCardinalityCallData(recommendedCardinality) },
+        message: alreadyRequested
+          ? `Observation buffer is growing to ${observationCardinalityNext} (${currentState}); ${longestWindow}s TWAP available once it fills`
+          : `Call increaseObservationCardinalityNext(${recommendedCardinality}) on ${poolAddress} for a ${longestWindow}s TWAP (${currentState})`,
+      };
+      warnings.push(cardinalityGuidance.message);
+    }
+
+    if (twap) {
+      if (twap.windowSeconds !== longestWindow) {
+        warnings.push(`Using a shorter ${twap.windowSeconds}s TWAP window`);
+      }
+      return { poolAddress, token0, method: 'twap', ...twap, spotTick, sqrtPriceX96, depth, warnings, cardinalityGuidance };
+    }
+
+    if (!allowSpotFallback) {
+      throw new Error(`No TWAP window available (tried ${windows.join(', ')}s)`);
+    }
+
+    warnings.push('TWAP unavailable; using the manipulable spot price');
+    console.warn(`⚠️ Pool ${poolAddress}: falling back to spot price`);
+    return { poolAddress, token0, method: 'spot', tick: spotTick, spotTick, sqrtPriceX96, depth, warnings, cardinalityGuidance };
+  } catch (error) {
+    console.error('❌ Error reading pool TWAP:', error);
+    throw new Error(`Failed to read pool TWAP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
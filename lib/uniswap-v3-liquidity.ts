@@ -0,0 +1,655 @@
+/**
+ * V3 liquidity provision
+ * Price-range selection snapped to the pool's tick spacing, deposit amounts for a range,
+ * and NonfungiblePositionManager batches (mint, increase, decrease, collect, burn) for the smart wallet
+ */
+
+import { decodeFunctionResult, encodeFunctionData, parseAbi, parseEventLogs, zeroAddress } from 'viem';
+import { getPublicClient } from './rpc';
+import { getTokenByAddress } from './chains';
+import { AmountToken, TokenAmount, applySlippage, toAmount } from './amounts';
+import { BatchCall } from './swap-execution';
+import { POOL_TICKS_ABI } from './uniswap-v3-simulator';
+import { FACTORY_ABI, POOL_ABI, buildApproveCallData } from './uniswap-v3-utils';
+import { getUniswapV3Addresses } from './uniswap-integration';
+import {
+  MAX_TICK,
+  MIN_TICK,
+  getAmountsForLiquidity,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+  getSqrtRatioAtTick,
+} from './uniswap-v3-math';
+
+export const POSITION_MANAGER_ABI = [
+  {
+    name: 'mint',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [{
+      name: 'params',
+      type: 'tuple',
+      components: [
+        { name: 'token0', type: 'address' },
+        { name: 'token1', type: 'address' },
+        { name: 'fee', type: 'uint24' },
+        { name: 'tickLower', type: 'int24' },
+        { name: 'tickUpper', type: 'int24' },
+        { name: 'amount0Desired', type: 'uint256' },
+        { name: 'amount1Desired', type: 'uint256' },
+        { name: 'amount0Min', type: 'uint256' },
+        { name: 'amount1Min', type: 'uint256' },
+        { name: 'recipient', type: 'address' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    }],
+    outputs: [
+      { name: 'tokenId', type: 'uint256' },
+      { name: 'liquidity', type: 'uint128' },
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'increaseLiquidity',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [{
+      name: 'params',
+      type: 'tuple',
+      components: [
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'amount0Desired', type: 'uint256' },
+        { name: 'amount1Desired', type: 'uint256' },
+        { name: 'amount0Min', type: 'uint256' },
+        { name: 'amount1Min', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    }],
+    outputs: [
+      { name: 'liquidity', type: 'uint128' },
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'decreaseLiquidity',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [{
+      name: 'params',
+      type: 'tuple',
+      components: [
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'liquidity', type: 'uint128' },
+        { name: 'amount0Min', type: 'uint256' },
+        { name: 'amount1Min', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    }],
+    outputs: [
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'collect',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [{
+      name: 'params',
+      type: 'tuple',
+      components: [
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'recipient', type: 'address' },
+        { name: 'amount0Max', type: 'uint128' },
+        { name: 'amount1Max', type: 'uint128' },
+      ],
+    }],
+    outputs: [
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'burn',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'positions',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [
+      { name: 'nonce', type: 'uint96' },
+      { name: 'operator', type: 'address' },
+      { name: 'token0', type: 'address' },
+      { name: 'token1', type: 'address' },
+      { name: 'fee', type: 'uint24' },
+      { name: 'tickLower', type: 'int24' },
+      { name: 'tickUpper', type: 'int24' },
+      { name: 'liquidity', type: 'uint128' },
+      { name: 'feeGrowthInside0LastX128', type: 'uint256' },
+      { name: 'feeGrowthInside1LastX128', type: 'uint256' },
+      { name: 'tokensOwed0', type: 'uint128' },
+      { name: 'tokensOwed1', type: 'uint128' },
+    ],
+  },
+  {
+    name: 'IncreaseLiquidity',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'liquidity', type: 'uint128', indexed: false },
+      { name: 'amount0', type: 'uint256', indexed: false },
+      { name: 'amount1', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DecreaseLiquidity',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'liquidity', type: 'uint128', indexed: false },
+      { name: 'amount0', type: 'uint256', indexed: false },
+      { name: 'amount1', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'Collect',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'recipient', type: 'address', indexed: false },
+      { name: 'amount0', type: 'uint256', indexed: false },
+      { name: 'amount1', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+// collect() takes everything owed when asked for the uint128 maximum
+const MAX_UINT128 = BigInt(2) ** BigInt(128) - BigInt(1);
+
+const ERC20_BALANCE_ABI = parseAbi([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+]);
+
+/**
+ * NonfungiblePositionManager on a chain; throws where Uniswap V3 is not deployed
+ */
+export function getPositionManagerAddress(chainId: number): `0x${string}` {
+  return getUniswapV3Addresses(chainId).positionManager as `0x${string}`;
+}
+
+export interface V3PoolPriceState {
+  chainId: number;
+  poolAddress: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+}
+
+export interface SnappedRange {
+  tickLower: number;
+  tickUpper: number;
+}
+
+export interface MintPreview {
+  liquidity: bigint;
+  amount0: TokenAmount; // What the pool takes for this liquidity, rounded up like the contract
+  amount1: TokenAmount;
+  inRange: boolean; // false when the range sits entirely on one side of the price (single-token deposit)
+}
+
+export interface MintRequest {
+  pool: V3PoolPriceState;
+  range: SnappedRange;
+  amount0Desired: TokenAmount;
+  amount1Desired: TokenAmount;
+  slippagePercent: number;
+  deadlineMinutes: number;
+  recipient: `0x${string}`;
+  fundedInBatch?: boolean; // The tokens arrive earlier in the same batch, so current balances are not checked
+}
+
+export interface MintPlan {
+  calls: BatchCall[];
+  approvals: `0x${string}`[]; // Tokens that needed a fresh approval
+  amount0Min: TokenAmount;
+  amount1Min: TokenAmount;
+}
+
+export interface V3PositionDetails {
+  tokenId: bigint;
+  chainId: number;
+  poolAddress: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  fee: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  feeGrowthInside0LastX128: bigint;
+  feeGrowthInside1LastX128: bigint;
+  tokensOwed0: bigint; // Credited at the last position update; unclaimed fees accrued since are not included
+  tokensOwed1: bigint;
+}
+
+export interface IncreaseLiquidityRequest {
+  position: V3PositionDetails;
+  amount0Desired: TokenAmount;
+  amount1Desired: TokenAmount;
+  slippagePercent: number;
+  deadlineMinutes: number;
+}
+
+export interface DecreasePreview {
+  liquidity: bigint; // Liquidity removed
+  amount0: TokenAmount; // Principal returned, rounded down like the pool
+  amount1: TokenAmount;
+}
+
+export interface PositionActionPlan {
+  calls: BatchCall[];
+  approvals: `0x${string}`[];
+}
+
+export interface MintResult {
+  transactionHash: `0x${string}`;
+  status: 'success' | 'reverted';
+  tokenId?: bigint;
+  liquidity?: bigint;
+  amount0?: bigint;
+  amount1?: bigint;
+}
+
+/**
+ * Registry metadata for a pool token; unknown tokens fall back to a short address and 18 decimals
+ */
+export function getPoolToken(chainId: number, address: string): AmountToken {
+  const token = getTokenByAddress(chainId, address);
+  return {
+    symbol: token?.symbol ?? `${address.slice(0, 6)}…`,
+    decimals: token?.decimals ?? 18,
+    address,
+    chainId,
+  };
+}
+
+/**
+ * Read what a range choice needs from a pool: tokens, fee, tick spacing and the current price
+ */
+export async function getPoolPriceState(chainId: number, poolAddress: `0x${string}`): Promise<V3PoolPriceState> {
+  try {
+    const client = getPublicClient(chainId);
+    const [[sqrtPriceX96, tick], fee, tickSpacing, token0, token1] = await Promise.all([
+      client.readContract({ address: poolAddress, abi: POOL_ABI, functionName: 'slot0' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'fee' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'tickSpacing' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'token0' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'token1' }),
+    ]);
+
+    return { chainId, poolAddress, token0, token1, fee, tickSpacing, sqrtPriceX96, tick };
+  } catch (error) {
+    throw new Error(`Failed to read V3 pool state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Closest tick the pool accepts as a position boundary
+ */
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing;
+  if (rounded < MIN_TICK) return rounded + tickSpacing;
+  if (rounded > MAX_TICK) return rounded - tickSpacing;
+  return rounded;
+}
+
+/**
+ * Tick for a decimal-adjusted price (token1 per token0), before snapping
+ */
+export function priceToTick(price: number, decimals0: number, decimals1: number): number {
+  if (!(price > 0) || !Number.isFinite(price)) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+  const rawPrice = price / 10 ** (decimals0 - decimals1);
+  const tick = Math.floor(Math.log(rawPrice) / Math.log(1.0001));
+  return Math.min(Math.max(tick, MIN_TICK), MAX_TICK);
+}
+
+/**
+ * Snap a min/max price (token1 per token0) to usable ticks, keeping the range at least one tick spacing wide
+ */
+export function snapPriceRange(
+  minPrice: number,
+  maxPrice: number,
+  decimals0: number,
+  decimals1: number,
+  tickSpacing: number
+): SnappedRange {
+  if (minPrice >= maxPrice) {
+    throw new Error('Min price must be below max price');
+  }
+
+  const tickLower = nearestUsableTick(priceToTick(minPrice, decimals0, decimals1), tickSpacing);
+  let tickUpper = nearestUsableTick(priceToTick(maxPrice, decimals0, decimals1), tickSpacing);
+  if (tickUpper <= tickLower) {
+    tickUpper = tickLower + tickSpacing;
+  }
+  if (tickUpper > MAX_TICK) {
+    throw new Error('Price range is above the highest usable tick');
+  }
+
+  return { tickLower, tickUpper };
+}
+
+/**
+ * Widest range the pool allows
+ */
+export function fullRange(tickSpacing: number): SnappedRange {
+  return {
+    tickLower: Math.ceil(MIN_TICK / tickSpacing) * tickSpacing,
+    tickUpper: Math.floor(MAX_TICK / tickSpacing) * tickSpacing,
+  };
+}
+
+/**
+ * Deposit needed for a range given the amount of one token: the liquidity that amount buys
+ * at the current price and what the pool takes of the other token for it
+ */
+export function previewMint(
+  pool: V3PoolPriceState,
+  range: SnappedRange,
+  amount: TokenAmount,
+  tokens: { token0: AmountToken; token1: AmountToken }
+): MintPreview {
+  const sqrtLower = getSqrtRatioAtTick(range.tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(range.tickUpper);
+  const isToken0 = amount.token.address?.toLowerCase() === pool.token0.toLowerCase();
+
+  if (isToken0 && pool.sqrtPriceX96 >= sqrtUpper) {
+    throw new Error(`The range is below the current price; only ${tokens.token1.symbol} can be deposited`);
+  }
+  if (!isToken0 && pool.sqrtPriceX96 <= sqrtLower) {
+    throw new Error(`The range is above the current price; only ${tokens.token0.symbol} can be deposited`);
+  }
+
+  const liquidity = isToken0
+    ? getLiquidityForAmount0(pool.sqrtPriceX96 > sqrtLower ? pool.sqrtPriceX96 : sqrtLower, sqrtUpper, amount.raw)
+    : getLiquidityForAmount1(sqrtLower, pool.sqrtPriceX96 < sqrtUpper ? pool.sqrtPriceX96 : sqrtUpper, amount.raw);
+  const { amount0, amount1 } = getAmountsForLiquidity(pool.sqrtPriceX96, sqrtLower, sqrtUpper, liquidity, true);
+
+  return {
+    liquidity,
+    amount0: toAmount(tokens.token0, amount0),
+    amount1: toAmount(tokens.token1, amount1),
+    inRange: pool.sqrtPriceX96 > sqrtLower && pool.sqrtPriceX96 < sqrtUpper,
+  };
+}
+
+/**
+ * Wrap a PositionManager call that pulls tokens: exact-amount approvals where the allowance is
+ * short before it, and the approvals reset after it so the unused remainder is not left behind
+ */
+async function withDepositApprovals(
+  owner: `0x${string}`,
+  chainId: number,
+  deposits: { token: `0x${string}`; amount: TokenAmount }[],
+  call: `0x${string}`,
+  checkBalances: boolean = true
+): Promise<PositionActionPlan> {
+  const positionManager = getPositionManagerAddress(chainId);
+  const client = getPublicClient(chainId);
+  const pulled = deposits.filter(deposit => deposit.amount.raw > BigInt(0));
+
+  const balancesAndAllowances = await Promise.all(pulled.map(deposit => Promise.all([
+    client.readContract({ address: deposit.token, abi: ERC20_BALANCE_ABI, functionName: 'balanceOf', args: [owner] }),
+    client.readContract({ address: deposit.token, abi: ERC20_BALANCE_ABI, functionName: 'allowance', args: [owner, positionManager] }),
+  ])));
+
+  pulled.forEach((deposit, index) => {
+    if (checkBalances && balancesAndAllowances[index][0] < deposit.amount.raw) {
+      throw new Error(`Insufficient ${deposit.amount.token.symbol} balance`);
+    }
+  });
+
+  const approvals = pulled.filter((deposit, index) => balancesAndAllowances[index][1] < deposit.amount.raw);
+
+  return {
+    calls: [
+      ...approvals.map(approval => ({ to: approval.token, data: buildApproveCallData(positionManager, approval.amount.raw) })),
+      { to: positionManager, data: call },
+      ...approvals.map(approval => ({ to: approval.token, data: buildApproveCallData(positionManager, BigInt(0)) })),
+    ],
+    approvals: approvals.map(approval => approval.token),
+  };
+}
+
+const deadlineFromNow = (minutes: number) => BigInt(Math.floor(Date.now() / 1000) + Math.round(minutes * 60));
+
+/**
+ * Calls for one batched user operation minting a new position, approvals included
+ */
+export async function buildMintPlan(owner: `0x${string}`, request: MintRequest): Promise<MintPlan> {
+  const amount0Min = applySlippage(request.amount0Desired, request.slippagePercent, 'min');
+  const amount1Min = applySlippage(request.amount1Desired, request.slippagePercent, 'min');
+
+  const mintData = encodeFunctionData({
+    abi: POSITION_MANAGER_ABI,
+    functionName: 'mint',
+    args: [{
+      token0: request.pool.token0,
+      token1: request.pool.token1,
+      fee: request.pool.fee,
+      tickLower: request.range.tickLower,
+      tickUpper: request.range.tickUpper,
+      amount0Desired: request.amount0Desired.raw,
+      amount1Desired: request.amount1Desired.raw,
+      amount0Min: amount0Min.raw,
+      amount1Min: amount1Min.raw,
+      recipient: request.recipient,
+      deadline: deadlineFromNow(request.deadlineMinutes),
+    }],
+  });
+
+  const plan = await withDepositApprovals(owner, request.pool.chainId, [
+    { token: request.pool.token0, amount: request.amount0Desired },
+    { token: request.pool.token1, amount: request.amount1Desired },
+  ], mintData, !request.fundedInBatch);
+
+  return { ...plan, amount0Min, amount1Min };
+}
+
+/**
+ * Read a position from PositionManager and locate its pool through the factory
+ */
+export async function getPositionDetails(chainId: number, tokenId: bigint): Promise<V3PositionDetails> {
+  try {
+    const client = getPublicClient(chainId);
+    const { factory } = getUniswapV3Addresses(chainId);
+    const [, , token0, token1, fee, tickLower, tickUpper, liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128,
+      tokensOwed0, tokensOwed1] = await client.readContract({
+      address: getPositionManagerAddress(chainId),
+      abi: POSITION_MANAGER_ABI,
+      functionName: 'positions',
+      args: [tokenId],
+    });
+
+    const poolAddress = await client.readContract({
+      address: factory as `0x${string}`,
+      abi: FACTORY_ABI,
+      functionName: 'getPool',
+      args: [token0, token1, fee],
+    });
+    if (poolAddress === zeroAddress) {
+      throw new Error(`No pool for position ${tokenId}`);
+    }
+
+    return {
+      tokenId,
+      chainId,
+      poolAddress,
+      token0,
+      token1,
+      fee,
+      tickLower,
+      tickUpper,
+      liquidity,
+      feeGrowthInside0LastX128,
+      feeGrowthInside1LastX128,
+      tokensOwed0,
+      tokensOwed1,
+    };
+  } catch (error) {
+    throw new Error(`Failed to read V3 position: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const encodeCollectAll = (tokenId: bigint, recipient: `0x${string}`) => encodeFunctionData({
+  abi: POSITION_MANAGER_ABI,
+  functionName: 'collect',
+  args: [{ tokenId, recipient, amount0Max: MAX_UINT128, amount1Max: MAX_UINT128 }],
+});
+
+/**
+ * Everything collect() would pay out right now (owed tokens plus fees accrued since the last
+ * update), by simulating it from the owner. readContract cannot be used: collect is not a view.
+ */
+export async function previewCollect(owner: `0x${string}`, position: V3PositionDetails): Promise<{ amount0: bigint; amount1: bigint }> {
+  try {
+    const { data } = await getPublicClient(position.chainId).call({
+      account: owner,
+      to: getPositionManagerAddress(position.chainId),
+      data: encodeCollectAll(position.tokenId, owner),
+    });
+    const [amount0, amount1] = decodeFunctionResult({ abi: POSITION_MANAGER_ABI, functionName: 'collect', data: data ?? '0x' });
+    return { amount0, amount1 };
+  } catch (error) {
+    throw new Error(`Failed to preview fees: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Principal returned for removing a share of a position's liquidity at the current pool price
+ */
+export function previewDecrease(
+  pool: V3PoolPriceState,
+  position: V3PositionDetails,
+  percent: number,
+  tokens: { token0: AmountToken; token1: AmountToken }
+): DecreasePreview {
+  const basisPoints = BigInt(Math.round(Math.min(Math.max(percent, 0), 100) * 100));
+  const liquidity = position.liquidity * basisPoints / BigInt(10000);
+  const { amount0, amount1 } = getAmountsForLiquidity(
+    pool.sqrtPriceX96,
+    getSqrtRatioAtTick(position.tickLower),
+    getSqrtRatioAtTick(position.tickUpper),
+    liquidity
+  );
+
+  return { liquidity, amount0: toAmount(tokens.token0, amount0), amount1: toAmount(tokens.token1, amount1) };
+}
+
+/**
+ * Add to an existing position, approvals included
+ */
+export async function buildIncreaseLiquidityPlan(
+  owner: `0x${string}`,
+  request: IncreaseLiquidityRequest
+): Promise<PositionActionPlan> {
+  const { position } = request;
+  const increaseData = encodeFunctionData({
+    abi: POSITION_MANAGER_ABI,
+    functionName: 'increaseLiquidity',
+    args: [{
+      tokenId: position.tokenId,
+      amount0Desired: request.amount0Desired.raw,
+      amount1Desired: request.amount1Desired.raw,
+      amount0Min: applySlippage(request.amount0Desired, request.slippagePercent, 'min').raw,
+      amount1Min: applySlippage(request.amount1Desired, request.slippagePercent, 'min').raw,
+      deadline: deadlineFromNow(request.deadlineMinutes),
+    }],
+  });
+
+  return withDepositApprovals(owner, position.chainId, [
+    { token: position.token0, amount: request.amount0Desired },
+    { token: position.token1, amount: request.amount1Desired },
+  ], increaseData);
+}
+
+/**
+ * Remove liquidity and collect it in the same batch (decreaseLiquidity only credits tokensOwed).
+ * Collect pays out accrued fees too; burnAfter closes the position when all liquidity is removed.
+ */
+export function buildDecreaseLiquidityCalls(
+  position: V3PositionDetails,
+  preview: DecreasePreview,
+  slippagePercent: number,
+  deadlineMinutes: number,
+  recipient: `0x${string}`,
+  burnAfter: boolean = false
+): BatchCall[] {
+  const positionManager = getPositionManagerAddress(position.chainId);
+  if (burnAfter && preview.liquidity !== position.liquidity) {
+    throw new Error('Only a fully withdrawn position can be burned');
+  }
+
+  return [
+    ...(preview.liquidity > BigInt(0) ? [{
+      to: positionManager,
+      data: encodeFunctionData({
+        abi: POSITION_MANAGER_ABI,
+        functionName: 'decreaseLiquidity',
+        args: [{
+          tokenId: position.tokenId,
+          liquidity: preview.liquidity,
+          amount0Min: applySlippage(preview.amount0, slippagePercent, 'min').raw,
+          amount1Min: applySlippage(preview.amount1, slippagePercent, 'min').raw,
+          deadline: deadlineFromNow(deadlineMinutes),
+        }],
+      }),
+    }] : []),
+    { to: positionManager, data: encodeCollectAll(position.tokenId, recipient) },
+    ...(burnAfter ? [{ to: positionManager, data: buildBurnCallData(position.tokenId) }] : []),
+  ];
+}
+
+/**
+ * Collect everything owed to a position without touching its liquidity
+ */
+export function buildCollectCalls(position: V3PositionDetails, recipient: `0x${string}`): BatchCall[] {
+  return [{ to: getPositionManagerAddress(position.chainId), data: encodeCollectAll(position.tokenId, recipient) }];
+}
+
+/**
+ * Burn an empty position NFT; PositionManager reverts unless liquidity and tokensOwed are zero
+ */
+export function buildBurnCallData(tokenId: bigint): `0x${string}` {
+  return encodeFunctionData({ abi: POSITION_MANAGER_ABI, functionName: 'burn', args: [tokenId] });
+}
+
+/**
+ * Wait for a mint and read the new position's id and deposited amounts from IncreaseLiquidity
+ */
+export async function decodeMintResult(transactionHash: `0x${string}`, chainId: number): Promise<MintResult> {
+  const receipt = await getPublicClient(chainId).waitForTransactionReceipt({ hash: transactionHash });
+  const [increase] = parseEventLogs({ abi: POSITION_MANAGER_ABI, eventName: 'IncreaseLiquidity', logs: receipt.logs })
+    .filter(log => log.address.toLowerCase() === getPositionManagerAddress(chainId).toLowerCase());
+
+  return {
+    transactionHash,
+    status: receipt.status,
+    tokenId: increase?.args.tokenId,
+    liquidity: increase?.args.liquidity,
+    amount0: increase?.args.amount0,
+    amount1: increase?.args.amount1,
+  };
+}
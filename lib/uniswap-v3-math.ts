@@ -0,0 +1,361 @@
+/**
+ * Uniswap V3 core math
+ * Exact bigint ports of FullMath, TickMath, SqrtPriceMath and SwapMath from v3-core and
+ * LiquidityAmounts from v3-periphery, rounding the same way the contracts do so local
+ * results match on-chain to the wei
+ */
+
+export const Q96 = BigInt(2) ** BigInt(96);
+export const Q128 = BigInt(2) ** BigInt(128);
+export const MAX_UINT256 = BigInt(2) ** BigInt(256) - BigInt(1);
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = BigInt('4295128739');
+export const MAX_SQRT_RATIO = BigInt('1461446703485210103287273052203988822378723970342');
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const FEE_DENOMINATOR = BigInt(1000000);
+
+/**
+ * floor(a * b / denominator)
+ */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+/**
+ * ceil(a * b / denominator)
+ */
+export function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator > ZERO ? ONE : ZERO);
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > ZERO ? ONE : ZERO);
+}
+
+// TickMath multipliers: 2^128 / sqrt(1.0001)^(2^i) for each bit of |tick|
+const TICK_RATIO_FACTORS: [number, bigint][] = [
+  [0x2, BigInt('0xfff97272373d413259a46990580e213a')],
+  [0x4, BigInt('0xfff2e50f5f656932ef12357cf3c7fdcc')],
+  [0x8, BigInt('0xffe5caca7e10e4e61c3624eaa0941cd0')],
+  [0x10, BigInt('0xffcb9843d60f6159c9db58835c926644')],
+  [0x20, BigInt('0xff973b41fa98c081472e6896dfb254c0')],
+  [0x40, BigInt('0xff2ea16466c96a3843ec78b326b52861')],
+  [0x80, BigInt('0xfe5dee046a99a2a811c461f1969c3053')],
+  [0x100, BigInt('0xfcbe86c7900a88aedcffc83b479aa3a4')],
+  [0x200, BigInt('0xf987a7253ac413176f2b074cf7815e54')],
+  [0x400, BigInt('0xf3392b0822b70005940c7a398e4b70f3')],
+  [0x800, BigInt('0xe7159475a2c29b7443b29c7fa6e889d9')],
+  [0x1000, BigInt('0xd097f3bdfd2022b8845ad8f792aa5825')],
+  [0x2000, BigInt('0xa9f746462d870fdf8a65dc1f90e061e5')],
+  [0x4000, BigInt('0x70d869a156d2a1b890bb3df62baf32f7')],
+  [0x8000, BigInt('0x31be135f97d08fd981231505542fcfa6')],
+  [0x10000, BigInt('0x9aa508b5b7a84e1c677de54f3e99bc9')],
+  [0x20000, BigInt('0x5d6af8dedb81196699c329225ee604')],
+  [0x40000, BigInt('0x2216e584f5fa1ea926041bedfe98')],
+  [0x80000, BigInt('0x48a170391f7dc42444e8fa2')],
+];
+
+/**
+ * sqrt(1.0001^tick) as a Q64.96, TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} is outside [${MIN_TICK}, ${MAX_TICK}]`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1
+    ? BigInt('0xfffcb933bd6fad37aa2d162d1a594001')
+    : BigInt('0x100000000000000000000000000000000');
+
+  for (const [bit, factor] of TICK_RATIO_FACTORS) {
+    if (absTick & bit) {
+      ratio = (ratio * factor) >> BigInt(128);
+    }
+  }
+
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+
+  // Q128.128 → Q64.96, rounded up so getTickAtSqrtRatio stays consistent
+  const remainder = ratio % (ONE << BigInt(32));
+  return (ratio >> BigInt(32)) + (remainder === ZERO ? ZERO : ONE);
+}
+
+function mostSignificantBit(value: bigint): number {
+  return value.toString(2).length - 1;
+}
+
+/**
+ * Greatest tick whose sqrt ratio is <= sqrtPriceX96, TickMath.getTickAtSqrtRatio
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`sqrtPriceX96 ${sqrtPriceX96} is outside the supported range`);
+  }
+
+  const ratio = sqrtPriceX96 << BigInt(32);
+  const msb = mostSignificantBit(ratio);
+  let r = msb >= 128 ? ratio >> BigInt(msb - 127) : ratio << BigInt(127 - msb);
+
+  // log2(ratio) as a signed Q64.64, refined 14 fractional bits deep like the contract
+  let log2 = BigInt(msb - 128) << BigInt(64);
+  for (let bit = 63; bit >= 50; bit--) {
+    r = (r * r) >> BigInt(127);
+    const f = r >> BigInt(128);
+    log2 = log2 | (f << BigInt(bit));
+    r = r >> f;
+  }
+
+  const logSqrt10001 = log2 * BigInt('255738958999603826347141');
+  const tickLow = Number((logSqrt10001 - BigInt('3402992956809132418596140100660247210')) >> BigInt(128));
+  const tickHigh = Number((logSqrt10001 + BigInt('291339464771989622907027621153398088495')) >> BigInt(128));
+
+  if (tickLow === tickHigh) {
+    return tickLow;
+  }
+  return getSqrtRatioAtTick(tickHigh) <= sqrtPriceX96 ? tickHigh : tickLow;
+}
+
+/**
+ * Amount of token0 between two prices for a liquidity, SqrtPriceMath.getAmount0Delta
+ */
+export function getAmount0Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96 ? [sqrtRatioBX96, sqrtRatioAX96] : [sqrtRatioAX96, sqrtRatioBX96];
+  const numerator1 = liquidity << BigInt(96);
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+/**
+ * Amount of token1 between two prices for a liquidity, SqrtPriceMath.getAmount1Delta
+ */
+export function getAmount1Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96 ? [sqrtRatioBX96, sqrtRatioAX96] : [sqrtRatioAX96, sqrtRatioBX96];
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (amount === ZERO) return sqrtPriceX96;
+  const numerator1 = liquidity << BigInt(96);
+  const product = amount * sqrtPriceX96;
+
+  if (add) {
+    // The contract only takes the precise path when neither the product nor the sum overflows uint256
+    if (product <= MAX_UINT256 && numerator1 + product <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + product);
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPriceX96 + amount);
+  }
+
+  if (product > MAX_UINT256 || numerator1 <= product) {
+    throw new Error('Not enough token0 liquidity for the requested output');
+  }
+  return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 - product);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (add) {
+    return sqrtPriceX96 + mulDiv(amount, Q96, liquidity);
+  }
+
+  const quotient = mulDivRoundingUp(amount, Q96, liquidity);
+  if (sqrtPriceX96 <= quotient) {
+    throw new Error('Not enough token1 liquidity for the requested output');
+  }
+  return sqrtPriceX96 - quotient;
+}
+
+/**
+ * Price after adding amountIn of the input token, SqrtPriceMath.getNextSqrtPriceFromInput
+ */
+export function getNextSqrtPriceFromInput(sqrtPriceX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn, true);
+}
+
+/**
+ * Price after removing amountOut of the output token, SqrtPriceMath.getNextSqrtPriceFromOutput
+ */
+export function getNextSqrtPriceFromOutput(sqrtPriceX96: bigint, liquidity: bigint, amountOut: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountOut, false);
+}
+
+export interface SwapStep {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/**
+ * One swap step within a single liquidity range, SwapMath.computeSwapStep.
+ * amountRemaining is positive for exact input and negative for exact output; fee is in pips (3000 = 0.3%).
+ */
+export function computeSwapStep(
+  sqrtPriceCurrentX96: bigint,
+  sqrtPriceTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  fee: number
+): SwapStep {
+  const feePips = BigInt(fee);
+  const zeroForOne = sqrtPriceCurrentX96 >= sqrtPriceTargetX96;
+  const exactIn = amountRemaining >= ZERO;
+
+  let sqrtPriceNextX96: bigint;
+  let amountIn = ZERO;
+  let amountOut = ZERO;
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, true);
+    sqrtPriceNextX96 = amountRemainingLessFee >= amountIn
+      ? sqrtPriceTargetX96
+      : getNextSqrtPriceFromInput(sqrtPriceCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, false);
+    sqrtPriceNextX96 = -amountRemaining >= amountOut
+      ? sqrtPriceTargetX96
+      : getNextSqrtPriceFromOutput(sqrtPriceCurrentX96, liquidity, -amountRemaining, zeroForOne);
+  }
+
+  const max = sqrtPriceTargetX96 === sqrtPriceNextX96;
+
+  if (zeroForOne) {
+    amountIn = max && exactIn ? amountIn : getAmount0Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, true);
+    amountOut = max && !exactIn ? amountOut : getAmount1Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, false);
+  } else {
+    amountIn = max && exactIn ? amountIn : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, true);
+    amountOut = max && !exactIn ? amountOut : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, false);
+  }
+
+  // Never hand out more than was asked for
+  if (!exactIn && amountOut > -amountRemaining) {
+    amountOut = -amountRemaining;
+  }
+
+  const feeAmount = exactIn && sqrtPriceNextX96 !== sqrtPriceTargetX96
+    ? amountRemaining - amountIn // The remainder stays in the pool as fee
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
+
+const sortRatios = (sqrtRatioAX96: bigint, sqrtRatioBX96: bigint): [bigint, bigint] =>
+  sqrtRatioAX96 > sqrtRatioBX96 ? [sqrtRatioBX96, sqrtRatioAX96] : [sqrtRatioAX96, sqrtRatioBX96];
+
+/**
+ * Liquidity bought by amount0 across a price range, LiquidityAmounts.getLiquidityForAmount0
+ */
+export function getLiquidityForAmount0(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, amount0: bigint): bigint {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  return mulDiv(amount0, mulDiv(lower, upper, Q96), upper - lower);
+}
+
+/**
+ * Liquidity bought by amount1 across a price range, LiquidityAmounts.getLiquidityForAmount1
+ */
+export function getLiquidityForAmount1(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, amount1: bigint): bigint {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  return mulDiv(amount1, Q96, upper - lower);
+}
+
+/**
+ * Most liquidity both amounts can fund at the current price, LiquidityAmounts.getLiquidityForAmounts
+ */
+export function getLiquidityForAmounts(
+  sqrtPriceX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint,
+  amount1: bigint
+): bigint {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  if (sqrtPriceX96 <= lower) {
+    return getLiquidityForAmount0(lower, upper, amount0);
+  }
+  if (sqrtPriceX96 < upper) {
+    const liquidity0 = getLiquidityForAmount0(sqrtPriceX96, upper, amount0);
+    const liquidity1 = getLiquidityForAmount1(lower, sqrtPriceX96, amount1);
+    return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  }
+  return getLiquidityForAmount1(lower, upper, amount1);
+}
+
+/**
+ * Token amounts a liquidity represents at the current price. Round up for what the pool
+ * takes on mint, down for what a position is worth or returns on burn.
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean = false
+): { amount0: bigint; amount1: bigint } {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  if (sqrtPriceX96 <= lower) {
+    return { amount0: getAmount0Delta(lower, upper, liquidity, roundUp), amount1: ZERO };
+  }
+  if (sqrtPriceX96 < upper) {
+    return {
+      amount0: getAmount0Delta(sqrtPriceX96, upper, liquidity, roundUp),
+      amount1: getAmount1Delta(lower, sqrtPriceX96, liquidity, roundUp),
+    };
+  }
+  return { amount0: ZERO, amount1: getAmount1Delta(lower, upper, liquidity, roundUp) };
+}
+
+// uint256 arithmetic wraps; fee growth counters rely on it
+const wrapUint256 = (value: bigint): bigint => ((value % (MAX_UINT256 + ONE)) + MAX_UINT256 + ONE) % (MAX_UINT256 + ONE);
+
+/**
+ * Fee growth per unit of liquidity inside a tick range, Tick.getFeeGrowthInside
+ */
+export function getFeeGrowthInside(
+  tickCurrent: number,
+  tickLower: number,
+  tickUpper: number,
+  feeGrowthGlobalX128: bigint,
+  feeGrowthOutsideLowerX128: bigint,
+  feeGrowthOutsideUpperX128: bigint
+): bigint {
+  const feeGrowthBelow = tickCurrent >= tickLower
+    ? feeGrowthOutsideLowerX128
+    : wrapUint256(feeGrowthGlobalX128 - feeGrowthOutsideLowerX128);
+  const feeGrowthAbove = tickCurrent < tickUpper
+    ? feeGrowthOutsideUpperX128
+    : wrapUint256(feeGrowthGlobalX128 - feeGrowthOutsideUpperX128);
+  return wrapUint256(feeGrowthGlobalX128 - feeGrowthBelow - feeGrowthAbove);
+}
+
+/**
+ * Fees a position could collect now: tokensOwed plus what accrued since its last update, as in Position.update
+ */
+export function getUncollectedFees(
+  liquidity: bigint,
+  feeGrowthInsideX128: bigint,
+  feeGrowthInsideLastX128: bigint,
+  tokensOwed: bigint
+): bigint {
+  return tokensOwed + mulDiv(wrapUint256(feeGrowthInsideX128 - feeGrowthInsideLastX128), liquidity, Q128);
+}
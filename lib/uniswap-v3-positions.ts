@@ -0,0 +1,212 @@
+/**
+ * On-chain V3 positions
+ * Enumerates an owner's NonfungiblePositionManager NFTs and values each one from chain
+ * state alone: principal from liquidity and range, uncollected fees from fee growth
+ */
+
+import { parseAbi } from 'viem';
+import { getPublicClient } from './rpc';
+import { getTokenByAddress } from './chains';
+import { AmountToken, TokenAmount, amountToNumber, toAmount } from './amounts';
+import { PricedToken, PriceSource, defaultPriceSource, getPriceKey } from './valuation';
+import { POOL_TICKS_ABI } from './uniswap-v3-simulator';
+import { tickToPrice, sqrtPriceX96ToPrice } from './uniswap-v3-utils';
+import {
+  V3PoolPriceState,
+  V3PositionDetails,
+  getPoolPriceState,
+  getPoolToken,
+  getPositionDetails,
+  getPositionManagerAddress,
+} from './uniswap-v3-liquidity';
+import { getAmountsForLiquidity, getFeeGrowthInside, getSqrtRatioAtTick, getUncollectedFees } from './uniswap-v3-math';
+
+const POSITION_ENUMERATION_ABI = parseAbi([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+]);
+
+const POOL_FEE_GROWTH_ABI = parseAbi([
+  'function feeGrowthGlobal0X128() view returns (uint256)',
+  'function feeGrowthGlobal1X128() view returns (uint256)',
+]);
+
+export interface V3PositionValue {
+  tokenId: bigint;
+  position: V3PositionDetails;
+  pool: V3PoolPriceState;
+  token0: AmountToken;
+  token1: AmountToken;
+  amount0: TokenAmount; // Principal at the current price
+  amount1: TokenAmount;
+  uncollectedFees0: TokenAmount; // tokensOwed plus fees accrued since the last update
+  uncollectedFees1: TokenAmount;
+  inRange: boolean;
+  priceLower: number; // token1 per token0
+  priceUpper: number;
+  currentPrice: number;
+  usdValue?: number; // Principal; undefined when either token is unpriced
+  feesUsd?: number;
+}
+
+export interface OnChainV3Portfolio {
+  positions: V3PositionValue[];
+  totalUsd: number; // Priced positions only
+  totalFeesUsd: number;
+  unpricedTokens: string[]; // Symbols that kept a position out of the totals
+  valuedAt: Date;
+}
+
+/**
+ * Position NFT ids held by an owner; the per-index lookups go out as one Multicall3 request
+ */
+export async function getOwnedPositionIds(owner: `0x${string}`, chainId: number = 11155111): Promise<bigint[]> {
+  const client = getPublicClient(chainId);
+  const positionManager = getPositionManagerAddress(chainId);
+
+  const count = await client.readContract({
+    address: positionManager,
+    abi: POSITION_ENUMERATION_ABI,
+    functionName: 'balanceOf',
+    args: [owner],
+  });
+  if (count === BigInt(0)) return [];
+
+  return client.multicall({
+    contracts: Array.from({ length: Number(count) }, (_, index) => ({
+      address: positionManager,
+      abi: POSITION_ENUMERATION_ABI,
+      functionName: 'tokenOfOwnerByIndex' as const,
+      args: [owner, BigInt(index)] as const,
+    })),
+    allowFailure: false,
+  });
+}
+
+/**
+ * Principal and uncollected fees of one position, from its pool's fee growth counters
+ */
+export async function readPositionValue(tokenId: bigint, chainId: number = 11155111): Promise<V3PositionValue> {
+  try {
+    const client = getPublicClient(chainId);
+    const position = await getPositionDetails(chainId, tokenId);
+    const [pool, feeGrowthGlobal0X128, feeGrowthGlobal1X128, lowerTick, upperTick] = await Promise.all([
+      getPoolPriceState(chainId, position.poolAddress),
+      client.readContract({ address: position.poolAddress, abi: POOL_FEE_GROWTH_ABI, functionName: 'feeGrowthGlobal0X128' }),
+      client.readContract({ address: position.poolAddress, abi: POOL_FEE_GROWTH_ABI, functionName: 'feeGrowthGlobal1X128' }),
+      client.readContract({ address: position.poolAddress, abi: POOL_TICKS_ABI, functionName: 'ticks', args: [position.tickLower] }),
+      client.readContract({ address: position.poolAddress, abi: POOL_TICKS_ABI, functionName: 'ticks', args: [position.tickUpper] }),
+    ]);
+
+    const token0 = getPoolToken(chainId, position.token0);
+    const token1 = getPoolToken(chainId, position.token1);
+
+    const { amount0, amount1 } = getAmountsForLiquidity(
+      pool.sqrtPriceX96,
+      getSqrtRatioAtTick(position.tickLower),
+      getSqrtRatioAtTick(position.tickUpper),
+      position.liquidity
+    );
+
+    // ticks() outputs: [liquidityGross, liquidityNet, feeGrowthOutside0X128, feeGrowthOutside1X128, ...]
+    const feeGrowthInside0X128 = getFeeGrowthInside(
+      pool.tick, position.tickLower, position.tickUpper, feeGrowthGlobal0X128, lowerTick[2], upperTick[2]
+    );
+    const feeGrowthInside1X128 = getFeeGrowthInside(
+      pool.tick, position.tickLower, position.tickUpper, feeGrowthGlobal1X128, lowerTick[3], upperTick[3]
+    );
+
+    return {
+      tokenId,
+      position,
+      pool,
+      token0,
+      token1,
+      amount0: toAmount(token0, amount0),
+      amount1: toAmount(token1, amount1),
+      uncollectedFees0: toAmount(token0, getUncollectedFees(
+        position.liquidity, feeGrowthInside0X128, position.feeGrowthInside0LastX128, position.tokensOwed0
+      )),
+      uncollectedFees1: toAmount(token1, getUncollectedFees(
+        position.liquidity, feeGrowthInside1X128, position.feeGrowthInside1LastX128, position.tokensOwed1
+      )),
+      inRange: pool.tick >= position.tickLower && pool.tick < position.tickUpper,
+      priceLower: tickToPrice(position.tickLower, token0.decimals, token1.decimals),
+      priceUpper: tickToPrice(position.tickUpper, token0.decimals, token1.decimals),
+      currentPrice: sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals),
+    };
+  } catch (error) {
+    throw new Error(`Failed to read position ${tokenId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Price oracle key and lookup hints for a pool token
+ */
+export const toPricedToken = (token: AmountToken, chainId: number): PricedToken => ({
+  key: getPriceKey(chainId, token.address),
+  chainId,
+  symbol: token.symbol,
+  address: token.address,
+  coingeckoId: token.address ? getTokenByAddress(chainId, token.address)?.coingeckoId : undefined,
+});
+
+/**
+ * Every position an owner holds, valued in USD with the portfolio price source. Closed
+ * positions (no liquidity, nothing to collect) are skipped unless includeClosed is set.
+ */
+export async function getOnChainV3Portfolio(
+  owner: `0x${string}`,
+  chainId: number = 11155111,
+  priceSource: PriceSource = defaultPriceSource,
+  includeClosed: boolean = false
+): Promise<OnChainV3Portfolio> {
+  const tokenIds = await getOwnedPositionIds(owner, chainId);
+  const results = await Promise.allSettled(tokenIds.map(tokenId => readPositionValue(tokenId, chainId)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`⚠️ Skipping position ${tokenIds[index]}:`, result.reason);
+    }
+  });
+
+  const positions = results
+    .flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+    .filter(value => includeClosed || value.position.liquidity > BigInt(0) ||
+      value.uncollectedFees0.raw > BigInt(0) || value.uncollectedFees1.raw > BigInt(0));
+
+  const tokens = new Map<string, PricedToken>();
+  positions.forEach(value => [value.token0, value.token1].forEach(token => {
+    const priced = toPricedToken(token, chainId);
+    tokens.set(priced.key, priced);
+  }));
+  const prices = tokens.size > 0 ? await priceSource.getUsdPrices(Array.from(tokens.values())) : {};
+
+  const usdOf = (amount: TokenAmount): number | undefined => {
+    const quote = prices[getPriceKey(chainId, amount.token.address)];
+    return quote ? amountToNumber(amount) * quote.usdPrice : undefined;
+  };
+  const sumUsd = (a: TokenAmount, b: TokenAmount): number | undefined => {
+    const [usdA, usdB] = [usdOf(a), usdOf(b)];
+    return usdA !== undefined && usdB !== undefined ? usdA + usdB : undefined;
+  };
+
+  const valued = positions.map(value => ({
+    ...value,
+    usdValue: sumUsd(value.amount0, value.amount1),
+    feesUsd: sumUsd(value.uncollectedFees0, value.uncollectedFees1),
+  }));
+
+  const unpricedTokens = Array.from(tokens.values())
+    .filter(token => !prices[token.key])
+    .map(token => token.symbol);
+
+  console.log(`✅ Read ${valued.length} V3 positions on-chain for ${owner}`);
+
+  return {
+    positions: valued,
+    totalUsd: valued.reduce((total, value) => total + (value.usdValue ?? 0), 0),
+    totalFeesUsd: valued.reduce((total, value) => total + (value.feesUsd ?? 0), 0),
+    unpricedTokens,
+    valuedAt: new Date(),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * V3 range (limit) orders
+ * A one-tickSpacing-wide position entirely on one side of the price holds only the token being
+ * sold; as the price crosses it the pool converts it into the other token, earning the swap fee
+ * on the way. Once crossed the order is filled and has to be withdrawn, or a move back converts it again.
+ */
+
+import { AmountToken, TokenAmount, toAmount } from './amounts';
+import { BatchCall } from './swap-execution';
+import { sqrtPriceX96ToPrice, tickToPrice } from './uniswap-v3-utils';
+import {
+  MintPlan,
+  MintPreview,
+  SnappedRange,
+  V3PoolPriceState,
+  V3PositionDetails,
+  buildDecreaseLiquidityCalls,
+  buildMintPlan,
+  getPoolPriceState,
+  getPoolToken,
+  getPositionDetails,
+  previewDecrease,
+  previewMint,
+  priceToTick,
+} from './uniswap-v3-liquidity';
+import { getAmount0Delta, getAmount1Delta, getAmountsForLiquidity, getSqrtRatioAtTick } from './uniswap-v3-math';
+
+const RANGE_ORDERS_STORAGE_KEY = 'convexo-range-orders';
+
+export type RangeOrderState = 'open' | 'partial' | 'filled' | 'closed';
+
+export interface RangeOrderPlacement {
+  pool: V3PoolPriceState;
+  sellToken0: boolean;
+  amountIn: TokenAmount;
+  targetRate: number; // Buy token per sell token
+  range: SnappedRange;
+  worstRate: number; // Rate at the range bound crossed first, never below the target
+  averageRate: number; // Rate a full fill executes at, before the fees earned on top
+  preview: MintPreview;
+  expectedOut: TokenAmount; // Held once fully crossed
+}
+
+export interface RangeOrderStatus {
+  tokenId: bigint;
+  state: RangeOrderState;
+  filledPercent: number;
+  remainingIn: TokenAmount;
+  receivedOut: TokenAmount; // Principal only; fees come with the withdrawal
+  currentRate: number; // Buy token per sell token at the pool price
+  checkedAt: Date;
+}
+
+export interface StoredRangeOrder {
+  tokenId: string;
+  chainId: number;
+  owner: string;
+  poolAddress: string;
+  sellToken: string;
+  buyToken: string;
+  amountIn: string; // Raw units of the sell token
+  targetRate: number;
+  tickLower: number;
+  tickUpper: number;
+  autoWithdraw: boolean;
+  createdAt: string;
+  withdrawnAt?: string;
+  withdrawTransactionHash?: string;
+}
+
+/**
+ * Buy token per sell token for a pool price (token1 per token0)
+ */
+export function poolPriceToRate(poolPrice: number, sellToken0: boolean): number {
+  return sellToken0 ? poolPrice : 1 / poolPrice;
+}
+
+/**
+ * Place an order one tick spacing wide just past the target rate, so every part of it fills at the
+ * target or better. Selling token0 needs a range above the price, selling token1 one below it.
+ */
+export function planRangeOrder(
+  pool: V3PoolPriceState,
+  amountIn: TokenAmount,
+  targetRate: number,
+  tokens: { token0: AmountToken; token1: AmountToken }
+): RangeOrderPlacement {
+  if (!(targetRate > 0) || !Number.isFinite(targetRate)) {
+    throw new Error(`Invalid target rate: ${targetRate}`);
+  }
+
+  const { token0, token1 } = tokens;
+  const sellToken0 = amountIn.token.address?.toLowerCase() === pool.token0.toLowerCase();
+  const spacing = pool.tickSpacing;
+  const targetPrice = sellToken0 ? targetRate : 1 / targetRate;
+  const targetTick = priceToTick(targetPrice, token0.decimals, token1.decimals);
+
+  let range: SnappedRange;
+  if (sellToken0) {
+    let tickLower = Math.ceil(targetTick / spacing) * spacing;
+    if (tickToPrice(tickLower, token0.decimals, token1.decimals) < targetPrice) tickLower += spacing;
+    if (tickLower <= pool.tick) {
+      throw new Error('The target rate is already reached; swap instead');
+    }
+    range = { tickLower, tickUpper: tickLower + spacing };
+  } else {
+    const tickUpper = Math.floor(targetTick / spacing) * spacing;
+    if (tickUpper > pool.tick) {
+      throw new Error('The target rate is already reached; swap instead');
+    }
+    range = { tickLower: tickUpper - spacing, tickUpper };
+  }
+
+  const preview = previewMint(pool, range, amountIn, tokens);
+  const sqrtLower = getSqrtRatioAtTick(range.tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(range.tickUpper);
+  const priceLower = tickToPrice(range.tickLower, token0.decimals, token1.decimals);
+  const priceUpper = tickToPrice(range.tickUpper, token0.decimals, token1.decimals);
+
+  return {
+    pool,
+    sellToken0,
+    amountIn,
+    targetRate,
+    range,
+    worstRate: poolPriceToRate(sellToken0 ? priceLower : priceUpper, sellToken0),
+    // A full cross of a range trades at the geometric mean of its bounds
+    averageRate: poolPriceToRate(Math.sqrt(priceLower * priceUpper), sellToken0),
+    preview,
+    expectedOut: sellToken0
+      ? toAmount(token1, getAmount1Delta(sqrtLower, sqrtUpper, preview.liquidity, false))
+      : toAmount(token0, getAmount0Delta(sqrtLower, sqrtUpper, preview.liquidity, false)),
+  };
+}
+
+/**
+ * Calls for one batched user operation minting the order: approval of the sold token and the mint
+ */
+export async function buildRangeOrderPlan(
+  owner: `0x${string}`,
+  placement: RangeOrderPlacement,
+  slippagePercent: number,
+  deadlineMinutes: number
+): Promise<MintPlan> {
+  return buildMintPlan(owner, {
+    pool: placement.pool,
+    range: placement.range,
+    amount0Desired: placement.preview.amount0,
+    amount1Desired: placement.preview.amount1,
+    slippagePercent,
+    deadlineMinutes,
+    recipient: owner,
+  });
+}
+
+/**
+ * Fill state of an order at the pool's current price, from what its liquidity holds now
+ */
+export function getRangeOrderStatus(
+  position: V3PositionDetails,
+  pool: V3PoolPriceState,
+  sellToken0: boolean,
+  tokens: { token0: AmountToken; token1: AmountToken }
+): RangeOrderStatus {
+  const sqrtLower = getSqrtRatioAtTick(position.tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(position.tickUpper);
+  const { amount0, amount1 } = getAmountsForLiquidity(pool.sqrtPriceX96, sqrtLower, sqrtUpper, position.liquidity);
+  const initialIn = sellToken0
+    ? getAmount0Delta(sqrtLower, sqrtUpper, position.liquidity, false)
+    : getAmount1Delta(sqrtLower, sqrtUpper, position.liquidity, false);
+  const remainingIn = sellToken0 ? amount0 : amount1;
+
+  let state: RangeOrderState;
+  if (position.liquidity === BigInt(0)) {
+    state = 'closed';
+  } else if (remainingIn === BigInt(0)) {
+    state = 'filled';
+  } else if (remainingIn >= initialIn) {
+    state = 'open';
+  } else {
+    state = 'partial';
+  }
+
+  const [tokenIn, tokenOut] = sellToken0 ? [tokens.token0, tokens.token1] : [tokens.token1, tokens.token0];
+  return {
+    tokenId: position.tokenId,
+    state,
+    filledPercent: initialIn > BigInt(0) ? Number((initialIn - remainingIn) * BigInt(10000) / initialIn) / 100 : 0,
+    remainingIn: toAmount(tokenIn, remainingIn),
+    receivedOut: toAmount(tokenOut, sellToken0 ? amount1 : amount0),
+    currentRate: poolPriceToRate(sqrtPriceX96ToPrice(pool.sqrtPriceX96, tokens.token0.decimals, tokens.token1.decimals), sellToken0),
+    checkedAt: new Date(),
+  };
+}
+
+/**
+ * Read a stored order's position and pool and work out how far it has filled
+ */
+export async function readRangeOrderStatus(order: StoredRangeOrder): Promise<RangeOrderStatus> {
+  try {
+    const position = await getPositionDetails(order.chainId, BigInt(order.tokenId));
+    const pool = await getPoolPriceState(order.chainId, position.poolAddress);
+    const tokens = { token0: getPoolToken(order.chainId, position.token0), token1: getPoolToken(order.chainId, position.token1) };
+    return getRangeOrderStatus(position, pool, order.sellToken.toLowerCase() === position.token0.toLowerCase(), tokens);
+  } catch (error) {
+    throw new Error(`Failed to read range order ${order.tokenId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Calls withdrawing an order in any state: everything it holds plus fees, then the NFT is burned.
+ * Before a fill this cancels the order.
+ */
+export async function buildRangeOrderWithdrawCalls(
+  order: StoredRangeOrder,
+  slippagePercent: number,
+  deadlineMinutes: number,
+  recipient: `0x${string}`
+): Promise<BatchCall[]> {
+  const position = await getPositionDetails(order.chainId, BigInt(order.tokenId));
+  const pool = await getPoolPriceState(order.chainId, position.poolAddress);
+  const tokens = { token0: getPoolToken(order.chainId, position.token0), token1: getPoolToken(order.chainId, position.token1) };
+
+  return buildDecreaseLiquidityCalls(
+    position,
+    previewDecrease(pool, position, 100, tokens),
+    slippagePercent,
+    deadlineMinutes,
+    recipient,
+    true
+  );
+}
+
+/**
+ * Load every stored range order from localStorage (empty outside the browser)
+ */
+export function loadRangeOrders(): StoredRangeOrder[] {
+  if (typeof window === 'undefined') return [];
+
+  const saved = localStorage.getItem(RANGE_ORDERS_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return JSON.parse(saved) as StoredRangeOrder[];
+  } catch (error) {
+    console.error('Error loading range orders:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the range order list to localStorage
+ */
+export function saveRangeOrders(orders: StoredRangeOrder[]): void {
+  localStorage.setItem(RANGE_ORDERS_STORAGE_KEY, JSON.stringify(orders));
+}
+
+/**
+ * Store a placed order. Returns the updated list so React state can follow storage.
+ */
+export function addRangeOrder(order: StoredRangeOrder): StoredRangeOrder[] {
+  const updatedOrders = [...loadRangeOrders().filter(existing => existing.tokenId !== order.tokenId), order];
+  saveRangeOrders(updatedOrders);
+  return updatedOrders;
+}
+
+/**
+ * Update one stored order
+ */
+export function updateRangeOrder(tokenId: string, changes: Partial<StoredRangeOrder>): StoredRangeOrder[] {
+  const updatedOrders = loadRangeOrders().map(order => (order.tokenId === tokenId ? { ...order, ...changes } : order));
+  saveRangeOrders(updatedOrders);
+  return updatedOrders;
+}
+
+/**
+ * Forget a stored order; the position itself is untouched
+ */
+export function removeRangeOrder(tokenId: string): StoredRangeOrder[] {
+  const updatedOrders = loadRangeOrders().filter(order => order.tokenId !== tokenId);
+  saveRangeOrders(updatedOrders);
+  return updatedOrders;
+}
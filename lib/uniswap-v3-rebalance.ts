@@ -0,0 +1,362 @@
+/**
+ * V3 range monitoring and rebalancing
+ * Checks positions against their pool's current tick, raises alerts when a position is out of
+ * range or close to an edge, and proposes moving it into a fresh range around the price as one
+ * batch: decrease + collect + burn, a swap to the new range's ratio, then mint.
+ */
+
+import { AmountToken, TokenAmount, applySlippage, toAmount } from './amounts';
+import { BatchCall, buildSwapExecutionPlan } from './swap-execution';
+import { V3PoolSnapshot, loadPoolSnapshot, simulateSwap } from './uniswap-v3-simulator';
+import { tickToPrice } from './uniswap-v3-utils';
+import { V3PositionValue } from './uniswap-v3-positions';
+import {
+  SnappedRange,
+  V3PoolPriceState,
+  V3PositionDetails,
+  buildDecreaseLiquidityCalls,
+  buildMintPlan,
+  getPoolPriceState,
+  previewDecrease,
+} from './uniswap-v3-liquidity';
+import {
+  MAX_TICK,
+  MIN_TICK,
+  getAmountsForLiquidity,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+  getLiquidityForAmounts,
+  getSqrtRatioAtTick,
+} from './uniswap-v3-math';
+
+// A position is near the edge when the price is within this share of its width from a bound
+export const NEAR_EDGE_PERCENT = 10;
+
+export type RangeStatus = 'in-range' | 'near-edge' | 'out-of-range';
+
+export interface PositionRangeCheck {
+  tokenId: bigint;
+  status: RangeStatus;
+  side?: 'lower' | 'upper'; // Bound the price is at or past; unset when comfortably in range
+  tick: number;
+  tickLower: number;
+  tickUpper: number;
+  edgeDistancePercent: number; // Distance to the nearest bound as a share of the width; negative outside
+  checkedAt: Date;
+}
+
+export interface RangeAlert {
+  tokenId: bigint;
+  severity: 'warning' | 'critical';
+  message: string;
+  check: PositionRangeCheck;
+}
+
+export interface RebalancePreview {
+  tokenId: bigint;
+  pool: V3PoolPriceState; // State the preview was simulated from
+  withdraw0: TokenAmount; // Principal plus uncollected fees, all paid out by collect
+  withdraw1: TokenAmount;
+  swap?: { amountIn: TokenAmount; amountOut: TokenAmount; sqrtPriceX96After: bigint };
+  range: SnappedRange;
+  priceLower: number; // token1 per token0
+  priceUpper: number;
+  liquidity: bigint; // New position, at the simulated post-swap price
+  deposit0: TokenAmount;
+  deposit1: TokenAmount;
+  leftover0: TokenAmount; // Stays in the wallet: rounding plus the slippage margin
+  leftover1: TokenAmount;
+  slippagePercent: number;
+}
+
+export interface RebalancePlan {
+  calls: BatchCall[];
+  preview: RebalancePreview;
+}
+
+/**
+ * Where the pool's tick sits relative to a position's range. The pool treats a position as
+ * active while tickLower <= tick < tickUpper.
+ */
+export function checkPositionRange(
+  position: V3PositionDetails,
+  tick: number,
+  nearEdgePercent: number = NEAR_EDGE_PERCENT
+): PositionRangeCheck {
+  const width = position.tickUpper - position.tickLower;
+  const distanceToLower = tick - position.tickLower;
+  const distanceToUpper = position.tickUpper - tick;
+  const side = distanceToLower <= distanceToUpper ? 'lower' : 'upper';
+  const edgeDistancePercent = Math.min(distanceToLower, distanceToUpper) / width * 100;
+
+  const status: RangeStatus = tick < position.tickLower || tick >= position.tickUpper
+    ? 'out-of-range'
+    : edgeDistancePercent < nearEdgePercent ? 'near-edge' : 'in-range';
+
+  return {
+    tokenId: position.tokenId,
+    status,
+    side: status === 'in-range' ? undefined : side,
+    tick,
+    tickLower: position.tickLower,
+    tickUpper: position.tickUpper,
+    edgeDistancePercent,
+    checkedAt: new Date(),
+  };
+}
+
+/**
+ * Alert for a range check, or undefined while the position is comfortably in range
+ */
+export function getRangeAlert(
+  check: PositionRangeCheck,
+  tokens: { token0: AmountToken; token1: AmountToken }
+): RangeAlert | undefined {
+  if (check.status === 'in-range') return undefined;
+
+  if (check.status === 'out-of-range') {
+    // Below the range a position is all token0, above it all token1
+    const heldToken = check.side === 'lower' ? tokens.token0 : tokens.token1;
+    return {
+      tokenId: check.tokenId,
+      severity: 'critical',
+      message: `Price is ${check.side === 'lower' ? 'below' : 'above'} the range; ` +
+        `position #${check.tokenId} is all ${heldToken.symbol} and earns no fees`,
+      check,
+    };
+  }
+
+  return {
+    tokenId: check.tokenId,
+    severity: 'warning',
+    message: `Price is ${check.edgeDistancePercent.toFixed(1)}% of the range width from the ` +
+      `${check.side} bound of position #${check.tokenId}`,
+    check,
+  };
+}
+
+/**
+ * Check positions against their pools' current ticks, reading each pool once. Positions
+ * without liquidity have nothing at stake and are skipped.
+ */
+export async function checkPositionRanges(
+  positions: V3PositionDetails[],
+  nearEdgePercent: number = NEAR_EDGE_PERCENT
+): Promise<PositionRangeCheck[]> {
+  const active = positions.filter(position => position.liquidity > BigInt(0));
+  const poolKeys = Array.from(new Set(active.map(position => `${position.chainId}:${position.poolAddress}`)));
+  const ticks = new Map(await Promise.all(poolKeys.map(async key => {
+    const [chainId, poolAddress] = key.split(':');
+    const pool = await getPoolPriceState(Number(chainId), poolAddress as `0x${string}`);
+    return [key, pool.tick] as const;
+  })));
+
+  return active.flatMap(position => {
+    const tick = ticks.get(`${position.chainId}:${position.poolAddress}`);
+    return tick === undefined ? [] : [checkPositionRange(position, tick, nearEdgePercent)];
+  });
+}
+
+/**
+ * A range of the given width around the tick, on the pool's tick spacing and containing the tick
+ */
+export function centeredRange(tick: number, widthTicks: number, tickSpacing: number): SnappedRange {
+  const width = Math.max(Math.round(widthTicks / tickSpacing), 1) * tickSpacing;
+  const minUsable = Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+  const maxUsable = Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
+
+  const tickLower = Math.floor(tick / tickSpacing) * tickSpacing - Math.floor(width / tickSpacing / 2) * tickSpacing;
+  return {
+    tickLower: Math.max(tickLower, minUsable),
+    tickUpper: Math.min(tickLower + width, maxUsable),
+  };
+}
+
+/**
+ * The snapshot as it will be once the position's own liquidity is withdrawn earlier in the batch
+ */
+function withoutPosition(snapshot: V3PoolSnapshot, position: V3PositionDetails): V3PoolSnapshot {
+  const liquidityNet = new Map(snapshot.liquidityNet);
+  const adjust = (tick: number, delta: bigint) => {
+    const current = liquidityNet.get(tick);
+    if (current !== undefined) liquidityNet.set(tick, current + delta);
+  };
+  adjust(position.tickLower, -position.liquidity);
+  adjust(position.tickUpper, position.liquidity);
+
+  const active = snapshot.tick >= position.tickLower && snapshot.tick < position.tickUpper;
+  return {
+    ...snapshot,
+    liquidity: active ? snapshot.liquidity - position.liquidity : snapshot.liquidity,
+    liquidityNet,
+  };
+}
+
+/**
+ * Preview moving a position into a range around the current price. The swap that rebalances
+ * the withdrawn tokens to the new range's ratio is found by bisection over local swap
+ * simulations, so its price impact moves the target ratio too.
+ */
+export async function previewRebalance(
+  value: V3PositionValue,
+  slippagePercent: number,
+  widthTicks?: number
+): Promise<RebalancePreview> {
+  const { position, token0, token1 } = value;
+  if (position.liquidity === BigInt(0)) {
+    throw new Error(`Position #${value.tokenId} has no liquidity to rebalance`);
+  }
+
+  const loaded = await loadPoolSnapshot(position.chainId, position.poolAddress);
+  const pool: V3PoolPriceState = {
+    chainId: loaded.chainId,
+    poolAddress: loaded.poolAddress,
+    token0: loaded.token0,
+    token1: loaded.token1,
+    fee: loaded.fee,
+    tickSpacing: loaded.tickSpacing,
+    sqrtPriceX96: loaded.sqrtPriceX96,
+    tick: loaded.tick,
+  };
+  const snapshot = withoutPosition(loaded, position);
+
+  const principal = previewDecrease(pool, position, 100, { token0, token1 });
+  const withdraw0 = toAmount(token0, principal.amount0.raw + value.uncollectedFees0.raw);
+  const withdraw1 = toAmount(token1, principal.amount1.raw + value.uncollectedFees1.raw);
+
+  const range = centeredRange(pool.tick, widthTicks ?? position.tickUpper - position.tickLower, pool.tickSpacing);
+  const sqrtLower = getSqrtRatioAtTick(range.tickLower);
+  const sqrtUpper = getSqrtRatioAtTick(range.tickUpper);
+
+  // Liquidity each side alone could fund at a price; a side the range cannot use funds nothing
+  const liquidityFor = (sqrtPriceX96: bigint, amount0: bigint, amount1: bigint) => ({
+    liquidity0: sqrtPriceX96 < sqrtUpper
+      ? getLiquidityForAmount0(sqrtPriceX96 > sqrtLower ? sqrtPriceX96 : sqrtLower, sqrtUpper, amount0)
+      : BigInt(0),
+    liquidity1: sqrtPriceX96 > sqrtLower
+      ? getLiquidityForAmount1(sqrtLower, sqrtPriceX96 < sqrtUpper ? sqrtPriceX96 : sqrtUpper, amount1)
+      : BigInt(0),
+  });
+
+  const initial = liquidityFor(pool.sqrtPriceX96, withdraw0.raw, withdraw1.raw);
+  const zeroForOne = initial.liquidity0 > initial.liquidity1;
+  const available = zeroForOne ? withdraw0.raw : withdraw1.raw;
+
+  // Smallest input after which the swapped-from side no longer funds more liquidity than the other
+  const tooMuchLeft = (amountIn: bigint): boolean => {
+    if (amountIn === BigInt(0)) {
+      return zeroForOne ? initial.liquidity0 > initial.liquidity1 : initial.liquidity1 > initial.liquidity0;
+    }
+    const swap = simulateSwap(snapshot, zeroForOne, amountIn);
+    const after = zeroForOne
+      ? liquidityFor(swap.sqrtPriceX96After, withdraw0.raw - amountIn, withdraw1.raw + swap.amountOut)
+      : liquidityFor(swap.sqrtPriceX96After, withdraw0.raw + swap.amountOut, withdraw1.raw - amountIn);
+    return zeroForOne ? after.liquidity0 > after.liquidity1 : after.liquidity1 > after.liquidity0;
+  };
+
+  let low = BigInt(0);
+  let high = available;
+  while (low < high) {
+    const middle = (low + high) / BigInt(2);
+    if (tooMuchLeft(middle)) {
+      low = middle + BigInt(1);
+    } else {
+      high = middle;
+    }
+  }
+
+  const simulated = low > BigInt(0) ? simulateSwap(snapshot, zeroForOne, low) : undefined;
+  if (simulated && (simulated.exceedsSnapshot || !simulated.complete)) {
+    throw new Error('The rebalancing swap moves the price past the loaded ticks; the pool is too thin for this size');
+  }
+  const swapped = simulated && simulated.amountOut > BigInt(0) ? simulated : undefined;
+
+  const sqrtPriceAfter = swapped?.sqrtPriceX96After ?? pool.sqrtPriceX96;
+  if (sqrtPriceAfter <= sqrtLower || sqrtPriceAfter >= sqrtUpper) {
+    throw new Error('The rebalancing swap would push the price out of the new range');
+  }
+
+  const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+  const swap = swapped && {
+    amountIn: toAmount(tokenIn, low),
+    amountOut: toAmount(tokenOut, swapped.amountOut),
+    sqrtPriceX96After: swapped.sqrtPriceX96After,
+  };
+  const balance0 = withdraw0.raw + (swap ? (zeroForOne ? -swap.amountIn.raw : swap.amountOut.raw) : BigInt(0));
+  const balance1 = withdraw1.raw + (swap ? (zeroForOne ? swap.amountOut.raw : -swap.amountIn.raw) : BigInt(0));
+
+  // The mint asks for the slippage-bounded amounts, which the batch is guaranteed to have
+  const desired0 = applySlippage(toAmount(token0, balance0), slippagePercent, 'min');
+  const desired1 = applySlippage(toAmount(token1, balance1), slippagePercent, 'min');
+  const liquidity = getLiquidityForAmounts(sqrtPriceAfter, sqrtLower, sqrtUpper, desired0.raw, desired1.raw);
+  const deposit = getAmountsForLiquidity(sqrtPriceAfter, sqrtLower, sqrtUpper, liquidity, true);
+
+  return {
+    tokenId: value.tokenId,
+    pool,
+    withdraw0,
+    withdraw1,
+    swap,
+    range,
+    priceLower: tickToPrice(range.tickLower, token0.decimals, token1.decimals),
+    priceUpper: tickToPrice(range.tickUpper, token0.decimals, token1.decimals),
+    liquidity,
+    deposit0: toAmount(token0, deposit.amount0),
+    deposit1: toAmount(token1, deposit.amount1),
+    leftover0: toAmount(token0, balance0 - deposit.amount0),
+    leftover1: toAmount(token1, balance1 - deposit.amount1),
+    slippagePercent,
+  };
+}
+
+/**
+ * Calls for one batched user operation carrying out a preview: withdraw everything, collect it
+ * with the fees and burn the old NFT, swap to the new ratio, then mint the new range
+ */
+export async function buildRebalancePlan(
+  owner: `0x${string}`,
+  value: V3PositionValue,
+  preview: RebalancePreview,
+  deadlineMinutes: number
+): Promise<RebalancePlan> {
+  const { position, token0, token1 } = value;
+  const { slippagePercent } = preview;
+
+  const withdrawCalls = buildDecreaseLiquidityCalls(
+    position,
+    previewDecrease(preview.pool, position, 100, { token0, token1 }),
+    slippagePercent,
+    deadlineMinutes,
+    owner,
+    true
+  );
+
+  const swapPlan = preview.swap
+    ? await buildSwapExecutionPlan(owner, {
+        tradeType: 'exactInput',
+        fee: preview.pool.fee,
+        quotedAmountIn: preview.swap.amountIn,
+        quotedAmountOut: preview.swap.amountOut,
+        slippagePercent,
+        deadlineMinutes,
+        recipient: owner,
+        chainId: position.chainId,
+      })
+    : undefined;
+
+  const mintPlan = await buildMintPlan(owner, {
+    pool: preview.pool,
+    range: preview.range,
+    amount0Desired: preview.deposit0,
+    amount1Desired: preview.deposit1,
+    slippagePercent,
+    deadlineMinutes,
+    recipient: owner,
+    fundedInBatch: true,
+  });
+
+  console.log(`🧩 Rebalance of position #${value.tokenId}: ${withdrawCalls.length} withdraw, ` +
+    `${swapPlan?.calls.length ?? 0} swap and ${mintPlan.calls.length} mint calls`);
+
+  return { calls: [...withdrawCalls, ...(swapPlan?.calls ?? []), ...mintPlan.calls], preview };
+}
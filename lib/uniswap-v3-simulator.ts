@@ -0,0 +1,355 @@
+/**
+ * Offline V3 swap simulation
+ * Loads a pool's price, active liquidity and initialized ticks once, then replays
+ * UniswapV3Pool.swap locally so quotes need no QuoterV2 round-trip
+ */
+
+import { getPublicClient } from './rpc';
+import { FeeTierQuote, POOL_ABI, TradeType } from './uniswap-v3-utils';
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  computeSwapStep,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+} from './uniswap-v3-math';
+
+// Pool reads beyond slot0/liquidity needed to walk the tick bitmap
+export const POOL_TICKS_ABI = [
+  { name: 'fee', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint24' }] },
+  { name: 'tickSpacing', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'int24' }] },
+  { name: 'token0', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  { name: 'token1', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  {
+    name: 'tickBitmap',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'wordPosition', type: 'int16' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'ticks',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tick', type: 'int24' }],
+    outputs: [
+      { name: 'liquidityGross', type: 'uint128' },
+      { name: 'liquidityNet', type: 'int128' },
+      { name: 'feeGrowthOutside0X128', type: 'uint256' },
+      { name: 'feeGrowthOutside1X128', type: 'uint256' },
+      { name: 'tickCumulativeOutside', type: 'int56' },
+      { name: 'secondsPerLiquidityOutsideX128', type: 'uint160' },
+      { name: 'secondsOutside', type: 'uint32' },
+      { name: 'initialized', type: 'bool' },
+    ],
+  },
+] as const;
+
+// Each bitmap word covers 256 * tickSpacing ticks (15,360 ticks, roughly ±365% price, at 0.3%)
+export const DEFAULT_SNAPSHOT_WORDS_AROUND = 2;
+
+export interface V3PoolSnapshot {
+  chainId: number;
+  poolAddress: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  tickBitmap: Map<number, bigint>; // Only the loaded words; the rest are unknown, not empty
+  liquidityNet: Map<number, bigint>; // Initialized tick → liquidityNet
+  loadedAt: number;
+}
+
+export interface SimulatedSwap {
+  zeroForOne: boolean;
+  amountIn: bigint; // Fee included
+  amountOut: bigint;
+  feeAmount: bigint;
+  sqrtPriceX96Before: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  initializedTicksCrossed: number;
+  complete: boolean; // false when the pool (or the price limit) ran out before the full amount
+  exceedsSnapshot: boolean; // true when the swap walked past the loaded bitmap words; amounts are then unreliable
+}
+
+const wordPosition = (compressed: number) => compressed >> 8;
+const bitPosition = (compressed: number) => ((compressed % 256) + 256) % 256;
+const compressTick = (tick: number, tickSpacing: number) => Math.floor(tick / tickSpacing);
+
+/**
+ * Read a pool's state and the bitmap words within wordsAround of the current tick,
+ * plus liquidityNet for every initialized tick in them
+ */
+export async function loadPoolSnapshot(
+  chainId: number,
+  poolAddress: `0x${string}`,
+  wordsAround: number = DEFAULT_SNAPSHOT_WORDS_AROUND
+): Promise<V3PoolSnapshot> {
+  try {
+    const client = getPublicClient(chainId);
+    const [[sqrtPriceX96, tick], liquidity, fee, tickSpacing, token0, token1] = await Promise.all([
+      client.readContract({ address: poolAddress, abi: POOL_ABI, functionName: 'slot0' }),
+      client.readContract({ address: poolAddress, abi: POOL_ABI, functionName: 'liquidity' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'fee' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'tickSpacing' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'token0' }),
+      client.readContract({ address: poolAddress, abi: POOL_TICKS_ABI, functionName: 'token1' }),
+    ]);
+
+    const currentWord = wordPosition(compressTick(tick, tickSpacing));
+    const minWord = wordPosition(compressTick(MIN_TICK, tickSpacing));
+    const maxWord = wordPosition(compressTick(MAX_TICK, tickSpacing));
+    const words: number[] = [];
+    for (let word = Math.max(currentWord - wordsAround, minWord); word <= Math.min(currentWord + wordsAround, maxWord); word++) {
+      words.push(word);
+    }
+
+    const bitmapWords = await Promise.all(words.map(word => client.readContract({
+      address: poolAddress,
+      abi: POOL_TICKS_ABI,
+      functionName: 'tickBitmap',
+      args: [word],
+    })));
+
+    const tickBitmap = new Map<number, bigint>();
+    const initializedTicks: number[] = [];
+    words.forEach((word, index) => {
+      const bits = bitmapWords[index];
+      tickBitmap.set(word, bits);
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bits >> BigInt(bit)) & BigInt(1)) {
+          initializedTicks.push((word * 256 + bit) * tickSpacing);
+        }
+      }
+    });
+
+    const tickData = await Promise.all(initializedTicks.map(initializedTick => client.readContract({
+      address: poolAddress,
+      abi: POOL_TICKS_ABI,
+      functionName: 'ticks',
+      args: [initializedTick],
+    })));
+
+    const liquidityNet = new Map<number, bigint>();
+    initializedTicks.forEach((initializedTick, index) => liquidityNet.set(initializedTick, tickData[index][1]));
+
+    console.log(`🧮 Loaded V3 pool snapshot ${poolAddress}: ${words.length} bitmap words, ${initializedTicks.length} initialized ticks`);
+
+    return {
+      chainId,
+      poolAddress,
+      token0,
+      token1,
+      fee,
+      tickSpacing,
+      sqrtPriceX96,
+      tick,
+      liquidity,
+      tickBitmap,
+      liquidityNet,
+      loadedAt: Date.now(),
+    };
+  } catch (error) {
+    throw new Error(`Failed to load V3 pool snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord over the loaded words; undefined when the word was not loaded
+ */
+function nextInitializedTickWithinOneWord(
+  snapshot: V3PoolSnapshot,
+  tick: number,
+  lte: boolean
+): { tickNext: number; initialized: boolean } | undefined {
+  const { tickSpacing } = snapshot;
+  const compressed = compressTick(tick, tickSpacing);
+
+  if (lte) {
+    const bits = snapshot.tickBitmap.get(wordPosition(compressed));
+    if (bits === undefined) return undefined;
+    const bitPos = bitPosition(compressed);
+    const masked = bits & ((BigInt(1) << BigInt(bitPos + 1)) - BigInt(1));
+    const initialized = masked !== BigInt(0);
+    const offset = initialized ? bitPos - (masked.toString(2).length - 1) : bitPos;
+    return { tickNext: (compressed - offset) * tickSpacing, initialized };
+  }
+
+  const bits = snapshot.tickBitmap.get(wordPosition(compressed + 1));
+  if (bits === undefined) return undefined;
+  const bitPos = bitPosition(compressed + 1);
+  const masked = (bits >> BigInt(bitPos)) << BigInt(bitPos);
+  const initialized = masked !== BigInt(0);
+  const lowestBit = initialized ? (masked & -masked).toString(2).length - 1 : 255;
+  return { tickNext: (compressed + 1 + (lowestBit - bitPos)) * tickSpacing, initialized };
+}
+
+/**
+ * Replay UniswapV3Pool.swap against a snapshot. amountSpecified is positive for exact input
+ * and negative for exact output, as in the pool; the snapshot itself is not modified.
+ */
+export function simulateSwap(
+  snapshot: V3PoolSnapshot,
+  zeroForOne: boolean,
+  amountSpecified: bigint,
+  sqrtPriceLimitX96?: bigint
+): SimulatedSwap {
+  const zero = BigInt(0);
+  if (amountSpecified === zero) {
+    throw new Error('Swap amount must not be zero');
+  }
+
+  // Same default limits QuoterV2 uses for sqrtPriceLimitX96 = 0
+  const limit = sqrtPriceLimitX96 ?? (zeroForOne ? MIN_SQRT_RATIO + BigInt(1) : MAX_SQRT_RATIO - BigInt(1));
+  const exactInput = amountSpecified > zero;
+
+  let amountRemaining = amountSpecified;
+  let amountCalculated = zero;
+  let feeAmount = zero;
+  let sqrtPriceX96 = snapshot.sqrtPriceX96;
+  let tick = snapshot.tick;
+  let liquidity = snapshot.liquidity;
+  let initializedTicksCrossed = 0;
+  let exceedsSnapshot = false;
+
+  while (amountRemaining !== zero && sqrtPriceX96 !== limit) {
+    const next = nextInitializedTickWithinOneWord(snapshot, tick, zeroForOne);
+    if (!next) {
+      exceedsSnapshot = true;
+      break;
+    }
+
+    const tickNext = Math.min(Math.max(next.tickNext, MIN_TICK), MAX_TICK);
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+    const sqrtPriceTargetX96 = (zeroForOne ? sqrtPriceNextX96 < limit : sqrtPriceNextX96 > limit)
+      ? limit
+      : sqrtPriceNextX96;
+
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    const step = computeSwapStep(sqrtPriceX96, sqrtPriceTargetX96, liquidity, amountRemaining, snapshot.fee);
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+    feeAmount += step.feeAmount;
+
+    if (exactInput) {
+      amountRemaining -= step.amountIn + step.feeAmount;
+      amountCalculated -= step.amountOut;
+    } else {
+      amountRemaining += step.amountOut;
+      amountCalculated += step.amountIn + step.feeAmount;
+    }
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      if (next.initialized) {
+        const net = snapshot.liquidityNet.get(tickNext);
+        if (net === undefined) {
+          exceedsSnapshot = true;
+          break;
+        }
+        liquidity += zeroForOne ? -net : net;
+        initializedTicksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  const amountIn = exactInput ? amountSpecified - amountRemaining : amountCalculated;
+  const amountOut = exactInput ? -amountCalculated : -amountSpecified + amountRemaining;
+
+  return {
+    zeroForOne,
+    amountIn,
+    amountOut,
+    feeAmount,
+    sqrtPriceX96Before: snapshot.sqrtPriceX96,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    initializedTicksCrossed,
+    complete: amountRemaining === zero,
+    exceedsSnapshot,
+  };
+}
+
+/**
+ * Simulate a trade of tokenIn → tokenOut in the snapshot's pool
+ */
+export function simulateTrade(
+  snapshot: V3PoolSnapshot,
+  tokenIn: string,
+  tradeType: TradeType,
+  amount: bigint
+): SimulatedSwap {
+  const zeroForOne = tokenIn.toLowerCase() === snapshot.token0.toLowerCase();
+  return simulateSwap(snapshot, zeroForOne, tradeType === 'exactInput' ? amount : -amount);
+}
+
+export interface SimulatedFeeTierQuote {
+  fee: number;
+  poolAddress: `0x${string}`;
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96Before: bigint;
+  sqrtPriceX96After: bigint;
+  tiers: FeeTierQuote[]; // Same shape as the QuoterV2 comparison
+}
+
+/**
+ * Best fee tier for a trade from local snapshots: largest output for exact input, smallest input
+ * for exact output. Undefined when the best pool cannot be simulated with confidence (the swap
+ * leaves the loaded ticks or cannot be filled), so the caller should fall back to QuoterV2.
+ */
+export function simulateAcrossSnapshots(
+  snapshots: V3PoolSnapshot[],
+  tokenIn: string,
+  tradeType: TradeType,
+  amount: bigint
+): SimulatedFeeTierQuote | undefined {
+  const simulations = snapshots.map(snapshot => {
+    try {
+      return { snapshot, swap: simulateTrade(snapshot, tokenIn, tradeType, amount) };
+    } catch (error) {
+      return { snapshot, error: error instanceof Error ? error.message : 'Simulation failed' };
+    }
+  });
+
+  const usable = simulations.filter(simulation => simulation.swap?.complete && !simulation.swap.exceedsSnapshot);
+  const best = usable.reduce<(typeof usable)[number] | undefined>((current, simulation) => {
+    if (!current?.swap || !simulation.swap) return simulation;
+    return tradeType === 'exactInput'
+      ? simulation.swap.amountOut > current.swap.amountOut ? simulation : current
+      : simulation.swap.amountIn < current.swap.amountIn ? simulation : current;
+  }, undefined);
+
+  // A tier we could not simulate might have been the best one
+  if (!best?.swap || simulations.some(simulation => simulation.swap?.exceedsSnapshot)) {
+    return undefined;
+  }
+
+  const tiers: FeeTierQuote[] = simulations.map(({ snapshot, swap, error }) => ({
+    fee: snapshot.fee,
+    poolAddress: snapshot.poolAddress,
+    ...(swap?.complete
+      ? tradeType === 'exactInput' ? { amountOut: swap.amountOut } : { amountIn: swap.amountIn }
+      : { error: error ?? 'Not enough liquidity' }),
+    initializedTicksCrossed: swap?.initializedTicksCrossed,
+    sqrtPriceX96Before: swap?.sqrtPriceX96Before,
+    sqrtPriceX96After: swap?.sqrtPriceX96After,
+  }));
+
+  return {
+    fee: best.snapshot.fee,
+    poolAddress: best.snapshot.poolAddress,
+    amountIn: best.swap.amountIn,
+    amountOut: best.swap.amountOut,
+    sqrtPriceX96Before: best.swap.sqrtPriceX96Before,
+    sqrtPriceX96After: best.swap.sqrtPriceX96After,
+    tiers,
+  };
+}
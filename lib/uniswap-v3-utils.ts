@@ -1,6 +1,8 @@
 // Uniswap V3 utility functions for real DeFi integration
 
-import { encodeFunctionData, parseUnits, formatUnits } from 'viem';
+import { encodeFunctionData, parseUnits, formatUnits, zeroAddress } from 'viem';
+import { toPoolToken } from './chains';
+import { getPublicClient } from './rpc';
 
 // Uniswap V3 contract addresses on Ethereum Sepolia
 export const UNISWAP_CONTRACTS = {
@@ -10,20 +12,15 @@ export const UNISWAP_CONTRACTS = {
   PositionManager: "0x1238536071E1c677A632429e3655c799b22cDA52"
 };
 
-// Token addresses on Sepolia
+// Token addresses on Sepolia (from the chain token registry)
 export const TOKENS = {
-  USDC: {
-    address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" as `0x${string}`,
-    decimals: 6,
-    symbol: "USDC"
-  },
-  COPE: {
-    address: "0x19ac2612e560b2bbedf88660a2566ef53c0a15a1" as `0x${string}`,
-    decimals: 18,
-    symbol: "COPe"
-  }
+  USDC: toPoolToken(11155111, "USDC"),
+  COPE: toPoolToken(11155111, "COPe")
 };
 
+// Deployed USDC/COPe 0.3% pool on Sepolia
+export const COPE_USDC_POOL_ADDRESS = "0x20f2b3F96f416Fd36ED902Af3E7bBb02430657d3" as `0x${string}`;
+
 // Pool info
 export const POOL_INFO = {
   address: "0x6e3a232aab5dabf359a7702f287752eb3db696f8f917e758dce73ae2a9f60301" as `0x${string}`,
@@ -56,9 +53,9 @@ export const POOL_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "uint128" }]
   }
-];
+] as const;
 
-// SwapRouter ABI (minimal for swapping)
+// SwapRouter02 ABI (minimal for swapping); params carry no deadline, so calls are wrapped in multicall
 export const SWAP_ROUTER_ABI = [
   {
     name: "exactInputSingle",
@@ -73,7 +70,6 @@ export const SWAP_ROUTER_ABI = [
           { name: "tokenOut", type: "address" },
           { name: "fee", type: "uint24" },
           { name: "recipient", type: "address" },
-          { name: "deadline", type: "uint256" },
           { name: "amountIn", type: "uint256" },
           { name: "amountOutMinimum", type: "uint256" },
           { name: "sqrtPriceLimitX96", type: "uint160" }
@@ -81,6 +77,73 @@ export const SWAP_ROUTER_ABI = [
       }
     ],
     outputs: [{ name: "amountOut", type: "uint256" }]
+  },
+  {
+    name: "exactOutputSingle",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "recipient", type: "address" },
+          { name: "amountOut", type: "uint256" },
+          { name: "amountInMaximum", type: "uint256" },
+          { name: "sqrtPriceLimitX96", type: "uint160" }
+        ]
+      }
+    ],
+    outputs: [{ name: "amountIn", type: "uint256" }]
+  },
+  {
+    name: "exactInput",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "path", type: "bytes" },
+          { name: "recipient", type: "address" },
+          { name: "amountIn", type: "uint256" },
+          { name: "amountOutMinimum", type: "uint256" }
+        ]
+      }
+    ],
+    outputs: [{ name: "amountOut", type: "uint256" }]
+  },
+  {
+    name: "exactOutput",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "path", type: "bytes" },
+          { name: "recipient", type: "address" },
+          { name: "amountOut", type: "uint256" },
+          { name: "amountInMaximum", type: "uint256" }
+        ]
+      }
+    ],
+    outputs: [{ name: "amountIn", type: "uint256" }]
+  },
+  {
+    name: "multicall",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      { name: "deadline", type: "uint256" },
+      { name: "data", type: "bytes[]" }
+    ],
+    outputs: [{ name: "results", type: "bytes[]" }]
   }
 ];
 
@@ -97,8 +160,8 @@ export const QUOTER_ABI = [
         components: [
           { name: "tokenIn", type: "address" },
           { name: "tokenOut", type: "address" },
-          { name: "fee", type: "uint24" },
           { name: "amountIn", type: "uint256" },
+          { name: "fee", type: "uint24" },
           { name: "sqrtPriceLimitX96", type: "uint160" }
         ]
       }
@@ -109,8 +172,89 @@ export const QUOTER_ABI = [
       { name: "initializedTicksCrossed", type: "uint32" },
       { name: "gasEstimate", type: "uint256" }
     ]
+  },
+  {
+    name: "quoteExactOutputSingle",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "fee", type: "uint24" },
+          { name: "sqrtPriceLimitX96", type: "uint160" }
+        ]
+      }
+    ],
+    outputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "sqrtPriceX96After", type: "uint160" },
+      { name: "initializedTicksCrossed", type: "uint32" },
+      { name: "gasEstimate", type: "uint256" }
+    ]
   }
-];
+] as const;
+
+// Factory ABI (pool discovery)
+export const FACTORY_ABI = [
+  {
+    name: "getPool",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "tokenA", type: "address" },
+      { name: "tokenB", type: "address" },
+      { name: "fee", type: "uint24" }
+    ],
+    outputs: [{ name: "pool", type: "address" }]
+  }
+] as const;
+
+// Every fee tier the V3 factory enables by default (hundredths of a bip)
+export const V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+export interface V3QuoteContracts {
+  factory: `0x${string}`;
+  quoter: `0x${string}`; // QuoterV2
+}
+
+export type TradeType = 'exactInput' | 'exactOutput';
+
+export interface FeeTierQuote {
+  fee: number;
+  poolAddress?: `0x${string}`; // undefined when the factory has no pool for this tier
+  amountIn?: bigint; // Quoted input for exact-output trades
+  amountOut?: bigint; // Quoted output for exact-input trades; both undefined when the tier could not be quoted
+  gasEstimate?: bigint;
+  initializedTicksCrossed?: number;
+  sqrtPriceX96Before?: bigint; // Pool slot0 when quoted
+  sqrtPriceX96After?: bigint; // Pool price after the quoted trade
+  error?: string;
+}
+
+export interface BestFeeTierQuote {
+  fee: number;
+  poolAddress: `0x${string}`;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  sqrtPriceX96Before: bigint;
+  sqrtPriceX96After: bigint;
+  tiers: FeeTierQuote[]; // Every tier, for comparison
+}
+
+export interface BestExactOutputFeeTierQuote {
+  fee: number;
+  poolAddress: `0x${string}`;
+  amountIn: bigint;
+  gasEstimate: bigint;
+  sqrtPriceX96Before: bigint;
+  sqrtPriceX96After: bigint;
+  tiers: FeeTierQuote[]; // Every tier, for comparison
+}
 
 // ERC20 ABI for approvals
 export const ERC20_ABI = [
@@ -144,47 +288,327 @@ export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, dec
   const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
   const price = sqrtPrice ** 2;
   
-  // Adjust for decimals difference
-  const decimalAdjustment = 10 ** (decimals1 - decimals0);
+  // Raw price is in smallest units; scale to whole tokens
+  const decimalAdjustment = 10 ** (decimals0 - decimals1);
   return price * decimalAdjustment;
 }
 
 /**
- * Get quote for exact input swap
+ * Get price (token1 per token0, decimal-adjusted) for a pool tick
+ */
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+  return Math.pow(1.0001, tick) * 10 ** (decimals0 - decimals1);
+}
+
+export interface PriceImpactBreakdown {
+  midPrice: number; // tokenOut per tokenIn before the trade
+  executionPrice: number; // tokenOut per tokenIn actually received
+  priceAfter: number; // tokenOut per tokenIn left in the pool after the trade
+  feePercent: number; // LP fee taken from the input
+  priceImpactPercent: number; // Execution price below mid price, excluding the fee
+  totalCostPercent: number; // Execution price below mid price, fee included
+  poolPriceMovePercent: number; // How far the trade pushes the pool price
+}
+
+export interface PriceImpactParams {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  decimalsIn: number;
+  decimalsOut: number;
+  fee: number;
+  sqrtPriceX96Before: bigint;
+  sqrtPriceX96After: bigint;
+}
+
+/**
+ * Price impact of a single-pool trade from the pre-trade slot0 price and QuoterV2's sqrtPriceX96After.
+ * The gap between mid and execution price is split into the LP fee and the impact of moving along the curve.
+ */
+export function computePriceImpact(params: PriceImpactParams): PriceImpactBreakdown {
+  const zeroForOne = BigInt(params.tokenIn) < BigInt(params.tokenOut);
+  const [decimals0, decimals1] = zeroForOne
+    ? [params.decimalsIn, params.decimalsOut]
+    : [params.decimalsOut, params.decimalsIn];
+
+  // Pool prices are token1 per token0; express them as tokenOut per tokenIn
+  const toOutPerIn = (sqrtPriceX96: bigint) => {
+    const price = sqrtPriceX96ToPrice(sqrtPriceX96, decimals0, decimals1);
+    return zeroForOne ? price : 1 / price;
+  };
+
+  const midPrice = toOutPerIn(params.sqrtPriceX96Before);
+  const priceAfter = toOutPerIn(params.sqrtPriceX96After);
+  const executionPrice = Number(formatUnits(params.amountOut, params.decimalsOut)) /
+    Number(formatUnits(params.amountIn, params.decimalsIn));
+
+  const feePercent = params.fee / 10000;
+  const totalCostPercent = (midPrice - executionPrice) / midPrice * 100;
+
+  return {
+    midPrice,
+    executionPrice,
+    priceAfter,
+    feePercent,
+    priceImpactPercent: Math.max(totalCostPercent - feePercent, 0),
+    totalCostPercent,
+    poolPriceMovePercent: Math.abs(midPrice - priceAfter) / midPrice * 100,
+  };
+}
+
+/**
+ * Find the pool for each fee tier of a pair through the factory
+ */
+export async function findPoolsAcrossFeeTiers(
+  tokenA: string,
+  tokenB: string,
+  chainId: number = 11155111,
+  factory: `0x${string}` = UNISWAP_CONTRACTS.Factory as `0x${string}`
+): Promise<{ fee: number; poolAddress?: `0x${string}` }[]> {
+  const client = getPublicClient(chainId);
+  return Promise.all(V3_FEE_TIERS.map(async fee => {
+    const poolAddress = await client.readContract({
+      address: factory,
+      abi: FACTORY_ABI,
+      functionName: "getPool",
+      args: [tokenA as `0x${string}`, tokenB as `0x${string}`, fee]
+    });
+    return { fee, poolAddress: poolAddress === zeroAddress ? undefined : poolAddress };
+  }));
+}
+
+/**
+ * Quote an exact-input swap in every fee tier with QuoterV2 and pick the largest output.
+ * Tiers without a pool or whose quote reverts (e.g. no liquidity) are kept in `tiers` with an error.
+ */
+export async function quoteAcrossFeeTiers(
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  chainId: number = 11155111,
+  contracts: V3QuoteContracts = {
+    factory: UNISWAP_CONTRACTS.Factory as `0x${string}`,
+    quoter: UNISWAP_CONTRACTS.QuoterV2 as `0x${string}`,
+  }
+): Promise<BestFeeTierQuote> {
+  const client = getPublicClient(chainId);
+  const pools = await findPoolsAcrossFeeTiers(tokenIn, tokenOut, chainId, contracts.factory);
+
+  const tiers: FeeTierQuote[] = await Promise.all(pools.map(async ({ fee, poolAddress }) => {
+    if (!poolAddress) {
+      return { fee, error: "No pool" };
+    }
+    try {
+      const [[amountOut, sqrtPriceX96After, initializedTicksCrossed, gasEstimate], [sqrtPriceX96Before]] = await Promise.all([
+        client.readContract({
+          address: contracts.quoter,
+          abi: QUOTER_ABI,
+          functionName: "quoteExactInputSingle",
+          args: [{
+            tokenIn: tokenIn as `0x${string}`,
+            tokenOut: tokenOut as `0x${string}`,
+            amountIn,
+            fee,
+            sqrtPriceLimitX96: BigInt(0)
+          }]
+        }),
+        client.readContract({ address: poolAddress, abi: POOL_ABI, functionName: "slot0" }),
+      ]);
+      return { fee, poolAddress, amountOut, gasEstimate, initializedTicksCrossed, sqrtPriceX96Before, sqrtPriceX96After };
+    } catch (error) {
+      return { fee, poolAddress, error: error instanceof Error ? error.message : "Quote failed" };
+    }
+  }));
+
+  const best = tiers.reduce<FeeTierQuote | undefined>((current, tier) =>
+    tier.amountOut !== undefined && (current?.amountOut === undefined || tier.amountOut > current.amountOut)
+      ? tier
+      : current,
+  undefined);
+
+  if (!best?.poolAddress || best.amountOut === undefined) {
+    throw new Error(`No fee tier could quote ${tokenIn} → ${tokenOut}`);
+  }
+
+  console.log(`💱 Best V3 fee tier ${best.fee / 10000}%:`, tiers.map(tier => ({
+    fee: tier.fee,
+    amountOut: tier.amountOut?.toString(),
+    error: tier.error,
+  })));
+
+  return {
+    fee: best.fee,
+    poolAddress: best.poolAddress,
+    amountOut: best.amountOut,
+    gasEstimate: best.gasEstimate ?? BigInt(0),
+    sqrtPriceX96Before: best.sqrtPriceX96Before ?? BigInt(0),
+    sqrtPriceX96After: best.sqrtPriceX96After ?? BigInt(0),
+    tiers,
+  };
+}
+
+/**
+ * Quote an exact-output swap in every fee tier with QuoterV2 and pick the smallest input
+ */
+export async function quoteExactOutputAcrossFeeTiers(
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint,
+  chainId: number = 11155111,
+  contracts: V3QuoteContracts = {
+    factory: UNISWAP_CONTRACTS.Factory as `0x${string}`,
+    quoter: UNISWAP_CONTRACTS.QuoterV2 as `0x${string}`,
+  }
+): Promise<BestExactOutputFeeTierQuote> {
+  const client = getPublicClient(chainId);
+  const pools = await findPoolsAcrossFeeTiers(tokenIn, tokenOut, chainId, contracts.factory);
+
+  const tiers: FeeTierQuote[] = await Promise.all(pools.map(async ({ fee, poolAddress }) => {
+    if (!poolAddress) {
+      return { fee, error: "No pool" };
+    }
+    try {
+      const [[amountIn, sqrtPriceX96After, initializedTicksCrossed, gasEstimate], [sqrtPriceX96Before]] = await Promise.all([
+        client.readContract({
+          address: contracts.quoter,
+          abi: QUOTER_ABI,
+          functionName: "quoteExactOutputSingle",
+          args: [{
+            tokenIn: tokenIn as `0x${string}`,
+            tokenOut: tokenOut as `0x${string}`,
+            amount: amountOut,
+            fee,
+            sqrtPriceLimitX96: BigInt(0)
+          }]
+        }),
+        client.readContract({ address: poolAddress, abi: POOL_ABI, functionName: "slot0" }),
+      ]);
+      return { fee, poolAddress, amountIn, gasEstimate, initializedTicksCrossed, sqrtPriceX96Before, sqrtPriceX96After };
+    } catch (error) {
+      // Reverts when the pool cannot deliver amountOut
+      return { fee, poolAddress, error: error instanceof Error ? error.message : "Quote failed" };
+    }
+  }));
+
+  const best = tiers.reduce<FeeTierQuote | undefined>((current, tier) =>
+    tier.amountIn !== undefined && (current?.amountIn === undefined || tier.amountIn < current.amountIn)
+      ? tier
+      : current,
+  undefined);
+
+  if (!best?.poolAddress || best.amountIn === undefined) {
+    throw new Error(`No fee tier could deliver the requested ${tokenOut} amount`);
+  }
+
+  console.log(`💱 Best V3 fee tier for exact output ${best.fee / 10000}%:`, tiers.map(tier => ({
+    fee: tier.fee,
+    amountIn: tier.amountIn?.toString(),
+    error: tier.error,
+  })));
+
+  return {
+    fee: best.fee,
+    poolAddress: best.poolAddress,
+    amountIn: best.amountIn,
+    gasEstimate: best.gasEstimate ?? BigInt(0),
+    sqrtPriceX96Before: best.sqrtPriceX96Before ?? BigInt(0),
+    sqrtPriceX96After: best.sqrtPriceX96After ?? BigInt(0),
+    tiers,
+  };
+}
+
+/**
+ * Get quote for exact input swap, routed through the best fee tier
  */
 export async function getSwapQuote(
-  client: any,
   tokenIn: string,
   tokenOut: string,
   amountIn: string,
-  decimals: number
-): Promise<{ amountOut: string; priceImpact: number }> {
+  decimals: number,
+  decimalsOut: number = decimals
+): Promise<{
+  amountOut: string;
+  priceImpact: number;
+  priceImpactBreakdown: PriceImpactBreakdown;
+  fee: number;
+  tiers: FeeTierQuote[];
+}> {
   try {
     const amountInBigInt = parseUnits(amountIn, decimals);
-    
-    const result = await client.readContract({
-      address: UNISWAP_CONTRACTS.QuoterV2,
-      abi: QUOTER_ABI,
-      functionName: "quoteExactInputSingle",
-      args: [{
-        tokenIn: tokenIn as `0x${string}`,
-        tokenOut: tokenOut as `0x${string}`,
-        fee: POOL_INFO.fee,
-        amountIn: amountInBigInt,
-        sqrtPriceLimitX96: BigInt(0)
-      }]
-    });
+    const best = await quoteAcrossFeeTiers(tokenIn, tokenOut, amountInBigInt);
 
-    const amountOut = formatUnits(result[0], decimals);
-    const priceImpact = 0; // Calculate if needed
+    const amountOut = formatUnits(best.amountOut, decimalsOut);
+    const priceImpactBreakdown = computePriceImpact({
+      tokenIn,
+      tokenOut,
+      amountIn: amountInBigInt,
+      amountOut: best.amountOut,
+      decimalsIn: decimals,
+      decimalsOut,
+      fee: best.fee,
+      sqrtPriceX96Before: best.sqrtPriceX96Before,
+      sqrtPriceX96After: best.sqrtPriceX96After,
+    });
     
-    return { amountOut, priceImpact };
+    return {
+      amountOut,
+      priceImpact: priceImpactBreakdown.priceImpactPercent,
+      priceImpactBreakdown,
+      fee: best.fee,
+      tiers: best.tiers,
+    };
   } catch (error) {
     console.error("Error getting swap quote:", error);
     throw error;
   }
 }
 
+/**
+ * Get quote for exact output swap ("receive exactly amountOut"), routed through the best fee tier
+ */
+export async function getExactOutputSwapQuote(
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: string,
+  decimalsIn: number,
+  decimalsOut: number
+): Promise<{
+  amountIn: string;
+  priceImpact: number;
+  priceImpactBreakdown: PriceImpactBreakdown;
+  fee: number;
+  tiers: FeeTierQuote[];
+}> {
+  try {
+    const amountOutBigInt = parseUnits(amountOut, decimalsOut);
+    const best = await quoteExactOutputAcrossFeeTiers(tokenIn, tokenOut, amountOutBigInt);
+
+    const priceImpactBreakdown = computePriceImpact({
+      tokenIn,
+      tokenOut,
+      amountIn: best.amountIn,
+      amountOut: amountOutBigInt,
+      decimalsIn,
+      decimalsOut,
+      fee: best.fee,
+      sqrtPriceX96Before: best.sqrtPriceX96Before,
+      sqrtPriceX96After: best.sqrtPriceX96After,
+    });
+
+    return {
+      amountIn: formatUnits(best.amountIn, decimalsIn),
+      priceImpact: priceImpactBreakdown.priceImpactPercent,
+      priceImpactBreakdown,
+      fee: best.fee,
+      tiers: best.tiers,
+    };
+  } catch (error) {
+    console.error("Error getting exact output swap quote:", error);
+    throw error;
+  }
+}
+
 /**
  * Check token allowance
  */
@@ -220,6 +644,18 @@ export function buildApproveCallData(spender: string, amount: bigint): `0x${stri
   });
 }
 
+/**
+ * Wrap router calls in SwapRouter02's multicall so they revert after the deadline
+ */
+function withDeadline(call: `0x${string}`, deadlineSeconds: number): `0x${string}` {
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineSeconds);
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_ABI,
+    functionName: "multicall",
+    args: [deadline, [call]]
+  });
+}
+
 /**
  * Build swap transaction data
  */
@@ -228,24 +664,95 @@ export function buildSwapCallData(
   tokenOut: string,
   recipient: string,
   amountIn: bigint,
-  amountOutMinimum: bigint
+  amountOutMinimum: bigint,
+  fee: number = POOL_INFO.fee,
+  deadlineSeconds: number = 1800 // 30 minutes from now
 ): `0x${string}` {
-  const deadline = BigInt(Math.floor(Date.now() / 1000) + 1800); // 30 minutes from now
-  
-  return encodeFunctionData({
+  return withDeadline(encodeFunctionData({
     abi: SWAP_ROUTER_ABI,
     functionName: "exactInputSingle",
     args: [{
       tokenIn: tokenIn as `0x${string}`,
       tokenOut: tokenOut as `0x${string}`,
-      fee: POOL_INFO.fee,
+      fee,
       recipient: recipient as `0x${string}`,
-      deadline,
       amountIn,
       amountOutMinimum,
       sqrtPriceLimitX96: BigInt(0)
     }]
-  });
+  }), deadlineSeconds);
+}
+
+/**
+ * Build exact-output swap transaction data; spends at most amountInMaximum
+ */
+export function buildExactOutputSwapCallData(
+  tokenIn: string,
+  tokenOut: string,
+  recipient: string,
+  amountOut: bigint,
+  amountInMaximum: bigint,
+  fee: number = POOL_INFO.fee,
+  deadlineSeconds: number = 1800
+): `0x${string}` {
+  return withDeadline(encodeFunctionData({
+    abi: SWAP_ROUTER_ABI,
+    functionName: "exactOutputSingle",
+    args: [{
+      tokenIn: tokenIn as `0x${string}`,
+      tokenOut: tokenOut as `0x${string}`,
+      fee,
+      recipient: recipient as `0x${string}`,
+      amountOut,
+      amountInMaximum,
+      sqrtPriceLimitX96: BigInt(0)
+    }]
+  }), deadlineSeconds);
+}
+
+/**
+ * Build multi-hop swap transaction data for a packed path, input token first
+ */
+export function buildExactInputPathCallData(
+  path: `0x${string}`,
+  recipient: string,
+  amountIn: bigint,
+  amountOutMinimum: bigint,
+  deadlineSeconds: number = 1800
+): `0x${string}` {
+  return withDeadline(encodeFunctionData({
+    abi: SWAP_ROUTER_ABI,
+    functionName: "exactInput",
+    args: [{
+      path,
+      recipient: recipient as `0x${string}`,
+      amountIn,
+      amountOutMinimum
+    }]
+  }), deadlineSeconds);
+}
+
+/**
+ * Build multi-hop exact-output swap transaction data for a packed path, output token first;
+ * spends at most amountInMaximum
+ */
+export function buildExactOutputPathCallData(
+  path: `0x${string}`,
+  recipient: string,
+  amountOut: bigint,
+  amountInMaximum: bigint,
+  deadlineSeconds: number = 1800
+): `0x${string}` {
+  return withDeadline(encodeFunctionData({
+    abi: SWAP_ROUTER_ABI,
+    functionName: "exactOutput",
+    args: [{
+      path,
+      recipient: recipient as `0x${string}`,
+      amountOut,
+      amountInMaximum
+    }]
+  }), deadlineSeconds);
 }
 
 /**
@@ -1,81 +1,102 @@
 // Uniswap V4 utility functions for real DeFi integration
 
-import { encodeFunctionData, parseUnits, formatUnits } from 'viem';
+import {
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodePacked,
+  keccak256,
+  maxUint256,
+  pad,
+  parseAbi,
+  toHex,
+  zeroAddress,
+} from 'viem';
+import { getTokenByAddress, toPoolToken } from './chains';
+import { getPublicClient } from './rpc';
 
-// Uniswap V4 contract addresses on Ethereum Sepolia
+// Uniswap V4 contract addresses on Ethereum Sepolia (official deployment)
 export const UNISWAP_V4_CONTRACTS = {
-  PoolManager: "0x8C4BcBE6b9eF47855f97E675296FA3F6fafa5F1A", // V4 PoolManager on Sepolia
-  // Note: In V4, there's no separate SwapRouter - all interactions go through PoolManager
+  PoolManager: "0xE03A1074c86CFeDd5C142C4F04F1a1536e203543" as `0x${string}`,
+  // Read-only lens over PoolManager storage (slot0, liquidity, fee growth, ticks, positions)
+  StateView: "0xE1Dd9c3fA50EDB962E442f60DfBc432e24537E4C" as `0x${string}`,
+  PositionManager: "0x429ba70129df741B2Ca2a85BC3A2a3328e5c09b4" as `0x${string}`,
+  Quoter: "0x61B3f2011A92d183C7dbaDBdA940a7555Ccf9227" as `0x${string}`,
+  UniversalRouter: "0x3A9D48AB9751398BbFa63ad67599Bb04e4BdF98b" as `0x${string}`,
+  Permit2: "0x000000000022D473030F116dDEE9F6B43aC78BA3" as `0x${string}`,
+  // Note: In V4, there's no separate SwapRouter - the Universal Router drives PoolManager.unlock()
   // Hooks are deployed separately and attached to pools
 };
 
-// Token addresses on Sepolia
+// Native ETH is the zero address in V4's Currency type
+export const NATIVE_CURRENCY = zeroAddress;
+
+// Token addresses on Sepolia (from the chain token registry)
 export const TOKENS = {
-  USDC: {
-    address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" as `0x${string}`,
-    decimals: 6,
-    symbol: "USDC"
-  },
-  COPE: {
-    address: "0x19ac2612e560b2bbedf88660a2566ef53c0a15a1" as `0x${string}`,
-    decimals: 18,
-    symbol: "COPe"
-  }
+  USDC: toPoolToken(11155111, "USDC"),
+  COPE: toPoolToken(11155111, "COPe")
 };
 
-// Your V4 Pool Key information
-export const POOL_KEY = {
-  currency0: TOKENS.USDC.address,
-  currency1: TOKENS.COPE.address,
-  fee: 3000, // 0.3% fee tier
-  tickSpacing: 60, // Standard tick spacing for 0.3% fee
-  hooks: "0x0000000000000000000000000000000000000000" as `0x${string}`, // No hooks or your hook address
-};
+export interface PoolKey {
+  currency0: `0x${string}`; // Lower address; NATIVE_CURRENCY for ETH
+  currency1: `0x${string}`;
+  fee: number; // Hundredths of a bip; 0x800000 marks a dynamic-fee pool
+  tickSpacing: number;
+  hooks: `0x${string}`;
+}
 
-// Uniswap V4 PoolManager ABI (core functions)
-export const POOL_MANAGER_ABI = [
-  {
-    name: "unlock",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "data", type: "bytes" }
-    ],
-    outputs: [{ name: "", type: "bytes" }]
-  },
-  {
-    name: "getSlot0",
-    type: "function",
-    stateMutability: "view",
-    inputs: [
-      { name: "poolId", type: "bytes32" }
-    ],
-    outputs: [
-      { name: "sqrtPriceX96", type: "uint160" },
-      { name: "tick", type: "int24" },
-      { name: "protocolFee", type: "uint24" },
-      { name: "lpFee", type: "uint24" }
-    ]
-  },
-  {
-    name: "getLiquidity",
-    type: "function",
-    stateMutability: "view", 
-    inputs: [
-      { name: "poolId", type: "bytes32" }
-    ],
-    outputs: [{ name: "", type: "uint128" }]
-  },
-  {
-    name: "extsload",
-    type: "function",
-    stateMutability: "view",
-    inputs: [
-      { name: "slot", type: "bytes32" }
-    ],
-    outputs: [{ name: "", type: "bytes32" }]
-  }
-];
+/**
+ * Build a PoolKey with currencies sorted the way PoolManager requires
+ */
+export function createPoolKey(
+  currencyA: string,
+  currencyB: string,
+  fee: number,
+  tickSpacing: number,
+  hooks: string = zeroAddress
+): PoolKey {
+  const [currency0, currency1] = BigInt(currencyA) < BigInt(currencyB)
+    ? [currencyA, currencyB]
+    : [currencyB, currencyA];
+
+  return {
+    currency0: currency0 as `0x${string}`,
+    currency1: currency1 as `0x${string}`,
+    fee,
+    tickSpacing,
+    hooks: hooks as `0x${string}`,
+  };
+}
+
+// Our USDC/COPe liquidity position NFT on the V4 PositionManager
+export const USDC_COPE_V4_POSITION_ID = BigInt(12714);
+
+// Our USDC/COPe V4 pool; its key (fee, tick spacing, hooks) is read from the position above
+export const USDC_COPE_V4_POOL_ID = "0x6e3a232aab5dabf359a7702f287752eb3db696f8f917e758dce73ae2a9f60301" as `0x${string}`;
+
+// Uniswap V4 PoolManager ABI (core functions; pool state is read through StateView)
+export const POOL_MANAGER_ABI = parseAbi([
+  'function unlock(bytes data) returns (bytes)',
+  'function extsload(bytes32 slot) view returns (bytes32)',
+]);
+
+// V4 StateView lens
+export const STATE_VIEW_ABI = parseAbi([
+  'function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)',
+  'function getFeeGrowthGlobals(bytes32 poolId) view returns (uint256 feeGrowthGlobal0, uint256 feeGrowthGlobal1)',
+  'function getFeeGrowthInside(bytes32 poolId, int24 tickLower, int24 tickUpper) view returns (uint256, uint256)',
+  'function getTickInfo(bytes32 poolId, int24 tick) view returns (uint128, int128, uint256, uint256)',
+  'function getPositionInfo(bytes32 poolId, address owner, int24 tickLower, int24 tickUpper, bytes32 salt) view returns (uint128, uint256, uint256)',
+]);
+
+// V4 PositionManager (ERC-721) read functions
+export const V4_POSITION_MANAGER_ABI = parseAbi([
+  'struct PoolKey { address currency0; address currency1; uint24 fee; int24 tickSpacing; address hooks; }',
+  'function getPoolAndPositionInfo(uint256 tokenId) view returns (PoolKey poolKey, uint256 info)',
+  'function getPositionLiquidity(uint256 tokenId) view returns (uint128 liquidity)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+]);
 
 // V4 uses Currency type for both native and ERC20 tokens
 export const CURRENCY_ABI = [
@@ -111,154 +132,504 @@ export const CURRENCY_ABI = [
 ];
 
 /**
- * Generate Pool ID from Pool Key (V4 uses keccak256 of encoded key)
+ * PoolId = keccak256(abi.encode(PoolKey)), matching PoolIdLibrary.toId
  */
-export function getPoolId(poolKey: typeof POOL_KEY): `0x${string}` {
-  // In V4, PoolId is computed as keccak256(abi.encode(poolKey))
-  const encoded = encodeFunctionData({
-    abi: [{
-      name: "poolKey",
-      type: "tuple", 
-      components: [
-        { name: "currency0", type: "address" },
-        { name: "currency1", type: "address" },
-        { name: "fee", type: "uint24" },
-        { name: "tickSpacing", type: "int24" },
-        { name: "hooks", type: "address" }
-      ]
-    }],
-    args: [poolKey]
-  });
-  
-  // This is a simplified version - actual implementation would use proper encoding
-  return `0x${Array.from(new TextEncoder().encode(JSON.stringify(poolKey)))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-    .padEnd(64, '0')
-    .slice(0, 64)}` as `0x${string}`;
+export function getPoolId(poolKey: PoolKey): `0x${string}` {
+  return keccak256(encodeAbiParameters(
+    [
+      { name: 'currency0', type: 'address' },
+      { name: 'currency1', type: 'address' },
+      { name: 'fee', type: 'uint24' },
+      { name: 'tickSpacing', type: 'int24' },
+      { name: 'hooks', type: 'address' },
+    ],
+    [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks]
+  ));
 }
 
 /**
- * Get current pool price from sqrtPriceX96
+ * Get current pool price (currency1 per currency0, decimal-adjusted) from sqrtPriceX96
  */
 export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
   const Q96 = BigInt(2) ** BigInt(96);
   const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
   const price = sqrtPrice ** 2;
   
-  // Adjust for decimals difference
-  const decimalAdjustment = 10 ** (decimals1 - decimals0);
+  // Raw price is in smallest units; scale to whole tokens
+  const decimalAdjustment = 10 ** (decimals0 - decimals1);
   return price * decimalAdjustment;
 }
 
 /**
- * Build unlock callback data for swaps
- * In V4, all operations go through the unlock() function
+ * Decimals of a V4 currency: 18 for native ETH, registry metadata when listed, else read on-chain
  */
-export function buildUnlockCallData(
-  operation: 'swap' | 'addLiquidity' | 'removeLiquidity',
-  params: any
-): `0x${string}` {
-  // This would encode the operation and parameters
-  // For swaps, this includes the swap parameters
-  return encodeFunctionData({
-    abi: [{
-      name: "unlockCallback",
-      type: "function",
-      inputs: [
-        { name: "operation", type: "string" },
-        { name: "params", type: "bytes" }
-      ]
-    }],
-    args: [operation, JSON.stringify(params)]
+export async function getCurrencyDecimals(currency: `0x${string}`, chainId: number = 11155111): Promise<number> {
+  if (currency === NATIVE_CURRENCY) return 18;
+
+  const registryToken = getTokenByAddress(chainId, currency);
+  if (registryToken) return registryToken.decimals;
+
+  return getPublicClient(chainId).readContract({
+    address: currency,
+    abi: parseAbi(['function decimals() view returns (uint8)']),
+    functionName: 'decimals',
   });
 }
 
+const usdcCopePoolKeys = new Map<number, Promise<PoolKey>>();
+
 /**
- * Get pool state (V4 version)
+ * PoolKey of our USDC/COPe pool, as PositionManager stores it for our position.
+ * Rejected unless it hashes to USDC_COPE_V4_POOL_ID; cached per chain once read.
  */
-export async function getV4PoolState(client: any, poolKey: typeof POOL_KEY): Promise<{
-  price: number;
+export function getUsdcCopePoolKey(chainId: number = 11155111): Promise<PoolKey> {
+  const cached = usdcCopePoolKeys.get(chainId);
+  if (cached) return cached;
+
+  const request = getPublicClient(chainId)
+    .readContract({
+      address: UNISWAP_V4_CONTRACTS.PositionManager,
+      abi: V4_POSITION_MANAGER_ABI,
+      functionName: 'getPoolAndPositionInfo',
+      args: [USDC_COPE_V4_POSITION_ID],
+    })
+    .then(([poolKeyResult]) => {
+      const poolKey: PoolKey = { ...poolKeyResult };
+      const poolId = getPoolId(poolKey);
+      if (poolId !== USDC_COPE_V4_POOL_ID) {
+        throw new Error(`Position ${USDC_COPE_V4_POSITION_ID} is in pool ${poolId}, expected ${USDC_COPE_V4_POOL_ID}`);
+      }
+      return poolKey;
+    })
+    .catch(error => {
+      // Let the next call retry instead of caching the failure
+      usdcCopePoolKeys.delete(chainId);
+      throw new Error(`Failed to read the USDC/COPe V4 pool key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+  usdcCopePoolKeys.set(chainId, request);
+  return request;
+}
+
+export interface V4PoolState {
+  poolId: `0x${string}`;
+  poolKey: PoolKey;
+  initialized: boolean; // false when no pool exists for the key
+  sqrtPriceX96: bigint;
   tick: number;
-  liquidity: string;
-  poolId: string;
-}> {
+  price: number; // currency1 per currency0
+  protocolFee: number;
+  lpFee: number; // Current LP fee, which hooks may change for dynamic-fee pools
+  liquidity: bigint;
+  feeGrowthGlobal0X128: bigint;
+  feeGrowthGlobal1X128: bigint;
+}
+
+export interface V4TickInfo {
+  liquidityGross: bigint;
+  liquidityNet: bigint;
+  feeGrowthOutside0X128: bigint;
+  feeGrowthOutside1X128: bigint;
+}
+
+/**
+ * Get pool state (V4 version) through StateView
+ */
+export async function getV4PoolState(poolKeyOverride?: PoolKey, chainId: number = 11155111): Promise<V4PoolState> {
   try {
+    const client = getPublicClient(chainId);
+    const poolKey = poolKeyOverride ?? await getUsdcCopePoolKey(chainId);
     const poolId = getPoolId(poolKey);
-    
-    const [slot0, liquidity] = await Promise.all([
+
+    const [slot0, liquidity, feeGrowthGlobals, decimals0, decimals1] = await Promise.all([
+      client.readContract({ address: UNISWAP_V4_CONTRACTS.StateView, abi: STATE_VIEW_ABI, functionName: 'getSlot0', args: [poolId] }),
+      client.readContract({ address: UNISWAP_V4_CONTRACTS.StateView, abi: STATE_VIEW_ABI, functionName: 'getLiquidity', args: [poolId] }),
       client.readContract({
-        address: UNISWAP_V4_CONTRACTS.PoolManager,
-        abi: POOL_MANAGER_ABI,
-        functionName: "getSlot0",
-        args: [poolId]
+        address: UNISWAP_V4_CONTRACTS.StateView,
+        abi: STATE_VIEW_ABI,
+        functionName: 'getFeeGrowthGlobals',
+        args: [poolId],
       }),
-      client.readContract({
-        address: UNISWAP_V4_CONTRACTS.PoolManager,
-        abi: POOL_MANAGER_ABI, 
-        functionName: "getLiquidity",
-        args: [poolId]
-      })
+      getCurrencyDecimals(poolKey.currency0, chainId),
+      getCurrencyDecimals(poolKey.currency1, chainId),
     ]);
 
-    const price = sqrtPriceX96ToPrice(slot0[0], TOKENS.USDC.decimals, TOKENS.COPE.decimals);
-    
+    const [sqrtPriceX96, tick, protocolFee, lpFee] = slot0;
+
     return {
-      price,
-      tick: slot0[1],
-      liquidity: liquidity.toString(),
-      poolId: poolId
+      poolId,
+      poolKey,
+      // Uninitialized pools have a zero price
+      initialized: sqrtPriceX96 > BigInt(0),
+      sqrtPriceX96,
+      tick,
+      price: sqrtPriceX96 > BigInt(0) ? sqrtPriceX96ToPrice(sqrtPriceX96, decimals0, decimals1) : 0,
+      protocolFee,
+      lpFee,
+      liquidity,
+      feeGrowthGlobal0X128: feeGrowthGlobals[0],
+      feeGrowthGlobal1X128: feeGrowthGlobals[1],
     };
   } catch (error) {
     console.error("Error getting V4 pool state:", error);
-    throw error;
+    throw new Error(`Failed to read V4 pool state: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Simple swap simulation for V4
- * Note: This is a simplified version. Real V4 swaps are more complex.
+ * Get liquidity and fee growth for an initialized tick
  */
-export function simulateV4Swap(
-  amountIn: string,
-  fromToken: typeof TOKENS.USDC,
-  toToken: typeof TOKENS.COPE,
-  currentPrice: number
-): { amountOut: string; priceImpact: number } {
-  
-  const amountInNum = Number(amountIn);
-  
-  // Simple constant product simulation (V4 can be much more complex with hooks)
-  const amountOut = amountInNum * currentPrice * 0.997; // 0.3% fee
-  const priceImpact = 0.01; // Simplified 1% impact
-  
+export async function getV4TickInfo(poolKey: PoolKey, tick: number, chainId: number = 11155111): Promise<V4TickInfo> {
+  const [liquidityGross, liquidityNet, feeGrowthOutside0X128, feeGrowthOutside1X128] = await getPublicClient(chainId).readContract({
+    address: UNISWAP_V4_CONTRACTS.StateView,
+    abi: STATE_VIEW_ABI,
+    functionName: 'getTickInfo',
+    args: [getPoolId(poolKey), tick],
+  });
+  return { liquidityGross, liquidityNet, feeGrowthOutside0X128, feeGrowthOutside1X128 };
+}
+
+export interface V4Position {
+  tokenId: bigint;
+  owner: `0x${string}`;
+  poolKey: PoolKey;
+  poolId: `0x${string}`;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  inRange: boolean;
+  uncollectedFees0: bigint; // Raw currency0 units
+  uncollectedFees1: bigint;
+  pool: V4PoolState;
+}
+
+const Q128 = BigInt(2) ** BigInt(128);
+const UINT256_MAX = BigInt(2) ** BigInt(256) - BigInt(1);
+
+// Sign-extend a 24-bit field from PositionInfo
+const toInt24 = (value: bigint): number => {
+  const masked = Number(value & BigInt(0xffffff));
+  return masked >= 0x800000 ? masked - 0x1000000 : masked;
+};
+
+/**
+ * Read a V4 PositionManager NFT: its pool, range, liquidity and uncollected fees.
+ * PositionInfo packs poolId (200 bits) | tickUpper (24) | tickLower (24) | hasSubscriber (8).
+ */
+export async function getV4Position(tokenId: bigint, chainId: number = 11155111): Promise<V4Position> {
+  try {
+    const client = getPublicClient(chainId);
+    const [[poolKeyResult, info], liquidity, owner] = await Promise.all([
+      client.readContract({
+        address: UNISWAP_V4_CONTRACTS.PositionManager,
+        abi: V4_POSITION_MANAGER_ABI,
+        functionName: 'getPoolAndPositionInfo',
+        args: [tokenId],
+      }),
+      client.readContract({
+        address: UNISWAP_V4_CONTRACTS.PositionManager,
+        abi: V4_POSITION_MANAGER_ABI,
+        functionName: 'getPositionLiquidity',
+        args: [tokenId],
+      }),
+      client.readContract({
+        address: UNISWAP_V4_CONTRACTS.PositionManager,
+        abi: V4_POSITION_MANAGER_ABI,
+        functionName: 'ownerOf',
+        args: [tokenId],
+      }),
+    ]);
+
+    const poolKey: PoolKey = { ...poolKeyResult };
+    const poolId = getPoolId(poolKey);
+    const tickLower = toInt24(info >> BigInt(8));
+    const tickUpper = toInt24(info >> BigInt(32));
+    // PositionManager positions live under its own address with the token id as salt
+    const salt = pad(toHex(tokenId), { size: 32 });
+
+    const [pool, feeGrowthInside, positionInfo] = await Promise.all([
+      getV4PoolState(poolKey, chainId),
+      client.readContract({
+        address: UNISWAP_V4_CONTRACTS.StateView,
+        abi: STATE_VIEW_ABI,
+        functionName: 'getFeeGrowthInside',
+        args: [poolId, tickLower, tickUpper],
+      }),
+      client.readContract({
+        address: UNISWAP_V4_CONTRACTS.StateView,
+        abi: STATE_VIEW_ABI,
+        functionName: 'getPositionInfo',
+        args: [poolId, UNISWAP_V4_CONTRACTS.PositionManager, tickLower, tickUpper, salt],
+      }),
+    ]);
+
+    // Fee growth counters wrap, so subtract modulo 2^256 like the contracts do
+    const [, feeGrowthInside0LastX128, feeGrowthInside1LastX128] = positionInfo;
+    const feesOwed = (current: bigint, last: bigint) =>
+      ((current - last) & UINT256_MAX) * liquidity / Q128;
+
+    return {
+      tokenId,
+      owner,
+      poolKey,
+      poolId,
+      tickLower,
+      tickUpper,
+      liquidity,
+      inRange: pool.tick >= tickLower && pool.tick < tickUpper,
+      uncollectedFees0: feesOwed(feeGrowthInside[0], feeGrowthInside0LastX128),
+      uncollectedFees1: feesOwed(feeGrowthInside[1], feeGrowthInside1LastX128),
+      pool,
+    };
+  } catch (error) {
+    console.error("Error reading V4 position:", error);
+    throw new Error(`Failed to read V4 position ${tokenId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Universal Router command and V4Router action ids (Commands.sol / Actions.sol)
+const V4_SWAP_COMMAND = 0x10;
+export const V4_ACTIONS = {
+  SWAP_EXACT_IN_SINGLE: 0x06,
+  SWAP_EXACT_IN: 0x07,
+  SWAP_EXACT_OUT_SINGLE: 0x08,
+  SWAP_EXACT_OUT: 0x09,
+  SETTLE_ALL: 0x0c,
+  TAKE_ALL: 0x0f,
+} as const;
+
+const POOL_KEY_COMPONENTS = [
+  { name: 'currency0', type: 'address' },
+  { name: 'currency1', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'tickSpacing', type: 'int24' },
+  { name: 'hooks', type: 'address' },
+] as const;
+
+// IV4Router.ExactInputSingleParams
+const EXACT_INPUT_SINGLE_PARAMS = [{
+  type: 'tuple',
+  components: [
+    { name: 'poolKey', type: 'tuple', components: POOL_KEY_COMPONENTS },
+    { name: 'zeroForOne', type: 'bool' },
+    { name: 'amountIn', type: 'uint128' },
+    { name: 'amountOutMinimum', type: 'uint128' },
+    { name: 'hookData', type: 'bytes' },
+  ],
+}] as const;
+
+// Quoter functions revert internally and are only meant for eth_call, so they are typed as view here
+export const V4_QUOTER_ABI = [
+  {
+    name: 'quoteExactInputSingle',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{
+      name: 'params',
+      type: 'tuple',
+      components: [
+        { name: 'poolKey', type: 'tuple', components: POOL_KEY_COMPONENTS },
+        { name: 'zeroForOne', type: 'bool' },
+        { name: 'exactAmount', type: 'uint128' },
+        { name: 'hookData', type: 'bytes' },
+      ],
+    }],
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+  },
+] as const;
+
+export const UNIVERSAL_ROUTER_ABI = parseAbi([
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline) payable',
+]);
+
+export const PERMIT2_ABI = parseAbi([
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+]);
+
+const ERC20_ALLOWANCE_ABI = parseAbi([
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+]);
+
+const MAX_UINT160 = BigInt(2) ** BigInt(160) - BigInt(1);
+
+// Permit2 allowances granted for a swap expire after this long
+const PERMIT2_EXPIRATION_SECONDS = 30 * 24 * 60 * 60;
+
+export interface V4ExactInputSingleParams {
+  poolKey: PoolKey;
+  zeroForOne: boolean; // true sells currency0 for currency1
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+  hookData?: `0x${string}`;
+}
+
+export interface V4Call {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value?: bigint;
+}
+
+/**
+ * Quote an exact-input single-pool swap with the V4 Quoter (simulated, never sent)
+ */
+export async function quoteV4ExactInputSingle(
+  params: Omit<V4ExactInputSingleParams, 'amountOutMinimum'>,
+  chainId: number = 11155111
+): Promise<{ amountOut: bigint; gasEstimate: bigint }> {
+  try {
+    // Encoded by hand: readContract's inference collapses the nested PoolKey tuple to never
+    const { data } = await getPublicClient(chainId).call({
+      to: UNISWAP_V4_CONTRACTS.Quoter,
+      data: encodeFunctionData({
+        abi: V4_QUOTER_ABI,
+        functionName: 'quoteExactInputSingle',
+        args: [{
+          poolKey: params.poolKey,
+          zeroForOne: params.zeroForOne,
+          exactAmount: params.amountIn,
+          hookData: params.hookData ?? '0x',
+        }],
+      }),
+    });
+    if (!data) {
+      throw new Error('Quoter returned no data');
+    }
+    const [amountOut, gasEstimate] = decodeFunctionResult({
+      abi: V4_QUOTER_ABI,
+      functionName: 'quoteExactInputSingle',
+      data,
+    });
+    return { amountOut, gasEstimate };
+  } catch (error) {
+    console.error("Error quoting V4 swap:", error);
+    throw new Error(`Failed to quote V4 swap: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Encode an exact-input single-pool swap as a Universal Router V4_SWAP command:
+ * SWAP_EXACT_IN_SINGLE, then SETTLE_ALL the input currency and TAKE_ALL the output.
+ */
+export function encodeV4ExactInputSingle(params: V4ExactInputSingleParams): {
+  commands: `0x${string}`;
+  inputs: `0x${string}`[];
+} {
+  const { poolKey, zeroForOne, amountIn, amountOutMinimum, hookData = '0x' } = params;
+  const [currencyIn, currencyOut] = zeroForOne
+    ? [poolKey.currency0, poolKey.currency1]
+    : [poolKey.currency1, poolKey.currency0];
+
+  const actions = encodePacked(
+    ['uint8', 'uint8', 'uint8'],
+    [V4_ACTIONS.SWAP_EXACT_IN_SINGLE, V4_ACTIONS.SETTLE_ALL, V4_ACTIONS.TAKE_ALL]
+  );
+
+  const swapParams = encodeAbiParameters(
+    EXACT_INPUT_SINGLE_PARAMS,
+    [{ poolKey, zeroForOne, amountIn, amountOutMinimum, hookData }]
+  );
+  const settleParams = encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [currencyIn, amountIn]);
+  const takeParams = encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [currencyOut, amountOutMinimum]);
+
+  const v4SwapInput = encodeAbiParameters(
+    [{ type: 'bytes' }, { type: 'bytes[]' }],
+    [actions, [swapParams, settleParams, takeParams]]
+  );
+
   return {
-    amountOut: amountOut.toFixed(fromToken.decimals),
-    priceImpact
+    commands: encodePacked(['uint8'], [V4_SWAP_COMMAND]),
+    inputs: [v4SwapInput],
   };
 }
 
 /**
- * Build V4 swap call data (through unlock mechanism)
+ * Universal Router call for an exact-input single-pool swap. Native ETH input is sent as value.
  */
-export function buildV4SwapCallData(
-  poolKey: typeof POOL_KEY,
-  swapParams: {
-    zeroForOne: boolean;
-    amountSpecified: bigint;
-    sqrtPriceLimitX96: bigint;
-  },
-  recipient: string
-): `0x${string}` {
-  
-  const unlockData = {
-    poolKey,
-    swapParams,
-    recipient,
-    operation: 'swap'
+export function buildV4SwapCall(params: V4ExactInputSingleParams, deadline: bigint): V4Call {
+  const { commands, inputs } = encodeV4ExactInputSingle(params);
+  const currencyIn = params.zeroForOne ? params.poolKey.currency0 : params.poolKey.currency1;
+
+  return {
+    to: UNISWAP_V4_CONTRACTS.UniversalRouter,
+    data: encodeFunctionData({
+      abi: UNIVERSAL_ROUTER_ABI,
+      functionName: 'execute',
+      args: [commands, inputs, deadline],
+    }),
+    value: currencyIn === NATIVE_CURRENCY ? params.amountIn : undefined,
   };
-  
-  return buildUnlockCallData('swap', unlockData);
+}
+
+/**
+ * Approvals the Universal Router needs to pull an ERC-20 through Permit2:
+ * token → Permit2 (once), then Permit2 → router for at least the amount.
+ * Returns no calls for native ETH or when allowances already cover the amount.
+ */
+export async function buildPermit2ApprovalCalls(
+  owner: `0x${string}`,
+  token: `0x${string}`,
+  amount: bigint,
+  chainId: number = 11155111
+): Promise<V4Call[]> {
+  if (token === NATIVE_CURRENCY) return [];
+
+  const client = getPublicClient(chainId);
+  const [tokenAllowance, [permitAmount, permitExpiration]] = await Promise.all([
+    client.readContract({
+      address: token,
+      abi: ERC20_ALLOWANCE_ABI,
+      functionName: 'allowance',
+      args: [owner, UNISWAP_V4_CONTRACTS.Permit2],
+    }),
+    client.readContract({
+      address: UNISWAP_V4_CONTRACTS.Permit2,
+      abi: PERMIT2_ABI,
+      functionName: 'allowance',
+      args: [owner, token, UNISWAP_V4_CONTRACTS.UniversalRouter],
+    }),
+  ]);
+
+  const calls: V4Call[] = [];
+  if (tokenAllowance < amount) {
+    calls.push({
+      to: token,
+      data: encodeFunctionData({ abi: ERC20_ALLOWANCE_ABI, functionName: 'approve', args: [UNISWAP_V4_CONTRACTS.Permit2, maxUint256] }),
+    });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (permitAmount < amount || permitExpiration <= now) {
+    calls.push({
+      to: UNISWAP_V4_CONTRACTS.Permit2,
+      data: encodeFunctionData({
+        abi: PERMIT2_ABI,
+        functionName: 'approve',
+        args: [token, UNISWAP_V4_CONTRACTS.UniversalRouter, amount > MAX_UINT160 ? MAX_UINT160 : amount, now + PERMIT2_EXPIRATION_SECONDS],
+      }),
+    });
+  }
+
+  return calls;
+}
+
+/**
+ * Every call for an exact-input V4 swap from a smart wallet (approvals, then the swap),
+ * ready to send as one batched user operation
+ */
+export async function buildV4SwapCalls(
+  owner: `0x${string}`,
+  params: V4ExactInputSingleParams,
+  deadline: bigint,
+  chainId: number = 11155111
+): Promise<V4Call[]> {
+  const currencyIn = params.zeroForOne ? params.poolKey.currency0 : params.poolKey.currency1;
+  const approvals = await buildPermit2ApprovalCalls(owner, currencyIn, params.amountIn, chainId);
+  return [...approvals, buildV4SwapCall(params, deadline)];
 }
 
 /**
@@ -274,9 +645,7 @@ export function buildV4SwapCallData(
  * 5. **Currency Type**: Native ETH and ERC20s use the same Currency interface
  * 6. **Pool Keys**: Pools are identified by a struct containing currencies, fee, tickSpacing, and hooks
  * 
- * For actual V4 integration, you'd need:
- * - Deploy or use existing hook contracts
- * - Implement proper unlock callback logic
- * - Handle V4's flash accounting system
- * - Use V4 SDK for more complex operations
+ * Swaps here go through the Universal Router's V4_SWAP command, which runs the
+ * unlock callback and flash accounting (settle input, take output) on our behalf.
+ * ERC-20 inputs are pulled through Permit2.
  */
\ No newline at end of file
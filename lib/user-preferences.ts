@@ -0,0 +1,56 @@
+import { DEFAULT_DISPLAY_CURRENCY, DisplayCurrency, isDisplayCurrency } from './fiat';
+
+const PREFERENCES_STORAGE_KEY = 'convexo-user-preferences';
+
+// Fired on window so every mounted hook picks up a change made elsewhere in the app
+export const PREFERENCES_CHANGED_EVENT = 'convexo-preferences-changed';
+
+export interface UserPreferences {
+  currency: DisplayCurrency;
+  language: string;
+  notifications: boolean;
+}
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  currency: DEFAULT_DISPLAY_CURRENCY,
+  language: 'en',
+  notifications: true,
+};
+
+const loadAllPreferences = (): Record<string, Partial<UserPreferences>> => {
+  if (typeof window === 'undefined') return {};
+
+  const saved = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+  if (!saved) return {};
+
+  try {
+    return JSON.parse(saved) as Record<string, Partial<UserPreferences>>;
+  } catch (error) {
+    console.error('Error loading user preferences:', error);
+    return {};
+  }
+};
+
+/**
+ * Load a user's preferences, filling in defaults for anything unset or invalid
+ */
+export function loadUserPreferences(userId: string): UserPreferences {
+  const saved = loadAllPreferences()[userId] ?? {};
+  return {
+    ...DEFAULT_USER_PREFERENCES,
+    ...saved,
+    currency: isDisplayCurrency(saved.currency) ? saved.currency : DEFAULT_USER_PREFERENCES.currency,
+  };
+}
+
+/**
+ * Merge and persist preference changes for a user; returns the updated preferences
+ */
+export function saveUserPreferences(userId: string, changes: Partial<UserPreferences>): UserPreferences {
+  const allPreferences = loadAllPreferences();
+  const updated = { ...loadUserPreferences(userId), ...changes };
+  allPreferences[userId] = updated;
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(allPreferences));
+  window.dispatchEvent(new CustomEvent(PREFERENCES_CHANGED_EVENT, { detail: { userId } }));
+  return updated;
+}
@@ -0,0 +1,180 @@
+/**
+ * Portfolio valuation
+ * Turns balances from lib/blockchain.ts into fiat values using a pluggable price source
+ */
+
+import { TokenBalance } from './blockchain';
+import { getTokenByAddress } from './chains';
+import { PricedToken, PriceOracle, PriceProvenance, createDefaultOracle } from './price-oracle';
+import { amountToNumber } from './amounts';
+
+export type { PricedToken } from './price-oracle';
+
+// All supported chains use ETH as their native currency
+const NATIVE_COINGECKO_ID = 'ethereum';
+
+export interface PriceQuote {
+  usdPrice: number;
+  source: string;
+  timestamp: Date;
+  provenance?: PriceProvenance;
+}
+
+export interface PriceSource {
+  name: string;
+  /** Returns prices keyed by PricedToken.key; tokens it cannot price are omitted */
+  getUsdPrices(tokens: PricedToken[]): Promise<Record<string, PriceQuote>>;
+}
+
+export interface TokenValuation {
+  key: string;
+  chainId: number;
+  symbol: string;
+  contract?: string;
+  amount: number;
+  usdPrice?: number;
+  usdValue?: number; // undefined when the token could not be priced
+  priceSource?: string;
+  priceTimestamp?: Date;
+  priceProvenance?: PriceProvenance;
+}
+
+export interface PortfolioValuation {
+  tokens: TokenValuation[];
+  totalUsd: number; // Sum of priced tokens only
+  unpricedTokens: TokenValuation[]; // Held but not included in totalUsd
+  sources: string[];
+  valuedAt: Date;
+}
+
+/**
+ * Stable price key for a token; prices are matched by identity, never by symbol
+ */
+export function getPriceKey(chainId: number, address?: string): string {
+  return `${chainId}:${address ? address.toLowerCase() : 'native'}`;
+}
+
+/**
+ * Describe a balance for price lookup. User-imported tokens carry no price id,
+ * so a token impersonating USDC is never valued as USDC.
+ */
+function toPricedToken(chainId: number, balance: TokenBalance): PricedToken {
+  const registryToken = balance.contract && !balance.isCustom
+    ? getTokenByAddress(chainId, balance.contract)
+    : undefined;
+
+  return {
+    key: getPriceKey(chainId, balance.contract),
+    chainId,
+    symbol: balance.symbol,
+    address: balance.contract,
+    coingeckoId: balance.contract ? registryToken?.coingeckoId : NATIVE_COINGECKO_ID,
+  };
+}
+
+/**
+ * Adapt a PriceOracle to the batch PriceSource interface
+ */
+export function oraclePriceSource(oracle: PriceOracle): PriceSource {
+  return {
+    name: oracle.name,
+    async getUsdPrices(tokens) {
+      const result: Record<string, PriceQuote> = {};
+      await Promise.all(tokens.map(async token => {
+        const price = await oracle.getPrice(token);
+        if (price) {
+          result[token.key] = {
+            usdPrice: price.usdPrice,
+            source: price.provenance.source,
+            timestamp: price.timestamp,
+            provenance: price.provenance,
+          };
+        }
+      }));
+      return result;
+    },
+  };
+}
+
+/**
+ * Try sources in order; later sources only price what earlier ones missed.
+ * A failing source is logged and skipped.
+ */
+export function combinePriceSources(...sources: PriceSource[]): PriceSource {
+  return {
+    name: sources.map(source => source.name).join('+'),
+    async getUsdPrices(tokens) {
+      const result: Record<string, PriceQuote> = {};
+      for (const source of sources) {
+        const remaining = tokens.filter(token => !result[token.key]);
+        if (remaining.length === 0) break;
+        try {
+          Object.assign(result, await source.getUsdPrices(remaining));
+        } catch (error) {
+          console.warn(`⚠️ Price source ${source.name} failed:`, error);
+        }
+      }
+      return result;
+    },
+  };
+}
+
+export const defaultPriceSource = oraclePriceSource(createDefaultOracle());
+
+/**
+ * Value balances across chains. Tokens without a price are reported in
+ * unpricedTokens instead of being counted as zero or guessed.
+ */
+export async function valuePortfolio(
+  allChainsBalances: { [chainId: number]: TokenBalance[] },
+  priceSource: PriceSource = defaultPriceSource
+): Promise<PortfolioValuation> {
+  const held = Object.entries(allChainsBalances).flatMap(([chainId, balances]) =>
+    balances
+      .filter(balance => !balance.error && balance.amount && balance.amount.raw > BigInt(0))
+      .map(balance => ({ balance, priced: toPricedToken(parseInt(chainId), balance) }))
+  );
+
+  const prices = held.length > 0
+    ? await priceSource.getUsdPrices(held.map(entry => entry.priced))
+    : {};
+
+  const tokens: TokenValuation[] = held.map(({ balance, priced }) => {
+    const amount = balance.amount ? amountToNumber(balance.amount) : 0;
+    const quote = prices[priced.key];
+    return {
+      key: priced.key,
+      chainId: priced.chainId,
+      symbol: priced.symbol,
+      contract: priced.address,
+      amount,
+      usdPrice: quote?.usdPrice,
+      usdValue: quote ? amount * quote.usdPrice : undefined,
+      priceSource: quote?.source,
+      priceTimestamp: quote?.timestamp,
+      priceProvenance: quote?.provenance,
+    };
+  });
+
+  const pricedTokens = tokens.filter(token => token.usdValue !== undefined);
+
+  return {
+    tokens,
+    totalUsd: pricedTokens.reduce((total, token) => total + (token.usdValue ?? 0), 0),
+    unpricedTokens: tokens.filter(token => token.usdValue === undefined),
+    sources: Array.from(new Set(pricedTokens.flatMap(token => token.priceSource ? [token.priceSource] : []))),
+    valuedAt: new Date(),
+  };
+}
+
+/**
+ * Total fiat value per symbol, for summary cards
+ */
+export function getUsdValueBySymbol(valuation: PortfolioValuation): Record<string, number> {
+  return valuation.tokens.reduce<Record<string, number>>((totals, token) => {
+    if (token.usdValue !== undefined) {
+      totals[token.symbol] = (totals[token.symbol] || 0) + token.usdValue;
+    }
+    return totals;
+  }, {});
+}
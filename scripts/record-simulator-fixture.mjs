@@ -0,0 +1,151 @@
+/**
+ * Records a V3 pool snapshot and the matching QuoterV2 quotes as a fixture for the swap simulator
+ * tests (lib/__tests__/uniswap-v3-simulator.test.ts). Every read is pinned to one block:
+ *
+ *   RPC_URL=https://... POOL=0x... AMOUNTS0=1000000 AMOUNTS1=5000000000000000000 \
+ *     node scripts/record-simulator-fixture.mjs > lib/__tests__/fixtures/my-pool.json
+ *
+ * Environment:
+ *   RPC_URL       JSON-RPC endpoint (default http://localhost:8545)
+ *   POOL          pool to snapshot
+ *   QUOTER        QuoterV2 address (default Sepolia's)
+ *   AMOUNTS0      comma-separated raw token0 amounts, sold for token1 (exact input) and bought with it (exact output)
+ *   AMOUNTS1      comma-separated raw token1 amounts, the same the other way round
+ *   WORDS_AROUND  bitmap words read on either side of the current tick, as in loadPoolSnapshot (default 2)
+ *   SOURCE        free-text note on where the pool state comes from, kept in the fixture
+ */
+
+import { createPublicClient, http, parseAbi } from 'viem';
+
+const RPC_URL = process.env.RPC_URL ?? 'http://localhost:8545';
+const POOL = process.env.POOL;
+const QUOTER = process.env.QUOTER ?? '0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3';
+const WORDS_AROUND = Number(process.env.WORDS_AROUND ?? 2);
+const parseAmounts = value => (value ?? '').split(',').filter(Boolean).map(amount => BigInt(amount.trim()));
+const AMOUNTS0 = parseAmounts(process.env.AMOUNTS0);
+const AMOUNTS1 = parseAmounts(process.env.AMOUNTS1);
+
+if (!POOL) {
+  console.error('❌ Set POOL to the pool address to record');
+  process.exit(1);
+}
+
+const POOL_ABI = parseAbi([
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16, uint16, uint16, uint8, bool)',
+  'function liquidity() view returns (uint128)',
+  'function fee() view returns (uint24)',
+  'function tickSpacing() view returns (int24)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  'function ticks(int24 tick) view returns (uint128, int128 liquidityNet, uint256, uint256, int56, uint160, uint32, bool)',
+]);
+
+// QuoterV2 quotes revert internally and are only meant for eth_call, so they are typed as view here
+const QUOTER_ABI = parseAbi([
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) ' +
+    'view returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+  'function quoteExactOutputSingle((address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96) params) ' +
+    'view returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+]);
+
+// Same bounds as lib/uniswap-v3-math.ts
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+const MIN_SQRT_RATIO = BigInt('4295128739');
+const MAX_SQRT_RATIO = BigInt('1461446703485210103287273052203988822378723970342');
+
+const client = createPublicClient({ transport: http(RPC_URL) });
+const chainId = await client.getChainId();
+const blockNumber = await client.getBlockNumber();
+const read = (functionName, args = []) => client.readContract({ address: POOL, abi: POOL_ABI, functionName, args, blockNumber });
+
+const [[sqrtPriceX96, tick], liquidity, fee, tickSpacing, token0, token1] = await Promise.all([
+  read('slot0'),
+  read('liquidity'),
+  read('fee'),
+  read('tickSpacing'),
+  read('token0'),
+  read('token1'),
+]);
+
+const wordOf = tickIndex => Math.floor(tickIndex / tickSpacing) >> 8;
+const words = [];
+for (let word = Math.max(wordOf(tick) - WORDS_AROUND, wordOf(MIN_TICK)); word <= Math.min(wordOf(tick) + WORDS_AROUND, wordOf(MAX_TICK)); word++) {
+  words.push(word);
+}
+
+const tickBitmap = {};
+const liquidityNet = {};
+for (const word of words) {
+  const bits = await read('tickBitmap', [word]);
+  tickBitmap[word] = bits.toString();
+  for (let bit = 0; bit < 256; bit++) {
+    if ((bits >> BigInt(bit)) & BigInt(1)) {
+      const initializedTick = (word * 256 + bit) * tickSpacing;
+      const [, net] = await read('ticks', [initializedTick]);
+      liquidityNet[initializedTick] = net.toString();
+    }
+  }
+}
+
+// zeroForOne sells token0: exact input in token0 amounts, exact output in token1 amounts
+const cases = [
+  ...AMOUNTS0.map(amount => ({ zeroForOne: true, exactInput: true, amount })),
+  ...AMOUNTS1.map(amount => ({ zeroForOne: true, exactInput: false, amount })),
+  ...AMOUNTS1.map(amount => ({ zeroForOne: false, exactInput: true, amount })),
+  ...AMOUNTS0.map(amount => ({ zeroForOne: false, exactInput: false, amount })),
+];
+
+const quotes = [];
+for (const { zeroForOne, exactInput, amount } of cases) {
+  const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+  const label = `${zeroForOne ? 'token0 → token1' : 'token1 → token0'} ${exactInput ? 'exact input' : 'exact output'} ${amount}`;
+  try {
+    const [quoted, sqrtPriceX96After, initializedTicksCrossed] = await client.readContract({
+      address: QUOTER,
+      abi: QUOTER_ABI,
+      functionName: exactInput ? 'quoteExactInputSingle' : 'quoteExactOutputSingle',
+      args: [exactInput
+        ? { tokenIn, tokenOut, amountIn: amount, fee, sqrtPriceLimitX96: BigInt(0) }
+        : { tokenIn, tokenOut, amount, fee, sqrtPriceLimitX96: BigInt(0) }],
+      blockNumber,
+    });
+    // QuoterV2 answers an exact input the pool cannot absorb with a partial fill at the default price limit
+    if (sqrtPriceX96After === MIN_SQRT_RATIO + BigInt(1) || sqrtPriceX96After === MAX_SQRT_RATIO - BigInt(1)) {
+      console.error(`⚠️ ${label} drains the pool, skipped`);
+      continue;
+    }
+    quotes.push({
+      zeroForOne,
+      exactInput,
+      amountIn: (exactInput ? amount : quoted).toString(),
+      amountOut: (exactInput ? quoted : amount).toString(),
+      sqrtPriceX96After: sqrtPriceX96After.toString(),
+      initializedTicksCrossed,
+    });
+    console.error(`✅ ${label}: ${quoted}`);
+  } catch (error) {
+    console.error(`⚠️ ${label} could not be quoted, skipped: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+}
+
+console.log(JSON.stringify({
+  source: process.env.SOURCE ?? `${RPC_URL} chain ${chainId}`,
+  chainId,
+  blockNumber: blockNumber.toString(),
+  quoter: QUOTER,
+  pool: {
+    address: POOL,
+    token0,
+    token1,
+    fee,
+    tickSpacing,
+    sqrtPriceX96: sqrtPriceX96.toString(),
+    tick,
+    liquidity: liquidity.toString(),
+    tickBitmap,
+    liquidityNet,
+  },
+  quotes,
+}, null, 2));
@@ -0,0 +1,174 @@
+/**
+ * Local fixture server for the Uniswap subgraph client (lib/subgraph-client.ts)
+ * Answers the app's queries with canned V3 and V4 data so subgraph code can be exercised offline:
+ *
+ *   npm run subgraph:fixtures
+ *   NEXT_PUBLIC_SUBGRAPH_ENDPOINTS='{"11155111":{"v3":"http://localhost:4350/v3","v4":"http://localhost:4350/v4"}}' npm run dev
+ *
+ * Environment:
+ *   PORT            listen port (default 4350)
+ *   POSITION_COUNT  positions returned for any owner, enough to need several pages (default 2500)
+ *   FAIL_FIRST      answer the first N requests with HTTP 503 to exercise retries (default 0)
+ *   INDEXER_ERRORS  answer the next N requests with a transient GraphQL indexer error (default 0)
+ *   DELAY_MS        delay every response, e.g. past the client timeout (default 0)
+ */
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 4350);
+const POSITION_COUNT = Number(process.env.POSITION_COUNT ?? 2500);
+const DELAY_MS = Number(process.env.DELAY_MS ?? 0);
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+let indexerErrorsLeft = Number(process.env.INDEXER_ERRORS ?? 0);
+
+const DAY = 24 * 60 * 60;
+const HOUR = 60 * 60;
+const now = Math.floor(Date.now() / 1000);
+const today = now - (now % DAY);
+const thisHour = now - (now % HOUR);
+
+const COPE = { id: '0x19ac2612e560b2bbedf88660a2566ef53c0a15a1', symbol: 'COPe', name: 'Electronic Colombian Peso', decimals: '18' };
+const USDC = { id: '0x1c7d4b196cb0c7b01d743fbc6116a902379c7238', symbol: 'USDC', name: 'USD Coin', decimals: '6' };
+
+// Entity ids are strings, so graph-node orders and filters them lexicographically
+const byId = (a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+function pool(id, version) {
+  return {
+    id,
+    token0: COPE,
+    token1: USDC,
+    feeTier: '3000',
+    liquidity: '184467440737095516',
+    sqrtPrice: '78697401148047620308',
+    tick: '-200450',
+    token0Price: '4000.123456',
+    token1Price: '0.000249992284',
+    volumeUSD: '125432.55',
+    totalValueLockedUSD: '48211.09',
+    totalValueLockedToken0: '96422180.5',
+    totalValueLockedToken1: '24105.54',
+    feesUSD: '376.29',
+    ...(version === 'v4' ? { hooks: '0x0000000000000000000000000000000000000000', tickSpacing: '60' } : {}),
+    poolDayData: [dayData(0)].map(({ date, tvlUSD, volumeUSD, feesUSD }) => ({ date, tvlUSD, volumeUSD, feesUSD })),
+  };
+}
+
+function dayData(daysAgo) {
+  const volume = 2000 + ((daysAgo * 733) % 1500);
+  return {
+    date: today - daysAgo * DAY,
+    tvlUSD: (48000 - daysAgo * 40).toFixed(2),
+    volumeUSD: volume.toFixed(2),
+    feesUSD: (volume * 0.003).toFixed(4),
+    high: '0.00025012',
+    low: '0.00024988',
+    open: '0.00025001',
+    close: '0.00024999',
+  };
+}
+
+function position(index, owner) {
+  const tickLower = -201000 + (index % 10) * 60;
+  return {
+    id: String(index + 1),
+    owner,
+    pool: { id: '0x4d6e3a4c1b7f1e3f2d2a5b3c9e8f7a6b5c4d3e2f', token0: { symbol: 'COPe' }, token1: { symbol: 'USDC' }, feeTier: '3000' },
+    liquidity: String(1000000000000 + index),
+    tickLower: { tickIdx: String(tickLower) },
+    tickUpper: { tickIdx: String(tickLower + 1200) },
+    depositedToken0: '40000',
+    depositedToken1: '10',
+    withdrawnToken0: '0',
+    withdrawnToken1: '0',
+    collectedFeesToken0: '12.5',
+    collectedFeesToken1: '0.003',
+    transaction: { blockNumber: String(6000000 + index), timestamp: String(now - (POSITION_COUNT - index) * HOUR) },
+  };
+}
+
+const resolvers = {
+  GetPool: ({ poolId }, version) => ({ pool: pool(poolId, version) }),
+
+  GetPoolDayData: ({ days }) => ({ poolDayDatas: Array.from({ length: Math.min(days, 1000) }, (_, daysAgo) => dayData(daysAgo)) }),
+
+  GetUserPositions: ({ user, first, lastId }, version) => {
+    if (version !== 'v3') throw new Error('Type `Position` has no field `pool`');
+    const positions = Array.from({ length: POSITION_COUNT }, (_, index) => position(index, user))
+      .sort(byId)
+      .filter(entry => entry.id > lastId);
+    return { positions: positions.slice(0, Math.min(first, 1000)) };
+  },
+
+  GetV3PoolMetrics: () => ({
+    pool: {
+      totalValueLockedUSD: '48211.09',
+      poolHourData: Array.from({ length: 24 }, (_, hoursAgo) => ({
+        periodStartUnix: thisHour - hoursAgo * HOUR,
+        volumeUSD: (80 + hoursAgo).toFixed(2),
+        feesUSD: ((80 + hoursAgo) * 0.003).toFixed(4),
+      })),
+    },
+  }),
+};
+
+function respond(response, status, body) {
+  setTimeout(() => {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    response.end(JSON.stringify(body));
+  }, DELAY_MS);
+}
+
+const server = createServer((request, response) => {
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Methods': 'POST',
+    });
+    response.end();
+    return;
+  }
+
+  const version = request.url?.replace(/\/$/, '').split('/').pop();
+  if (request.method !== 'POST' || (version !== 'v3' && version !== 'v4')) {
+    respond(response, 404, { errors: [{ message: 'POST GraphQL queries to /v3 or /v4' }] });
+    return;
+  }
+
+  let raw = '';
+  request.on('data', chunk => {
+    raw += chunk;
+  });
+  request.on('end', () => {
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`💥 ${version} request failed on purpose (${failuresLeft} left)`);
+      respond(response, 503, { errors: [{ message: 'Service unavailable' }] });
+      return;
+    }
+
+    try {
+      const { query, variables = {} } = JSON.parse(raw);
+      const operation = /query\s+(\w+)/.exec(query)?.[1];
+      const resolve = operation && resolvers[operation];
+      if (!resolve) throw new Error(`Unknown operation ${operation ?? '(anonymous)'}`);
+
+      if (indexerErrorsLeft > 0) {
+        indexerErrorsLeft--;
+        console.log(`💥 ${version} ${operation} indexer error on purpose (${indexerErrorsLeft} left)`);
+        respond(response, 200, { errors: [{ message: 'bad indexers: all indexers unavailable' }] });
+        return;
+      }
+
+      console.log(`✅ ${version} ${operation}`, JSON.stringify(variables));
+      respond(response, 200, { data: resolve(variables, version) });
+    } catch (error) {
+      respond(response, 200, { errors: [{ message: error instanceof Error ? error.message : 'Unknown error' }] });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Subgraph fixture server on http://localhost:${PORT} (/v3, /v4)`);
+});